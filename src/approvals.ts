@@ -0,0 +1,220 @@
+/**
+ * P2P Inject Approvals
+ *
+ * Injects from peers whose grant requires approval are parked here instead
+ * of running. The requester gets a "pending approval" ack with a job id and
+ * the owner is notified. An approved inject runs and its response is dialed
+ * back as for an async inject; a denied one, or one left undecided past the
+ * approval timeout, gets the reason dialed back instead. Only approved
+ * injects count against the peer's quota.
+ *
+ * The queue is persisted so parked injects survive restarts.
+ */
+
+import { randomBytes } from "node:crypto";
+import { getP2PConfig } from "./config.js";
+import { emitP2PEvent } from "./events.js";
+import { admitInject } from "./quotas.js";
+import type { P2PPendingInjectRow } from "./storage-schema.js";
+import type { InjectTrace } from "./trace.js";
+import type { PendingInject, StorageApi } from "./types.js";
+
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 60 * 60 * 1000;
+const MAX_PENDING_INJECTS = 100;
+
+// Module-level storage reference and cache
+let _storage: StorageApi | null = null;
+const _pending: Map<string, PendingInject> = new Map();
+const _timers: Map<string, NodeJS.Timeout> = new Map();
+
+// Runs an approved inject, or dials back the reason a denied one was refused
+let runner: ((pending: PendingInject, denyReason?: string) => Promise<unknown>) | null = null;
+// Tells the owner an inject is waiting
+let notifier: ((pending: PendingInject) => void) | null = null;
+
+/**
+ * Register the handler that carries out decisions. Timeouts start once it
+ * is set, so injects loaded at startup are not denied before it exists.
+ */
+export function setApprovalRunner(
+  handler: ((pending: PendingInject, denyReason?: string) => Promise<unknown>) | null,
+): void {
+  runner = handler;
+  if (runner) {
+    for (const pending of _pending.values()) {
+      armTimeout(pending);
+    }
+  }
+}
+
+/**
+ * Register the handler called when an inject is parked.
+ */
+export function setApprovalNotifier(handler: ((pending: PendingInject) => void) | null): void {
+  notifier = handler;
+}
+
+export function setApprovalStorage(storage: StorageApi): void {
+  _storage = storage;
+}
+
+export async function loadPendingInjects(): Promise<void> {
+  if (!_storage) return;
+  const repo = _storage.getRepository<P2PPendingInjectRow>("p2p", "pending_injects");
+  const rows: P2PPendingInjectRow[] = await repo.findMany();
+  _pending.clear();
+  for (const row of rows.sort((a, b) => a.created - b.created)) {
+    _pending.set(row.id, { ...row });
+  }
+  if (runner) {
+    for (const pending of _pending.values()) {
+      armTimeout(pending);
+    }
+  }
+}
+
+function armTimeout(pending: PendingInject): void {
+  clearTimeout(_timers.get(pending.id));
+  const timer = setTimeout(
+    () => denyInject(pending.id, "approval timed out"),
+    Math.max(0, pending.expiresAt - Date.now()),
+  );
+  timer.unref?.();
+  _timers.set(pending.id, timer);
+}
+
+/**
+ * Remove an inject from the queue. Returns it, or undefined if it was not
+ * waiting.
+ */
+function takePending(id: string): PendingInject | undefined {
+  const pending = _pending.get(id);
+  if (!pending) return undefined;
+  _pending.delete(id);
+  clearTimeout(_timers.get(id));
+  _timers.delete(id);
+  _storage
+    ?.getRepository<P2PPendingInjectRow>("p2p", "pending_injects")
+    .delete(id)
+    .catch(() => {});
+  return pending;
+}
+
+/**
+ * Park an inject until the owner decides on it, and notify the owner.
+ * Returns the queued inject, or undefined if the queue is full. The same
+ * peer parking the same job id again gets the inject already waiting.
+ */
+export function queueInject(
+  jobId: string,
+  peerKey: string,
+  session: string,
+  message: string,
+  trace: InjectTrace,
+): PendingInject | undefined {
+  // Job ids are chosen by the peer, so they only identify a retry from that peer
+  const existing = Array.from(_pending.values()).find((p) => p.peerKey === peerKey && p.jobId === jobId);
+  if (existing) return existing;
+  if (_pending.size >= MAX_PENDING_INJECTS) return undefined;
+
+  const now = Date.now();
+  const id = randomBytes(16).toString("hex");
+  const pending: PendingInject = {
+    id,
+    jobId,
+    peerKey,
+    session,
+    message,
+    traceId: trace.traceId,
+    hops: trace.hops,
+    created: now,
+    expiresAt: now + (getP2PConfig().approvalTimeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS),
+  };
+  _pending.set(id, pending);
+  _storage
+    ?.getRepository<P2PPendingInjectRow>("p2p", "pending_injects")
+    .insert({ ...pending })
+    .catch(() => {});
+  if (runner) {
+    armTimeout(pending);
+  }
+  emitP2PEvent({ type: "inject-pending", jobId: id, from: peerKey, session });
+  notifier?.(pending);
+  return pending;
+}
+
+/**
+ * List injects waiting for approval, oldest first.
+ */
+export function getPendingInjects(): PendingInject[] {
+  return Array.from(_pending.values());
+}
+
+export function getPendingInject(id: string): PendingInject | undefined {
+  return _pending.get(id);
+}
+
+/**
+ * Decisions are carried out by the listener's runner. Without one the
+ * requester could not be answered, so the inject must stay queued.
+ */
+function requireRunner(): void {
+  if (!runner) {
+    throw new Error("The P2P listener is not running, so the inject stays queued. Decide once it is running.");
+  }
+}
+
+/**
+ * Approve a parked inject: count it against the peer's quota, run it and
+ * dial the response back to the requester. If the quota has run out while
+ * it waited, it is denied instead. Returns the inject, or undefined if it
+ * was not waiting. Throws, leaving it queued, if the listener is not running.
+ */
+export function approveInject(id: string): PendingInject | undefined {
+  if (!_pending.has(id)) return undefined;
+  requireRunner();
+  const pending = takePending(id);
+  if (!pending) return undefined;
+  if (!admitInject(pending.peerKey)) {
+    emitP2PEvent({
+      type: "inject-decided",
+      jobId: id,
+      from: pending.peerKey,
+      approved: false,
+      reason: "quota exceeded",
+    });
+    runner?.(pending, "quota exceeded").catch(() => {});
+    return pending;
+  }
+  emitP2PEvent({ type: "inject-decided", jobId: id, from: pending.peerKey, approved: true });
+  runner?.(pending).catch(() => {});
+  return pending;
+}
+
+/**
+ * Deny a parked inject and dial the reason back to the requester. Returns
+ * the inject, or undefined if it was not waiting. Throws, leaving it
+ * queued, if the listener is not running.
+ */
+export function denyInject(id: string, reason = "denied"): PendingInject | undefined {
+  if (!_pending.has(id)) return undefined;
+  requireRunner();
+  const pending = takePending(id);
+  if (!pending) return undefined;
+  emitP2PEvent({ type: "inject-decided", jobId: id, from: pending.peerKey, approved: false, reason });
+  runner?.(pending, reason).catch(() => {});
+  return pending;
+}
+
+/**
+ * Clear the queue and handlers (for testing).
+ */
+export function resetApprovals(): void {
+  for (const timer of _timers.values()) {
+    clearTimeout(timer);
+  }
+  _timers.clear();
+  _pending.clear();
+  runner = null;
+  notifier = null;
+}
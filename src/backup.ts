@@ -0,0 +1,359 @@
+/**
+ * P2P Identity Backup
+ *
+ * Exports the identity, peers (with their key history), access grants,
+ * friends and auto-accept rules as a single versioned bundle, and restores
+ * them from one. Full backups are sealed with a passphrase (see keystore.ts);
+ * a contacts backup holds only public contact data and is sealed only if a
+ * passphrase is given. Either way the bundle is signed by the exporting
+ * identity and carries a checksum of its contents, both verified on import.
+ *
+ * Import merges into what is already here. Records that exist on both
+ * sides are kept ("skip", the default) or overwritten ("replace"); a
+ * contacts backup only ever updates the public fields of a local record.
+ */
+
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { getAutoAcceptRules, getFriends, restoreFriends } from "./friends.js";
+import {
+  getIdentity,
+  isIdentityLocked,
+  saveIdentityAsync,
+  shortKey,
+  signMessage,
+  verifySignature,
+} from "./identity.js";
+import { deriveSealingKey, getSealingParams, MIN_PASSPHRASE_LENGTH, sealValue, unsealValue } from "./keystore.js";
+import { getAccessGrants, getPeers, saveAccessGrants, savePeers } from "./trust.js";
+import type {
+  BackupBundle,
+  BackupConflict,
+  BackupContents,
+  BackupImportCounts,
+  BackupImportResult,
+  BackupKind,
+  Friend,
+  Peer,
+} from "./types.js";
+
+const BACKUP_FORMAT = "wopr-p2p-backup";
+const BACKUP_VERSION = 1;
+
+const KeyHistorySchema = z.array(
+  z.object({
+    publicKey: z.string(),
+    encryptPub: z.string(),
+    validFrom: z.number(),
+    validUntil: z.number().optional(),
+    rotationReason: z.string().optional(),
+  }),
+);
+
+// Checks the fields import relies on; the rest is carried over as exported
+const BackupContentsSchema = z.object({
+  identity: z
+    .object({
+      publicKey: z.string(),
+      privateKey: z.string(),
+      encryptPub: z.string(),
+      encryptPriv: z.string(),
+      created: z.number(),
+      rotatedFrom: z.string().optional(),
+      rotatedAt: z.number().optional(),
+    })
+    .optional(),
+  peers: z.array(
+    z
+      .object({
+        id: z.string(),
+        publicKey: z.string(),
+        sessions: z.array(z.string()),
+        caps: z.array(z.string()),
+        added: z.number(),
+        keyHistory: KeyHistorySchema.optional(),
+      })
+      .passthrough(),
+  ),
+  grants: z.array(
+    z
+      .object({ id: z.string(), peerKey: z.string(), sessions: z.array(z.string()), caps: z.array(z.string()) })
+      .passthrough(),
+  ),
+  friends: z.array(
+    z
+      .object({ name: z.string(), publicKey: z.string(), encryptPub: z.string(), caps: z.array(z.string()) })
+      .passthrough(),
+  ),
+  autoAccept: z.array(z.object({ pattern: z.string(), addedAt: z.number() })),
+});
+
+const BackupBundleSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  v: z.number(),
+  kind: z.enum(["full", "contacts"]),
+  created: z.number(),
+  publicKey: z.string(),
+  checksum: z.string(),
+  sealed: z.string().optional(),
+  contents: z.unknown().optional(),
+  sig: z.string(),
+});
+
+export interface ExportBackupOptions {
+  passphrase?: string; // Required for full backups
+  contactsOnly?: boolean; // Export only public contact data
+}
+
+export interface ImportBackupOptions {
+  passphrase?: string; // Required if the bundle is sealed
+  onConflict?: BackupConflict;
+  replaceIdentity?: boolean; // Overwrite a different local identity with the one in the bundle
+  contactsOnly?: boolean; // Refuse anything but a contacts backup
+}
+
+function checksumOf(contents: BackupContents): string {
+  return createHash("sha256").update(JSON.stringify(contents)).digest("hex");
+}
+
+function contactPeer(peer: Peer): Peer {
+  return {
+    id: peer.id,
+    publicKey: peer.publicKey,
+    encryptPub: peer.encryptPub,
+    name: peer.name,
+    sessions: [],
+    caps: [],
+    added: peer.added,
+    keyHistory: peer.keyHistory,
+  };
+}
+
+function contactFriend(friend: Friend): Friend {
+  return {
+    name: friend.name,
+    publicKey: friend.publicKey,
+    encryptPub: friend.encryptPub,
+    sessionName: friend.sessionName,
+    addedAt: friend.addedAt,
+    caps: [],
+    channel: friend.channel,
+  };
+}
+
+/**
+ * Export the identity and trust data as a signed bundle (JSON). Throws if
+ * there is no unlocked identity, or a full backup is asked for without a
+ * usable passphrase.
+ */
+export async function exportBackup(options: ExportBackupOptions = {}): Promise<string> {
+  const identity = getIdentity();
+  if (!identity) {
+    throw new Error(isIdentityLocked() ? "Identity is locked" : "No identity to back up");
+  }
+  const kind: BackupKind = options.contactsOnly ? "contacts" : "full";
+  const { passphrase } = options;
+  if (kind === "full" && !passphrase) {
+    throw new Error("Full backups need a passphrase");
+  }
+  if (passphrase !== undefined && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrases must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const contents: BackupContents =
+    kind === "full"
+      ? {
+          identity,
+          peers: getPeers(),
+          grants: getAccessGrants(),
+          friends: getFriends(),
+          autoAccept: getAutoAcceptRules(),
+        }
+      : {
+          peers: getPeers().map(contactPeer),
+          grants: [],
+          friends: getFriends().map(contactFriend),
+          autoAccept: [],
+        };
+
+  const bundle = signMessage({
+    format: BACKUP_FORMAT,
+    v: BACKUP_VERSION,
+    kind,
+    created: Date.now(),
+    publicKey: identity.publicKey,
+    checksum: checksumOf(contents),
+    ...(passphrase
+      ? { sealed: sealValue(JSON.stringify(contents), await deriveSealingKey(passphrase)) }
+      : { contents }),
+  });
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Verify a bundle and read its contents. Throws if it is malformed, the
+ * signature or checksum does not match, or the passphrase is wrong.
+ */
+async function openBackup(
+  text: string,
+  passphrase?: string,
+): Promise<{ bundle: BackupBundle; contents: BackupContents }> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Not a backup file");
+  }
+  const parsed = BackupBundleSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error("Not a backup file");
+  }
+  const bundle = parsed.data as BackupBundle;
+  if (bundle.v !== BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${bundle.v}`);
+  }
+  // Verify the bundle as it was parsed, so the signed bytes are reproduced
+  if (!verifySignature(raw as BackupBundle, bundle.publicKey)) {
+    throw new Error("Backup signature is invalid");
+  }
+
+  if (bundle.kind === "full" && !bundle.sealed) {
+    throw new Error("Full backups must be encrypted");
+  }
+
+  let rawContents: unknown = bundle.contents;
+  if (bundle.sealed) {
+    if (!passphrase) {
+      throw new Error("Backup is encrypted; a passphrase is required");
+    }
+    const salt = Buffer.from(getSealingParams(bundle.sealed).param, "base64");
+    rawContents = JSON.parse(unsealValue(bundle.sealed, await deriveSealingKey(passphrase, salt)));
+  }
+  const contents = BackupContentsSchema.safeParse(rawContents);
+  if (!contents.success) {
+    throw new Error("Backup contents are malformed");
+  }
+  if (checksumOf(rawContents as BackupContents) !== bundle.checksum) {
+    throw new Error("Backup checksum does not match its contents");
+  }
+  if (bundle.kind === "contacts" && (contents.data.identity || contents.data.grants.length > 0)) {
+    throw new Error("Contacts backups cannot carry an identity or grants");
+  }
+  if (contents.data.identity && contents.data.identity.publicKey !== bundle.publicKey) {
+    throw new Error("Backup identity does not match the key that signed it");
+  }
+  return { bundle, contents: rawContents as BackupContents };
+}
+
+/**
+ * Merge incoming records into local ones by key. Returns the merged list
+ * and what happened to each incoming record.
+ */
+function mergeRecords<T>(
+  local: T[],
+  incoming: T[],
+  keyOf: (record: T) => string,
+  onConflict: BackupConflict,
+  replace: (existing: T, record: T) => T,
+): { records: T[]; counts: BackupImportCounts } {
+  const records = [...local];
+  const counts: BackupImportCounts = { added: 0, replaced: 0, skipped: 0 };
+  for (const record of incoming) {
+    const idx = records.findIndex((r) => keyOf(r) === keyOf(record));
+    if (idx === -1) {
+      records.push(record);
+      counts.added++;
+    } else if (onConflict === "replace") {
+      records[idx] = replace(records[idx], record);
+      counts.replaced++;
+    } else {
+      counts.skipped++;
+    }
+  }
+  return { records, counts };
+}
+
+/**
+ * Restore a backup bundle into this node. Throws without changing anything
+ * if the bundle does not verify, the local identity is locked, or the
+ * bundle holds a different identity and replaceIdentity is not set. A
+ * replaced identity is only used by the listener after a restart.
+ */
+export async function importBackup(text: string, options: ImportBackupOptions = {}): Promise<BackupImportResult> {
+  const { bundle, contents } = await openBackup(text, options.passphrase);
+  const onConflict = options.onConflict ?? "skip";
+  const contactsOnly = bundle.kind === "contacts";
+  if (options.contactsOnly && !contactsOnly) {
+    throw new Error("Only contacts backups can be restored here. Restore full backups with wopr p2p import.");
+  }
+
+  if (isIdentityLocked()) {
+    throw new Error("Identity is locked. Unlock it before restoring a backup.");
+  }
+  const local = getIdentity();
+  let identityResult: BackupImportResult["identity"] = "none";
+  if (contents.identity) {
+    if (!local) {
+      identityResult = "restored";
+    } else if (local.publicKey === contents.identity.publicKey) {
+      identityResult = "unchanged";
+    } else if (options.replaceIdentity) {
+      identityResult = "replaced";
+    } else {
+      throw new Error(
+        `Backup holds a different identity (${shortKey(contents.identity.publicKey)}). Use replaceIdentity to overwrite ${shortKey(local.publicKey)}.`,
+      );
+    }
+  }
+
+  // A contacts backup never carries access, so keep the local record's
+  const peers = mergeRecords(
+    getPeers(),
+    contents.peers,
+    (p) => p.publicKey,
+    onConflict,
+    (existing, peer) =>
+      contactsOnly
+        ? { ...existing, encryptPub: peer.encryptPub, name: peer.name ?? existing.name, keyHistory: peer.keyHistory }
+        : peer,
+  );
+  const grants = mergeRecords(
+    getAccessGrants(),
+    contents.grants,
+    (g) => g.id,
+    onConflict,
+    (_, grant) => grant,
+  );
+  const friends = mergeRecords(
+    getFriends(),
+    contents.friends,
+    (f) => f.publicKey,
+    onConflict,
+    (existing, friend) => (contactsOnly ? { ...existing, name: friend.name, encryptPub: friend.encryptPub } : friend),
+  );
+  const autoAccept = mergeRecords(
+    getAutoAcceptRules(),
+    contents.autoAccept,
+    (r) => r.pattern,
+    onConflict,
+    (_, rule) => rule,
+  );
+
+  if (contents.identity && identityResult !== "unchanged") {
+    // Sealed with the current sealing key, if there is one
+    await saveIdentityAsync(contents.identity);
+  }
+  savePeers(peers.records);
+  saveAccessGrants(grants.records);
+  restoreFriends(friends.records, autoAccept.records);
+
+  return {
+    kind: bundle.kind,
+    exportedBy: shortKey(bundle.publicKey),
+    identity: identityResult,
+    peers: peers.counts,
+    grants: grants.counts,
+    friends: friends.counts,
+    autoAccept: autoAccept.counts,
+  };
+}
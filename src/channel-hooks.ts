@@ -5,6 +5,7 @@
  * (Discord, Slack, Telegram, etc.).
  *
  * This allows the friending protocol to work across any messaging channel.
+ * Also asks the owner, through the same providers, to approve parked injects.
  */
 
 import type {
@@ -12,6 +13,7 @@ import type {
   ChannelNotificationPayload,
   WOPRPluginContext,
 } from "@wopr-network/plugin-types";
+import { approveInject, denyInject } from "./approvals.js";
 import {
   acceptPendingRequest,
   addAutoAcceptRule,
@@ -38,6 +40,9 @@ import {
   verifyFriendRequest,
 } from "./friends.js";
 import { getIdentity, shortKey } from "./identity.js";
+import { findPeer } from "./trust.js";
+import type { PendingInject } from "./types.js";
+import { getContactVerification, verifyContact } from "./verification.js";
 
 // Use WOPRPluginContext directly — shared type includes getChannelProviders() and getExtension()
 
@@ -97,6 +102,18 @@ const p2pCommandDefs = [
       },
     ],
   },
+  {
+    name: "verify",
+    description: "Compare safety numbers with a friend or peer",
+    options: [
+      { name: "name", description: "Name of the friend or peer", required: true },
+      {
+        name: "number",
+        description: "The safety number they read out (leave empty to show yours)",
+        required: false,
+      },
+    ],
+  },
 ];
 
 /**
@@ -220,6 +237,7 @@ export function registerChannelHooks(ctx: WOPRPluginContext): void {
     registerFriendsCommand(channel, ctx);
     registerUnfriendCommand(channel, ctx);
     registerGrantCommand(channel, ctx);
+    registerVerifyCommand(channel, ctx);
     registerFriendRequestParser(channel, ctx);
     registerFriendAcceptParser(channel, ctx);
   }
@@ -330,7 +348,8 @@ function registerFriendsCommand(
       const list = friends
         .map((f) => {
           const caps = f.caps.join(", ");
-          return `- @${f.name} (${shortKey(f.publicKey)}) - caps: [${caps}] - session: ${f.sessionName}`;
+          const verified = f.verified ? " - verified" : "";
+          return `- @${f.name} (${shortKey(f.publicKey)})${verified} - caps: [${caps}] - session: ${f.sessionName}`;
         })
         .join("\n");
 
@@ -406,6 +425,47 @@ function registerGrantCommand(
   });
 }
 
+/**
+ * Register /verify command for comparing safety numbers
+ */
+function registerVerifyCommand(
+  channel: ReturnType<NonNullable<WOPRPluginContext["getChannelProviders"]>>[0],
+  ctx: WOPRPluginContext,
+): void {
+  channel.registerCommand({
+    name: "verify",
+    description: "Compare safety numbers with a friend or peer",
+    async handler(cmdCtx) {
+      const target = cmdCtx.args[0];
+      if (!target) {
+        await cmdCtx.reply("Usage: /verify @username [safety number]");
+        return;
+      }
+
+      const cleanTarget = target.startsWith("@") ? target.slice(1) : target;
+      // The number is usually typed in groups of five
+      const number = cmdCtx.args.slice(1).join(" ");
+
+      try {
+        if (!number) {
+          const status = getContactVerification(cleanTarget);
+          const state = status.verified ? "Verified" : "Not verified";
+          await cmdCtx.reply(
+            `Safety number with @${cleanTarget} (${status.shortId}):\n${status.safetyNumber}\n\n${state}. Compare it with theirs outside this channel, then run /verify @${cleanTarget} <number>.`,
+          );
+          return;
+        }
+
+        verifyContact(cleanTarget, number);
+        await cmdCtx.reply(`@${cleanTarget} is now verified.`);
+        ctx.log.info(`[p2p] Verified ${cleanTarget}`);
+      } catch (err: unknown) {
+        await cmdCtx.reply(`Error: ${err instanceof Error ? err.message : err}`);
+      }
+    },
+  });
+}
+
 /**
  * Register message parser for FRIEND_REQUEST
  */
@@ -494,7 +554,9 @@ function registerFriendRequestParser(
                 await provider.sendNotification(msgCtx.channel, payload, callbacks);
                 ctx.log.info(`[p2p] Sent notification to ${provider.id} for friend request from @${request.from}`);
               } catch (err) {
-                ctx.log.warn(`[p2p] Failed to send notification to ${provider.id}: ${err instanceof Error ? err.message : String(err)}`);
+                ctx.log.warn(
+                  `[p2p] Failed to send notification to ${provider.id}: ${err instanceof Error ? err.message : String(err)}`,
+                );
               }
             }
           }
@@ -607,3 +669,61 @@ export function registerAutoAcceptCommands(ctx: WOPRPluginContext): void {
     });
   }
 }
+
+/**
+ * Ask the owner to approve or deny an inject waiting in the approval queue,
+ * through every channel provider that supports notifications.
+ */
+export async function notifyInjectApproval(
+  ctx: WOPRPluginContext,
+  pending: PendingInject,
+  channelId: string,
+): Promise<void> {
+  if (!ctx.getChannelProviders) return;
+  const from = findPeer(pending.peerKey)?.name || shortKey(pending.peerKey);
+
+  const payload: ChannelNotificationPayload = {
+    type: "inject-approval",
+    from,
+    pubkey: pending.peerKey,
+    channelName: channelId,
+    session: pending.session,
+    message: pending.message,
+    jobId: pending.id,
+    expiresAt: pending.expiresAt,
+  };
+
+  const callbacks: ChannelNotificationCallbacks = {
+    onAccept: async () => {
+      try {
+        if (approveInject(pending.id)) {
+          ctx.log.info(`[p2p] Inject ${pending.id.slice(0, 8)}... from ${from} approved via notification`);
+        }
+      } catch (err: unknown) {
+        ctx.log.warn(`[p2p] Could not approve inject ${pending.id.slice(0, 8)}...: ${err}`);
+      }
+    },
+    onDeny: async () => {
+      try {
+        if (denyInject(pending.id)) {
+          ctx.log.info(`[p2p] Inject ${pending.id.slice(0, 8)}... from ${from} denied via notification`);
+        }
+      } catch (err: unknown) {
+        ctx.log.warn(`[p2p] Could not deny inject ${pending.id.slice(0, 8)}...: ${err}`);
+      }
+    },
+  };
+
+  for (const provider of ctx.getChannelProviders()) {
+    if (provider.sendNotification) {
+      try {
+        await provider.sendNotification(channelId, payload, callbacks);
+        ctx.log.info(`[p2p] Sent notification to ${provider.id} for inject from ${from}`);
+      } catch (err) {
+        ctx.log.warn(
+          `[p2p] Failed to send notification to ${provider.id}: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    }
+  }
+}
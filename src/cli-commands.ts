@@ -8,10 +8,41 @@
  *   wopr friend remove <name>
  *   wopr friend grant <name> <cap>
  *   wopr friend revoke <name> <cap>
+ *   wopr friend ratelimit <name> [messages/min] [injects/min]
  *   wopr friend auto-accept [list|add|remove] [pattern]
+ *
+ * and the rest of the plugin through `wopr p2p` (every subcommand takes --json):
+ *   wopr p2p id
+ *   wopr p2p rotate [--reason <reason>] [--no-notify]
+ *   wopr p2p export <file> [--contacts]
+ *   wopr p2p import <file> [--replace] [--replace-identity]
+ *   wopr p2p revocation-cert [--reason <reason>] [--out <file>]
+ *   wopr p2p revoke-key <certificate-or-file>
+ *   wopr p2p peers
+ *   wopr p2p invite create <pubkey> <session...> [--expire <hours>]
+ *   wopr p2p invite claim <token> [--timeout <ms>]
+ *   wopr p2p grant <peer> <session...> [--caps <cap,cap>]
+ *   wopr p2p revoke <peer>
+ *   wopr p2p topics [list|join|leave] [topic]
+ *   wopr p2p discover [topic]
+ *   wopr p2p send <peer> <session> <message...> [--no-queue]
+ *   wopr p2p inject <peer> <session> <message...> [--timeout <ms>]
+ *   wopr p2p status
+ *   wopr p2p bans
+ *   wopr p2p unban <peer> [action]
  */
 
+import { readFileSync, writeFileSync } from "node:fs";
 import type { WOPRPluginContext } from "@wopr-network/plugin-types";
+import { exportBackup, importBackup } from "./backup.js";
+import { getConnectionPoolStatus } from "./connection-pool.js";
+import {
+	getDiscoveredPeers,
+	getTopics,
+	joinTopic,
+	leaveTopic,
+	notifyGrantUpdate,
+} from "./discovery.js";
 import {
 	acceptPendingRequest,
 	addAutoAcceptRule,
@@ -24,21 +55,80 @@ import {
 	removeAutoAcceptRule,
 	removeFriend,
 	revokeFriendCap,
+	setFriendRateLimit,
 } from "./friends.js";
-import { shortKey } from "./identity.js";
+import {
+	createInviteToken,
+	createRevocationCertificate,
+	getIdentity,
+	initIdentity,
+	isIdentityLocked,
+	rekeyIdentity,
+	rotateIdentity,
+	shortKey,
+	unlockIdentity,
+} from "./identity.js";
+import { getOutboxDepth, sendOrQueue } from "./outbox.js";
+import { claimToken, sendP2PInject, sendP2PLog } from "./p2p.js";
+import { getBans, unbanPeer } from "./rate-limit.js";
+import { publishKeyRevocation } from "./revocation.js";
+import {
+	countDeliveries,
+	processRotationCampaigns,
+	startRotationCampaign,
+} from "./rotation.js";
+import { removePlaintextIdentityFiles } from "./storage-migration.js";
+import {
+	addPeer,
+	findPeer,
+	getAccessGrants,
+	getPeers,
+	grantAccess,
+	revokePeer,
+} from "./trust.js";
+import type {
+	BackupImportResult,
+	Identity,
+	IdentityProtection,
+	RevocationCertificate,
+	RevocationPublishResult,
+} from "./types.js";
+import { EXIT_OK } from "./types.js";
+import {
+	buildP2pStatsResponse,
+	buildP2pStatusResponse,
+} from "./webmcp-tools.js";
+
+type CommandFlags = Record<string, string | boolean>;
+
+// Flags that never take a value, so the argument after them stays positional
+const BOOLEAN_FLAGS = new Set([
+	"json",
+	"no-notify",
+	"no-queue",
+	"provider",
+	"none",
+	"contacts",
+	"replace",
+	"replace-identity",
+]);
 
 // Parse flags from args
-function _parseFlags(args: string[]): {
-	flags: Record<string, string | boolean>;
+function parseFlags(args: string[]): {
+	flags: CommandFlags;
 	positional: string[];
 } {
-	const flags: Record<string, string | boolean> = {};
+	const flags: CommandFlags = {};
 	const positional: string[] = [];
 
 	for (let i = 0; i < args.length; i++) {
 		if (args[i].startsWith("--")) {
 			const key = args[i].slice(2);
-			if (i + 1 < args.length && !args[i + 1].startsWith("--")) {
+			if (
+				!BOOLEAN_FLAGS.has(key) &&
+				i + 1 < args.length &&
+				!args[i + 1].startsWith("--")
+			) {
 				flags[key] = args[++i];
 			} else {
 				flags[key] = true;
@@ -91,6 +181,10 @@ export async function handleFriendCommand(
 			await handleFriendRevoke(ctx, subArgs);
 			break;
 
+		case "ratelimit":
+			await handleFriendRateLimit(ctx, subArgs);
+			break;
+
 		case "auto-accept":
 			await handleAutoAccept(ctx, subArgs);
 			break;
@@ -111,6 +205,8 @@ Usage:
   wopr friend remove <name>              Remove a friend
   wopr friend grant <name> <cap>         Grant capability to a friend
   wopr friend revoke <name> <cap>        Revoke capability from a friend
+  wopr friend ratelimit <name> [msgs/min] [injects/min]
+                                         Override a friend's rate limits (no limits = defaults)
   wopr friend auto-accept                List auto-accept rules
   wopr friend auto-accept add <pattern>  Add auto-accept rule
   wopr friend auto-accept remove <pattern>  Remove auto-accept rule
@@ -294,6 +390,44 @@ async function handleFriendRevoke(
 	}
 }
 
+async function handleFriendRateLimit(
+	_ctx: WOPRPluginContext,
+	args: string[],
+): Promise<void> {
+	if (!args[0]) {
+		printError(
+			{},
+			"Usage: wopr friend ratelimit <name> [messages/min] [injects/min]",
+		);
+		return;
+	}
+
+	const name = args[0].startsWith("@") ? args[0].slice(1) : args[0];
+	const limits = args.slice(1, 3).map(Number);
+	if (limits.some((n) => !Number.isInteger(n) || n <= 0)) {
+		printError({}, "Rate limits must be positive whole numbers");
+		return;
+	}
+
+	const rateLimit =
+		limits.length > 0
+			? { messagesPerMinute: limits[0], injectsPerMinute: limits[1] }
+			: undefined;
+	if (!setFriendRateLimit(name, rateLimit)) {
+		printError({}, `Friend not found: ${name}`);
+		return;
+	}
+
+	printLines(
+		rateLimit
+			? `Rate limit for ${name}: ${rateLimit.messagesPerMinute} messages/min` +
+					(rateLimit.injectsPerMinute
+						? `, ${rateLimit.injectsPerMinute} injects/min`
+						: "")
+			: `Rate limit for ${name} reset to defaults`,
+	);
+}
+
 async function handleAutoAccept(
 	_ctx: WOPRPluginContext,
 	args: string[],
@@ -358,6 +492,813 @@ export const friendCommand = {
 	name: "friend",
 	description: "Manage P2P friends",
 	usage:
-		"wopr friend [list|pending|accept|remove|grant|revoke|auto-accept] [args]",
+		"wopr friend [list|pending|accept|remove|grant|revoke|ratelimit|auto-accept] [args]",
 	handler: handleFriendCommand,
 };
+
+/**
+ * Print command output, one line per entry.
+ */
+function printLines(lines: string | string[]): void {
+	console.log(Array.isArray(lines) ? lines.join("\n") : lines);
+}
+
+/**
+ * Print a p2p command's result: the data as JSON with --json, otherwise
+ * the human-readable lines.
+ */
+function printResult(
+	flags: CommandFlags,
+	data: unknown,
+	text: () => string | string[],
+): void {
+	printLines(flags.json ? JSON.stringify(data, null, 2) : text());
+}
+
+function printError(flags: CommandFlags, message: string): void {
+	if (flags.json) {
+		printLines(JSON.stringify({ success: false, error: message }));
+	} else {
+		console.error(message);
+	}
+}
+
+/**
+ * Handle the `wopr p2p` command
+ */
+export async function handleP2PCommand(
+	_ctx: WOPRPluginContext,
+	args: string[],
+): Promise<void> {
+	const { flags, positional } = parseFlags(args);
+	const subcommand = positional[0];
+	const subArgs = positional.slice(1);
+
+	switch (subcommand) {
+		case "id":
+			await handleP2PId(flags);
+			break;
+
+		case "rotate":
+			await handleP2PRotate(flags);
+			break;
+
+		case "unlock":
+			await handleP2PUnlock(flags);
+			break;
+
+		case "rekey":
+			await handleP2PRekey(flags);
+			break;
+
+		case "export":
+			await handleP2PExport(subArgs, flags);
+			break;
+
+		case "import":
+			await handleP2PImport(subArgs, flags);
+			break;
+
+		case "revocation-cert":
+			await handleP2PRevocationCert(flags);
+			break;
+
+		case "revoke-key":
+			await handleP2PRevokeKey(subArgs, flags);
+			break;
+
+		case "peers":
+			await handleP2PPeers(flags);
+			break;
+
+		case "invite":
+			await handleP2PInvite(subArgs, flags);
+			break;
+
+		case "grant":
+			await handleP2PGrant(subArgs, flags);
+			break;
+
+		case "revoke":
+			await handleP2PRevoke(subArgs, flags);
+			break;
+
+		case "topics":
+			await handleP2PTopics(subArgs, flags);
+			break;
+
+		case "discover":
+			await handleP2PDiscover(subArgs, flags);
+			break;
+
+		case "send":
+			await handleP2PSend(subArgs, flags);
+			break;
+
+		case "inject":
+			await handleP2PInject(subArgs, flags);
+			break;
+
+		case "status":
+			await handleP2PStatus(flags);
+			break;
+
+		case "bans":
+			await handleBans(flags);
+			break;
+
+		case "unban":
+			await handleUnban(subArgs, flags);
+			break;
+
+		default:
+			showP2PHelp();
+	}
+}
+
+function showP2PHelp(): void {
+	console.log(`
+wopr p2p - P2P networking
+
+Usage:
+  wopr p2p id                                   Show your identity (creates one if needed)
+  wopr p2p rotate [--reason <r>] [--no-notify]  Rotate your keys (scheduled|compromise|upgrade)
+  wopr p2p unlock                               Unlock a sealed identity (passphrase from WOPR_P2P_PASSPHRASE)
+  wopr p2p rekey [--provider | --none]          Seal your private keys with WOPR_P2P_NEW_PASSPHRASE,
+                                                the registered key provider, or store them unsealed
+  wopr p2p export <file> [--contacts]           Back up your identity, peers, grants and friends,
+                                                encrypted with WOPR_P2P_BACKUP_PASSPHRASE
+                                                (--contacts: public contact data only)
+  wopr p2p import <file> [--replace] [--replace-identity]
+                                                Restore a backup; --replace overwrites local records
+  wopr p2p revocation-cert [--reason <r>] [--out <file>]
+                                                Create a revocation certificate for your key
+                                                (compromise|retired); keep it offline
+  wopr p2p revoke-key <certificate-or-file>     Publish a revocation certificate to all peers and friends
+  wopr p2p peers                                List known peers
+  wopr p2p invite create <pubkey> <session...> [--expire <hours>]
+                                                Create an invite token
+  wopr p2p invite claim <token> [--timeout <ms>]
+                                                Claim an invite token
+  wopr p2p grant <peer> <session...> [--caps <cap,cap>]
+                                                Grant a peer access to sessions
+  wopr p2p revoke <peer>                        Revoke a peer's access
+  wopr p2p topics [list|join|leave] [topic]     Manage discovery topics
+  wopr p2p discover [topic]                     List discovered peers
+  wopr p2p send <peer> <session> <message...> [--no-queue]
+                                                Log a message to a peer's session
+  wopr p2p inject <peer> <session> <message...> [--timeout <ms>]
+                                                Inject a message and print the AI's response
+  wopr p2p status                               Show network status and statistics
+  wopr p2p bans                                 List rate-limited peers
+  wopr p2p unban <peer> [action]                Lift a peer's bans (all actions by default)
+
+Every subcommand accepts --json to print machine-readable output.
+
+Examples:
+  wopr p2p peers --json
+  wopr p2p grant hope main --caps inject,files
+  wopr p2p inject hope main "What's the status of the build?"
+`);
+}
+
+async function handleP2PId(flags: CommandFlags): Promise<void> {
+	if (isIdentityLocked()) {
+		printError(flags, "Identity is locked. Run `wopr p2p unlock` first.");
+		return;
+	}
+	const identity = getIdentity() || initIdentity();
+	const data = {
+		shortId: shortKey(identity.publicKey),
+		publicKey: identity.publicKey,
+		encryptPub: identity.encryptPub,
+		created: new Date(identity.created).toISOString(),
+	};
+
+	printResult(flags, data, () => [
+		`ID:          ${data.shortId}`,
+		`Public key:  ${data.publicKey}`,
+		`Encrypt key: ${data.encryptPub}`,
+		`Created:     ${data.created}`,
+	]);
+}
+
+async function handleP2PRotate(flags: CommandFlags): Promise<void> {
+	const reason = typeof flags.reason === "string" ? flags.reason : "scheduled";
+	if (reason !== "scheduled" && reason !== "compromise" && reason !== "upgrade") {
+		printError(
+			flags,
+			`Invalid reason: ${reason} (use scheduled, compromise, or upgrade)`,
+		);
+		return;
+	}
+
+	let result: ReturnType<typeof rotateIdentity>;
+	try {
+		result = rotateIdentity(reason);
+	} catch (err: unknown) {
+		printError(flags, `Key rotation failed: ${err}`);
+		return;
+	}
+
+	// Peers and friends that miss the first pass are retried until the grace period ends
+	let notified = 0;
+	let pending = 0;
+	if (!flags["no-notify"]) {
+		const campaign = startRotationCampaign(result.rotation);
+		await processRotationCampaigns();
+		({ delivered: notified, pending } = countDeliveries(campaign));
+	}
+
+	const data = {
+		success: true,
+		newShortId: shortKey(result.identity.publicKey),
+		reason,
+		peersNotified: notified,
+		peersPending: pending,
+	};
+	printResult(flags, data, () => [
+		`Rotated keys (${reason}). New ID: ${data.newShortId}`,
+		`Notified ${notified} peer(s)`,
+		...(pending > 0
+			? [`${pending} offline peer(s) will be retried until the grace period ends`]
+			: []),
+	]);
+}
+
+async function handleP2PUnlock(flags: CommandFlags): Promise<void> {
+	if (!isIdentityLocked()) {
+		printError(flags, "Identity is not locked");
+		return;
+	}
+
+	let identity: Identity;
+	try {
+		identity = await unlockIdentity(process.env.WOPR_P2P_PASSPHRASE);
+	} catch (err: unknown) {
+		printError(
+			flags,
+			`Unlock failed: ${err instanceof Error ? err.message : err}`,
+		);
+		return;
+	}
+
+	const data = { success: true, shortId: shortKey(identity.publicKey) };
+	printResult(flags, data, () => `Identity unlocked: ${data.shortId}`);
+}
+
+async function handleP2PRekey(flags: CommandFlags): Promise<void> {
+	const passphrase = process.env.WOPR_P2P_NEW_PASSPHRASE;
+	if (!flags.provider && !flags.none && !passphrase) {
+		printError(
+			flags,
+			"Set WOPR_P2P_NEW_PASSPHRASE, or pass --provider or --none",
+		);
+		return;
+	}
+
+	let protection: IdentityProtection;
+	try {
+		protection = await rekeyIdentity(
+			flags.none
+				? {}
+				: flags.provider
+					? { useKeyProvider: true }
+					: { passphrase },
+		);
+	} catch (err: unknown) {
+		printError(
+			flags,
+			`Re-key failed: ${err instanceof Error ? err.message : err}`,
+		);
+		return;
+	}
+
+	// Sealing is moot while a plaintext copy of the keys is still on disk
+	const removed = protection === "none" ? [] : removePlaintextIdentityFiles();
+	const data = { success: true, keyProtection: protection, removedFiles: removed };
+	printResult(flags, data, () => [
+		protection === "none"
+			? "Private keys are now stored unsealed"
+			: `Private keys sealed (${protection})`,
+		...removed.map((file) => `Removed plaintext key file ${file}`),
+	]);
+}
+
+async function handleP2PExport(
+	args: string[],
+	flags: CommandFlags,
+): Promise<void> {
+	const file = args[0];
+	if (!file) {
+		printError(flags, "Usage: wopr p2p export <file> [--contacts]");
+		return;
+	}
+
+	try {
+		const bundle = await exportBackup({
+			passphrase: process.env.WOPR_P2P_BACKUP_PASSPHRASE || undefined,
+			contactsOnly: flags.contacts === true,
+		});
+		writeFileSync(file, bundle, { mode: 0o600 });
+	} catch (err: unknown) {
+		printError(
+			flags,
+			`Export failed: ${err instanceof Error ? err.message : err}`,
+		);
+		return;
+	}
+
+	const data = {
+		success: true,
+		file,
+		kind: flags.contacts ? "contacts" : "full",
+	};
+	printResult(flags, data, () => `Wrote ${data.kind} backup to ${file}`);
+}
+
+async function handleP2PImport(
+	args: string[],
+	flags: CommandFlags,
+): Promise<void> {
+	const file = args[0];
+	if (!file) {
+		printError(
+			flags,
+			"Usage: wopr p2p import <file> [--replace] [--replace-identity]",
+		);
+		return;
+	}
+
+	let result: BackupImportResult;
+	try {
+		result = await importBackup(readFileSync(file, "utf-8"), {
+			passphrase: process.env.WOPR_P2P_BACKUP_PASSPHRASE || undefined,
+			onConflict: flags.replace ? "replace" : "skip",
+			replaceIdentity: flags["replace-identity"] === true,
+		});
+	} catch (err: unknown) {
+		printError(
+			flags,
+			`Import failed: ${err instanceof Error ? err.message : err}`,
+		);
+		return;
+	}
+
+	const restartRequired = result.identity === "replaced";
+	const data = { success: true, ...result, restartRequired };
+	printResult(flags, data, () => [
+		`Restored ${result.kind} backup from ${result.exportedBy} (identity: ${result.identity})`,
+		...(
+			[
+				["Peers", result.peers],
+				["Grants", result.grants],
+				["Friends", result.friends],
+				["Auto-accept rules", result.autoAccept],
+			] as const
+		).map(
+			([label, counts]) =>
+				`${label}: ${counts.added} added, ${counts.replaced} replaced, ${counts.skipped} kept`,
+		),
+		...(restartRequired
+			? ["Restart WOPR to go online with the restored identity"]
+			: []),
+	]);
+}
+
+async function handleP2PRevocationCert(flags: CommandFlags): Promise<void> {
+	const reason = typeof flags.reason === "string" ? flags.reason : "compromise";
+	if (reason !== "compromise" && reason !== "retired") {
+		printError(flags, "Reason must be compromise or retired");
+		return;
+	}
+
+	let certificate: string;
+	try {
+		certificate = createRevocationCertificate(
+			reason as RevocationCertificate["reason"],
+		);
+		if (typeof flags.out === "string") {
+			writeFileSync(flags.out, `${certificate}\n`, { mode: 0o600 });
+		}
+	} catch (err: unknown) {
+		printError(
+			flags,
+			`Could not create certificate: ${err instanceof Error ? err.message : err}`,
+		);
+		return;
+	}
+
+	const file = typeof flags.out === "string" ? flags.out : undefined;
+	const data = { success: true, reason, file, certificate };
+	printResult(flags, data, () => [
+		file ? `Wrote revocation certificate to ${file}` : certificate,
+		"Store it offline. Anyone holding it can revoke your key; create a new one after rotating keys.",
+	]);
+}
+
+async function handleP2PRevokeKey(
+	args: string[],
+	flags: CommandFlags,
+): Promise<void> {
+	const source = args[0];
+	if (!source) {
+		printError(flags, "Usage: wopr p2p revoke-key <certificate-or-file>");
+		return;
+	}
+
+	let result: RevocationPublishResult;
+	try {
+		const certificate = source.startsWith("wopr-revoke1://")
+			? source
+			: readFileSync(source, "utf-8").trim();
+		result = await publishKeyRevocation(certificate);
+	} catch (err: unknown) {
+		printError(
+			flags,
+			`Revocation failed: ${err instanceof Error ? err.message : err}`,
+		);
+		return;
+	}
+
+	const failed = Object.entries(result.failed);
+	const data = { success: true, ...result };
+	printResult(flags, data, () => [
+		`Revoked key ${result.revokedKey}`,
+		`Delivered to ${result.delivered.length} peer(s)`,
+		...failed.map(([peer, error]) => `  ${peer}: ${error}`),
+	]);
+}
+
+async function handleP2PPeers(flags: CommandFlags): Promise<void> {
+	const peers = getPeers();
+	const data = {
+		count: peers.length,
+		peers: peers.map((p) => ({
+			id: p.id,
+			name: p.name,
+			publicKey: p.publicKey,
+			sessions: p.sessions,
+			caps: p.caps,
+			added: new Date(p.added).toISOString(),
+		})),
+	};
+
+	printResult(flags, data, () => {
+		if (peers.length === 0) {
+			return "No peers yet. Create an invite with: wopr p2p invite create";
+		}
+		return [
+			`Peers (${peers.length}):`,
+			"ID       | Name              | Caps              | Sessions",
+			"---------|-------------------|-------------------|---------",
+			...peers.map((p) => {
+				const name = (p.name || "").padEnd(17);
+				const caps = p.caps.join(",").padEnd(17);
+				return `${p.id} | ${name} | ${caps} | ${p.sessions.join(",")}`;
+			}),
+		];
+	});
+}
+
+async function handleP2PInvite(
+	args: string[],
+	flags: CommandFlags,
+): Promise<void> {
+	const action = args[0];
+
+	if (action === "create") {
+		const [, forPubkey, ...sessions] = args;
+		if (!forPubkey || sessions.length === 0) {
+			printError(
+				flags,
+				"Usage: wopr p2p invite create <pubkey> <session...> [--expire <hours>]",
+			);
+			return;
+		}
+		const expireHours = Number(flags.expire) || 168;
+		try {
+			const token = createInviteToken(forPubkey, sessions, expireHours);
+			const data = {
+				token,
+				forPeer: shortKey(forPubkey),
+				sessions,
+				expiresIn: `${expireHours} hours`,
+			};
+			printResult(flags, data, () => [
+				token,
+				"",
+				`For ${data.forPeer}, sessions: ${sessions.join(", ")}, expires in ${data.expiresIn}`,
+			]);
+		} catch (err: unknown) {
+			printError(flags, `Failed to create invite: ${err}`);
+		}
+		return;
+	}
+
+	if (action === "claim") {
+		if (!args[1]) {
+			printError(flags, "Usage: wopr p2p invite claim <token> [--timeout <ms>]");
+			return;
+		}
+		const result = await claimToken(args[1], Number(flags.timeout) || 10000);
+		if (result.code !== EXIT_OK) {
+			printError(flags, `Claim failed: ${result.message}`);
+			return;
+		}
+		const data = {
+			success: true,
+			peerKey: result.peerKey,
+			sessions: result.sessions,
+			caps: result.caps,
+		};
+		printResult(flags, data, () => [
+			`Claimed invite from ${result.peerKey ? shortKey(result.peerKey) : "peer"}`,
+			`Sessions: ${result.sessions?.join(", ")}`,
+		]);
+		return;
+	}
+
+	printError(flags, "Usage: wopr p2p invite [create|claim] [args]");
+}
+
+async function handleP2PGrant(
+	args: string[],
+	flags: CommandFlags,
+): Promise<void> {
+	const [peer, ...sessions] = args;
+	if (!peer || sessions.length === 0) {
+		printError(
+			flags,
+			"Usage: wopr p2p grant <peer> <session...> [--caps <cap,cap>]",
+		);
+		return;
+	}
+
+	const peerKey = findPeer(peer)?.publicKey || peer;
+	const caps =
+		typeof flags.caps === "string" ? flags.caps.split(",") : ["inject"];
+	const grant = grantAccess(peerKey, sessions, caps);
+	addPeer(peerKey, sessions, caps);
+	const notified = notifyGrantUpdate(peerKey, grant.sessions);
+
+	const data = {
+		success: true,
+		grantId: grant.id,
+		peer: shortKey(peerKey),
+		sessions: grant.sessions,
+		caps: grant.caps,
+		notified,
+	};
+	printResult(
+		flags,
+		data,
+		() =>
+			`Granted ${grant.caps.join(", ")} on ${grant.sessions.join(", ")} to ${data.peer}`,
+	);
+}
+
+async function handleP2PRevoke(
+	args: string[],
+	flags: CommandFlags,
+): Promise<void> {
+	if (!args[0]) {
+		printError(flags, "Usage: wopr p2p revoke <peer>");
+		return;
+	}
+
+	try {
+		revokePeer(args[0]);
+	} catch (err: unknown) {
+		printError(flags, `Failed to revoke peer: ${err}`);
+		return;
+	}
+	printResult(
+		flags,
+		{ success: true, peer: args[0] },
+		() => `Access revoked for ${args[0]}`,
+	);
+}
+
+async function handleP2PTopics(
+	args: string[],
+	flags: CommandFlags,
+): Promise<void> {
+	const action = args[0] || "list";
+	const topic = args[1];
+
+	if (action === "list") {
+		const topics = getTopics();
+		printResult(flags, { topics }, () =>
+			topics.length === 0
+				? "Not in any topics. Join one with: wopr p2p topics join <topic>"
+				: [`Topics (${topics.length}):`, ...topics.map((t) => `  ${t}`)],
+		);
+		return;
+	}
+
+	if ((action === "join" || action === "leave") && topic) {
+		try {
+			if (action === "join") {
+				await joinTopic(topic);
+			} else {
+				await leaveTopic(topic);
+			}
+		} catch (err: unknown) {
+			printError(flags, `Failed to ${action} topic: ${err}`);
+			return;
+		}
+		const data = { success: true, topic, activeTopics: getTopics() };
+		printResult(
+			flags,
+			data,
+			() => `${action === "join" ? "Joined" : "Left"} topic: ${topic}`,
+		);
+		return;
+	}
+
+	printError(flags, "Usage: wopr p2p topics [list|join|leave] [topic]");
+}
+
+async function handleP2PDiscover(
+	args: string[],
+	flags: CommandFlags,
+): Promise<void> {
+	const peers = getDiscoveredPeers(args[0]);
+	const data = {
+		count: peers.length,
+		peers: peers.map((p) => ({
+			id: p.id,
+			publicKey: p.publicKey,
+			topics: p.topics,
+			content: p.content,
+			connected: p.connected || false,
+		})),
+	};
+
+	printResult(flags, data, () => {
+		if (peers.length === 0) {
+			return "No peers discovered yet.";
+		}
+		return [
+			`Discovered peers (${peers.length}):`,
+			...peers.map((p) => {
+				const status = p.connected ? "connected" : "not connected";
+				return `  ${p.id} - ${status}, topics: ${p.topics?.join(", ") || "-"}`;
+			}),
+		];
+	});
+}
+
+async function handleP2PSend(
+	args: string[],
+	flags: CommandFlags,
+): Promise<void> {
+	const [peer, session, ...words] = args;
+	if (!peer || !session || words.length === 0) {
+		printError(
+			flags,
+			"Usage: wopr p2p send <peer> <session> <message...> [--no-queue]",
+		);
+		return;
+	}
+
+	const message = words.join(" ");
+	const timeoutMs = Number(flags.timeout) || 10000;
+	const result = flags["no-queue"]
+		? await sendP2PLog(peer, session, message, timeoutMs)
+		: await sendOrQueue("log", peer, session, message, { timeoutMs });
+
+	if ("outboxId" in result && result.outboxId) {
+		const data = { success: true, queued: true, outboxId: result.outboxId, peer, session };
+		printResult(
+			flags,
+			data,
+			() => `Peer offline - queued as ${result.outboxId} (${result.message})`,
+		);
+		return;
+	}
+	if (result.code !== EXIT_OK) {
+		printError(flags, `Send failed: ${result.message}`);
+		return;
+	}
+	printResult(
+		flags,
+		{ success: true, peer, session },
+		() => `Sent to ${peer}/${session}`,
+	);
+}
+
+async function handleP2PInject(
+	args: string[],
+	flags: CommandFlags,
+): Promise<void> {
+	const [peer, session, ...words] = args;
+	if (!peer || !session || words.length === 0) {
+		printError(
+			flags,
+			"Usage: wopr p2p inject <peer> <session> <message...> [--timeout <ms>]",
+		);
+		return;
+	}
+
+	const result = await sendP2PInject(
+		peer,
+		session,
+		words.join(" "),
+		Number(flags.timeout) || 60000,
+	);
+	if (result.code !== EXIT_OK) {
+		printError(flags, `Inject failed: ${result.message}`);
+		return;
+	}
+	printResult(
+		flags,
+		{ success: true, peer, session, response: result.response },
+		() => result.response ?? "",
+	);
+}
+
+async function handleP2PStatus(flags: CommandFlags): Promise<void> {
+	const data = {
+		...buildP2pStatusResponse(),
+		connections: getConnectionPoolStatus(),
+		stats: buildP2pStatsResponse(),
+	};
+
+	printResult(flags, data, () => {
+		const identity = getIdentity();
+		const grants = getAccessGrants().filter((g) => !g.revoked);
+		const outbox = getOutboxDepth();
+		return [
+			`Identity:    ${identity ? shortKey(identity.publicKey) : "none"}`,
+			`Peers:       ${getPeers().length}`,
+			`Grants:      ${grants.length} active`,
+			`Topics:      ${getTopics().join(", ") || "-"}`,
+			`Connections: ${data.connections.length}`,
+			`Outbox:      ${outbox.pending} pending, ${outbox.failed} failed`,
+			`Uptime:      ${data.stats.uptime}`,
+		];
+	});
+}
+
+async function handleBans(flags: CommandFlags): Promise<void> {
+	const bans = getBans();
+	const data = {
+		count: bans.length,
+		bans: bans.map((b) => ({
+			peer: shortKey(b.peerKey),
+			publicKey: b.peerKey,
+			name: findPeer(b.peerKey)?.name,
+			action: b.action,
+			until: new Date(b.until).toISOString(),
+		})),
+	};
+
+	printResult(flags, data, () => {
+		if (bans.length === 0) {
+			return "No banned peers.";
+		}
+		return [
+			`Banned peers (${bans.length}):`,
+			...bans.map((b) => {
+				const name = findPeer(b.peerKey)?.name;
+				const minutes = Math.ceil((b.until - Date.now()) / 60000);
+				return `  ${shortKey(b.peerKey)}${name ? ` (${name})` : ""} - ${b.action}, ${minutes}m left`;
+			}),
+		];
+	});
+}
+
+async function handleUnban(
+	args: string[],
+	flags: CommandFlags,
+): Promise<void> {
+	if (!args[0]) {
+		printError(flags, "Usage: wopr p2p unban <peer> [action]");
+		return;
+	}
+
+	const peerKey = findPeer(args[0])?.publicKey || args[0];
+	const lifted = unbanPeer(peerKey, args[1]);
+	if (lifted === 0) {
+		printError(flags, `No active bans for ${args[0]}`);
+		return;
+	}
+	printResult(
+		flags,
+		{ success: true, peer: shortKey(peerKey), lifted },
+		() => `Lifted ${lifted} ban(s) for ${shortKey(peerKey)}`,
+	);
+}
+
+/**
+ * Plugin command definition for export
+ */
+export const p2pCommand = {
+	name: "p2p",
+	description: "P2P networking: identity, peers, invites, grants, topics, messaging",
+	usage:
+		"wopr p2p [id|rotate|peers|invite|grant|revoke|topics|discover|send|inject|status|bans|unban] [args] [--json]",
+	handler: handleP2PCommand,
+};
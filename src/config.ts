@@ -5,11 +5,35 @@
  * This allows all Hyperswarm instances to use the same bootstrap configuration.
  */
 
+import type { InjectQuota, RateLimitConfig } from "./types.js";
+
 export interface P2PConfig {
   /** Bootstrap nodes for DHT discovery (e.g., ["172.24.0.1:49737"]) */
   bootstrap?: string[];
   /** Connection timeout in milliseconds */
   connectionTimeout?: number;
+  /** How long an unused pooled peer connection stays open, in milliseconds */
+  poolIdleTimeoutMs?: number;
+  /** Largest file a peer may send us, in bytes */
+  maxFileSize?: number;
+  /** Total size of received files kept per session inbox, in bytes */
+  inboxQuotaBytes?: number;
+  /** Directory files must be in to be sent to peers */
+  outgoingDir?: string;
+  /** Injects that have been forwarded this many times between peers are rejected */
+  maxHops?: number;
+  /** Rate limit overrides by action ("injects", "logs", "files", "tools", "claims", "invalidMessages") */
+  rateLimits?: Record<string, Partial<RateLimitConfig>>;
+  /** Origin of the WOPR web UI, the only origin browsers may call the local API from */
+  webUiOrigin?: string;
+  /** Rate limit overrides for individual peers, by peer public key and then action */
+  peerRateLimits?: Record<string, Record<string, Partial<RateLimitConfig>>>;
+  /** Daily inject budget for peers whose grant does not set one */
+  injectQuota?: InjectQuota;
+  /** How long an inject waits in the approval queue before it is denied, in milliseconds */
+  approvalTimeoutMs?: number;
+  /** Channel the owner is asked on to approve or deny parked injects */
+  approvalChannel?: string;
 }
 
 // Global config store
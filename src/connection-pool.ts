@@ -0,0 +1,494 @@
+/**
+ * P2P Connection Pool
+ *
+ * Keeps one authenticated, handshaken socket per peer alive and multiplexes
+ * outbound requests (log, inject, claim, key rotation) over it by requestId.
+ * Idle connections are closed after a timeout and transparently re-dialed on
+ * the next request.
+ */
+
+import { randomBytes } from "node:crypto";
+import type { Duplex } from "node:stream";
+import Hyperswarm from "hyperswarm";
+import { getP2PConfig, getSwarmOptions } from "./config.js";
+import { createMessageDecoder, FRAMING_VERSION, type MessageDecoder, writeMessage } from "./framing.js";
+import { generateEphemeralKeyPair, getIdentity, getTopic, shortKey, signMessage } from "./identity.js";
+import { observeHandshake, recordMessageIn, recordMessageOut } from "./metrics.js";
+import type { EphemeralKeyPair, P2PMessage } from "./types.js";
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS } from "./types.js";
+
+const DEFAULT_IDLE_TIMEOUT_MS = 60000;
+const HANDSHAKE_TIMEOUT_MS = 5000;
+// Re-dial before the handshake ephemeral key expires so forward secrecy is preserved
+const EPHEMERAL_REFRESH_MARGIN_MS = 60000;
+
+/**
+ * Negotiated channel state shared by every request on a pooled connection.
+ */
+export interface PoolChannel {
+  version: number;
+  framed: boolean; // Length-prefixed frames (v3+) instead of newline-delimited JSON
+  ephemeral: EphemeralKeyPair;
+  peerEphemeralPub: string;
+}
+
+/**
+ * A single request multiplexed over a pooled connection.
+ */
+export interface PooledRequest<T> {
+  requestId: string;
+  timeoutMs: number;
+  // Build the outbound message once the channel is negotiated
+  build: (channel: PoolChannel) => P2PMessage;
+  // Handle a message routed to this request; return a value to complete it
+  onMessage: (msg: P2PMessage, channel: PoolChannel) => T | undefined;
+}
+
+interface PendingRequest {
+  onMessage: (msg: P2PMessage) => void;
+  onClose: (reason: string) => void;
+}
+
+interface PooledConnection {
+  peerKey: string;
+  swarm: Hyperswarm;
+  socket: Duplex | null;
+  state: "connecting" | "open" | "closed";
+  channel: PoolChannel | null;
+  ready: Promise<PoolChannel>;
+  pending: Map<string, PendingRequest>;
+  openedAt: number;
+  lastUsed: number;
+  requests: number;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export interface PoolConnectionStatus {
+  peer: string;
+  state: "connecting" | "open" | "closed";
+  version?: number;
+  pending: number;
+  requests: number;
+  openedAt: string;
+  idleMs: number;
+}
+
+const connections: Map<string, PooledConnection> = new Map();
+
+// Module-level logger for debugging
+let moduleLogger: ((msg: string) => void) | null = null;
+
+export function setConnectionPoolLogger(logger: (msg: string) => void): void {
+  moduleLogger = logger;
+}
+
+function log(msg: string): void {
+  if (moduleLogger) {
+    moduleLogger(msg);
+  }
+}
+
+/**
+ * Result of a completed handshake.
+ */
+export interface HandshakeResult {
+  version: number;
+  peerEphemeralPub: string;
+  // Decoder holding any bytes received after the handshake, already switched
+  // to frames if the negotiated version uses them
+  decoder: MessageDecoder;
+}
+
+/**
+ * Perform version handshake with peer.
+ * The socket is left paused; the caller resumes it once it is reading.
+ */
+export async function performHandshake(
+  socket: Duplex,
+  myPubKey: string,
+  ephemeral: EphemeralKeyPair,
+): Promise<HandshakeResult> {
+  return new Promise((resolve, reject) => {
+    const decoder = createMessageDecoder();
+
+    const finish = (err: Error | null, result?: { version: number; peerEphemeralPub: string }) => {
+      clearTimeout(timeout);
+      socket.removeListener("data", onData);
+      socket.removeListener("error", onError);
+      if (err) {
+        reject(err);
+      } else if (result) {
+        // Pause so nothing is emitted before the connection reader attaches
+        socket.pause();
+        if (result.version >= FRAMING_VERSION) {
+          decoder.setFramed();
+        }
+        resolve({ ...result, decoder });
+      }
+    };
+
+    const timeout = setTimeout(() => finish(new Error("Handshake timeout")), HANDSHAKE_TIMEOUT_MS);
+
+    const onError = () => finish(new Error("Socket error during handshake"));
+
+    const onData = (data: Buffer) => {
+      try {
+        decoder.push(data);
+      } catch (err: unknown) {
+        finish(err instanceof Error ? err : new Error(String(err)));
+        return;
+      }
+
+      let line = decoder.next();
+      while (line !== null) {
+        let msg: P2PMessage | null = null;
+        try {
+          msg = JSON.parse(line);
+        } catch {
+          // Skip malformed lines
+        }
+
+        if (msg?.type === "hello-ack" && msg.version !== undefined) {
+          if (msg.version < MIN_PROTOCOL_VERSION) {
+            finish(new Error(`Version ${msg.version} not supported`));
+            return;
+          }
+          finish(null, { version: msg.version, peerEphemeralPub: msg.ephemeralPub || "" });
+          return;
+        }
+
+        if (msg?.type === "hello") {
+          const commonVersions = (msg.versions || [PROTOCOL_VERSION]).filter(
+            (v) => v >= MIN_PROTOCOL_VERSION && v <= PROTOCOL_VERSION,
+          );
+          if (commonVersions.length === 0) {
+            finish(new Error("No common protocol version"));
+            return;
+          }
+
+          const negotiatedVersion = Math.max(...commonVersions);
+          const ack = signMessage<Omit<P2PMessage, "sig">>({
+            v: PROTOCOL_VERSION,
+            type: "hello-ack",
+            from: myPubKey,
+            version: negotiatedVersion,
+            ephemeralPub: ephemeral.publicKey,
+            nonce: randomBytes(16).toString("hex"),
+            ts: Date.now(),
+          });
+          writeMessage(socket, ack, false);
+          finish(null, { version: negotiatedVersion, peerEphemeralPub: msg.ephemeralPub || "" });
+          return;
+        }
+
+        line = decoder.next();
+      }
+    };
+
+    socket.on("data", onData);
+    socket.on("error", onError);
+
+    const hello = signMessage<Omit<P2PMessage, "sig">>({
+      v: PROTOCOL_VERSION,
+      type: "hello",
+      from: myPubKey,
+      versions: SUPPORTED_PROTOCOL_VERSIONS,
+      ephemeralPub: ephemeral.publicKey,
+      nonce: randomBytes(16).toString("hex"),
+      ts: Date.now(),
+    });
+    writeMessage(socket, hello, false);
+  });
+}
+
+function getIdleTimeoutMs(): number {
+  return getP2PConfig().poolIdleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+}
+
+/**
+ * Tear down a pooled connection and fail any requests still waiting on it.
+ */
+function closeConnection(conn: PooledConnection, reason: string): void {
+  if (conn.state === "closed") return;
+  conn.state = "closed";
+
+  if (conn.idleTimer) {
+    clearTimeout(conn.idleTimer);
+    conn.idleTimer = null;
+  }
+  if (connections.get(conn.peerKey) === conn) {
+    connections.delete(conn.peerKey);
+  }
+
+  for (const pending of conn.pending.values()) {
+    pending.onClose(reason);
+  }
+  conn.pending.clear();
+
+  log(`[pool] Closed connection to ${shortKey(conn.peerKey)}: ${reason}`);
+  conn.swarm.destroy().catch(() => {});
+}
+
+function scheduleIdleClose(conn: PooledConnection): void {
+  if (conn.idleTimer) {
+    clearTimeout(conn.idleTimer);
+    conn.idleTimer = null;
+  }
+  if (conn.pending.size > 0) return;
+
+  conn.idleTimer = setTimeout(() => closeConnection(conn, "idle timeout"), getIdleTimeoutMs());
+}
+
+/**
+ * Route an inbound message on a pooled socket to the request waiting for it.
+ * Peers that predate request correlation do not echo requestId, so those
+ * messages go to the oldest outstanding request.
+ */
+function routeMessage(conn: PooledConnection, msg: P2PMessage): void {
+  const target = msg.requestId ? conn.pending.get(msg.requestId) : conn.pending.values().next().value;
+  if (!target) {
+    log(`[pool] Dropping unroutable ${msg.type} from ${shortKey(conn.peerKey)}`);
+    return;
+  }
+  target.onMessage(msg);
+}
+
+function attachReader(conn: PooledConnection, socket: Duplex, decoder: MessageDecoder): void {
+  const drain = () => {
+    let text = decoder.next();
+    while (text !== null) {
+      let msg: P2PMessage | null = null;
+      try {
+        msg = JSON.parse(text);
+      } catch (err: unknown) {
+        log(`[pool] Failed to parse message from ${shortKey(conn.peerKey)}: ${err}`);
+      }
+      if (msg) {
+        recordMessageIn(conn.peerKey, msg.type, Buffer.byteLength(text));
+        routeMessage(conn, msg);
+      }
+      text = decoder.next();
+    }
+  };
+
+  socket.on("data", (data: Buffer) => {
+    try {
+      decoder.push(data);
+      drain();
+    } catch (err: unknown) {
+      // Oversized frame - the stream cannot be resynced
+      closeConnection(conn, `Protocol error: ${err instanceof Error ? err.message : err}`);
+    }
+  });
+
+  // Deliver anything that arrived together with the handshake
+  try {
+    drain();
+  } catch (err: unknown) {
+    closeConnection(conn, `Protocol error: ${err instanceof Error ? err.message : err}`);
+    return;
+  }
+  socket.resume();
+
+  socket.on("close", () => closeConnection(conn, "Connection closed"));
+  socket.on("error", (err: Error) => closeConnection(conn, `Connection error: ${err.message}`));
+}
+
+/**
+ * Dial a peer's topic and complete the protocol handshake.
+ */
+function openConnection(peerKey: string, timeoutMs: number): PooledConnection {
+  const identity = getIdentity();
+  if (!identity) {
+    throw new Error("No identity");
+  }
+
+  const swarm = new Hyperswarm(getSwarmOptions());
+  const ephemeral = generateEphemeralKeyPair();
+
+  // Handle swarm errors to prevent crashes
+  swarm.on("error", (err: Error) => {
+    log(`[pool] Swarm error for ${shortKey(peerKey)}: ${err.message}`);
+  });
+
+  let resolveReady: (channel: PoolChannel) => void = () => {};
+  let rejectReady: (err: Error) => void = () => {};
+  const ready = new Promise<PoolChannel>((resolve, reject) => {
+    resolveReady = resolve;
+    rejectReady = reject;
+  });
+
+  const conn: PooledConnection = {
+    peerKey,
+    swarm,
+    socket: null,
+    state: "connecting",
+    channel: null,
+    ready,
+    pending: new Map(),
+    openedAt: Date.now(),
+    lastUsed: Date.now(),
+    requests: 0,
+    idleTimer: null,
+  };
+
+  const timeout = setTimeout(() => {
+    if (conn.state === "connecting") {
+      closeConnection(conn, "Connect timeout");
+      rejectReady(new Error("Peer offline (timeout)"));
+    }
+  }, timeoutMs);
+
+  swarm.on("connection", async (socket: Duplex) => {
+    if (conn.socket || conn.state !== "connecting") {
+      // Already have a live socket for this peer - drop duplicates
+      socket.on("error", () => {});
+      socket.end();
+      return;
+    }
+    conn.socket = socket;
+
+    try {
+      const handshakeStart = Date.now();
+      const { version, peerEphemeralPub, decoder } = await performHandshake(socket, identity.publicKey, ephemeral);
+      clearTimeout(timeout);
+      observeHandshake(peerKey, Date.now() - handshakeStart);
+      if (conn.state !== "connecting") {
+        rejectReady(new Error("Connection closed during handshake"));
+        return;
+      }
+
+      conn.channel = { version, framed: decoder.framed, ephemeral, peerEphemeralPub };
+      conn.state = "open";
+      attachReader(conn, socket, decoder);
+      log(`[pool] Connected to ${shortKey(peerKey)} (v${version})`);
+      resolveReady(conn.channel);
+    } catch (err: unknown) {
+      clearTimeout(timeout);
+      closeConnection(conn, `Handshake failed: ${err}`);
+      rejectReady(
+        err instanceof Error && err.message.includes("version") ? err : new Error(`Handshake failed: ${err}`),
+      );
+    }
+  });
+  // Callers observe failures through pooledRequest(); avoid unhandled rejections here
+  ready.catch(() => {});
+
+  swarm.join(getTopic(peerKey), { server: false, client: true });
+  return conn;
+}
+
+/**
+ * Get an open connection to a peer, dialing a new one if needed.
+ */
+function acquireConnection(peerKey: string, timeoutMs: number): PooledConnection {
+  const existing = connections.get(peerKey);
+  if (existing && existing.state !== "closed") {
+    const stale =
+      existing.channel !== null && Date.now() > existing.channel.ephemeral.expiresAt - EPHEMERAL_REFRESH_MARGIN_MS;
+    if (!stale) {
+      return existing;
+    }
+    if (existing.pending.size === 0) {
+      closeConnection(existing, "ephemeral key refresh");
+    }
+  }
+
+  const conn = openConnection(peerKey, timeoutMs);
+  connections.set(peerKey, conn);
+  return conn;
+}
+
+/**
+ * Send a request to a peer over its pooled connection and wait for the reply.
+ * Rejects with an Error on timeout, connection loss or handshake failure.
+ */
+export async function pooledRequest<T>(peerKey: string, request: PooledRequest<T>): Promise<T> {
+  const conn = acquireConnection(peerKey, request.timeoutMs);
+  conn.lastUsed = Date.now();
+  if (conn.idleTimer) {
+    clearTimeout(conn.idleTimer);
+    conn.idleTimer = null;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      conn.pending.delete(request.requestId);
+      conn.lastUsed = Date.now();
+      if (conn.state !== "closed") {
+        scheduleIdleClose(conn);
+      }
+      fn();
+    };
+
+    const timeout = setTimeout(() => settle(() => reject(new Error("Request timeout"))), request.timeoutMs);
+
+    conn.pending.set(request.requestId, {
+      onMessage: (msg) => {
+        if (!conn.channel) return;
+        const result = request.onMessage(msg, conn.channel);
+        if (result !== undefined) {
+          settle(() => resolve(result));
+        }
+      },
+      onClose: (reason) => settle(() => reject(new Error(reason))),
+    });
+
+    conn.ready.then(
+      (channel) => {
+        if (settled) return;
+        try {
+          const msg = request.build(channel);
+          conn.requests++;
+          if (conn.socket) {
+            recordMessageOut(peerKey, msg.type, writeMessage(conn.socket, msg, channel.framed));
+          }
+        } catch (err: unknown) {
+          settle(() => reject(err instanceof Error ? err : new Error(String(err))));
+        }
+      },
+      (err: unknown) => settle(() => reject(err instanceof Error ? err : new Error(String(err)))),
+    );
+  });
+}
+
+/**
+ * Snapshot of the pool for status reporting.
+ */
+export function getConnectionPoolStatus(): PoolConnectionStatus[] {
+  const now = Date.now();
+  return Array.from(connections.values()).map((conn) => ({
+    peer: shortKey(conn.peerKey),
+    state: conn.state,
+    version: conn.channel?.version,
+    pending: conn.pending.size,
+    requests: conn.requests,
+    openedAt: new Date(conn.openedAt).toISOString(),
+    idleMs: now - conn.lastUsed,
+  }));
+}
+
+/**
+ * Close the pooled connection to one peer, if any.
+ */
+export function closePeerConnection(peerKey: string): boolean {
+  const conn = connections.get(peerKey);
+  if (!conn) return false;
+  closeConnection(conn, "closed by request");
+  return true;
+}
+
+/**
+ * Close every pooled connection (plugin shutdown).
+ */
+export async function closeConnectionPool(): Promise<void> {
+  const all = Array.from(connections.values());
+  for (const conn of all) {
+    closeConnection(conn, "pool shutdown");
+  }
+  await Promise.all(all.map((conn) => conn.swarm.destroy().catch(() => {})));
+}
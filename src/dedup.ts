@@ -0,0 +1,92 @@
+/**
+ * P2P Delivery Deduplication
+ *
+ * Remembers which outbox message ids each sender has already delivered, so
+ * retries of a message whose ack was lost are acknowledged without being
+ * logged or injected a second time.
+ */
+
+import type { P2PDeliveredRow } from "./storage-schema.js";
+import type { StorageApi } from "./types.js";
+
+// Keep delivery records longer than the sender's outbox keeps retrying
+const DELIVERED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_DELIVERED = 10000;
+
+// Module-level storage reference and cache
+let _storage: StorageApi | null = null;
+const _delivered: Map<string, P2PDeliveredRow> = new Map();
+
+export function setDedupStorage(storage: StorageApi): void {
+  _storage = storage;
+}
+
+export async function loadDeliveredIds(): Promise<void> {
+  if (!_storage) return;
+  const repo = _storage.getRepository<P2PDeliveredRow>("p2p", "delivered");
+  const rows: P2PDeliveredRow[] = await repo.findMany();
+  _delivered.clear();
+  for (const row of rows.sort((a, b) => a.receivedAt - b.receivedAt)) {
+    _delivered.set(row.id, row);
+  }
+  pruneDelivered();
+}
+
+function deliveryKey(from: string, msgId: string): string {
+  return `${from}:${msgId}`;
+}
+
+/**
+ * Check whether a message id from this sender was already delivered.
+ */
+export function isDuplicateDelivery(from: string, msgId: string): boolean {
+  return _delivered.has(deliveryKey(from, msgId));
+}
+
+/**
+ * Record a delivered message id from a sender.
+ */
+export function recordDelivery(from: string, msgId: string): void {
+  const row: P2PDeliveredRow = {
+    id: deliveryKey(from, msgId),
+    from,
+    msgId,
+    receivedAt: Date.now(),
+  };
+  _delivered.set(row.id, row);
+  pruneDelivered();
+
+  if (!_storage) return;
+  // Fire async write
+  _storage
+    .getRepository<P2PDeliveredRow>("p2p", "delivered")
+    .insert(row)
+    .catch(() => {});
+}
+
+/**
+ * Drop expired records, and the oldest ones past the size cap.
+ */
+function pruneDelivered(): void {
+  const cutoff = Date.now() - DELIVERED_RETENTION_MS;
+  const removed: string[] = [];
+  // Map iteration is insertion order, i.e. oldest first
+  for (const [id, row] of _delivered) {
+    if (row.receivedAt >= cutoff && _delivered.size - removed.length <= MAX_DELIVERED) break;
+    removed.push(id);
+  }
+  if (removed.length === 0) return;
+
+  const repo = _storage?.getRepository<P2PDeliveredRow>("p2p", "delivered");
+  for (const id of removed) {
+    _delivered.delete(id);
+    repo?.delete(id).catch(() => {});
+  }
+}
+
+/**
+ * Clear all delivery records (for testing).
+ */
+export function resetDeliveredIds(): void {
+  _delivered.clear();
+}
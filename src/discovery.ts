@@ -5,11 +5,15 @@
  * Peers can join topics to find each other without prior knowledge.
  */
 
-import { createHash } from "node:crypto";
+import { createHash, randomBytes } from "node:crypto";
+import type { Duplex } from "node:stream";
 import Hyperswarm from "hyperswarm";
 import { getSwarmOptions } from "./config.js";
-import { getIdentity, shortKey } from "./identity.js";
-import { addPeer, grantAccess } from "./trust.js";
+import { emitP2PEvent } from "./events.js";
+import { createMessageDecoder, encodeFrame, FRAMING_VERSION, MAX_FRAME_SIZE, type MessageDecoder } from "./framing.js";
+import { getIdentity, shortKey, signMessage, verifySignature } from "./identity.js";
+import { getReplayProtector } from "./rate-limit.js";
+import { addPeer } from "./trust.js";
 import type { ConnectionResult, DiscoveredPeer, DiscoveryProfile } from "./types.js";
 import { EXIT_OK, EXIT_PEER_OFFLINE, EXIT_UNAUTHORIZED } from "./types.js";
 
@@ -20,9 +24,220 @@ const activeTopics: Map<string, Buffer> = new Map();
 const discoveredPeers: Map<string, DiscoveredPeer> = new Map();
 const peerSockets: Map<string, any> = new Map(); // Track sockets by peer publicKey
 const swarmKeyToProfileKey: Map<string, string> = new Map(); // Map Hyperswarm key to profile key
+// Settles our outstanding connect_request to a peer, by identity key
+const pendingConnectRequests: Map<string, (response: Record<string, unknown>) => void> = new Map();
 let connectionHandler: ((peer: DiscoveryProfile, topic: string) => Promise<ConnectionResult>) | null = null;
 let logFn: ((msg: string) => void) | null = null;
 
+const LEGACY_DETECT_TIMEOUT_MS = 2000;
+
+/**
+ * Wire format of a discovery socket. Every connection starts "detecting":
+ * we send a newline-terminated hello and wait. A hello back switches both
+ * sides to length-prefixed frames; a bare JSON message (or silence) means a
+ * legacy peer that exchanges raw JSON chunks.
+ */
+type WireMode = "detecting" | "legacy" | "framed";
+
+interface DiscoveryConnection {
+  mode: WireMode;
+  decoder: MessageDecoder;
+  detectBuffer: Buffer;
+  queue: Record<string, unknown>[]; // Outbound messages held while detecting
+  peerKey?: string; // Identity key of the first verified message on this socket
+}
+
+const connectionStates: WeakMap<Duplex, DiscoveryConnection> = new WeakMap();
+
+/**
+ * Send a discovery message in the socket's wire format.
+ */
+function sendDiscoveryMessage(socket: Duplex, msg: Record<string, unknown>): boolean {
+  const state = connectionStates.get(socket);
+  if (state?.mode === "detecting") {
+    state.queue.push(msg);
+    return true;
+  }
+  const signed = signDiscoveryMessage(msg, discoverySwarm?.keyPair.publicKey.toString("hex") || "");
+  if (state?.mode === "framed") {
+    return socket.write(encodeFrame(signed));
+  }
+  // Legacy peers parse each chunk as one JSON document
+  return socket.write(JSON.stringify(signed));
+}
+
+/**
+ * Sign a discovery message with our identity key. The signature also covers
+ * our Hyperswarm key, so the message is only valid on a connection from
+ * that swarm key, and a nonce and timestamp for replay protection.
+ */
+export function signDiscoveryMessage(msg: Record<string, unknown>, swarmKey: string): Record<string, unknown> {
+  const identity = getIdentity();
+  if (!identity) throw new Error("No identity");
+  return signMessage({
+    ...msg,
+    from: identity.publicKey,
+    swarmKey,
+    nonce: randomBytes(16).toString("hex"),
+    ts: Date.now(),
+  });
+}
+
+/**
+ * Verify a discovery message from a peer. `remoteSwarmKey` is the
+ * Hyperswarm key of the connection it arrived on, and `boundKey` the
+ * identity key already verified on that connection, if any. Returns the
+ * reject reason, or null if the message is authentic.
+ */
+export function verifyDiscoveryMessage(
+  msg: Record<string, unknown>,
+  remoteSwarmKey: string | undefined,
+  boundKey: string | undefined,
+): string | null {
+  if (
+    typeof msg.from !== "string" ||
+    typeof msg.sig !== "string" ||
+    typeof msg.nonce !== "string" ||
+    typeof msg.ts !== "number"
+  ) {
+    return "unsigned message";
+  }
+  if (!verifySignature(msg as { sig: string }, msg.from)) {
+    return "invalid signature";
+  }
+  // Without the connection's key the message cannot be bound to it
+  if (!remoteSwarmKey) {
+    return "unknown swarm key";
+  }
+  if (msg.swarmKey !== remoteSwarmKey) {
+    return "swarm key mismatch";
+  }
+  if (boundKey && msg.from !== boundKey) {
+    return "sender changed";
+  }
+  const profile = msg.profile as { publicKey?: string } | undefined;
+  if (profile && profile.publicKey !== msg.from) {
+    return "profile key mismatch";
+  }
+  // Checked last so rejected messages do not use up nonces
+  if (!getReplayProtector().check(msg.nonce, msg.ts, msg.from)) {
+    return "replay detected";
+  }
+  return null;
+}
+
+/**
+ * Forget a peer whose messages could not be verified.
+ */
+function dropPeer(socket: Duplex, peerKey: string | undefined, remotePubkey: string | undefined): void {
+  const keys = new Set([peerKey, remotePubkey && swarmKeyToProfileKey.get(remotePubkey)]);
+  for (const key of keys) {
+    if (key && peerSockets.get(key) === socket) {
+      discoveredPeers.delete(key);
+      peerSockets.delete(key);
+    }
+  }
+  if (remotePubkey) {
+    swarmKeyToProfileKey.delete(remotePubkey);
+  }
+  socket.destroy();
+}
+
+function setWireMode(socket: Duplex, state: DiscoveryConnection, mode: "legacy" | "framed"): void {
+  state.mode = mode;
+  if (mode === "framed") {
+    state.decoder.setFramed();
+  }
+  logFn?.(`[discovery] Using ${mode} wire format`);
+  const queued = state.queue;
+  state.queue = [];
+  for (const msg of queued) {
+    sendDiscoveryMessage(socket, msg);
+  }
+}
+
+function isMessageObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * Sessions an accepted connect_response lets us send to. A response that
+ * names none opens every session; a malformed list opens none.
+ */
+function responseSessions(msg: Record<string, unknown>): string[] {
+  if (msg.sessions === undefined) return ["*"];
+  return isStringArray(msg.sessions) ? msg.sessions : [];
+}
+
+function parseDiscoveryMessage(text: string): Record<string, unknown>[] {
+  try {
+    const msg: unknown = JSON.parse(text);
+    return isMessageObject(msg) ? [msg] : [];
+  } catch (err: unknown) {
+    logFn?.(`Discovery message error: ${err}`);
+    return [];
+  }
+}
+
+/**
+ * Decode the messages carried by one chunk, negotiating the wire format
+ * on the first messages of the connection. Throws only when the stream
+ * cannot continue (oversized message).
+ */
+function readDiscoveryMessages(socket: Duplex, state: DiscoveryConnection, data: Buffer): Record<string, unknown>[] {
+  if (state.mode === "legacy") {
+    return parseDiscoveryMessage(data.toString());
+  }
+
+  const messages: Record<string, unknown>[] = [];
+  if (state.mode === "detecting") {
+    state.detectBuffer = Buffer.concat([state.detectBuffer, data]);
+    const newline = state.detectBuffer.indexOf(0x0a);
+
+    if (newline === -1) {
+      // No hello line yet - either a legacy JSON chunk or a partial hello
+      try {
+        const msg: unknown = JSON.parse(state.detectBuffer.toString());
+        state.detectBuffer = Buffer.alloc(0);
+        setWireMode(socket, state, "legacy");
+        return isMessageObject(msg) ? [msg] : [];
+      } catch {
+        if (state.detectBuffer.length > MAX_FRAME_SIZE) {
+          throw new Error(`Message too large: ${state.detectBuffer.length} bytes`);
+        }
+        return [];
+      }
+    }
+
+    const line = state.detectBuffer.subarray(0, newline).toString();
+    const rest = state.detectBuffer.subarray(newline + 1);
+    state.detectBuffer = Buffer.alloc(0);
+    const [first] = parseDiscoveryMessage(line);
+
+    if (first?.type === "hello" && Array.isArray(first.versions) && first.versions.includes(FRAMING_VERSION)) {
+      setWireMode(socket, state, "framed");
+      data = rest;
+    } else {
+      setWireMode(socket, state, "legacy");
+      if (first) messages.push(first);
+      if (rest.length > 0) messages.push(...parseDiscoveryMessage(rest.toString()));
+      return messages;
+    }
+  }
+
+  state.decoder.push(data);
+  let text = state.decoder.next();
+  while (text !== null) {
+    messages.push(...parseDiscoveryMessage(text));
+    text = state.decoder.next();
+  }
+  return messages;
+}
+
 /**
  * Hash a topic name to a 32-byte key for DHT
  */
@@ -74,10 +289,30 @@ export async function initDiscovery(
     logFn?.(`Discovery connection from ${remotePubkey ? shortKey(remotePubkey) : "unknown"}`);
     logFn?.(`Connection info - client: ${peerInfo.client}, topics: ${peerInfo.topics?.length || 0}`);
 
+    const state: DiscoveryConnection = {
+      mode: "detecting",
+      decoder: createMessageDecoder(),
+      detectBuffer: Buffer.alloc(0),
+      queue: [],
+    };
+    connectionStates.set(socket, state);
+
+    // Offer framing with a newline-terminated hello. Legacy peers ignore it.
+    socket.write(`${JSON.stringify({ type: "hello", versions: [FRAMING_VERSION] })}\n`);
+
+    // Peers that never answer the hello are legacy peers
+    const detectTimer = setTimeout(() => {
+      if (state.mode === "detecting") {
+        setWireMode(socket, state, "legacy");
+      }
+    }, LEGACY_DETECT_TIMEOUT_MS);
+
     // Setup keepalive ping every 10 seconds
     const keepaliveInterval = setInterval(() => {
       try {
-        socket.write(JSON.stringify({ type: "ping", ts: Date.now() }));
+        if (state.mode !== "detecting") {
+          sendDiscoveryMessage(socket, { type: "ping" });
+        }
       } catch {
         clearInterval(keepaliveInterval);
       }
@@ -85,91 +320,34 @@ export async function initDiscovery(
 
     // Clean up keepalive on socket close/error
     socket.on("close", () => {
+      clearTimeout(detectTimer);
       clearInterval(keepaliveInterval);
       logFn?.(`[discovery] Socket closed for ${remotePubkey ? shortKey(remotePubkey) : "unknown"}`);
     });
     socket.on("error", (err: Error) => {
+      clearTimeout(detectTimer);
       clearInterval(keepaliveInterval);
       logFn?.(`[discovery] Socket error: ${err.message}`);
     });
 
-    // Exchange profiles
-    const profileMsg = JSON.stringify({
+    // Exchange profiles (queued until the wire format is known)
+    logFn?.(`Queueing profile for ${remotePubkey ? shortKey(remotePubkey) : "unknown"}`);
+    sendDiscoveryMessage(socket, {
       type: "profile",
       profile: myProfile,
     });
-    logFn?.(`Sending profile (${profileMsg.length} bytes)`);
-    const writeResult = socket.write(profileMsg);
-    logFn?.(`Write result: ${writeResult}`);
 
-    socket.on("data", async (data: Buffer) => {
-      logFn?.(`Received data (${data.length} bytes): ${data.toString().slice(0, 100)}...`);
+    socket.on("data", (data: Buffer) => {
       try {
-        const msg = JSON.parse(data.toString());
-        logFn?.(`Parsed message type: ${msg.type}`);
-
-        if (msg.type === "profile" && msg.profile) {
-          const peer = msg.profile as DiscoveryProfile;
-          discoveredPeers.set(peer.publicKey, peer);
-          peerSockets.set(peer.publicKey, socket); // Track socket for this peer
-          if (remotePubkey) {
-            swarmKeyToProfileKey.set(remotePubkey, peer.publicKey); // Map swarm key to profile key
-          }
-          logFn?.(`Discovered peer: ${peer.id}, total peers: ${discoveredPeers.size}`);
-        } else if (msg.type === "connect_request" && msg.topic) {
-          // Handle connection request
-          if (connectionHandler && myProfile) {
-            const result = await connectionHandler(msg.profile, msg.topic);
-            socket.write(
-              JSON.stringify({
-                type: "connect_response",
-                ...result,
-              }),
-            );
-
-            if (result.accept && msg.profile) {
-              // Grant access
-              grantAccess(msg.profile.publicKey, result.sessions || ["*"], ["inject"], msg.profile.encryptPub);
-              addPeer(msg.profile.publicKey, result.sessions || ["*"], ["inject"], msg.profile.encryptPub);
-              logFn?.(`Granted access to ${msg.profile.id}`);
-            }
-          }
-        } else if (msg.type === "connect_response") {
-          // Handle connection response (stored for later retrieval)
-          if (msg.accept && remotePubkey) {
-            // Look up profile key from swarm key
-            const profileKey = swarmKeyToProfileKey.get(remotePubkey);
-            const peer = profileKey ? discoveredPeers.get(profileKey) : null;
-            if (peer) {
-              peer.connected = true;
-              peer.grantedSessions = msg.sessions;
-              // Auto-grant bidirectional access - they accepted us, so we grant them access to message us back
-              grantAccess(peer.publicKey, msg.sessions || ["*"], ["inject", "message"], peer.encryptPub);
-              addPeer(peer.publicKey, msg.sessions || ["*"], ["inject", "message"], peer.encryptPub);
-              logFn?.(
-                `Connection accepted by ${peer.id}, sessions: ${msg.sessions}, auto-granted bidirectional access`,
-              );
-            } else {
-              logFn?.(`connect_response received but peer not found for swarm key ${shortKey(remotePubkey)}`);
-            }
-          }
-        } else if (msg.type === "ping") {
-          // Respond to keepalive ping with pong
-          socket.write(JSON.stringify({ type: "pong", ts: msg.ts }));
-        } else if (msg.type === "pong") {
-          // Keepalive pong received - connection is alive
-          // No action needed, just keeps the connection active
-        } else if (msg.type === "grant_update" && msg.grants) {
-          // Peer is notifying us of updated grants for us
-          const profileKey = swarmKeyToProfileKey.get(remotePubkey || "");
-          const peer = profileKey ? discoveredPeers.get(profileKey) : null;
-          if (peer) {
-            peer.grantedSessions = msg.grants.sessions || peer.grantedSessions;
-            logFn?.(`Grant update from ${peer.id}: sessions=${msg.grants.sessions}`);
-          }
+        for (const msg of readDiscoveryMessages(socket, state, data)) {
+          handleDiscoveryMessage(socket, state, msg, remotePubkey).catch((err: unknown) => {
+            logFn?.(`Discovery message error: ${err}`);
+          });
         }
       } catch (err: unknown) {
-        logFn?.(`Discovery message error: ${err}`);
+        // Oversized or corrupt frame - the stream cannot be resynced
+        logFn?.(`Discovery protocol error: ${err}`);
+        socket.destroy();
       }
     });
 
@@ -181,6 +359,94 @@ export async function initDiscovery(
   logFn?.("Discovery initialized");
 }
 
+/**
+ * Handle one decoded discovery message from a peer socket.
+ */
+async function handleDiscoveryMessage(
+  socket: Duplex,
+  state: DiscoveryConnection,
+  msg: Record<string, unknown>,
+  remotePubkey: string | undefined,
+): Promise<void> {
+  logFn?.(`Parsed message type: ${msg.type}`);
+
+  if (msg.type === "hello") {
+    return; // Wire-format offer we do not support; not signed
+  }
+
+  const rejected = verifyDiscoveryMessage(msg, remotePubkey, state.peerKey);
+  if (rejected) {
+    logFn?.(`[discovery] Dropping peer ${remotePubkey ? shortKey(remotePubkey) : "unknown"}: ${rejected}`);
+    emitP2PEvent({ type: "peer-dropped", peerKey: state.peerKey, reason: rejected });
+    dropPeer(socket, state.peerKey, remotePubkey);
+    return;
+  }
+  // Verified above: a signed message names its sender
+  const from = msg.from as string;
+  state.peerKey = from;
+
+  if (msg.type === "profile" && msg.profile) {
+    const peer = msg.profile as DiscoveryProfile;
+    discoveredPeers.set(peer.publicKey, peer);
+    peerSockets.set(peer.publicKey, socket); // Track socket for this peer
+    if (remotePubkey) {
+      swarmKeyToProfileKey.set(remotePubkey, peer.publicKey); // Map swarm key to profile key
+    }
+    logFn?.(`Discovered peer: ${peer.id}, total peers: ${discoveredPeers.size}`);
+    emitP2PEvent({ type: "peer-discovered", peerId: peer.id, publicKey: peer.publicKey, topics: peer.topics || [] });
+  } else if (msg.type === "connect_request" && typeof msg.topic === "string" && msg.profile) {
+    // Handle connection request (profile key verified as the signer above)
+    if (connectionHandler && myProfile) {
+      const profile = msg.profile as DiscoveryProfile;
+      const result = await connectionHandler(profile, msg.topic);
+      emitP2PEvent({ type: "connect-request", peerId: profile.id, topic: msg.topic, accepted: result.accept });
+      sendDiscoveryMessage(socket, {
+        type: "connect_response",
+        ...result,
+      });
+
+      if (result.accept) {
+        // Access comes only from the grant the peer already has. Granting
+        // here would let a peer widen its own caps by asking to connect.
+        addPeer(profile.publicKey, [], [], profile.encryptPub);
+        logFn?.(`Accepted connection from ${profile.id}`);
+      }
+    }
+  } else if (msg.type === "connect_response") {
+    // Only answers to our own connect_request count
+    const settle = pendingConnectRequests.get(from);
+    if (!settle) {
+      logFn?.(`Ignoring unsolicited connect_response from ${shortKey(from)}`);
+      return;
+    }
+    const peer = discoveredPeers.get(from);
+    if (msg.accept && peer) {
+      const sessions = responseSessions(msg);
+      peer.connected = true;
+      peer.grantedSessions = sessions;
+      // Peer sessions are where we may send to it. What it may do here
+      // lives only in access grants, so this grants it nothing.
+      addPeer(peer.publicKey, sessions, ["inject", "message"], peer.encryptPub);
+      logFn?.(`Connection accepted by ${peer.id}, sessions: ${sessions}`);
+    }
+    settle(msg);
+  } else if (msg.type === "ping") {
+    // Respond to keepalive ping with pong
+    sendDiscoveryMessage(socket, { type: "pong" });
+  } else if (msg.type === "pong") {
+    // Keepalive pong received - connection is alive
+    // No action needed, just keeps the connection active
+  } else if (msg.type === "grant_update" && isMessageObject(msg.grants)) {
+    // Peer is notifying us of updated grants for us
+    const peer = discoveredPeers.get(from);
+    const sessions = isStringArray(msg.grants.sessions) ? msg.grants.sessions : undefined;
+    if (peer) {
+      peer.grantedSessions = sessions || peer.grantedSessions;
+      logFn?.(`Grant update from ${peer.id}: sessions=${sessions}`);
+    }
+  }
+}
+
 /**
  * Join a discovery topic
  */
@@ -203,6 +469,7 @@ export async function joinTopic(topic: string): Promise<void> {
 
   discoverySwarm.join(topicHash, { server: true, client: true });
   logFn?.(`Joined topic: ${topic}`);
+  emitP2PEvent({ type: "topic-joined", topic });
 }
 
 /**
@@ -227,6 +494,7 @@ export async function leaveTopic(topic: string): Promise<void> {
 
   await discoverySwarm.leave(topicHash);
   logFn?.(`Left topic: ${topic}`);
+  emitP2PEvent({ type: "topic-left", topic });
 }
 
 /**
@@ -299,28 +567,19 @@ export async function requestConnection(peerId: string): Promise<ConnectionResul
     };
   }
 
-  // Send connect_request message
-  logFn?.(`Sending connect_request to ${peer.id} for topic ${commonTopic}`);
-  try {
-    socket.write(
-      JSON.stringify({
-        type: "connect_request",
-        topic: commonTopic,
-        profile: myProfile,
-      }),
-    );
-  } catch (err: unknown) {
-    logFn?.(`Failed to send connect_request: ${err}`);
+  const peerKey = peer.publicKey;
+  if (pendingConnectRequests.has(peerKey)) {
     return {
       accept: false,
       code: EXIT_PEER_OFFLINE,
-      message: "Failed to send request",
+      message: "Connection request already pending",
     };
   }
 
-  // Wait for connect_response
-  return new Promise((resolve) => {
+  // Wait for connect_response (settled by its handler)
+  const response = new Promise<ConnectionResult>((resolve) => {
     const timeout = setTimeout(() => {
+      pendingConnectRequests.delete(peerKey);
       resolve({
         accept: false,
         code: EXIT_PEER_OFFLINE,
@@ -328,20 +587,40 @@ export async function requestConnection(peerId: string): Promise<ConnectionResul
       });
     }, 10000);
 
-		// Check if peer accepted (relies on connect_response handler)
-		const checkInterval = setInterval(() => {
-			const updatedPeer = discoveredPeers.get(peer?.publicKey);
-			if (updatedPeer?.connected) {
-				clearTimeout(timeout);
-				clearInterval(checkInterval);
-				resolve({
-					accept: true,
-					code: EXIT_OK,
-					sessions: updatedPeer.grantedSessions || ["*"],
-				});
-			}
-		}, 500);
-	});
+    pendingConnectRequests.set(peerKey, (msg) => {
+      clearTimeout(timeout);
+      pendingConnectRequests.delete(peerKey);
+      resolve(
+        msg.accept
+          ? { accept: true, code: EXIT_OK, sessions: responseSessions(msg) }
+          : {
+              accept: false,
+              code: EXIT_UNAUTHORIZED,
+              message: typeof msg.reason === "string" ? msg.reason : "Connection rejected",
+            },
+      );
+    });
+  });
+
+  // Send connect_request message
+  logFn?.(`Sending connect_request to ${peer.id} for topic ${commonTopic}`);
+  try {
+    sendDiscoveryMessage(socket, {
+      type: "connect_request",
+      topic: commonTopic,
+      profile: myProfile,
+    });
+  } catch (err: unknown) {
+    logFn?.(`Failed to send connect_request: ${err}`);
+    pendingConnectRequests.get(peerKey)?.({ accept: false, reason: "Failed to send request" });
+    return {
+      accept: false,
+      code: EXIT_PEER_OFFLINE,
+      message: "Failed to send request",
+    };
+  }
+
+  return response;
 }
 
 /**
@@ -366,12 +645,10 @@ export function updateProfile(content: Record<string, unknown>): DiscoveryProfil
   if (discoverySwarm) {
     for (const conn of discoverySwarm.connections) {
       try {
-        conn.write(
-          JSON.stringify({
-            type: "profile",
-            profile: myProfile,
-          }),
-        );
+        sendDiscoveryMessage(conn, {
+          type: "profile",
+          profile: myProfile,
+        });
       } catch {
         // Ignore write errors
       }
@@ -382,9 +659,10 @@ export function updateProfile(content: Record<string, unknown>): DiscoveryProfil
 }
 
 /**
- * Notify a connected peer of updated grants
+ * Notify a connected peer of updated grants. An expired or revoked grant
+ * is sent as an empty session list.
  */
-export function notifyGrantUpdate(peerPublicKey: string, sessions: string[]): boolean {
+export function notifyGrantUpdate(peerPublicKey: string, sessions: string[], expiresAt?: number): boolean {
   const socket = peerSockets.get(peerPublicKey);
   if (!socket) {
     logFn?.(`Cannot notify grant update - no socket for peer ${shortKey(peerPublicKey)}`);
@@ -392,12 +670,10 @@ export function notifyGrantUpdate(peerPublicKey: string, sessions: string[]): bo
   }
 
   try {
-    socket.write(
-      JSON.stringify({
-        type: "grant_update",
-        grants: { sessions },
-      }),
-    );
+    sendDiscoveryMessage(socket, {
+      type: "grant_update",
+      grants: { sessions, expiresAt },
+    });
     logFn?.(`Sent grant update to ${shortKey(peerPublicKey)}: sessions=${sessions}`);
     return true;
   } catch (err: unknown) {
@@ -410,15 +686,15 @@ export function notifyGrantUpdate(peerPublicKey: string, sessions: string[]): bo
  * Shutdown discovery system
  */
 export async function shutdownDiscovery(): Promise<void> {
-	if (discoverySwarm) {
-		// Leave all topics
-		for (const [_topic, hash] of activeTopics) {
-			try {
-				await discoverySwarm.leave(hash);
-			} catch {
-				// Ignore errors during shutdown
-			}
-		}
+  if (discoverySwarm) {
+    // Leave all topics
+    for (const [_topic, hash] of activeTopics) {
+      try {
+        await discoverySwarm.leave(hash);
+      } catch {
+        // Ignore errors during shutdown
+      }
+    }
 
     await discoverySwarm.destroy();
     discoverySwarm = null;
@@ -428,6 +704,9 @@ export async function shutdownDiscovery(): Promise<void> {
   discoveredPeers.clear();
   peerSockets.clear();
   swarmKeyToProfileKey.clear();
+  for (const settle of pendingConnectRequests.values()) {
+    settle({ accept: false, reason: "Discovery shut down" });
+  }
   myProfile = null;
   connectionHandler = null;
   logFn = null;
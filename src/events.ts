@@ -0,0 +1,68 @@
+/**
+ * P2P Event Bus
+ *
+ * Typed in-process events for live P2P activity: connections, handshakes,
+ * incoming messages, rejects, discovery and friend requests. Listeners are
+ * the SSE endpoint of the REST API and the `onEvent` subscription on the
+ * p2p extension. A short history is kept so reconnecting SSE clients can
+ * catch up from their last event id.
+ */
+
+import type { P2PEvent, P2PEventPayload } from "./types.js";
+
+const MAX_RECENT_EVENTS = 200;
+
+type P2PEventListener = (event: P2PEvent) => void;
+
+const listeners: Set<P2PEventListener> = new Set();
+const recentEvents: P2PEvent[] = [];
+let nextEventId = 1;
+
+/**
+ * Publish an event to every listener. A throwing listener does not stop
+ * delivery to the others.
+ */
+export function emitP2PEvent(payload: P2PEventPayload): P2PEvent {
+  const event = { ...payload, id: nextEventId++, ts: Date.now() } as P2PEvent;
+
+  recentEvents.push(event);
+  if (recentEvents.length > MAX_RECENT_EVENTS) {
+    recentEvents.shift();
+  }
+
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch {
+      // Listener errors are the subscriber's problem
+    }
+  }
+  return event;
+}
+
+/**
+ * Subscribe to events. Returns a function that unsubscribes.
+ */
+export function onP2PEvent(listener: P2PEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Events still in the history with an id greater than `afterId`, oldest
+ * first.
+ */
+export function getRecentEvents(afterId = 0): P2PEvent[] {
+  return recentEvents.filter((e) => e.id > afterId);
+}
+
+/**
+ * Clear listeners and history (for testing).
+ */
+export function resetEvents(): void {
+  listeners.clear();
+  recentEvents.length = 0;
+  nextEventId = 1;
+}
@@ -0,0 +1,327 @@
+/**
+ * P2P File Transfer
+ *
+ * Tracks file transfers in both directions and runs the receiving side:
+ * size and quota checks, partial files, checksum verification, and the
+ * per-session inbox that completed files are moved into. Files are only
+ * sent from the outgoing directory.
+ *
+ * Transfer ids are derived from the sender, session, and file contents, so
+ * sending the same file again resumes from the bytes the receiver already
+ * has in its partial file.
+ */
+
+import { createHash } from "node:crypto";
+import {
+  appendFileSync,
+  createReadStream,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  realpathSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { open } from "node:fs/promises";
+import { homedir } from "node:os";
+import { basename, extname, join, resolve, sep } from "node:path";
+import { getP2PConfig } from "./config.js";
+import type { FileOffer, FileTransfer, TransferDirection } from "./types.js";
+
+export const FILE_CHUNK_SIZE = 256 * 1024; // Raw bytes per chunk, well under the payload limit once encoded
+
+const DEFAULT_MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
+const DEFAULT_INBOX_QUOTA = 1024 * 1024 * 1024; // 1GB per session
+const MAX_FINISHED_TRANSFERS = 100;
+
+// Transfer records, keyed by direction, peer, and transfer id
+const transfers: Map<string, FileTransfer> = new Map();
+
+// Resolve data directory (same logic as trust.ts/friends.ts)
+function getFilesDir(): string {
+  const dataDir =
+    process.env.WOPR_P2P_DATA_DIR || (existsSync("/data") ? "/data/p2p" : join(homedir(), ".wopr", "p2p"));
+  return join(dataDir, "files");
+}
+
+/**
+ * Reduce a peer-supplied name to a single safe path component.
+ */
+export function safeFileName(name: string): string {
+  const cleaned = basename(name.replace(/\\/g, "/"))
+    .replace(/[^\w.\- ]/g, "_")
+    .replace(/^\.+/, "")
+    .trim();
+  return cleaned || "file";
+}
+
+/**
+ * Directory that files received for a session are stored in.
+ */
+export function getInboxDir(session: string): string {
+  return join(getFilesDir(), "inbox", safeFileName(session));
+}
+
+/**
+ * Directory files must be in to be sent to a peer.
+ */
+export function getOutgoingDir(): string {
+  return resolve(getP2PConfig().outgoingDir || join(getFilesDir(), "outgoing"));
+}
+
+/**
+ * Resolve a file to send, relative to the outgoing directory. Throws if it
+ * lies outside it, so a prompt cannot send the database or token files.
+ */
+export function resolveOutgoingPath(filePath: string): string {
+  const dir = getOutgoingDir();
+  // Follow symlinks on both sides, so a link cannot point out of the directory
+  const root = (existsSync(dir) ? realpathSync(dir) : dir) + sep;
+  const resolved = resolve(dir, filePath);
+  const real = existsSync(resolved) ? realpathSync(resolved) : resolved;
+  if (!real.startsWith(root)) {
+    throw new Error(`Files can only be sent from ${dir}`);
+  }
+  return real;
+}
+
+function partPath(peerKey: string, transferId: string): string {
+  const name = createHash("sha256").update(`${peerKey}:${transferId}`).digest("hex").slice(0, 32);
+  return join(getFilesDir(), "partial", `${name}.part`);
+}
+
+function transferKey(direction: TransferDirection, peerKey: string, id: string): string {
+  return `${direction}:${peerKey}:${id}`;
+}
+
+/**
+ * Stable id for sending a file to a session, so a repeated send resumes.
+ */
+export function getTransferId(senderKey: string, session: string, offer: FileOffer): string {
+  return createHash("sha256")
+    .update(`${senderKey}:${session}:${offer.name}:${offer.size}:${offer.sha256}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * SHA-256 of a file, read as a stream.
+ */
+export async function hashFile(path: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Read up to `length` bytes of a file starting at `offset`.
+ */
+export async function readFileChunk(path: string, offset: number, length: number): Promise<Buffer> {
+  const handle = await open(path, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, offset);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Add or replace a transfer record. Old finished transfers are dropped
+ * once there are too many.
+ */
+export function recordTransfer(transfer: FileTransfer): FileTransfer {
+  const key = transferKey(transfer.direction, transfer.peerKey, transfer.id);
+  transfers.delete(key);
+  transfers.set(key, transfer);
+
+  const finished = Array.from(transfers.entries()).filter(([, t]) => t.status !== "active");
+  for (const [oldKey] of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_TRANSFERS))) {
+    transfers.delete(oldKey);
+  }
+  return transfer;
+}
+
+export function updateTransfer(transfer: FileTransfer, changes: Partial<FileTransfer>): void {
+  Object.assign(transfer, changes, { updated: Date.now() });
+}
+
+/**
+ * List transfers, newest first, optionally for one peer or direction.
+ */
+export function getTransfers(filter: { peerKey?: string; direction?: TransferDirection } = {}): FileTransfer[] {
+  return Array.from(transfers.values())
+    .filter(
+      (t) =>
+        (!filter.peerKey || t.peerKey === filter.peerKey) && (!filter.direction || t.direction === filter.direction),
+    )
+    .sort((a, b) => b.started - a.started);
+}
+
+/**
+ * Parse the decrypted body of a file offer. Throws if it is malformed.
+ */
+export function parseFileOffer(text: string): FileOffer {
+  const offer = JSON.parse(text) as Partial<FileOffer>;
+  if (
+    typeof offer.name !== "string" ||
+    typeof offer.size !== "number" ||
+    !Number.isInteger(offer.size) ||
+    offer.size < 0 ||
+    typeof offer.sha256 !== "string" ||
+    !/^[0-9a-f]{64}$/.test(offer.sha256)
+  ) {
+    throw new Error("invalid file offer");
+  }
+  return { name: offer.name, size: offer.size, sha256: offer.sha256 };
+}
+
+function inboxUsage(session: string): number {
+  const dir = getInboxDir(session);
+  if (!existsSync(dir)) return 0;
+  return readdirSync(dir).reduce((total, name) => total + statSync(join(dir, name)).size, 0);
+}
+
+// Bytes still expected by active incoming transfers for a session
+function reservedBytes(session: string, exceptKey: string): number {
+  let total = 0;
+  for (const [key, t] of transfers) {
+    if (key !== exceptKey && t.direction === "receive" && t.status === "active" && t.session === session) {
+      total += t.size;
+    }
+  }
+  return total;
+}
+
+export interface ReceiveResult {
+  transfer: FileTransfer;
+  completed: boolean; // The file was verified and moved to the inbox by this call
+}
+
+/**
+ * Accept a file offer from a peer. Resumes from an existing partial file.
+ * Throws with the reject reason if the file is not accepted.
+ */
+export async function receiveFileOffer(
+  peerKey: string,
+  session: string,
+  transferId: string,
+  offer: FileOffer,
+): Promise<ReceiveResult> {
+  const key = transferKey("receive", peerKey, transferId);
+  const existing = transfers.get(key);
+  if (existing?.status === "complete") {
+    // Sent again after it already arrived
+    return { transfer: existing, completed: false };
+  }
+
+  const config = getP2PConfig();
+  const maxFileSize = config.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  if (offer.size > maxFileSize) {
+    throw new Error(`file too large: ${offer.size} bytes exceeds ${maxFileSize} limit`);
+  }
+  const quota = config.inboxQuotaBytes ?? DEFAULT_INBOX_QUOTA;
+  if (inboxUsage(session) + reservedBytes(session, key) + offer.size > quota) {
+    throw new Error("inbox quota exceeded");
+  }
+
+  const part = partPath(peerKey, transferId);
+  mkdirSync(join(getFilesDir(), "partial"), { recursive: true });
+  let received = existsSync(part) ? statSync(part).size : 0;
+  if (received > offer.size) {
+    received = 0;
+  }
+  if (received === 0) {
+    writeFileSync(part, "");
+  }
+
+  const now = Date.now();
+  const transfer = recordTransfer({
+    id: transferId,
+    direction: "receive",
+    peerKey,
+    session,
+    name: safeFileName(offer.name),
+    size: offer.size,
+    sha256: offer.sha256,
+    bytes: received,
+    status: "active",
+    started: existing?.started ?? now,
+    updated: now,
+  });
+
+  if (received === offer.size) {
+    await completeTransfer(transfer);
+    return { transfer, completed: true };
+  }
+  return { transfer, completed: false };
+}
+
+/**
+ * Append a chunk to an accepted transfer. A chunk at the wrong offset is
+ * ignored; the returned transfer's byte count tells the sender where to
+ * continue. Throws with the reject reason on failure.
+ */
+export async function receiveFileChunk(
+  peerKey: string,
+  transferId: string,
+  offset: number,
+  data: Buffer,
+): Promise<ReceiveResult> {
+  const transfer = transfers.get(transferKey("receive", peerKey, transferId));
+  if (transfer?.status !== "active") {
+    throw new Error("unknown transfer");
+  }
+  if (offset !== transfer.bytes) {
+    return { transfer, completed: false };
+  }
+  if (transfer.bytes + data.length > transfer.size) {
+    throw new Error("chunk past end of file");
+  }
+
+  appendFileSync(partPath(peerKey, transferId), data);
+  updateTransfer(transfer, { bytes: transfer.bytes + data.length });
+
+  if (transfer.bytes === transfer.size) {
+    await completeTransfer(transfer);
+    return { transfer, completed: true };
+  }
+  return { transfer, completed: false };
+}
+
+/**
+ * Verify a fully received file and move it into the session inbox.
+ */
+async function completeTransfer(transfer: FileTransfer): Promise<void> {
+  const part = partPath(transfer.peerKey, transfer.id);
+  const digest = await hashFile(part);
+  if (digest !== transfer.sha256) {
+    unlinkSync(part);
+    updateTransfer(transfer, { status: "failed", error: "checksum mismatch" });
+    throw new Error("checksum mismatch");
+  }
+
+  const dir = getInboxDir(transfer.session);
+  mkdirSync(dir, { recursive: true });
+  const ext = extname(transfer.name);
+  const stem = transfer.name.slice(0, transfer.name.length - ext.length);
+  let target = join(dir, transfer.name);
+  for (let i = 1; existsSync(target); i++) {
+    target = join(dir, `${stem} (${i})${ext}`);
+  }
+
+  renameSync(part, target);
+  updateTransfer(transfer, { status: "complete", path: target });
+}
+
+/**
+ * Clear all transfer records (for testing).
+ */
+export function resetTransfers(): void {
+  transfers.clear();
+}
@@ -0,0 +1,104 @@
+/**
+ * P2P Message Framing
+ *
+ * Shared wire codec for P2P and discovery sockets. Connections start in
+ * newline-delimited JSON so the hello exchange works with every protocol
+ * version. Once both sides agree on FRAMING_VERSION or later they switch to
+ * length-prefixed frames: a 4-byte big-endian length followed by that many
+ * bytes of UTF-8 JSON.
+ */
+
+import type { Duplex } from "node:stream";
+
+// First protocol version that uses length-prefixed frames after the hello
+export const FRAMING_VERSION = 3;
+
+export const FRAME_HEADER_SIZE = 4;
+export const MAX_FRAME_SIZE = 1024 * 1024 + 4096; // 1MB payload + protocol overhead
+
+/**
+ * Incremental decoder for one socket. Push raw chunks in, pull complete
+ * messages out as JSON text. Starts in line mode; setFramed() switches to
+ * length-prefixed frames, keeping any bytes already buffered.
+ */
+export interface MessageDecoder {
+  push(chunk: Buffer): void;
+  // Next complete message, or null if more data is needed.
+  // Throws if a message exceeds the size limit; the stream cannot be resynced after that.
+  next(): string | null;
+  setFramed(): void;
+  readonly framed: boolean;
+}
+
+export function createMessageDecoder(maxFrameSize = MAX_FRAME_SIZE): MessageDecoder {
+  let buffer: Buffer = Buffer.alloc(0);
+  let framed = false;
+
+  // Reject a frame as soon as its header is readable, before its body is buffered
+  const checkFrameHeader = (): number | null => {
+    if (buffer.length < FRAME_HEADER_SIZE) return null;
+    const length = buffer.readUInt32BE(0);
+    if (length > maxFrameSize) {
+      throw new Error(`Frame too large: ${length} > ${maxFrameSize}`);
+    }
+    return length;
+  };
+
+  return {
+    push(chunk: Buffer): void {
+      buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk]);
+      if (framed) {
+        checkFrameHeader();
+      } else if (buffer.length > maxFrameSize && !buffer.includes(0x0a)) {
+        throw new Error(`Message too large: no newline in ${buffer.length} bytes`);
+      }
+    },
+
+    next(): string | null {
+      if (framed) {
+        const length = checkFrameHeader();
+        if (length === null || buffer.length < FRAME_HEADER_SIZE + length) return null;
+        const message = buffer.subarray(FRAME_HEADER_SIZE, FRAME_HEADER_SIZE + length).toString("utf8");
+        buffer = buffer.subarray(FRAME_HEADER_SIZE + length);
+        return message;
+      }
+
+      const newline = buffer.indexOf(0x0a);
+      if (newline === -1) return null;
+      if (newline > maxFrameSize) {
+        throw new Error(`Message too large: ${newline} > ${maxFrameSize}`);
+      }
+      const line = buffer.subarray(0, newline).toString("utf8");
+      buffer = buffer.subarray(newline + 1);
+      return line;
+    },
+
+    setFramed(): void {
+      framed = true;
+    },
+
+    get framed() {
+      return framed;
+    },
+  };
+}
+
+/**
+ * Encode a message as a length-prefixed frame.
+ */
+export function encodeFrame(msg: unknown): Buffer {
+  const body = Buffer.from(JSON.stringify(msg), "utf8");
+  const header = Buffer.alloc(FRAME_HEADER_SIZE);
+  header.writeUInt32BE(body.length, 0);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Write a message in the connection's current wire format. Returns the
+ * number of bytes written.
+ */
+export function writeMessage(socket: Duplex, msg: unknown, framed: boolean): number {
+  const data = framed ? encodeFrame(msg) : Buffer.from(`${JSON.stringify(msg)}\n`, "utf8");
+  socket.write(data);
+  return data.length;
+}
@@ -6,16 +6,19 @@
  */
 
 import { createPrivateKey, createPublicKey, sign, verify } from "node:crypto";
-import { getIdentity, shortKey } from "./identity.js";
+import { emitP2PEvent } from "./events.js";
+import { getIdentity, shortKey, verifyKeyRotation } from "./identity.js";
 import { removeFriendFromSecurity, syncFriendToSecurity } from "./security-integration.js";
 import type { P2PAutoAcceptRow, P2PFriendRow, P2PPendingRequestRow } from "./storage-schema.js";
-import { addPeer, grantAccess } from "./trust.js";
+import { addPeer, grantAccess, isKeyRevoked } from "./trust.js";
 import type {
   AutoAcceptRule,
   Friend,
   FriendAccept,
+  FriendGrant,
   FriendRequest,
   FriendsState,
+  KeyRotation,
   OutgoingFriendRequest,
   PendingFriendRequest,
   StorageApi,
@@ -51,6 +54,9 @@ export async function loadFriendsData(): Promise<void> {
       addedAt: row.addedAt,
       caps: row.caps,
       channel: row.channel,
+      rateLimit: row.rateLimit,
+      verified: row.verified ? true : undefined,
+      verifiedAt: row.verifiedAt,
     })),
     pendingIn: pendingRows
       .filter((r) => r.direction === "in")
@@ -109,6 +115,9 @@ async function syncFriendsToStorage(state: FriendsState): Promise<void> {
       addedAt: f.addedAt,
       caps: f.caps,
       channel: f.channel,
+      rateLimit: f.rateLimit,
+      verified: f.verified ? 1 : undefined,
+      verifiedAt: f.verifiedAt,
     });
   }
 
@@ -361,6 +370,7 @@ export function queueForApproval(request: FriendRequest, channel: string, channe
   });
 
   saveFriendsState(state);
+  emitP2PEvent({ type: "friend-request", from: request.from, pubkey: request.pubkey });
 }
 
 /**
@@ -437,6 +447,7 @@ export function completeFriendship(accept: FriendAccept, channel: string): Frien
 
   state.friends.push(friend);
   saveFriendsState(state);
+  emitP2PEvent({ type: "friend-added", name: friend.name, pubkey: friend.publicKey });
 
   // Also add to P2P trust system
   addPeer(accept.pubkey, [sessionName], ["message"], accept.encryptPub);
@@ -488,6 +499,9 @@ export function acceptPendingRequest(from: string): { friend: Friend; request: F
   }
 
   saveFriendsState(state);
+  if (existingIdx === -1) {
+    emitP2PEvent({ type: "friend-added", name: friend.name, pubkey: friend.publicKey });
+  }
 
   // Add to P2P trust system
   addPeer(request.pubkey, [sessionName], ["message"], request.encryptPub);
@@ -530,6 +544,7 @@ export function removeFriend(nameOrKey: string): boolean {
   const friend = state.friends[idx];
   state.friends.splice(idx, 1);
   saveFriendsState(state);
+  emitP2PEvent({ type: "friend-removed", name: friend.name, pubkey: friend.publicKey });
 
   // Remove from WOPR security model
   try {
@@ -541,6 +556,45 @@ export function removeFriend(nameOrKey: string): boolean {
   return true;
 }
 
+/**
+ * Move a friend to the new keys in their key rotation. Their session name
+ * is kept, so the conversation continues. Returns false if the rotation
+ * does not verify or is not from a friend.
+ */
+export function processFriendKeyRotation(rotation: KeyRotation): boolean {
+  if (isKeyRevoked(rotation.oldSignPub) || isKeyRevoked(rotation.newSignPub) || !verifyKeyRotation(rotation)) {
+    return false;
+  }
+
+  const state = loadFriendsState();
+  const friend = state.friends.find((f) => f.publicKey === rotation.oldSignPub);
+  if (!friend) return false;
+
+  try {
+    removeFriendFromSecurity(friend);
+  } catch {
+    // Security sync is optional
+  }
+
+  friend.publicKey = rotation.newSignPub;
+  friend.encryptPub = rotation.newEncryptPub;
+  // The safety number was for the old key
+  if (friend.verified) {
+    friend.verified = undefined;
+    friend.verifiedAt = undefined;
+    emitP2PEvent({ type: "verification-cleared", contact: "friend", key: friend.publicKey, name: friend.name });
+  }
+  saveFriendsState(state);
+
+  try {
+    syncFriendToSecurity(friend);
+  } catch {
+    // Security sync is optional
+  }
+
+  return true;
+}
+
 /**
  * Replace all capabilities for a friend (persists to disk).
  */
@@ -557,6 +611,40 @@ export function setFriendCaps(nameOrKey: string, caps: string[]): boolean {
   return true;
 }
 
+/**
+ * Mark a friend's key as verified (its safety number was confirmed out of
+ * band), or clear the mark. Returns false if there is no such friend.
+ */
+export function setFriendVerified(nameOrKey: string, verified: boolean): boolean {
+  const state = loadFriendsState();
+  const friend = state.friends.find(
+    (f) => f.name.toLowerCase() === nameOrKey.toLowerCase() || f.publicKey === nameOrKey,
+  );
+
+  if (!friend) return false;
+
+  friend.verified = verified || undefined;
+  friend.verifiedAt = verified ? Date.now() : undefined;
+  saveFriendsState(state);
+  return true;
+}
+
+/**
+ * Set or clear a friend's rate limit override (persists to disk).
+ */
+export function setFriendRateLimit(nameOrKey: string, rateLimit: FriendGrant["rateLimit"]): boolean {
+  const state = loadFriendsState();
+  const friend = state.friends.find(
+    (f) => f.name.toLowerCase() === nameOrKey.toLowerCase() || f.publicKey === nameOrKey,
+  );
+
+  if (!friend) return false;
+
+  friend.rateLimit = rateLimit;
+  saveFriendsState(state);
+  return true;
+}
+
 /**
  * Grant additional capabilities to a friend
  */
@@ -654,6 +742,25 @@ export function getAutoAcceptRules(): AutoAcceptRule[] {
   return loadFriendsState().autoAccept;
 }
 
+/**
+ * Replace the friends list and auto-accept rules (used when restoring a
+ * backup). Pending requests are kept.
+ */
+export function restoreFriends(friends: Friend[], autoAccept: AutoAcceptRule[]): void {
+  const state = loadFriendsState();
+  state.friends = friends;
+  state.autoAccept = autoAccept;
+  saveFriendsState(state);
+
+  for (const friend of friends) {
+    try {
+      syncFriendToSecurity(friend);
+    } catch {
+      // Security sync is optional
+    }
+  }
+}
+
 /**
  * Get pending incoming requests
  */
@@ -680,8 +787,9 @@ export function denyPendingRequest(fromOrSig: string): boolean {
 
   if (idx === -1) return false;
 
-  state.pendingIn.splice(idx, 1);
+  const [denied] = state.pendingIn.splice(idx, 1);
   saveFriendsState(state);
+  emitP2PEvent({ type: "friend-request-denied", from: denied.request.from });
   return true;
 }
 
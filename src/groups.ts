@@ -0,0 +1,275 @@
+/**
+ * P2P Peer Groups
+ *
+ * Named sets of peers that can be addressed together. A group log sends the
+ * message to every member in parallel; a group inject also gathers each
+ * member's AI response, giving each member the same timeout. Either way the
+ * result says which members got it and which were offline, rejected it or
+ * timed out.
+ */
+
+import { shortKey } from "./identity.js";
+import { type InjectOptions, sendP2PInject, sendP2PLog } from "./p2p.js";
+import type { P2PGroupRow } from "./storage-schema.js";
+import { findPeer } from "./trust.js";
+import type {
+  GroupMemberResult,
+  GroupMemberStatus,
+  GroupSendResult,
+  PeerGroup,
+  SendResult,
+  StorageApi,
+} from "./types.js";
+import {
+  EXIT_OFFLINE,
+  EXIT_OK,
+  EXIT_PEER_OFFLINE,
+  EXIT_QUOTA_EXCEEDED,
+  EXIT_RATE_LIMITED,
+  EXIT_REJECTED,
+  EXIT_UNAUTHORIZED,
+} from "./types.js";
+
+const MAX_GROUP_MEMBERS = 100;
+const GROUP_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// Module-level storage reference and cache
+let _storage: StorageApi | null = null;
+const _groups: Map<string, PeerGroup> = new Map();
+
+export function setGroupStorage(storage: StorageApi): void {
+  _storage = storage;
+}
+
+export async function loadGroups(): Promise<void> {
+  if (!_storage) return;
+  const repo = _storage.getRepository<P2PGroupRow>("p2p", "groups");
+  const rows: P2PGroupRow[] = await repo.findMany();
+  _groups.clear();
+  for (const row of rows) {
+    _groups.set(row.id, { name: row.name, members: row.members, created: row.created, updated: row.updated });
+  }
+}
+
+function persistGroup(group: PeerGroup, isNew = false): void {
+  if (!_storage) return;
+  // Fire async write
+  const repo = _storage.getRepository<P2PGroupRow>("p2p", "groups");
+  const row = { id: group.name.toLowerCase(), ...group };
+  (isNew ? repo.insert(row) : repo.update(row.id, row)).catch(() => {});
+}
+
+/**
+ * Resolve peer IDs, names or keys to public keys. Throws on unknown peers.
+ */
+function resolveMembers(peers: string[]): string[] {
+  const keys: string[] = [];
+  const unknown: string[] = [];
+  for (const p of peers) {
+    const peer = findPeer(p);
+    if (peer) {
+      keys.push(peer.publicKey);
+    } else {
+      unknown.push(p);
+    }
+  }
+  if (unknown.length > 0) {
+    throw new Error(`Unknown peer(s): ${unknown.join(", ")}`);
+  }
+  return keys;
+}
+
+function requireGroup(name: string): PeerGroup {
+  const group = getGroup(name);
+  if (!group) {
+    throw new Error(`Group not found: ${name}`);
+  }
+  return group;
+}
+
+export function getGroups(): PeerGroup[] {
+  return Array.from(_groups.values());
+}
+
+/**
+ * Look up a group by name (case-insensitive).
+ */
+export function getGroup(name: string): PeerGroup | undefined {
+  return _groups.get(name.toLowerCase());
+}
+
+/**
+ * Create a group, optionally with initial members. Throws if the name is
+ * invalid or taken, or a member is not a known peer.
+ */
+export function createGroup(name: string, members: string[] = []): PeerGroup {
+  if (!GROUP_NAME_PATTERN.test(name)) {
+    throw new Error("Group names are 1-64 letters, digits, '-' or '_'");
+  }
+  if (getGroup(name)) {
+    throw new Error(`Group already exists: ${name}`);
+  }
+  const keys = [...new Set(resolveMembers(members))];
+  if (keys.length > MAX_GROUP_MEMBERS) {
+    throw new Error(`Groups are limited to ${MAX_GROUP_MEMBERS} members`);
+  }
+
+  const now = Date.now();
+  const group: PeerGroup = { name, members: keys, created: now, updated: now };
+  _groups.set(name.toLowerCase(), group);
+  persistGroup(group, true);
+  return group;
+}
+
+export function deleteGroup(name: string): boolean {
+  const id = name.toLowerCase();
+  if (!_groups.delete(id)) return false;
+  _storage
+    ?.getRepository<P2PGroupRow>("p2p", "groups")
+    .delete(id)
+    .catch(() => {});
+  return true;
+}
+
+/**
+ * Add peers to a group. Peers already in it are skipped.
+ */
+export function addGroupMembers(name: string, peers: string[]): PeerGroup {
+  const group = requireGroup(name);
+  const members = [...new Set([...group.members, ...resolveMembers(peers)])];
+  if (members.length > MAX_GROUP_MEMBERS) {
+    throw new Error(`Groups are limited to ${MAX_GROUP_MEMBERS} members`);
+  }
+
+  group.members = members;
+  group.updated = Date.now();
+  persistGroup(group);
+  return group;
+}
+
+/**
+ * Remove peers from a group. Members are matched by public key or short
+ * ID as well as through the peer list, so peers that were since revoked
+ * can still be removed.
+ */
+export function removeGroupMembers(name: string, peers: string[]): PeerGroup {
+  const group = requireGroup(name);
+  const removed = new Set(peers.map((p) => findPeer(p)?.publicKey || p));
+  group.members = group.members.filter((key) => !removed.has(key) && !removed.has(shortKey(key)));
+  group.updated = Date.now();
+  persistGroup(group);
+  return group;
+}
+
+function memberStatus(result: SendResult): GroupMemberStatus {
+  switch (result.code) {
+    case EXIT_OK:
+      return "ok";
+    case EXIT_OFFLINE:
+    case EXIT_PEER_OFFLINE:
+      return "offline";
+    case EXIT_REJECTED:
+    case EXIT_UNAUTHORIZED:
+    case EXIT_RATE_LIMITED:
+    case EXIT_QUOTA_EXCEEDED:
+      return "rejected";
+    default:
+      return "error";
+  }
+}
+
+/**
+ * Resolve with the send result, or "timeout" if it takes longer than ms.
+ */
+function withTimeout(send: Promise<SendResult>, ms: number): Promise<SendResult | "timeout"> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), ms);
+  });
+  return Promise.race([send, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Send to every member in parallel and collect the results.
+ */
+async function fanOut(
+  groupName: string,
+  timeoutMs: number,
+  send: (peerKey: string) => Promise<SendResult>,
+): Promise<GroupSendResult> {
+  const group = requireGroup(groupName);
+  const result: GroupSendResult = {
+    group: group.name,
+    results: {},
+    delivered: [],
+    offline: [],
+    rejected: [],
+    timedOut: [],
+    failed: [],
+  };
+
+  const lists: Record<GroupMemberStatus, string[]> = {
+    ok: result.delivered,
+    offline: result.offline,
+    rejected: result.rejected,
+    timeout: result.timedOut,
+    error: result.failed,
+  };
+
+  const outcomes = await Promise.all(group.members.map((key) => withTimeout(send(key), timeoutMs)));
+
+  group.members.forEach((key, i) => {
+    const outcome = outcomes[i];
+    const id = shortKey(key);
+    const member: GroupMemberResult =
+      outcome === "timeout"
+        ? { peer: key, status: "timeout", code: EXIT_OFFLINE, message: `No response within ${timeoutMs}ms` }
+        : {
+            peer: key,
+            status: memberStatus(outcome),
+            code: outcome.code,
+            message: outcome.message,
+            response: outcome.response,
+          };
+    member.name = findPeer(key)?.name;
+    result.results[id] = member;
+    lists[member.status].push(id);
+  });
+
+  return result;
+}
+
+/**
+ * Log a message to a session on every member of a group (mailbox style).
+ * Each member gets its own signed, encrypted copy.
+ */
+export async function sendGroupLog(
+  groupName: string,
+  session: string,
+  message: string,
+  timeoutMs = 10000,
+): Promise<GroupSendResult> {
+  return fanOut(groupName, timeoutMs, (key) => sendP2PLog(key, session, message, timeoutMs));
+}
+
+/**
+ * Inject a message into a session on every member of a group and gather
+ * the AI responses. Members that do not answer within timeoutMs are
+ * reported as timed out.
+ */
+export async function sendGroupInject(
+  groupName: string,
+  session: string,
+  message: string,
+  timeoutMs = 60000,
+  options: InjectOptions = {},
+): Promise<GroupSendResult> {
+  return fanOut(groupName, timeoutMs, (key) => sendP2PInject(key, session, message, timeoutMs, options));
+}
+
+/**
+ * Clear all groups (for testing).
+ */
+export function resetGroups(): void {
+  _groups.clear();
+}
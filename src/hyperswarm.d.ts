@@ -24,6 +24,7 @@ declare module "hyperswarm" {
   class Hyperswarm extends EventEmitter {
     constructor(opts?: SwarmOptions);
 
+    keyPair: { publicKey: Buffer; secretKey: Buffer };
     connections: Set<Duplex>;
     peers: Map<string, PeerInfo>;
 
@@ -2,6 +2,9 @@
  * P2P Identity Management
  *
  * Handles Ed25519/X25519 keypairs, signing, encryption, and invite tokens.
+ *
+ * Private keys can be sealed at rest (see keystore.ts). A sealed identity
+ * loads locked: getIdentity() returns null until unlockIdentity() succeeds.
  */
 
 import {
@@ -16,17 +19,74 @@ import {
 	sign,
 	verify,
 } from "node:crypto";
+import {
+  deriveSealingKey,
+  getSealingParams,
+  isSealed,
+  MIN_PASSPHRASE_LENGTH,
+  providerSealingKey,
+  type SealingKey,
+  sealValue,
+  unsealValue,
+} from "./keystore.js";
 import type { P2PIdentityRow } from "./storage-schema.js";
-import type { EphemeralKeyPair, Identity, InviteToken, KeyRotation, StorageApi } from "./types.js";
+import type {
+  EphemeralKeyPair,
+  Identity,
+  IdentityKeyProvider,
+  IdentityProtection,
+  InviteToken,
+  KeyRotation,
+  RevocationCertificate,
+  StorageApi,
+} from "./types.js";
 
 // Module-level storage reference and cache
 let _storage: StorageApi | null = null;
 let _identityCache: Identity | null = null;
 
+// Key the private keys are sealed with at rest; null stores them in the clear
+let _sealingKey: SealingKey | null = null;
+// Stored identity whose private keys have not been unsealed yet
+let _lockedRow: P2PIdentityRow | null = null;
+let _keyProvider: IdentityKeyProvider | null = null;
+let unlockHandler: ((identity: Identity) => void) | null = null;
+
 export function setIdentityStorage(storage: StorageApi): void {
   _storage = storage;
 }
 
+/**
+ * Register the key provider that seals and unseals identity keys, e.g. one
+ * backed by the OS keyring.
+ */
+export function setIdentityKeyProvider(provider: IdentityKeyProvider | null): void {
+  _keyProvider = provider;
+}
+
+/**
+ * Register a handler called when a locked identity is unlocked.
+ */
+export function setIdentityUnlockHandler(handler: ((identity: Identity) => void) | null): void {
+  unlockHandler = handler;
+}
+
+function rowToIdentity(row: P2PIdentityRow, privateKey: string, encryptPriv: string): Identity {
+  return {
+    publicKey: row.publicKey,
+    privateKey,
+    encryptPub: row.encryptPub,
+    encryptPriv,
+    created: row.created,
+    rotatedFrom: row.rotatedFrom,
+    rotatedAt: row.rotatedAt,
+  };
+}
+
+/**
+ * Load the identity. Returns null if there is none, or if its private keys
+ * are sealed; unlock those with unlockIdentity().
+ */
 export async function loadIdentity(): Promise<Identity | null> {
   if (!_storage) {
     // Fallback: no storage available, return cached value
@@ -35,15 +95,14 @@ export async function loadIdentity(): Promise<Identity | null> {
   const repo = _storage.getRepository<P2PIdentityRow>("p2p", "identity");
   const row = await repo.findById("default");
   if (!row) return null;
-  const identity: Identity = {
-    publicKey: row.publicKey,
-    privateKey: row.privateKey,
-    encryptPub: row.encryptPub,
-    encryptPriv: row.encryptPriv,
-    created: row.created,
-    rotatedFrom: row.rotatedFrom,
-    rotatedAt: row.rotatedAt,
-  };
+  if (isSealed(row.privateKey)) {
+    _lockedRow = row;
+    _identityCache = null;
+    return null;
+  }
+  const identity = rowToIdentity(row, row.privateKey, row.encryptPriv);
+  _lockedRow = null;
+  _sealingKey = null;
   _identityCache = identity;
   return identity;
 }
@@ -52,20 +111,103 @@ export function getIdentity(): Identity | null {
   return _identityCache;
 }
 
+/**
+ * Check if the stored identity is sealed and not yet unlocked.
+ */
+export function isIdentityLocked(): boolean {
+  return _lockedRow !== null;
+}
+
+/**
+ * How the identity's private keys are protected at rest.
+ */
+export function getIdentityProtection(): IdentityProtection {
+  const scheme = _lockedRow ? getSealingParams(_lockedRow.privateKey).scheme : _sealingKey?.scheme;
+  if (scheme === "scrypt") return "passphrase";
+  if (scheme === "provider") return "provider";
+  return "none";
+}
+
+async function sealingKeyFor(sealed: string, passphrase?: string): Promise<SealingKey> {
+  const { scheme, param } = getSealingParams(sealed);
+  if (scheme === "provider") {
+    if (_keyProvider?.id !== param) {
+      throw new Error(`Identity is sealed by key provider "${param}", which is not registered`);
+    }
+    return providerSealingKey(param, await _keyProvider.getKey());
+  }
+  if (!passphrase) {
+    throw new Error("Identity is locked: a passphrase is required");
+  }
+  return deriveSealingKey(passphrase, Buffer.from(param, "base64"));
+}
+
+/**
+ * Unseal the stored identity's private keys with the passphrase, or with
+ * the registered key provider if it was sealed by one. Throws on a wrong
+ * passphrase or missing provider, leaving the identity locked.
+ */
+export async function unlockIdentity(passphrase?: string): Promise<Identity> {
+  const row = _lockedRow;
+  if (!row) {
+    if (_identityCache) return _identityCache;
+    throw new Error("No identity to unlock");
+  }
+  const key = await sealingKeyFor(row.privateKey, passphrase);
+  const identity = rowToIdentity(row, unsealValue(row.privateKey, key), unsealValue(row.encryptPriv, key));
+  _sealingKey = key;
+  _lockedRow = null;
+  _identityCache = identity;
+  unlockHandler?.(identity);
+  return identity;
+}
+
+/**
+ * Re-seal the identity's private keys: under a new passphrase, with the
+ * registered key provider, or (with neither) in the clear. The identity
+ * must be unlocked. Returns the new protection once it is stored.
+ */
+export async function rekeyIdentity(
+  protection: { passphrase?: string; useKeyProvider?: boolean } = {},
+): Promise<IdentityProtection> {
+  const identity = _identityCache;
+  if (!identity) {
+    throw new Error(_lockedRow ? "Identity is locked - unlock it before re-keying" : "No identity to re-key");
+  }
+  if (protection.passphrase !== undefined && protection.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrases must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  if (protection.passphrase !== undefined) {
+    _sealingKey = await deriveSealingKey(protection.passphrase);
+  } else if (protection.useKeyProvider) {
+    if (!_keyProvider) {
+      throw new Error("No key provider is registered");
+    }
+    _sealingKey = providerSealingKey(_keyProvider.id, await _keyProvider.getKey());
+  } else {
+    _sealingKey = null;
+  }
+  await saveIdentityAsync(identity);
+  return getIdentityProtection();
+}
+
 export async function saveIdentityAsync(identity: Identity): Promise<void> {
   _identityCache = identity;
   if (!_storage) {
     // Fallback: no storage available, data only in memory cache
     return;
   }
+  const privateKey = _sealingKey ? sealValue(identity.privateKey, _sealingKey) : identity.privateKey;
+  const encryptPriv = _sealingKey ? sealValue(identity.encryptPriv, _sealingKey) : identity.encryptPriv;
   const repo = _storage.getRepository<P2PIdentityRow>("p2p", "identity");
   const existing = await repo.findById("default");
   if (existing) {
     await repo.update("default", {
       publicKey: identity.publicKey,
-      privateKey: identity.privateKey,
+      privateKey,
       encryptPub: identity.encryptPub,
-      encryptPriv: identity.encryptPriv,
+      encryptPriv,
       created: identity.created,
       rotatedFrom: identity.rotatedFrom,
       rotatedAt: identity.rotatedAt,
@@ -74,9 +216,9 @@ export async function saveIdentityAsync(identity: Identity): Promise<void> {
     await repo.insert({
       id: "default",
       publicKey: identity.publicKey,
-      privateKey: identity.privateKey,
+      privateKey,
       encryptPub: identity.encryptPub,
-      encryptPriv: identity.encryptPriv,
+      encryptPriv,
       created: identity.created,
       rotatedFrom: identity.rotatedFrom,
       rotatedAt: identity.rotatedAt,
@@ -103,6 +245,9 @@ export function initIdentity(force = false): Identity {
   if (existing && !force) {
     throw new Error("Identity already exists. Use force to regenerate.");
   }
+  if (_lockedRow && !force) {
+    throw new Error("Identity is locked. Unlock it, or use force to regenerate.");
+  }
 
   // Ed25519 for signing
   const { publicKey, privateKey } = generateKeyPairSync("ed25519", {
@@ -124,6 +269,7 @@ export function initIdentity(force = false): Identity {
     created: Date.now(),
   };
 
+  _lockedRow = null;
   saveIdentity(identity);
   return identity;
 }
@@ -213,6 +359,102 @@ export function verifyKeyRotation(rotation: KeyRotation): boolean {
   }
 }
 
+// ============================================
+// Revocation Certificates
+// ============================================
+
+const REVOCATION_PREFIX = "wopr-revoke1://";
+
+/**
+ * Create a certificate that revokes the current identity key. Generate it
+ * while the key is safe and keep it offline; publishing it later makes
+ * peers drop the key even if it has been stolen. A certificate only covers
+ * the key it was made with, so make a new one after rotating.
+ */
+export function createRevocationCertificate(reason: RevocationCertificate["reason"] = "compromise"): string {
+  const identity = getIdentity();
+  if (!identity) throw new Error("No identity");
+
+  const cert: Omit<RevocationCertificate, "sig"> = {
+    v: 1,
+    type: "key-revoke",
+    revokedKey: identity.publicKey,
+    reason,
+    created: Date.now(),
+  };
+
+  return formatRevocationCertificate(signMessage(cert));
+}
+
+/**
+ * Verify a revocation certificate was signed by the key it revokes.
+ */
+export function verifyRevocationCertificate(cert: RevocationCertificate): boolean {
+  return cert.type === "key-revoke" && verifySignature(cert, cert.revokedKey);
+}
+
+/**
+ * Parse a wopr-revoke1:// certificate. Throws if it is malformed or its
+ * signature does not verify.
+ */
+export function parseRevocationCertificate(certStr: string): RevocationCertificate {
+  if (!certStr.startsWith(REVOCATION_PREFIX)) {
+    throw new Error("Invalid revocation certificate format");
+  }
+
+  let cert: RevocationCertificate;
+  try {
+    cert = JSON.parse(Buffer.from(certStr.slice(REVOCATION_PREFIX.length), "base64url").toString());
+  } catch {
+    throw new Error("Invalid revocation certificate format");
+  }
+
+  if (!verifyRevocationCertificate(cert)) {
+    throw new Error("Invalid signature");
+  }
+
+  return cert;
+}
+
+/**
+ * Encode a revocation certificate as a wopr-revoke1:// string.
+ */
+export function formatRevocationCertificate(cert: RevocationCertificate): string {
+  return `${REVOCATION_PREFIX}${Buffer.from(JSON.stringify(cert)).toString("base64url")}`;
+}
+
+// ============================================
+// Safety Numbers
+// ============================================
+
+const SAFETY_NUMBER_ITERATIONS = 5200;
+
+/**
+ * 30 digits derived from one key. Iterated hashing makes it costly to
+ * search for a different key with the same digits.
+ */
+function keyFingerprintDigits(publicKey: string): string {
+  let hash: Buffer = Buffer.from(publicKey);
+  for (let i = 0; i < SAFETY_NUMBER_ITERATIONS; i++) {
+    hash = createHash("sha512").update(hash).update(publicKey).digest();
+  }
+  let digits = "";
+  for (let i = 0; i < 30; i += 5) {
+    digits += (hash.readUIntBE(i, 5) % 100000).toString().padStart(5, "0");
+  }
+  return digits;
+}
+
+/**
+ * The safety number for two keys: 60 digits in groups of five. It does not
+ * depend on the order of the keys, so both sides compute the same number
+ * and can compare it out of band (read aloud, in person, ...).
+ */
+export function computeSafetyNumber(keyA: string, keyB: string): string {
+  const digits = [keyFingerprintDigits(keyA), keyFingerprintDigits(keyB)].sort().join("");
+  return (digits.match(/\d{5}/g) ?? []).join(" ");
+}
+
 /**
  * Check if a key rotation is still in grace period.
  */
@@ -393,7 +635,12 @@ export function decryptMessage(ciphertext: string, theirEncryptPub: string): str
 // Invite Tokens
 // ============================================
 
-export function createInviteToken(forPubkey: string, sessions: string[], expireHours = 168): string {
+export function createInviteToken(
+  forPubkey: string,
+  sessions: string[],
+  expireHours = 168,
+  grantHours?: number,
+): string {
   const identity = getIdentity();
   if (!identity) throw new Error("No identity");
 
@@ -404,6 +651,7 @@ export function createInviteToken(forPubkey: string, sessions: string[], expireH
     ses: sessions,
     cap: ["inject"],
     exp: Date.now() + expireHours * 3600000,
+    ttl: grantHours,
     nonce: randomBytes(16).toString("hex"),
   };
 
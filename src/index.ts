@@ -13,14 +13,31 @@ import { extname, resolve, sep } from "node:path";
 import type {
 	A2AServerConfig,
 	A2AToolResult,
+	StreamMessage,
 	WOPRPlugin,
 	WOPRPluginContext,
 } from "@wopr-network/plugin-types";
 import type Hyperswarm from "hyperswarm";
 import winston from "winston";
-import { registerAutoAcceptCommands, registerChannelHooks, registerP2PSlashCommands } from "./channel-hooks.js";
-import { friendCommand } from "./cli-commands.js";
-import { setP2PConfig } from "./config.js";
+import {
+  DEFAULT_APPROVAL_TIMEOUT_MS,
+  denyInject,
+  getPendingInjects,
+  loadPendingInjects,
+  setApprovalNotifier,
+  setApprovalStorage,
+} from "./approvals.js";
+import { exportBackup, importBackup } from "./backup.js";
+import {
+  notifyInjectApproval,
+  registerAutoAcceptCommands,
+  registerChannelHooks,
+  registerP2PSlashCommands,
+} from "./channel-hooks.js";
+import { friendCommand, p2pCommand } from "./cli-commands.js";
+import { getP2PConfig, type P2PConfig, setP2PConfig } from "./config.js";
+import { closeConnectionPool, getConnectionPoolStatus, setConnectionPoolLogger } from "./connection-pool.js";
+import { loadDeliveredIds, setDedupStorage } from "./dedup.js";
 import {
   getDiscoveredPeers,
   getProfile,
@@ -33,26 +50,80 @@ import {
   shutdownDiscovery,
   updateProfile,
 } from "./discovery.js";
+import { onP2PEvent } from "./events.js";
+import { getTransfers } from "./file-transfer.js";
 import {
 	acceptPendingRequest,
 	cleanupExpiredRequests,
 	createFriendAccept,
 	denyPendingRequest,
 	formatFriendAccept,
+	getFriend,
 	getPendingIncomingBySignature,
 	loadFriendsData,
+	setFriendRateLimit,
 	setFriendsStorage,
 } from "./friends.js";
+import {
+  addGroupMembers,
+  createGroup,
+  deleteGroup,
+  getGroup,
+  getGroups,
+  loadGroups,
+  removeGroupMembers,
+  sendGroupInject,
+  sendGroupLog,
+  setGroupStorage,
+} from "./groups.js";
 import {
   createInviteToken,
+  createRevocationCertificate,
   getIdentity,
+  getIdentityProtection,
   initIdentity,
+  isIdentityLocked,
   loadIdentity,
   rotateIdentity,
+  setIdentityKeyProvider,
   setIdentityStorage,
+  setIdentityUnlockHandler,
   shortKey,
+  unlockIdentity,
 } from "./identity.js";
-import { claimToken, createP2PListener, sendKeyRotation, sendP2PInject, sendP2PLog, setP2PLogger } from "./p2p.js";
+import {
+  getInjectJob,
+  getInjectJobs,
+  loadInjectJobs,
+  setInjectJobHandler,
+  setInjectJobStorage,
+} from "./inject-jobs.js";
+import { renderPrometheusMetrics } from "./metrics.js";
+import {
+  cancelOutbox,
+  flushOutboxForPeer,
+  getOutbox,
+  getOutboxDepth,
+  loadOutbox,
+  sendOrQueue,
+  setOutboxDeliveryHandler,
+  setOutboxLogger,
+  setOutboxStorage,
+  startOutboxWorker,
+} from "./outbox.js";
+import {
+  callRemoteTool,
+  claimToken,
+  createP2PListener,
+  listRemoteTools,
+  type P2PCallbacks,
+  sendP2PFile,
+  sendP2PInject,
+  sendP2PInjectAsync,
+  sendP2PInjectStream,
+  sendP2PLog,
+  setP2PLogger,
+} from "./p2p.js";
 import {
   generatePairingCode,
   findIdentityBySender as pairingFindIdentityBySender,
@@ -68,23 +139,62 @@ import {
 } from "./pairing-commands.js";
 // Pairing imports
 import { initPairing as initPairingStorage, resetPairingStoreState } from "./pairing-store.js";
+import {
+  getInjectQuota,
+  getInjectUsage,
+  loadQuotaUsage,
+  recordInjectUsage,
+  setQuotaStorage,
+} from "./quotas.js";
+import { getBans, loadBans, loadNonces, setRateLimitStorage, unbanPeer } from "./rate-limit.js";
+import { exportTool, unexportTool } from "./remote-tools.js";
+import { API_PREFIX, applyCors, getApiToken, handleApiRequest, hasApiToken } from "./rest-api.js";
+import { publishKeyRevocation } from "./revocation.js";
+import {
+  countDeliveries,
+  flushRotationForPeer,
+  getRotationCampaign,
+  joinRotatedTopics,
+  loadRotationCampaigns,
+  processRotationCampaigns,
+  setRotationStorage,
+  startRotationCampaign,
+  startRotationWorker,
+} from "./rotation.js";
 import { getFriendSecurityContext, syncAllFriendsToSecurity } from "./security-integration.js";
 import { incrementStat, resetStats } from "./stats.js";
 import { migrateJsonToSql } from "./storage-migration.js";
 import { p2pPluginSchema } from "./storage-schema.js";
+import { clearSessionTrace, getSessionTrace, type InjectTrace, nextHop, setSessionTrace } from "./trace.js";
 import {
 	addPeer,
 	findPeer,
 	getAccessGrants,
 	getPeers,
-	grantAccess,
+	getSessionCaps,
+	grantSessionCaps,
+	isGrantActive,
+	isKeyRevoked,
 	loadTrustData,
 	namePeer,
 	revokePeer,
+	setAllowedTools,
+	setInjectQuota,
+	setRequireApproval,
 	setTrustStorage,
+	startGrantSweeper,
 } from "./trust.js";
-import type { A2AToolContext, P2PToolDefinition } from "./types.js";
+import type {
+  A2AToolContext,
+  GrantWindow,
+  IdentityKeyProvider,
+  InjectJob,
+  InjectQuota,
+  P2PToolDefinition,
+  PeerGroup,
+} from "./types.js";
 import { EXIT_OK } from "./types.js";
+import { getContactVerification, unverifyContact, verifyContact } from "./verification.js";
 import { buildListPeersResponse, buildP2pStatsResponse, buildP2pStatusResponse } from "./webmcp-tools.js";
 
 // Setup winston logger
@@ -105,9 +215,10 @@ let p2pListener: Hyperswarm | null = null;
 let uiServer: http.Server | null = null;
 const cleanups: Array<() => void> = [];
 
-// Track sessions currently being P2P injected into
-// This prevents recursive inject loops (A injects to B, B tries to inject back to A)
-const sessionsBeingInjected: Set<string> = new Set();
+// Track sessions currently being P2P injected into, with the requesting peer's key
+// This stops the AI replying by inject (A injects to B, B tries to inject back to A).
+// Longer loops through other peers are caught by the inject trace (see trace.ts).
+const sessionsBeingInjected: Map<string, string> = new Map();
 
 // Content types for UI server
 const CONTENT_TYPES: Record<string, string> = {
@@ -125,6 +236,9 @@ const CONTENT_TYPES: Record<string, string> = {
  * - Strips query strings and fragments before path resolution
  * - Enforces an extension allowlist (only web asset types served)
  * - Logs and returns 403 on traversal attempts
+ *
+ * Routes under /api/v1 go to the authenticated REST API (rest-api.ts).
+ * /metrics serves Prometheus metrics (metrics.ts) and takes the same token.
  */
 function startUIServer(port: number, pluginDir: string): http.Server {
   // Pre-compute the canonical root with trailing separator to prevent
@@ -134,10 +248,41 @@ function startUIServer(port: number, pluginDir: string): http.Server {
   const server = http.createServer((req, res) => {
     const rawUrl = req.url === "/" ? "/ui.js" : req.url || "/ui.js";
 
+		// Authenticated REST API
+		if (rawUrl === API_PREFIX || rawUrl.startsWith(`${API_PREFIX}/`)) {
+			handleApiRequest(req, res).catch((err: unknown) => {
+				logger.warn(`[p2p:api] Request failed: ${err}`);
+				if (!res.headersSent) {
+					res.statusCode = 500;
+					res.end(JSON.stringify({ error: "Internal error" }));
+				}
+			});
+			return;
+		}
+
+		// Prometheus scrape endpoint; its series are labelled by peer, so it needs the API token
+		if (req.method === "GET" && rawUrl === "/metrics") {
+			if (!hasApiToken(req)) {
+				res.statusCode = 401;
+				res.setHeader("WWW-Authenticate", "Bearer");
+				res.end("Unauthorized");
+				return;
+			}
+			try {
+				const body = renderPrometheusMetrics();
+				res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+				res.end(body);
+			} catch (_err: unknown) {
+				res.statusCode = 500;
+				res.end("Internal error");
+			}
+			return;
+		}
+
 		// WebMCP JSON API routes
 		if (req.method === "GET" && rawUrl === "/api/webmcp/status") {
 			res.setHeader("Content-Type", "application/json");
-			res.setHeader("Access-Control-Allow-Origin", "*");
+			applyCors(req, res);
 			try {
 				res.end(JSON.stringify(buildP2pStatusResponse()));
 			} catch (_err: unknown) {
@@ -148,7 +293,7 @@ function startUIServer(port: number, pluginDir: string): http.Server {
 		}
 		if (req.method === "GET" && rawUrl === "/api/webmcp/peers") {
 			res.setHeader("Content-Type", "application/json");
-			res.setHeader("Access-Control-Allow-Origin", "*");
+			applyCors(req, res);
 			try {
 				res.end(JSON.stringify(buildListPeersResponse()));
 			} catch (_err: unknown) {
@@ -159,7 +304,7 @@ function startUIServer(port: number, pluginDir: string): http.Server {
 		}
 		if (req.method === "GET" && rawUrl === "/api/webmcp/stats") {
 			res.setHeader("Content-Type", "application/json");
-			res.setHeader("Access-Control-Allow-Origin", "*");
+			applyCors(req, res);
 			try {
 				res.end(JSON.stringify(buildP2pStatsResponse()));
 			} catch (_err: unknown) {
@@ -226,6 +371,17 @@ function startUIServer(port: number, pluginDir: string): http.Server {
   return server;
 }
 
+/**
+ * Group as shown by the group tools
+ */
+function groupView(group: PeerGroup) {
+  return {
+    name: group.name,
+    members: group.members.map((key) => ({ id: shortKey(key), name: findPeer(key)?.name })),
+    created: new Date(group.created).toISOString(),
+  };
+}
+
 /**
  * Create A2A tool result
  */
@@ -248,6 +404,9 @@ const p2pTools: P2PToolDefinition[] = [
       properties: {},
     },
     handler: async () => {
+      if (isIdentityLocked()) {
+        return toolResult("Error: P2P identity is locked. Unlock it with `wopr p2p unlock`.");
+      }
       let identity = getIdentity();
       if (!identity) {
         identity = initIdentity();
@@ -287,16 +446,13 @@ const p2pTools: P2PToolDefinition[] = [
       try {
         const { identity, rotation } = rotateIdentity(reason);
 
+        // Peers and friends that miss the first pass are retried until the grace period ends
+        let counts: ReturnType<typeof countDeliveries> | undefined;
         if (notifyPeers) {
-          const peers = getPeers();
-          for (const peer of peers) {
-            try {
-              await sendKeyRotation(peer.publicKey, rotation);
-              logger.info(`[p2p] Notified ${peer.id} of key rotation`);
-            } catch (err: unknown) {
-              logger.warn(`[p2p] Failed to notify ${peer.id}: ${err}`);
-            }
-          }
+          const campaign = startRotationCampaign(rotation);
+          await processRotationCampaigns();
+          counts = countDeliveries(campaign);
+          logger.info(`[p2p] Key rotation delivered to ${counts.delivered}, ${counts.pending} pending`);
         }
 
         return toolResult(
@@ -304,7 +460,8 @@ const p2pTools: P2PToolDefinition[] = [
             success: true,
             newShortId: shortKey(identity.publicKey),
             reason,
-            peersNotified: notifyPeers ? getPeers().length : 0,
+            peersNotified: counts?.delivered ?? 0,
+            peersPending: counts?.pending ?? 0,
           }),
         );
       } catch (err: unknown) {
@@ -312,6 +469,132 @@ const p2pTools: P2PToolDefinition[] = [
       }
     },
   },
+  {
+    name: "p2p.rotationStatus",
+    description:
+      "Show which peers and friends have received a key rotation. Undelivered ones are retried until the rotation's grace period ends.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        campaign: { type: "string", description: "Short ID of the new key (default: latest rotation)" },
+      },
+    },
+    handler: async (args) => {
+      const campaign = getRotationCampaign((args.campaign as string) || undefined);
+      if (!campaign) {
+        return toolResult(args.campaign ? `Error: No rotation: ${args.campaign}` : "No key rotations in progress");
+      }
+      return toolResult(
+        JSON.stringify({
+          campaign: campaign.id,
+          oldShortId: shortKey(campaign.rotation.oldSignPub),
+          reason: campaign.rotation.reason,
+          started: new Date(campaign.created).toISOString(),
+          deadline: new Date(campaign.deadline).toISOString(),
+          ...countDeliveries(campaign),
+          recipients: campaign.recipients.map((r) => ({
+            id: shortKey(r.peerKey),
+            name: r.name,
+            status: r.status,
+            attempts: r.attempts,
+            deliveredAt: r.deliveredAt ? new Date(r.deliveredAt).toISOString() : undefined,
+            nextAttempt: r.status === "pending" ? new Date(r.nextAttempt).toISOString() : undefined,
+            lastError: r.lastError,
+          })),
+        }),
+      );
+    },
+  },
+  {
+    name: "p2p.createRevocationCertificate",
+    description:
+      "Create a revocation certificate for your current key. Store it offline; publishing it with p2p.revokeKey makes peers drop the key even if it is stolen. Make a new one after rotating keys.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        reason: {
+          type: "string",
+          enum: ["compromise", "retired"],
+          description: "Reason recorded in the certificate (default: compromise)",
+        },
+      },
+    },
+    handler: async (args) => {
+      try {
+        const certificate = createRevocationCertificate((args.reason as "compromise" | "retired") || undefined);
+        return toolResult(JSON.stringify({ success: true, certificate }));
+      } catch (err: unknown) {
+        return toolResult(`Error: ${err instanceof Error ? err.message : err}`);
+      }
+    },
+  },
+  {
+    name: "p2p.revokeKey",
+    description:
+      "Publish a revocation certificate to every peer and friend. They drop all grants and friend entries for the key and refuse any later rotation from it. Also applied locally.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        certificate: { type: "string", description: "wopr-revoke1:// certificate" },
+      },
+      required: ["certificate"],
+    },
+    handler: async (args) => {
+      try {
+        const result = await publishKeyRevocation(args.certificate as string);
+        return toolResult(JSON.stringify({ success: true, ...result }));
+      } catch (err: unknown) {
+        return toolResult(`Error: ${err instanceof Error ? err.message : err}`);
+      }
+    },
+  },
+  // Full backups carry the private keys, so only the CLI handles them
+  {
+    name: "p2p.exportContacts",
+    description:
+      "Export your peers and friends as a signed contacts backup: public contact data only, with no private keys or access.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        passphrase: { type: "string", description: "Passphrase to encrypt the backup (optional)" },
+      },
+    },
+    handler: async (args) => {
+      try {
+        const bundle = await exportBackup({
+          passphrase: (args.passphrase as string) || undefined,
+          contactsOnly: true,
+        });
+        return toolResult(JSON.stringify({ success: true, bundle }));
+      } catch (err: unknown) {
+        return toolResult(`Error: ${err instanceof Error ? err.message : err}`);
+      }
+    },
+  },
+  {
+    name: "p2p.importContacts",
+    description:
+      "Restore a contacts backup from p2p.exportContacts. New peers and friends are added; existing ones are kept as they are.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        bundle: { type: "string", description: "Contacts backup bundle (JSON)" },
+        passphrase: { type: "string", description: "Passphrase the backup was encrypted with" },
+      },
+      required: ["bundle"],
+    },
+    handler: async (args) => {
+      try {
+        const result = await importBackup(args.bundle as string, {
+          passphrase: (args.passphrase as string) || undefined,
+          contactsOnly: true,
+        });
+        return toolResult(JSON.stringify({ success: true, ...result }));
+      } catch (err: unknown) {
+        return toolResult(`Error: ${err instanceof Error ? err.message : err}`);
+      }
+    },
+  },
 
 	// Peer Management Tools
 	{
@@ -332,6 +615,7 @@ const p2pTools: P2PToolDefinition[] = [
 						publicKey: `${p.publicKey.slice(0, 20)}...`,
 						sessions: p.sessions,
 						caps: p.caps,
+						verified: p.verified || false,
 						added: new Date(p.added).toISOString(),
 					})),
 				}),
@@ -378,6 +662,49 @@ const p2pTools: P2PToolDefinition[] = [
 			}
 		},
 	},
+	{
+		name: "p2p.verifyPeer",
+		description:
+			"Show the safety number for a peer or friend, or mark them verified. Compare the number with theirs out of band (in person, on a call); pass the number they read out as safetyNumber to mark them verified. The mark is cleared when their key changes.",
+		inputSchema: {
+			type: "object",
+			properties: {
+				peer: {
+					type: "string",
+					description: "Peer ID, name, or public key, or friend name",
+				},
+				safetyNumber: {
+					type: "string",
+					description: "The safety number they read out; marks them verified if it matches",
+				},
+				unverify: {
+					type: "boolean",
+					description: "Clear the verified mark instead",
+				},
+			},
+			required: ["peer"],
+		},
+		handler: async (args) => {
+			try {
+				const peer = args.peer as string;
+				const result = args.unverify
+					? unverifyContact(peer)
+					: args.safetyNumber
+						? verifyContact(peer, args.safetyNumber as string)
+						: getContactVerification(peer);
+				return toolResult(
+					JSON.stringify({
+						...result,
+						verifiedAt: result.verifiedAt
+							? new Date(result.verifiedAt).toISOString()
+							: undefined,
+					}),
+				);
+			} catch (err: unknown) {
+				return toolResult(`Error: ${err instanceof Error ? err.message : err}`);
+			}
+		},
+	},
 
   // Invite/Token Tools
   {
@@ -399,6 +726,10 @@ const p2pTools: P2PToolDefinition[] = [
           type: "number",
           description: "Hours until token expires (default: 168 = 1 week)",
         },
+        expiresInHours: {
+          type: "number",
+          description: "Hours the access granted by claiming the token lasts (default: no expiry)",
+        },
       },
       required: ["forPubkey", "sessions"],
     },
@@ -408,6 +739,7 @@ const p2pTools: P2PToolDefinition[] = [
           args.forPubkey as string,
           args.sessions as string[],
           (args.expireHours as number) || 168,
+          args.expiresInHours as number | undefined,
         );
         return toolResult(
           JSON.stringify({
@@ -415,6 +747,7 @@ const p2pTools: P2PToolDefinition[] = [
             forPeer: shortKey(args.forPubkey as string),
             sessions: args.sessions,
             expiresIn: `${(args.expireHours as number) || 168} hours`,
+            grantExpiresIn: args.expiresInHours ? `${args.expiresInHours} hours` : undefined,
           }),
         );
       } catch (err: unknown) {
@@ -469,16 +802,39 @@ const p2pTools: P2PToolDefinition[] = [
           type: "number",
           description: "Timeout in milliseconds (default: 10000)",
         },
+        queue: {
+          type: "boolean",
+          description: "Queue the message in the outbox if the peer is offline (default: true)",
+        },
       },
       required: ["peer", "session", "message"],
     },
     handler: async (args) => {
-      const result = await sendP2PLog(
-        args.peer as string,
-        args.session as string,
-        args.message as string,
-        (args.timeoutMs as number) || 10000,
-      );
+      const result =
+        args.queue === false
+          ? await sendP2PLog(
+              args.peer as string,
+              args.session as string,
+              args.message as string,
+              (args.timeoutMs as number) || 10000,
+            )
+          : await sendOrQueue("log", args.peer as string, args.session as string, args.message as string, {
+              timeoutMs: (args.timeoutMs as number) || 10000,
+            });
+
+      if ("outboxId" in result && result.outboxId) {
+        return toolResult(
+          JSON.stringify({
+            success: true,
+            mode: "log",
+            queued: true,
+            outboxId: result.outboxId,
+            peer: args.peer,
+            session: args.session,
+            reason: result.message,
+          }),
+        );
+      }
 
       if (result.code === EXIT_OK) {
         return toolResult(
@@ -508,17 +864,37 @@ const p2pTools: P2PToolDefinition[] = [
           type: "number",
           description: "Timeout in milliseconds (default: 60000 for AI processing)",
         },
+        stream: {
+          type: "boolean",
+          description:
+            "Stream the response from the peer. On timeout or disconnect, returns the partial response received so far with complete: false",
+        },
+        queueIfOffline: {
+          type: "boolean",
+          description:
+            "Queue the inject in the outbox if the peer is offline. The response is logged to this session when it is delivered (default: false)",
+        },
+        async: {
+          type: "boolean",
+          description:
+            "Return a job ID as soon as the peer accepts the message instead of waiting for the AI. The peer delivers the response later; fetch it with p2p.injectResult. It is also logged to this session (default: false)",
+        },
       },
       required: ["peer", "session", "message"],
     },
     handler: async (args, context?: A2AToolContext) => {
       // CRITICAL: Block recursive P2P inject loops
       // If this session is currently being P2P injected into, the AI should NOT
-      // call p2p_inject_message - it should just respond with text, which will
-      // be returned to the caller automatically via the inject response channel.
-      if (context?.sessionName && sessionsBeingInjected.has(context.sessionName)) {
+      // call p2p_inject_message on the requesting peer - it should just respond
+      // with text, which will be returned to the caller automatically via the
+      // inject response channel.
+      const injectingPeer = context?.sessionName ? sessionsBeingInjected.get(context.sessionName) : undefined;
+      if (
+        injectingPeer !== undefined &&
+        (!injectingPeer || findPeer(args.peer as string)?.publicKey === injectingPeer)
+      ) {
         logger.warn(
-          `[p2p] BLOCKED: Session ${context.sessionName} tried to call p2p.injectMessage while being P2P injected into`,
+          `[p2p] BLOCKED: Session ${context?.sessionName} tried to call p2p.injectMessage on the peer injecting into it`,
         );
         return toolResult(
           `Error: BLOCKED: You are currently responding to a P2P inject. ` +
@@ -527,11 +903,108 @@ const p2pTools: P2PToolDefinition[] = [
         );
       }
 
+      // Continue the trace of the peer inject this session is processing, if any
+      const parentTrace = context?.sessionName ? getSessionTrace(context.sessionName) : undefined;
+      const trace = parentTrace && nextHop(parentTrace);
+
+      if (args.stream) {
+        const stream = sendP2PInjectStream(
+          args.peer as string,
+          args.session as string,
+          args.message as string,
+          (args.timeoutMs as number) || 60000,
+          { replySession: context?.sessionName, trace },
+        );
+        let response = "";
+        let step = await stream.next();
+        while (!step.done) {
+          response += step.value;
+          step = await stream.next();
+        }
+        const result = step.value;
+
+        if (result.code !== EXIT_OK && !response) {
+          return toolResult(`Error: Inject failed: ${result.message}`);
+        }
+        return toolResult(
+          JSON.stringify({
+            success: result.code === EXIT_OK,
+            mode: "inject",
+            peer: args.peer,
+            session: args.session,
+            response,
+            complete: result.code === EXIT_OK && !result.jobId,
+            ...(result.code !== EXIT_OK && { error: result.message }),
+            // Set if the peer parked the inject for its owner's approval
+            ...(result.jobId && { pendingApproval: true, jobId: result.jobId }),
+          }),
+        );
+      }
+
+      if (args.async) {
+        const result = await sendP2PInjectAsync(
+          args.peer as string,
+          args.session as string,
+          args.message as string,
+          (args.timeoutMs as number) || 30000,
+          { replySession: context?.sessionName, trace },
+        );
+        if (result.code !== EXIT_OK) {
+          return toolResult(`Error: Inject failed: ${result.message}`);
+        }
+        return toolResult(
+          JSON.stringify({
+            success: true,
+            mode: "inject",
+            async: true,
+            jobId: result.jobId,
+            peer: args.peer,
+            session: args.session,
+            // Set if the peer does not support async injects and answered right away
+            ...(result.response !== undefined && { response: result.response }),
+          }),
+        );
+      }
+
+      if (args.queueIfOffline) {
+        const queued = await sendOrQueue("inject", args.peer as string, args.session as string, args.message as string, {
+          timeoutMs: (args.timeoutMs as number) || 60000,
+          replySession: context?.sessionName,
+          trace,
+        });
+        if (queued.outboxId) {
+          return toolResult(
+            JSON.stringify({
+              success: true,
+              mode: "inject",
+              queued: true,
+              outboxId: queued.outboxId,
+              peer: args.peer,
+              session: args.session,
+              reason: queued.message,
+            }),
+          );
+        }
+        if (queued.code !== EXIT_OK) {
+          return toolResult(`Error: Inject failed: ${queued.message}`);
+        }
+        return toolResult(
+          JSON.stringify({
+            success: true,
+            mode: "inject",
+            peer: args.peer,
+            session: args.session,
+            response: queued.response,
+          }),
+        );
+      }
+
       const result = await sendP2PInject(
         args.peer as string,
         args.session as string,
         args.message as string,
         (args.timeoutMs as number) || 60000, // Longer timeout for AI processing
+        { replySession: context?.sessionName, trace },
       );
 
       if (result.code === EXIT_OK) {
@@ -542,6 +1015,8 @@ const p2pTools: P2PToolDefinition[] = [
             peer: args.peer,
             session: args.session,
             response: result.response, // AI's response
+            // Set if the peer parked the inject for its owner's approval
+            ...(result.jobId && { pendingApproval: true, jobId: result.jobId }),
           }),
         );
       } else {
@@ -549,146 +1024,852 @@ const p2pTools: P2PToolDefinition[] = [
       }
     },
   },
-  // Status Tools
+  // Async Inject Tools
   {
-    name: "p2p.status",
-    description: "Get P2P network status including identity, peers, and listener state.",
+    name: "p2p.injectStatus",
+    description:
+      "Check async inject jobs started with p2p.injectMessage (async: true). Give a job ID for one job, or omit it to list recent jobs.",
     inputSchema: {
       type: "object",
-      properties: {},
+      properties: {
+        jobId: { type: "string", description: "Job ID returned by p2p.injectMessage" },
+        status: {
+          type: "string",
+          enum: ["pending", "complete", "failed", "expired"],
+          description: "When listing, only include jobs with this status",
+        },
+      },
     },
-    handler: async () => {
-      const identity = getIdentity();
-      const peers = getPeers();
-      const grants = getAccessGrants();
+    handler: async (args) => {
+      const describeJob = (job: InjectJob) => ({
+        jobId: job.id,
+        peer: findPeer(job.peerKey)?.name || shortKey(job.peerKey),
+        session: job.session,
+        status: job.status,
+        created: new Date(job.created).toISOString(),
+        updated: new Date(job.updated).toISOString(),
+        error: job.error,
+      });
 
-			return toolResult(
-				JSON.stringify({
-					identity: identity
-						? {
-								shortId: shortKey(identity.publicKey),
-								publicKey: `${identity.publicKey.slice(0, 30)}...`,
-								created: new Date(identity.created).toISOString(),
-							}
-						: null,
-					listening: p2pListener !== null,
-					peers: {
-						count: peers.length,
-						names: peers.filter((p) => p.name).map((p) => p.name),
-					},
-					grants: {
-						total: grants.length,
-						active: grants.filter((g) => !g.revoked).length,
-						revoked: grants.filter((g) => g.revoked).length,
-					},
-				}),
-			);
-		},
-	},
+      if (args.jobId) {
+        const job = getInjectJob(args.jobId as string);
+        if (!job) {
+          return toolResult(`Error: Job not found: ${args.jobId}`);
+        }
+        return toolResult(JSON.stringify(describeJob(job)));
+      }
 
-  // Stats Tool
+      const jobs = getInjectJobs(args.status as InjectJob["status"] | undefined).map(describeJob);
+      return toolResult(JSON.stringify({ count: jobs.length, jobs }));
+    },
+  },
+  {
+    name: "p2p.injectResult",
+    description: "Get the AI response for a completed async inject job.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        jobId: { type: "string", description: "Job ID returned by p2p.injectMessage" },
+      },
+      required: ["jobId"],
+    },
+    handler: async (args) => {
+      const job = getInjectJob(args.jobId as string);
+      if (!job) {
+        return toolResult(`Error: Job not found: ${args.jobId}`);
+      }
+      if (job.status === "pending") {
+        return toolResult(JSON.stringify({ jobId: job.id, status: job.status, complete: false }));
+      }
+      if (job.status !== "complete") {
+        return toolResult(`Error: Inject ${job.status}: ${job.error}`);
+      }
+      return toolResult(
+        JSON.stringify({
+          jobId: job.id,
+          status: job.status,
+          complete: true,
+          peer: findPeer(job.peerKey)?.name || shortKey(job.peerKey),
+          session: job.session,
+          response: job.response,
+        }),
+      );
+    },
+  },
+  // Outbox Tools
+  {
+    name: "p2p.listOutbox",
+    description:
+      "List messages queued for offline peers, with delivery attempts and the last error. Failed entries stay listed for a week, up to 100 per peer, and are then pruned.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        peer: {
+          type: "string",
+          description: "Only list messages for this peer (ID, name, or public key)",
+        },
+      },
+    },
+    handler: async (args) => {
+      let peerKey: string | undefined;
+      if (args.peer) {
+        const peer = findPeer(args.peer as string);
+        if (!peer) {
+          return toolResult(`Error: Peer not found: ${args.peer}`);
+        }
+        peerKey = peer.publicKey;
+      }
+
+      const entries = getOutbox(peerKey).map((e) => ({
+        id: e.id,
+        peer: findPeer(e.peerKey)?.name || shortKey(e.peerKey),
+        session: e.session,
+        kind: e.kind,
+        status: e.status,
+        preview: e.message.length > 100 ? `${e.message.slice(0, 100)}...` : e.message,
+        attempts: e.attempts,
+        created: new Date(e.created).toISOString(),
+        nextAttempt: e.status === "pending" ? new Date(e.nextAttempt).toISOString() : undefined,
+        lastError: e.lastError,
+      }));
+      return toolResult(JSON.stringify({ count: entries.length, entries }));
+    },
+  },
+  {
+    name: "p2p.cancelOutbox",
+    description: "Cancel a queued message by its outbox ID, or every queued message for a peer.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Outbox entry ID, or a peer ID/name/public key to cancel all of its messages",
+        },
+      },
+      required: ["id"],
+    },
+    handler: async (args) => {
+      const removed = cancelOutbox(args.id as string);
+      if (removed === 0) {
+        return toolResult(`Error: Nothing queued for "${args.id}"`);
+      }
+      return toolResult(JSON.stringify({ success: true, cancelled: removed }));
+    },
+  },
+  // File Transfer Tools
+  {
+    name: "p2p.sendFile",
+    description:
+      "Send a file from the outgoing directory to a peer. It lands in the inbox directory of the given session on their side. The peer must have granted you the 'files' capability. Re-sending the same file after a failure resumes where it stopped.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        peer: { type: "string", description: "Peer ID, name, or public key" },
+        session: { type: "string", description: "Session whose inbox receives the file" },
+        path: {
+          type: "string",
+          description: "Path of the file to send, relative to the outgoing directory. Files outside it are refused.",
+        },
+        name: {
+          type: "string",
+          description: "File name the peer sees (default: the file's own name)",
+        },
+        timeoutMs: {
+          type: "number",
+          description: "Timeout per chunk in milliseconds (default: 30000)",
+        },
+      },
+      required: ["peer", "session", "path"],
+    },
+    handler: async (args) => {
+      const result = await sendP2PFile(args.peer as string, args.session as string, args.path as string, {
+        name: args.name as string | undefined,
+        timeoutMs: args.timeoutMs as number | undefined,
+      });
+
+      if (result.code === EXIT_OK) {
+        return toolResult(
+          JSON.stringify({
+            success: true,
+            transferId: result.transferId,
+            peer: args.peer,
+            session: args.session,
+          }),
+        );
+      }
+      return toolResult(`Error: File transfer failed: ${result.message}`);
+    },
+  },
+  {
+    name: "p2p.listTransfers",
+    description: "List recent file transfers to and from peers, with progress and status.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        peer: {
+          type: "string",
+          description: "Only list transfers with this peer (ID, name, or public key)",
+        },
+        direction: {
+          type: "string",
+          enum: ["send", "receive"],
+          description: "Only list outgoing or incoming transfers",
+        },
+      },
+    },
+    handler: async (args) => {
+      let peerKey: string | undefined;
+      if (args.peer) {
+        const peer = findPeer(args.peer as string);
+        if (!peer) {
+          return toolResult(`Error: Peer not found: ${args.peer}`);
+        }
+        peerKey = peer.publicKey;
+      }
+
+      const transfers = getTransfers({
+        peerKey,
+        direction: args.direction as "send" | "receive" | undefined,
+      }).map((t) => ({
+        id: t.id,
+        direction: t.direction,
+        peer: findPeer(t.peerKey)?.name || shortKey(t.peerKey),
+        session: t.session,
+        name: t.name,
+        size: t.size,
+        bytes: t.bytes,
+        status: t.status,
+        started: new Date(t.started).toISOString(),
+        path: t.path,
+        error: t.error,
+      }));
+      return toolResult(JSON.stringify({ count: transfers.length, transfers }));
+    },
+  },
+
+  // Group Tools
+  {
+    name: "p2p.listGroups",
+    description: "List peer groups and their members.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: async () => {
+      const groups = getGroups().map(groupView);
+      return toolResult(JSON.stringify({ count: groups.length, groups }));
+    },
+  },
+  {
+    name: "p2p.createGroup",
+    description: "Create a named group of peers that can be messaged together.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Group name (letters, digits, '-' or '_')" },
+        members: {
+          type: "array",
+          items: { type: "string" },
+          description: "Peer IDs, names, or public keys to add",
+        },
+      },
+      required: ["name"],
+    },
+    handler: async (args) => {
+      try {
+        const group = createGroup(args.name as string, (args.members as string[]) || []);
+        return toolResult(JSON.stringify({ success: true, group: groupView(group) }));
+      } catch (err: unknown) {
+        return toolResult(`Error: ${err instanceof Error ? err.message : err}`);
+      }
+    },
+  },
+  {
+    name: "p2p.deleteGroup",
+    description: "Delete a peer group. The peers themselves are not affected.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Group name" },
+      },
+      required: ["name"],
+    },
+    handler: async (args) => {
+      if (!deleteGroup(args.name as string)) {
+        return toolResult(`Error: Group not found: ${args.name}`);
+      }
+      return toolResult(JSON.stringify({ success: true, group: args.name }));
+    },
+  },
+  {
+    name: "p2p.addGroupMembers",
+    description: "Add peers to a group.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Group name" },
+        members: {
+          type: "array",
+          items: { type: "string" },
+          description: "Peer IDs, names, or public keys",
+        },
+      },
+      required: ["name", "members"],
+    },
+    handler: async (args) => {
+      try {
+        const group = addGroupMembers(args.name as string, args.members as string[]);
+        return toolResult(JSON.stringify({ success: true, group: groupView(group) }));
+      } catch (err: unknown) {
+        return toolResult(`Error: ${err instanceof Error ? err.message : err}`);
+      }
+    },
+  },
+  {
+    name: "p2p.removeGroupMembers",
+    description: "Remove peers from a group.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Group name" },
+        members: {
+          type: "array",
+          items: { type: "string" },
+          description: "Peer IDs, names, or public keys",
+        },
+      },
+      required: ["name", "members"],
+    },
+    handler: async (args) => {
+      try {
+        const group = removeGroupMembers(args.name as string, args.members as string[]);
+        return toolResult(JSON.stringify({ success: true, group: groupView(group) }));
+      } catch (err: unknown) {
+        return toolResult(`Error: ${err instanceof Error ? err.message : err}`);
+      }
+    },
+  },
+  {
+    name: "p2p.groupLog",
+    description:
+      "Log a message to a session on every member of a group (mailbox style). Returns which members got it and which were offline or rejected it.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        group: { type: "string", description: "Group name" },
+        session: { type: "string", description: "Session to log message to on each member" },
+        message: { type: "string", description: "Message content" },
+        timeoutMs: {
+          type: "number",
+          description: "Timeout per member in milliseconds (default: 10000)",
+        },
+      },
+      required: ["group", "session", "message"],
+    },
+    handler: async (args) => {
+      if (!getGroup(args.group as string)) {
+        return toolResult(`Error: Group not found: ${args.group}`);
+      }
+      const result = await sendGroupLog(
+        args.group as string,
+        args.session as string,
+        args.message as string,
+        (args.timeoutMs as number) || 10000,
+      );
+      return toolResult(JSON.stringify({ mode: "log", ...result }));
+    },
+  },
+  {
+    name: "p2p.groupInject",
+    description:
+      "Inject a message into a session on every member of a group in parallel and gather the AI responses. Returns a result per member, including which were offline, rejected it or timed out.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        group: { type: "string", description: "Group name" },
+        session: { type: "string", description: "Session to inject into on each member" },
+        message: { type: "string", description: "Message content" },
+        timeoutMs: {
+          type: "number",
+          description: "Time to wait for each member's response in milliseconds (default: 60000)",
+        },
+      },
+      required: ["group", "session", "message"],
+    },
+    handler: async (args, context?: A2AToolContext) => {
+      const group = getGroup(args.group as string);
+      if (!group) {
+        return toolResult(`Error: Group not found: ${args.group}`);
+      }
+
+      // Same loop guard as p2p.injectMessage: do not inject back into the peer injecting this session
+      const injectingPeer = context?.sessionName ? sessionsBeingInjected.get(context.sessionName) : undefined;
+      if (injectingPeer !== undefined && (!injectingPeer || group.members.includes(injectingPeer))) {
+        logger.warn(
+          `[p2p] BLOCKED: Session ${context?.sessionName} tried to call p2p.groupInject on a group containing the peer injecting into it`,
+        );
+        return toolResult(
+          `Error: BLOCKED: You are currently responding to a P2P inject from a member of this group. ` +
+            `Just respond with text; it is returned to the caller automatically.`,
+        );
+      }
+
+      const parentTrace = context?.sessionName ? getSessionTrace(context.sessionName) : undefined;
+      const result = await sendGroupInject(
+        args.group as string,
+        args.session as string,
+        args.message as string,
+        (args.timeoutMs as number) || 60000,
+        { trace: parentTrace && nextHop(parentTrace) },
+      );
+      return toolResult(JSON.stringify({ mode: "inject", ...result }));
+    },
+  },
+
+  // Status Tools
+  {
+    name: "p2p.status",
+    description: "Get P2P network status including identity, peers, and listener state.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: async () => {
+      const identity = getIdentity();
+      const peers = getPeers();
+      const grants = getAccessGrants();
+
+			return toolResult(
+				JSON.stringify({
+					identity: identity
+						? {
+								shortId: shortKey(identity.publicKey),
+								publicKey: `${identity.publicKey.slice(0, 30)}...`,
+								created: new Date(identity.created).toISOString(),
+								revoked: isKeyRevoked(identity.publicKey),
+							}
+						: null,
+					identityLocked: isIdentityLocked(),
+					keyProtection: getIdentityProtection(),
+					listening: p2pListener !== null,
+					peers: {
+						count: peers.length,
+						names: peers.filter((p) => p.name).map((p) => p.name),
+					},
+					grants: {
+						total: grants.length,
+						active: grants.filter((g) => !g.revoked).length,
+						revoked: grants.filter((g) => g.revoked).length,
+					},
+					connections: getConnectionPoolStatus(),
+					outbox: getOutboxDepth(),
+				}),
+			);
+		},
+	},
+
+  // Stats Tool
+  {
+    name: "p2p.stats",
+    description:
+      "Get P2P network statistics: messages relayed, bytes and messages per peer and type, rejects, rate-limit hits, replay drops, handshake and inject latency, discovered peers per topic, uptime.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: async () => {
+      return toolResult(JSON.stringify(buildP2pStatsResponse()));
+    },
+  },
+
+  // Grant Access Tools
+  {
+    name: "p2p.grantAccess",
+    description:
+      "Manually grant a peer access to specific sessions without using tokens. Give the same caps on every listed session with sessions/caps, or different caps per session pattern with sessionCaps. Updates existing peer record if found.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        peerKey: {
+          type: "string",
+          description: "Peer ID, name, or public key",
+        },
+        sessions: {
+          type: "array",
+          items: { type: "string" },
+          description: "Sessions to grant access to",
+        },
+        caps: {
+          type: "array",
+          items: { type: "string" },
+          description: "Capabilities to grant on the sessions: 'message', 'inject', 'files' (default: ['inject'])",
+        },
+        sessionCaps: {
+          type: "object",
+          additionalProperties: { type: "array", items: { type: "string" } },
+          description:
+            "Capabilities per session pattern, e.g. { 'support-*': ['inject'], 'main': ['message'] }. '*' matches any characters",
+        },
+        expiresInHours: {
+          type: "number",
+          description: "Hours until the grant expires (default: no expiry)",
+        },
+        windows: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              days: { type: "array", items: { type: "number" } },
+              start: { type: "string" },
+              end: { type: "string" },
+            },
+            required: ["days", "start", "end"],
+          },
+          description:
+            "Recurring windows the grant applies in, in local time, e.g. [{ days: [1,2,3,4,5], start: '09:00', end: '18:00' }] for weekday office hours. Pass [] to clear",
+        },
+      },
+      required: ["peerKey"],
+    },
+    handler: async (args) => {
+      try {
+        let peerKey = args.peerKey as string;
+        const caps = (args.caps as string[]) || ["inject"];
+        const sessionCaps: Record<string, string[]> = {
+          ...Object.fromEntries(((args.sessions as string[]) || []).map((s) => [s, caps])),
+          ...((args.sessionCaps as Record<string, string[]>) || {}),
+        };
+        const sessions = Object.keys(sessionCaps);
+        if (sessions.length === 0) {
+          return toolResult("Error: Give sessions or sessionCaps");
+        }
+
+        // Resolve short ID or name to full public key
+        const existingPeer = findPeer(peerKey);
+        if (existingPeer) {
+          peerKey = existingPeer.publicKey;
+          logger.info(`[p2p] Resolved peer ${args.peerKey} to ${shortKey(peerKey)}`);
+        }
+
+        const expiresInHours = args.expiresInHours as number | undefined;
+        const grant = grantSessionCaps(peerKey, sessionCaps, undefined, {
+          expiresAt: expiresInHours ? Date.now() + expiresInHours * 3600000 : undefined,
+          windows: args.windows as GrantWindow[] | undefined,
+        });
+
+        // Also update the peer record
+        addPeer(peerKey, sessions, Array.from(new Set(Object.values(sessionCaps).flat())));
+
+        // Notify the peer of the updated grant if they're connected
+        const notified = notifyGrantUpdate(peerKey, grant.sessions, grant.expiresAt);
+
+        return toolResult(
+          JSON.stringify({
+            success: true,
+            grantId: grant.id,
+            peer: shortKey(peerKey),
+            sessions: grant.sessions,
+            caps: grant.caps,
+            sessionCaps: getSessionCaps(grant),
+            expiresAt: grant.expiresAt ? new Date(grant.expiresAt).toISOString() : undefined,
+            windows: grant.windows,
+            notified, // Whether the peer was notified in real-time
+          }),
+        );
+      } catch (err: unknown) {
+        return toolResult(`Error: Failed to grant access: ${err}`);
+      }
+    },
+  },
+  {
+    name: "p2p.listGrants",
+    description: "List all access grants: which sessions each peer can reach and with which caps per session.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        includeRevoked: {
+          type: "boolean",
+          description: "Include revoked grants",
+        },
+      },
+    },
+    handler: async (args) => {
+      const grants = getAccessGrants();
+      const filtered = args.includeRevoked ? grants : grants.filter((g) => !g.revoked);
+
+      return toolResult(
+        JSON.stringify({
+          count: filtered.length,
+          grants: filtered.map((g) => ({
+            id: g.id,
+            peer: shortKey(g.peerKey),
+            name: g.peerName,
+            sessions: g.sessions,
+            caps: g.caps,
+            sessionCaps: getSessionCaps(g),
+            revoked: g.revoked || false,
+            active: isGrantActive(g),
+            quota: getInjectQuota(g.peerKey) ?? null,
+            usage: getInjectUsage(g.peerKey),
+            requireApproval: g.requireApproval || false,
+            expiresAt: g.expiresAt ? new Date(g.expiresAt).toISOString() : undefined,
+            windows: g.windows,
+            created: new Date(g.created).toISOString(),
+          })),
+        }),
+      );
+    },
+  },
+
+  {
+    name: "p2p.listBans",
+    description: "List peers that are currently banned for exceeding a rate limit.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: async () => {
+      const bans = getBans();
+      return toolResult(
+        JSON.stringify({
+          count: bans.length,
+          bans: bans.map((b) => ({
+            peer: shortKey(b.peerKey),
+            publicKey: b.peerKey,
+            name: findPeer(b.peerKey)?.name,
+            action: b.action,
+            until: new Date(b.until).toISOString(),
+          })),
+        }),
+      );
+    },
+  },
+  {
+    name: "p2p.unban",
+    description: "Lift a peer's rate limit bans and reset their request counts.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        peer: { type: "string", description: "Peer ID, name, or public key" },
+        action: {
+          type: "string",
+          description: "Only lift the ban for this action (e.g. 'injects'); default: all",
+        },
+      },
+      required: ["peer"],
+    },
+    handler: async (args) => {
+      const peerKey = findPeer(args.peer as string)?.publicKey || (args.peer as string);
+      const lifted = unbanPeer(peerKey, args.action as string | undefined);
+      return toolResult(JSON.stringify({ success: true, peer: shortKey(peerKey), lifted }));
+    },
+  },
+  {
+    name: "p2p.setFriendRateLimit",
+    description: "Override the message and inject rate limits for a friend. Omit both limits to restore the defaults.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        friend: { type: "string", description: "Friend name or public key" },
+        messagesPerMinute: { type: "number", description: "Messages (logs) allowed per minute" },
+        injectsPerMinute: { type: "number", description: "Injects allowed per minute" },
+      },
+      required: ["friend"],
+    },
+    handler: async (args) => {
+      const messagesPerMinute = args.messagesPerMinute as number | undefined;
+      const injectsPerMinute = args.injectsPerMinute as number | undefined;
+      const rateLimit =
+        messagesPerMinute === undefined && injectsPerMinute === undefined
+          ? undefined
+          : { messagesPerMinute: messagesPerMinute ?? 0, injectsPerMinute };
+      if (!setFriendRateLimit(args.friend as string, rateLimit)) {
+        return toolResult(`Error: Friend not found: ${args.friend}`);
+      }
+      return toolResult(
+        JSON.stringify({ success: true, friend: getFriend(args.friend as string)?.name, rateLimit: rateLimit ?? null }),
+      );
+    },
+  },
+  {
+    name: "p2p.setInjectQuota",
+    description:
+      "Set a peer's daily inject budget: injects, AI processing time and response characters. Injects over budget are rejected with 'quota exceeded'. Omit all limits to fall back to the injectQuota config.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        peer: { type: "string", description: "Peer ID, name, or public key" },
+        injectsPerDay: { type: "number", description: "Injects allowed per day" },
+        processingMinutesPerDay: { type: "number", description: "Minutes of AI processing allowed per day" },
+        responseCharsPerDay: { type: "number", description: "Response characters allowed per day" },
+      },
+      required: ["peer"],
+    },
+    handler: async (args) => {
+      const minutes = args.processingMinutesPerDay as number | undefined;
+      const quota: InjectQuota = {
+        injectsPerDay: args.injectsPerDay as number | undefined,
+        processingMsPerDay: minutes === undefined ? undefined : minutes * 60000,
+        responseCharsPerDay: args.responseCharsPerDay as number | undefined,
+      };
+      const unset = Object.values(quota).every((v) => v === undefined);
+      const peerKey = findPeer(args.peer as string)?.publicKey || (args.peer as string);
+      if (!setInjectQuota(peerKey, unset ? undefined : quota)) {
+        return toolResult(`Error: No access grant for peer: ${args.peer}`);
+      }
+      return toolResult(
+        JSON.stringify({
+          success: true,
+          peer: shortKey(peerKey),
+          quota: getInjectQuota(peerKey) ?? null,
+          usage: getInjectUsage(peerKey),
+        }),
+      );
+    },
+  },
+
+  // Inject Approvals
+  {
+    name: "p2p.setInjectApproval",
+    description:
+      "Require (or stop requiring) owner approval for a peer's injects. Injects needing approval wait in the approval queue and the peer is told they are pending; the response follows once approved.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        peer: { type: "string", description: "Peer ID, name, or public key" },
+        required: { type: "boolean", description: "Whether the peer's injects need approval" },
+      },
+      required: ["peer", "required"],
+    },
+    handler: async (args) => {
+      const peerKey = findPeer(args.peer as string)?.publicKey || (args.peer as string);
+      if (!setRequireApproval(peerKey, args.required === true)) {
+        return toolResult(`Error: No access grant for peer: ${args.peer}`);
+      }
+      return toolResult(JSON.stringify({ success: true, peer: shortKey(peerKey), requireApproval: args.required === true }));
+    },
+  },
+  {
+    name: "p2p.listPendingInjects",
+    description: "List peer injects waiting for approval, oldest first.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: async () => {
+      const pending = getPendingInjects();
+      return toolResult(
+        JSON.stringify({
+          count: pending.length,
+          pending: pending.map((p) => ({
+            jobId: p.id,
+            peer: findPeer(p.peerKey)?.name || shortKey(p.peerKey),
+            session: p.session,
+            message: p.message,
+            received: new Date(p.created).toISOString(),
+            expiresAt: new Date(p.expiresAt).toISOString(),
+          })),
+        }),
+      );
+    },
+  },
+  // There is no approve tool: the model also runs peer injects, so approval
+  // stays with the owner (notification buttons or the REST API)
   {
-    name: "p2p.stats",
-    description: "Get P2P network statistics: messages relayed, bandwidth, uptime.",
+    name: "p2p.denyInject",
+    description: "Deny a pending inject. The peer is told it was denied.",
     inputSchema: {
       type: "object",
-      properties: {},
+      properties: {
+        jobId: { type: "string", description: "Job ID from p2p.listPendingInjects" },
+        reason: { type: "string", description: "Reason sent to the peer (default: denied)" },
+      },
+      required: ["jobId"],
     },
-    handler: async () => {
-      return toolResult(JSON.stringify(buildP2pStatsResponse()));
+    handler: async (args) => {
+      try {
+        const pending = denyInject(args.jobId as string, (args.reason as string) || undefined);
+        if (!pending) {
+          return toolResult(`Error: No pending inject: ${args.jobId}`);
+        }
+        return toolResult(JSON.stringify({ success: true, jobId: pending.id }));
+      } catch (err: unknown) {
+        return toolResult(`Error: ${err instanceof Error ? err.message : err}`);
+      }
     },
   },
 
-  // Grant Access Tools
+  // Remote Tools
   {
-    name: "p2p.grantAccess",
+    name: "p2p.allowRemoteTools",
     description:
-      "Manually grant a peer access to specific sessions without using tokens. Updates existing peer record if found.",
+      "Set which of our exported tools a peer may call. Pass [\"*\"] for all exported tools, or [] to remove the peer's tools capability.",
     inputSchema: {
       type: "object",
       properties: {
-        peerKey: {
-          type: "string",
-          description: "Peer ID, name, or public key",
-        },
-        sessions: {
-          type: "array",
-          items: { type: "string" },
-          description: "Sessions to grant access to",
-        },
-        caps: {
+        peer: { type: "string", description: "Peer ID, name, or public key" },
+        tools: {
           type: "array",
           items: { type: "string" },
-          description: "Capabilities to grant (default: ['inject'])",
+          description: "Tool names the peer may call",
         },
       },
-      required: ["peerKey", "sessions"],
+      required: ["peer", "tools"],
     },
     handler: async (args) => {
-      try {
-        let peerKey = args.peerKey as string;
-        const sessions = args.sessions as string[];
-
-        // Resolve short ID or name to full public key
-        const existingPeer = findPeer(peerKey);
-        if (existingPeer) {
-          peerKey = existingPeer.publicKey;
-          logger.info(`[p2p] Resolved peer ${args.peerKey} to ${shortKey(peerKey)}`);
-        }
-
-        const grant = grantAccess(peerKey, sessions, (args.caps as string[]) || ["inject"]);
-
-        // Also update the peer record
-        addPeer(peerKey, sessions, (args.caps as string[]) || ["inject"]);
-
-        // Notify the peer of the updated grant if they're connected
-        const notified = notifyGrantUpdate(peerKey, grant.sessions);
-
-        return toolResult(
-          JSON.stringify({
-            success: true,
-            grantId: grant.id,
-            peer: shortKey(peerKey),
-            sessions: grant.sessions,
-            caps: grant.caps,
-            notified, // Whether the peer was notified in real-time
-          }),
-        );
-      } catch (err: unknown) {
-        return toolResult(`Error: Failed to grant access: ${err}`);
+      const peerKey = findPeer(args.peer as string)?.publicKey || (args.peer as string);
+      const grant = setAllowedTools(peerKey, args.tools as string[]);
+      if (!grant) {
+        return toolResult(`Error: No access grant for peer: ${args.peer}`);
       }
+      return toolResult(
+        JSON.stringify({ success: true, peer: shortKey(peerKey), tools: grant.tools || [], caps: grant.caps }),
+      );
     },
   },
   {
-    name: "p2p.listGrants",
-    description: "List all access grants (who can send to which sessions).",
+    name: "p2p.listRemoteTools",
+    description: "List the tools a peer has exported to us and that we are allowed to call.",
     inputSchema: {
       type: "object",
       properties: {
-        includeRevoked: {
-          type: "boolean",
-          description: "Include revoked grants",
-        },
+        peer: { type: "string", description: "Peer ID, name, or public key" },
       },
+      required: ["peer"],
     },
     handler: async (args) => {
-      const grants = getAccessGrants();
-      const filtered = args.includeRevoked ? grants : grants.filter((g) => !g.revoked);
-
-      return toolResult(
-        JSON.stringify({
-          count: filtered.length,
-          grants: filtered.map((g) => ({
-            id: g.id,
-            peer: shortKey(g.peerKey),
-            name: g.peerName,
-            sessions: g.sessions,
-            caps: g.caps,
-            revoked: g.revoked || false,
-            created: new Date(g.created).toISOString(),
-          })),
-        }),
+      const result = await listRemoteTools(args.peer as string);
+      if (result.code !== EXIT_OK) {
+        return toolResult(`Error: ${result.message}`);
+      }
+      return toolResult(JSON.stringify({ peer: args.peer, tools: result.tools || [] }));
+    },
+  },
+  {
+    name: "p2p.callRemoteTool",
+    description:
+      "Call a tool a peer has exported to us. The peer checks the arguments against the tool's input schema and returns the tool result.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        peer: { type: "string", description: "Peer ID, name, or public key" },
+        tool: { type: "string", description: "Name of the remote tool" },
+        args: { type: "object", description: "Arguments for the tool" },
+        timeoutMs: { type: "number", description: "How long to wait for the result (default: 30000)" },
+      },
+      required: ["peer", "tool"],
+    },
+    handler: async (args) => {
+      const result = await callRemoteTool(
+        args.peer as string,
+        args.tool as string,
+        (args.args as Record<string, unknown>) || {},
+        (args.timeoutMs as number) || 30000,
       );
+      if (result.code !== EXIT_OK || !result.result) {
+        return toolResult(`Error: ${result.message || "No result"}`);
+      }
+      return result.result;
     },
   },
 
@@ -876,6 +2057,119 @@ const p2pTools: P2PToolDefinition[] = [
 	},
 ];
 
+/**
+ * Build ctx.inject options for a message from a peer, including the
+ * security source carrying the friend's trust level for sandboxing and
+ * the trace of the inject chain.
+ */
+function peerInjectOptions(peerKey: string | undefined, trace?: InjectTrace) {
+  const peerId = peerKey ? shortKey(peerKey) : "unknown";
+  const friendSecurity = peerKey ? getFriendSecurityContext(peerKey) : null;
+  const trustLevel = (friendSecurity?.trustLevel || "untrusted") as "untrusted" | "semi-trusted" | "trusted" | "owner";
+  ctx?.log.info(
+    `[p2p] Peer ${peerId} trust level: ${trustLevel} (sandboxed: ${trustLevel === "untrusted" || trustLevel === "semi-trusted"})`,
+  );
+
+  // Trust levels: untrusted/semi-trusted -> sandboxed, trusted/owner -> not sandboxed
+  return {
+    from: `p2p:${peerKey || peerId}`,
+    channel: { type: "p2p", id: peerKey || "unknown" },
+    source: {
+      type: "p2p" as const,
+      trustLevel,
+      identity: { publicKey: peerKey || peerId },
+      grantedCapabilities: friendSecurity?.capabilities,
+      trace,
+    },
+  };
+}
+
+/**
+ * Inject a peer's message and yield the AI's text as it streams.
+ * If the AI produced no streamed text, the final response is yielded instead.
+ */
+async function* streamPeerInject(
+  session: string,
+  message: string,
+  peerKey?: string,
+  trace?: InjectTrace,
+): AsyncGenerator<string> {
+  incrementStat("messagesRelayed");
+  const peerId = peerKey ? shortKey(peerKey) : "unknown";
+  ctx?.log.info(`P2P streaming inject message: ${peerId} -> ${session}`);
+
+  if (!ctx?.inject) {
+    ctx?.log.warn(`[p2p] No inject method - cannot invoke AI`);
+    yield "Error: AI injection not available";
+    return;
+  }
+
+  const chunks: string[] = [];
+  let streamedChars = 0;
+  let streamed = false;
+  let finalResponse: string | undefined;
+  let failure: unknown;
+  let done = false;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  // Block recursive p2p.injectMessage calls while this session responds
+  sessionsBeingInjected.set(session, peerKey || "");
+  if (trace) setSessionTrace(session, trace);
+  const startTime = Date.now();
+  ctx
+    .inject(session, message, {
+      ...peerInjectOptions(peerKey, trace),
+      onStream: (msg: StreamMessage) => {
+        if (msg.type === "text" && msg.content) {
+          streamed = true;
+          streamedChars += msg.content.length;
+          chunks.push(msg.content);
+          notify();
+        }
+      },
+    })
+    .then(
+      (response: string) => {
+        finalResponse = response;
+      },
+      (err: unknown) => {
+        failure = err;
+      },
+    )
+    .finally(() => {
+      sessionsBeingInjected.delete(session);
+      clearSessionTrace(session);
+      if (peerKey) {
+        recordInjectUsage(peerKey, Date.now() - startTime, streamed ? streamedChars : finalResponse?.length || 0);
+      }
+      done = true;
+      notify();
+    });
+
+  while (true) {
+    const chunk = chunks.shift();
+    if (chunk !== undefined) {
+      yield chunk;
+      continue;
+    }
+    if (done) break;
+    await new Promise<void>((resolve) => {
+      wake = resolve;
+    });
+  }
+
+  if (failure) {
+    ctx?.log.error(`[p2p] Streaming inject failed: ${failure}`);
+    yield `Error: Failed to process message - ${failure}`;
+  } else if (!streamed && finalResponse) {
+    yield finalResponse;
+  }
+}
+
 /**
  * Plugin export
  */
@@ -920,6 +2214,89 @@ const plugin: WOPRPlugin = {
 					label: "Connection Timeout",
 					description: "Connection timeout in milliseconds",
 				},
+				{
+					name: "connectionIdleTimeout",
+					type: "number",
+					label: "Connection Idle Timeout",
+					description:
+						"Close pooled peer connections after this many milliseconds without traffic (default: 60000)",
+				},
+				{
+					name: "maxFileSize",
+					type: "number",
+					label: "Max File Size",
+					description:
+						"Largest file a peer may send, in bytes (default: 104857600 = 100MB)",
+				},
+				{
+					name: "inboxQuota",
+					type: "number",
+					label: "Inbox Quota",
+					description:
+						"Total size of received files kept per session inbox, in bytes (default: 1073741824 = 1GB)",
+				},
+				{
+					name: "outgoingDir",
+					type: "text",
+					label: "Outgoing Directory",
+					description:
+						"Only files in this directory can be sent to peers (default: files/outgoing in the data directory)",
+				},
+				{
+					name: "maxHops",
+					type: "number",
+					label: "Max Inject Hops",
+					description:
+						"Reject injects that have already been forwarded this many times between peers (default: 4)",
+				},
+				{
+					name: "rateLimits",
+					type: "object",
+					label: "Rate Limits",
+					description:
+						"Per-action limits, e.g. { injects: { maxPerMinute: 10, maxPerHour: 100, banDurationMs: 3600000 } }. Actions: injects, logs, files, tools, claims, invalidMessages",
+				},
+				{
+					name: "peerRateLimits",
+					type: "object",
+					label: "Peer Rate Limits",
+					description:
+						"Per-peer overrides keyed by public key, then action, in the same form as Rate Limits",
+				},
+				{
+					name: "exportedTools",
+					type: "array",
+					label: "Exported Tools",
+					description:
+						"Names of this plugin's tools that peers may call with p2p.callRemoteTool, once allowed with p2p.allowRemoteTools",
+				},
+				{
+					name: "injectQuota",
+					type: "object",
+					label: "Inject Quota",
+					description:
+						"Daily inject budget per peer, e.g. { injectsPerDay: 100, processingMsPerDay: 1800000, responseCharsPerDay: 500000 }. Set per peer with p2p.setInjectQuota",
+				},
+				{
+					name: "approvalTimeout",
+					type: "number",
+					label: "Approval Timeout",
+					description: `Milliseconds an inject waits for approval before it is denied (default: ${DEFAULT_APPROVAL_TIMEOUT_MS})`,
+				},
+				{
+					name: "approvalChannel",
+					type: "text",
+					label: "Approval Channel",
+					description:
+						"Channel ID where the owner is asked to approve injects from peers set with p2p.setInjectApproval",
+				},
+				{
+					name: "webUiOrigin",
+					type: "text",
+					label: "Web UI Origin",
+					description:
+						"Origin of the WOPR web UI (e.g. http://localhost:7437). Only this origin may call the P2P API from a browser",
+				},
 				{
 					name: "uiPort",
 					type: "number",
@@ -937,7 +2314,7 @@ const plugin: WOPRPlugin = {
 	},
 
 	// CLI commands
-	commands: [friendCommand],
+	commands: [friendCommand, p2pCommand],
 
 	async init(pluginContext: WOPRPluginContext) {
 		ctx = pluginContext;
@@ -945,6 +2322,7 @@ const plugin: WOPRPlugin = {
 
 		// Set up P2P module logger for debugging
 		setP2PLogger((msg) => ctx?.log.info(`[p2p] ${msg}`));
+		setConnectionPoolLogger((msg) => ctx?.log.info(`[p2p:pool] ${msg}`));
 
 		// Configure bootstrap nodes if specified in config
 		const pluginConfig = ctx.getConfig<Record<string, unknown>>();
@@ -958,6 +2336,48 @@ const plugin: WOPRPlugin = {
 		} else {
 			ctx.log.warn("No bootstrap config found in plugin config");
 		}
+		if (typeof pluginConfig.connectionIdleTimeout === "number") {
+			setP2PConfig({ poolIdleTimeoutMs: pluginConfig.connectionIdleTimeout });
+		}
+		if (typeof pluginConfig.maxFileSize === "number") {
+			setP2PConfig({ maxFileSize: pluginConfig.maxFileSize });
+		}
+		if (typeof pluginConfig.inboxQuota === "number") {
+			setP2PConfig({ inboxQuotaBytes: pluginConfig.inboxQuota });
+		}
+		if (typeof pluginConfig.outgoingDir === "string" && pluginConfig.outgoingDir) {
+			setP2PConfig({ outgoingDir: pluginConfig.outgoingDir });
+		}
+		if (typeof pluginConfig.maxHops === "number") {
+			setP2PConfig({ maxHops: pluginConfig.maxHops });
+		}
+		if (pluginConfig.rateLimits && typeof pluginConfig.rateLimits === "object") {
+			setP2PConfig({
+				rateLimits: pluginConfig.rateLimits as P2PConfig["rateLimits"],
+			});
+		}
+		if (pluginConfig.injectQuota && typeof pluginConfig.injectQuota === "object") {
+			setP2PConfig({
+				injectQuota: pluginConfig.injectQuota as P2PConfig["injectQuota"],
+			});
+		}
+		if (typeof pluginConfig.approvalTimeout === "number") {
+			setP2PConfig({ approvalTimeoutMs: pluginConfig.approvalTimeout });
+		}
+		if (typeof pluginConfig.approvalChannel === "string") {
+			setP2PConfig({ approvalChannel: pluginConfig.approvalChannel });
+		}
+		if (typeof pluginConfig.webUiOrigin === "string") {
+			setP2PConfig({ webUiOrigin: pluginConfig.webUiOrigin });
+		}
+		if (
+			pluginConfig.peerRateLimits &&
+			typeof pluginConfig.peerRateLimits === "object"
+		) {
+			setP2PConfig({
+				peerRateLimits: pluginConfig.peerRateLimits as P2PConfig["peerRateLimits"],
+			});
+		}
 
 		// Initialize Storage API if available
 		if (ctx.storage) {
@@ -970,6 +2390,14 @@ const plugin: WOPRPlugin = {
 			setIdentityStorage(ctx.storage);
 			setTrustStorage(ctx.storage);
 			setFriendsStorage(ctx.storage);
+			setOutboxStorage(ctx.storage);
+			setDedupStorage(ctx.storage);
+			setInjectJobStorage(ctx.storage);
+			setRateLimitStorage(ctx.storage);
+			setGroupStorage(ctx.storage);
+			setQuotaStorage(ctx.storage);
+			setApprovalStorage(ctx.storage);
+			setRotationStorage(ctx.storage);
 
 			// Run one-time migration from JSON files to SQL
 			// Only migrates files that still exist (idempotent)
@@ -981,6 +2409,15 @@ const plugin: WOPRPlugin = {
 			await loadIdentity();
 			await loadTrustData();
 			await loadFriendsData();
+			await loadOutbox();
+			await loadDeliveredIds();
+			await loadInjectJobs();
+			await loadBans();
+			await loadNonces();
+			await loadGroups();
+			await loadQuotaUsage();
+			await loadPendingInjects();
+			await loadRotationCampaigns();
 
 			ctx.log.info("P2P storage initialized");
 		} else {
@@ -997,17 +2434,32 @@ const plugin: WOPRPlugin = {
 			ctx.log.info("Pairing storage initialized");
 		}
 
+		// Unseal a sealed identity with the passphrase from the environment
+		if (isIdentityLocked() && process.env.WOPR_P2P_PASSPHRASE) {
+			try {
+				await unlockIdentity(process.env.WOPR_P2P_PASSPHRASE);
+			} catch (err: unknown) {
+				ctx.log.error(
+					`P2P identity unlock failed: ${err instanceof Error ? err.message : err}`,
+				);
+			}
+		}
+
 		// Ensure identity exists
 		let identity = getIdentity();
-		if (!identity) {
+		if (isIdentityLocked()) {
+			ctx.log.error(
+				"P2P identity is locked - P2P stays offline until it is unlocked. Set WOPR_P2P_PASSPHRASE, run `wopr p2p unlock`, or register the key provider it was sealed with.",
+			);
+		} else if (!identity) {
 			identity = initIdentity();
 			ctx.log.info(`P2P identity created: ${shortKey(identity.publicKey)}`);
 		} else {
 			ctx.log.info(`P2P identity: ${shortKey(identity.publicKey)}`);
 		}
 
-		// Start P2P listener with log and inject handlers
-		p2pListener = createP2PListener({
+		// P2P listener log and inject handlers
+		const listenerCallbacks: P2PCallbacks = {
 			// Log handler - mailbox style, just stores message in session history
 			onLogMessage: (session, message, peerKey) => {
 				incrementStat("messagesRelayed");
@@ -1030,61 +2482,48 @@ const plugin: WOPRPlugin = {
 			},
 
 			// Inject handler - invokes AI and returns response
-			onInjectMessage: async (session, message, peerKey) => {
+			onInjectMessage: async (session, message, peerKey, trace) => {
 				incrementStat("messagesRelayed");
 				const peerId = peerKey ? shortKey(peerKey) : "unknown";
 				ctx?.log.info(`P2P inject message: ${peerId} -> ${session}`);
 				ctx?.log.info(`P2P message content: ${message.slice(0, 200)}...`);
 
-				// Get the friend's security context for proper trust level
-				const friendSecurity = peerKey
-					? getFriendSecurityContext(peerKey)
-					: null;
-				const trustLevel = (friendSecurity?.trustLevel || "untrusted") as
-					| "untrusted"
-					| "semi-trusted"
-					| "trusted"
-					| "owner";
-				ctx?.log.info(
-					`[p2p] Peer ${peerId} trust level: ${trustLevel} (sandboxed: ${trustLevel === "untrusted" || trustLevel === "semi-trusted"})`,
-				);
-
 				// Invoke the AI and get response
 				if (ctx?.inject) {
 					try {
 						ctx?.log.info(`[p2p] Calling ctx.inject for session ${session}...`);
 
 						// Track this session as being P2P injected into
-						// This prevents the AI from calling p2p_inject_message while processing
-						sessionsBeingInjected.add(session);
+						// This prevents the AI from calling p2p_inject_message on the sender while processing
+						sessionsBeingInjected.set(session, peerKey || "");
 						ctx?.log.info(
-							`[p2p] Session ${session} marked as being-injected (blocks p2p.injectMessage)`,
+							`[p2p] Session ${session} marked as being-injected (blocks p2p.injectMessage to the sender)`,
 						);
+						// Injects this session sends to other peers continue the trace
+						if (trace) setSessionTrace(session, trace);
 
 						const startTime = Date.now();
+						let responseChars = 0;
 						try {
-							// Create security source with proper trust level for sandboxing
-							// Trust levels: untrusted/semi-trusted -> sandboxed, trusted/owner -> not sandboxed
-							const source = {
-								type: "p2p" as const,
-								trustLevel,
-								identity: { publicKey: peerKey || peerId },
-								grantedCapabilities: friendSecurity?.capabilities,
-							};
-
-							const response = await ctx.inject(session, message, {
-								from: `p2p:${peerKey || peerId}`,
-								channel: { type: "p2p", id: peerKey || "unknown" },
-								source, // Pass the security source with friend's trust level
-							});
+							const response = await ctx.inject(
+								session,
+								message,
+								peerInjectOptions(peerKey, trace),
+							);
 							const elapsed = Date.now() - startTime;
+							responseChars = response.length;
 							ctx?.log.info(
 								`[p2p] AI response generated (${response.length} chars) in ${elapsed}ms`,
 							);
 							return response;
 						} finally {
+							// Charge the AI time and output to the peer's inject quota
+							if (peerKey) {
+								recordInjectUsage(peerKey, Date.now() - startTime, responseChars);
+							}
 							// Always clear the tracking, even on error
 							sessionsBeingInjected.delete(session);
+							clearSessionTrace(session);
 							ctx?.log.info(
 								`[p2p] Session ${session} cleared from being-injected tracking`,
 							);
@@ -1099,58 +2538,168 @@ const plugin: WOPRPlugin = {
 				}
 			},
 
+			// Streaming inject handler - yields AI output as it is generated
+			onInjectMessageStream: streamPeerInject,
+
+			// File handler - note the saved file in the session history
+			onFileReceived: (session, transfer, peerKey) => {
+				const peerId = shortKey(peerKey);
+				ctx?.log.info(`P2P file received: ${peerId} -> ${session}: ${transfer.path}`);
+				ctx?.logMessage?.(
+					session,
+					`Received file "${transfer.name}" (${transfer.size} bytes) from ${peerId}, saved to ${transfer.path}`,
+					{
+						from: `p2p:${peerId}`,
+						channel: { type: "p2p", id: peerKey },
+					},
+				);
+			},
+
 			// Connection tracking
 			onConnection: () => incrementStat("connectionsTotal"),
 
+			// A peer reached us - retry anything queued for it
+			onPeerSeen: (peerKey) => {
+				flushOutboxForPeer(peerKey);
+				flushRotationForPeer(peerKey);
+			},
+
 			// Logging output
 			onLog: (msg) => ctx?.log.info(`[p2p] ${msg}`),
-		});
+		};
+
+		// Peers that missed a recent rotation still dial our old keys
+		const startListener = () => {
+			p2pListener = createP2PListener(listenerCallbacks);
+			if (p2pListener) {
+				for (const key of joinRotatedTopics(p2pListener)) {
+					ctx?.log.info(`[p2p] Also listening on rotated key ${shortKey(key)}`);
+				}
+			}
+		};
 
+		startListener();
 		if (p2pListener) {
 			ctx.log.info("P2P listener started");
 		}
 
-		// Initialize discovery system
-		try {
-			await initDiscovery(
-				async (peerProfile, topic) => {
-					ctx?.log.info(
-						`Discovery connection request from ${peerProfile.id} in ${topic}`,
-					);
+		// Discovery accepts connection requests only from peers with a grant
+		const startDiscovery = async (): Promise<void> => {
+			try {
+				await initDiscovery(
+					async (peerProfile, topic) => {
+						ctx?.log.info(
+							`Discovery connection request from ${peerProfile.id} in ${topic}`,
+						);
 
-					// Check if this peer has ANY valid grant (session filtering happens when messaging)
-					const grants = getAccessGrants();
-					const grant = grants.find(
-						(g) => g.peerKey === peerProfile.publicKey && !g.revoked,
-					);
+						// Check if this peer has ANY valid grant (session filtering happens when messaging)
+						const grants = getAccessGrants();
+						const grant = grants.find(
+							(g) => g.peerKey === peerProfile.publicKey && isGrantActive(g),
+						);
 
-					if (grant) {
-						ctx?.log.info(
-							`[security] Peer ${peerProfile.id} has valid grant - accepting connection`,
+						if (grant) {
+							ctx?.log.info(
+								`[security] Peer ${peerProfile.id} has valid grant - accepting connection`,
+							);
+							return {
+								accept: true,
+								sessions: grant.sessions,
+							};
+						}
+
+						// SECURITY: Do NOT auto-accept discovered peers that haven't been granted access
+						// They must be explicitly granted access via p2p_grant_access
+						ctx?.log.warn(
+							`[security] Discovered peer ${peerProfile.id} requires explicit grant. ` +
+								`Use p2p.grantAccess to authorize.`,
 						);
 						return {
-							accept: true,
-							sessions: grant.sessions,
+							accept: false,
+							sessions: [],
+							reason: `Peer not authorized. Use p2p.grantAccess to authorize peer ${peerProfile.id}.`,
 						};
-					}
+					},
+					(msg) => ctx?.log.info(`[discovery] ${msg}`),
+				);
+				ctx?.log.info("Discovery system initialized");
+			} catch (err: unknown) {
+				ctx?.log.warn(`Failed to initialize discovery: ${err}`);
+			}
+		};
 
-					// SECURITY: Do NOT auto-accept discovered peers that haven't been granted access
-					// They must be explicitly granted access via p2p_grant_access
-					ctx?.log.warn(
-						`[security] Discovered peer ${peerProfile.id} requires explicit grant. ` +
-							`Use p2p.grantAccess to authorize.`,
-					);
-					return {
-						accept: false,
-						sessions: [],
-						reason: `Peer not authorized. Use p2p.grantAccess to authorize peer ${peerProfile.id}.`,
-					};
-				},
-				(msg) => ctx?.log.info(`[discovery] ${msg}`),
+		// Go online once a locked identity is unlocked: the listener (with its
+		// rotated-key topics) and discovery both wait for the identity
+		setIdentityUnlockHandler((unlocked) => {
+			ctx?.log.info(`P2P identity unlocked: ${shortKey(unlocked.publicKey)}`);
+			if (!p2pListener) {
+				startListener();
+			}
+			void startDiscovery();
+		});
+		cleanups.push(() => setIdentityUnlockHandler(null));
+
+		// Retry queued messages for offline peers
+		setOutboxLogger((msg) => ctx?.log.info(`[p2p] ${msg}`));
+		setOutboxDeliveryHandler((entry, result) => {
+			// Hand the response to a queued inject back to the session that sent it
+			if (entry.kind === "inject" && entry.replySession && result.response) {
+				ctx?.logMessage?.(entry.replySession, result.response, {
+					from: `p2p:${shortKey(entry.peerKey)}`,
+					channel: { type: "p2p", id: entry.peerKey },
+				});
+			}
+		});
+		cleanups.push(startOutboxWorker());
+
+		// Keep announcing key rotations to peers that were offline
+		cleanups.push(startRotationWorker());
+
+		// Revoke grants as they expire and tell the peer
+		cleanups.push(
+			startGrantSweeper((grant) => {
+				ctx?.log.info(`[p2p] Grant ${grant.id} for ${shortKey(grant.peerKey)} expired`);
+				notifyGrantUpdate(grant.peerKey, []);
+			}),
+		);
+		cleanups.push(() => setOutboxDeliveryHandler(null));
+
+		// Log async inject responses to the session that sent the inject
+		setInjectJobHandler((job) => {
+			if (!job.replySession) return;
+			const text =
+				job.status === "complete"
+					? job.response || ""
+					: `Async inject ${job.id} failed: ${job.error}`;
+			ctx?.logMessage?.(job.replySession, text, {
+				from: `p2p:${shortKey(job.peerKey)}`,
+				channel: { type: "p2p", id: job.peerKey },
+			});
+		});
+		cleanups.push(() => setInjectJobHandler(null));
+
+		// Ask the owner to decide on injects parked for approval
+		setApprovalNotifier((pending) => {
+			ctx?.log.info(
+				`[p2p] Inject ${pending.id.slice(0, 8)}... from ${shortKey(pending.peerKey)} is waiting for approval`,
 			);
-			ctx.log.info("Discovery system initialized");
-		} catch (err: unknown) {
-			ctx.log.warn(`Failed to initialize discovery: ${err}`);
+			const channel = getP2PConfig().approvalChannel;
+			if (ctx && channel) {
+				void notifyInjectApproval(ctx, pending, channel);
+			} else {
+				// Without a channel the owner only learns of it from the event stream
+				ctx?.log.warn(
+					`[p2p] No approvalChannel is configured to ask about inject ${pending.id.slice(0, 8)}... - approve it through the REST API`,
+				);
+			}
+		});
+		cleanups.push(() => setApprovalNotifier(null));
+
+		// Discovery needs the identity, so a locked start waits for the unlock
+		if (getIdentity()) {
+			await startDiscovery();
+		} else {
+			ctx.log.info("Discovery starts once the identity is unlocked");
 		}
 
 		// Register A2A tools
@@ -1171,6 +2720,22 @@ const plugin: WOPRPlugin = {
 			// A2A server unregistration not supported in plugin-types@0.2.1
 		}
 
+		// Export the configured tools to peers
+		if (Array.isArray(pluginConfig.exportedTools)) {
+			for (const name of pluginConfig.exportedTools as string[]) {
+				const tool = p2pTools.find((t) => t.name === name);
+				if (!tool) {
+					ctx.log.warn(`Cannot export unknown tool: ${name}`);
+					continue;
+				}
+				try {
+					exportTool(tool);
+				} catch (err: unknown) {
+					ctx.log.warn(`Cannot export tool ${name}: ${err instanceof Error ? err.message : err}`);
+				}
+			}
+		}
+
 		// Register P2P extension for other plugins to use
 		if (ctx.registerExtension) {
 			ctx.registerExtension("p2p", {
@@ -1186,6 +2751,16 @@ const plugin: WOPRPlugin = {
 						: null;
 				},
 				shortKey,
+				setIdentityKeyProvider: (provider: IdentityKeyProvider | null) => {
+					setIdentityKeyProvider(provider);
+					if (provider && isIdentityLocked()) {
+						unlockIdentity().catch((err: unknown) =>
+							ctx?.log.warn(
+								`P2P identity unlock with key provider ${provider.id} failed: ${err instanceof Error ? err.message : err}`,
+							),
+						);
+					}
+				},
 
 				// Peers
 				getPeers,
@@ -1209,6 +2784,13 @@ const plugin: WOPRPlugin = {
 				getDiscoveredPeers,
 				requestConnection,
 
+				// Live activity
+				onEvent: onP2PEvent,
+
+				// Remote tools
+				exportTool,
+				unexportTool,
+
 				// Friend request handling (for Discord button integration)
 				acceptFriendRequest: async (
 					from: string,
@@ -1351,6 +2933,8 @@ const plugin: WOPRPlugin = {
 		const uiPort = (config.uiPort as number) || 7334;
 
 		try {
+			// Create the API token now so clients can read it before the first request
+			getApiToken();
 			uiServer = startUIServer(uiPort, ctx.getPluginDir());
 
 			// Register UI component
@@ -1436,6 +3020,13 @@ const plugin: WOPRPlugin = {
 			logger.warn(`[p2p] Discovery shutdown error: ${err}`);
 		}
 
+		// Close pooled outbound connections
+		try {
+			await closeConnectionPool();
+		} catch (err: unknown) {
+			logger.warn(`[p2p] Connection pool shutdown error: ${err}`);
+		}
+
 		if (p2pListener) {
 			await p2pListener.destroy();
 			p2pListener = null;
@@ -1453,13 +3044,23 @@ const plugin: WOPRPlugin = {
 
 export default plugin;
 
+export * from "./approvals.js";
+export * from "./backup.js";
 export * from "./channel-hooks.js";
 export * from "./cli-commands.js";
 export * from "./config.js";
+export * from "./connection-pool.js";
+export * from "./dedup.js";
 export * from "./discovery.js";
+export * from "./events.js";
+export * from "./file-transfer.js";
 export * from "./friends.js";
+export * from "./groups.js";
 // Re-export core modules for programmatic use
 export * from "./identity.js";
+export * from "./inject-jobs.js";
+export * from "./metrics.js";
+export * from "./outbox.js";
 export * from "./p2p.js";
 // Re-export pairing modules
 export {
@@ -1496,9 +3097,16 @@ export type {
   TrustLevel,
   WoprIdentity,
 } from "./pairing-types.js";
+export * from "./quotas.js";
+export * from "./remote-tools.js";
+export * from "./rest-api.js";
+export * from "./revocation.js";
+export * from "./rotation.js";
 export * from "./security-integration.js";
+export * from "./trace.js";
 export * from "./trust.js";
 export * from "./types.js";
+export * from "./verification.js";
 
 // Exported for testing only (WOP-619)
 export { startUIServer as _startUIServer };
@@ -0,0 +1,152 @@
+/**
+ * P2P Async Inject Jobs
+ *
+ * Tracks injects sent in async mode. The peer acks right away, runs the AI
+ * in the background, and dials back with the response; the job holds that
+ * response once it arrives. Jobs are persisted so results survive restarts.
+ */
+
+import type { P2PInjectJobRow } from "./storage-schema.js";
+import type { InjectJob, InjectJobStatus, StorageApi } from "./types.js";
+
+// Pending jobs with no response after this long are marked expired
+const JOB_EXPIRY_MS = 24 * 60 * 60 * 1000;
+// Finished jobs are kept this long so results can still be fetched
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_JOBS = 1000;
+
+// Module-level storage reference and cache
+let _storage: StorageApi | null = null;
+const _jobs: Map<string, InjectJob> = new Map();
+
+let completionHandler: ((job: InjectJob) => void) | null = null;
+
+/**
+ * Register a handler called when a job's response (or failure) arrives.
+ */
+export function setInjectJobHandler(handler: ((job: InjectJob) => void) | null): void {
+  completionHandler = handler;
+}
+
+export function setInjectJobStorage(storage: StorageApi): void {
+  _storage = storage;
+}
+
+export async function loadInjectJobs(): Promise<void> {
+  if (!_storage) return;
+  const repo = _storage.getRepository<P2PInjectJobRow>("p2p", "inject_jobs");
+  const rows: P2PInjectJobRow[] = await repo.findMany();
+  _jobs.clear();
+  for (const row of rows.sort((a, b) => a.created - b.created)) {
+    _jobs.set(row.id, { ...row, status: row.status as InjectJobStatus });
+  }
+  pruneJobs();
+}
+
+function persistJob(job: InjectJob, isNew = false): void {
+  if (!_storage) return;
+  // Fire async write
+  const repo = _storage.getRepository<P2PInjectJobRow>("p2p", "inject_jobs");
+  (isNew ? repo.insert({ ...job }) : repo.update(job.id, { ...job })).catch(() => {});
+}
+
+/**
+ * Record an async inject that is about to be sent.
+ */
+export function createInjectJob(
+  id: string,
+  peerKey: string,
+  session: string,
+  message: string,
+  replySession?: string,
+): InjectJob {
+  const now = Date.now();
+  const job: InjectJob = {
+    id,
+    peerKey,
+    session,
+    message,
+    status: "pending",
+    created: now,
+    updated: now,
+    replySession,
+  };
+  _jobs.set(id, job);
+  persistJob(job, true);
+  pruneJobs();
+  return job;
+}
+
+/**
+ * Look up a job by id.
+ */
+export function getInjectJob(id: string): InjectJob | undefined {
+  expireStaleJobs();
+  return _jobs.get(id);
+}
+
+/**
+ * List jobs, newest first, optionally only those with one status.
+ */
+export function getInjectJobs(status?: InjectJobStatus): InjectJob[] {
+  expireStaleJobs();
+  return Array.from(_jobs.values())
+    .filter((j) => !status || j.status === status)
+    .reverse();
+}
+
+/**
+ * Finish a job with the peer's response or an error. Returns the job, or
+ * undefined if there is no such job.
+ */
+export function resolveInjectJob(id: string, outcome: { response?: string; error?: string }): InjectJob | undefined {
+  const job = _jobs.get(id);
+  if (!job) return undefined;
+
+  job.status = outcome.error === undefined ? "complete" : "failed";
+  job.response = outcome.response;
+  job.error = outcome.error;
+  job.updated = Date.now();
+  persistJob(job);
+  completionHandler?.(job);
+  return job;
+}
+
+function expireStaleJobs(): void {
+  const cutoff = Date.now() - JOB_EXPIRY_MS;
+  for (const job of _jobs.values()) {
+    if (job.status === "pending" && job.created < cutoff) {
+      job.status = "expired";
+      job.error = "No response from peer";
+      job.updated = Date.now();
+      persistJob(job);
+    }
+  }
+}
+
+/**
+ * Drop old finished jobs, and the oldest ones past the size cap.
+ */
+function pruneJobs(): void {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  const removed: string[] = [];
+  // Map iteration is insertion order, i.e. oldest first
+  for (const [id, job] of _jobs) {
+    if (job.created >= cutoff && _jobs.size - removed.length <= MAX_JOBS) break;
+    removed.push(id);
+  }
+  if (removed.length === 0) return;
+
+  const repo = _storage?.getRepository<P2PInjectJobRow>("p2p", "inject_jobs");
+  for (const id of removed) {
+    _jobs.delete(id);
+    repo?.delete(id).catch(() => {});
+  }
+}
+
+/**
+ * Clear all jobs (for testing).
+ */
+export function resetInjectJobs(): void {
+  _jobs.clear();
+}
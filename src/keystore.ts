@@ -0,0 +1,99 @@
+/**
+ * P2P Key Sealing
+ *
+ * Seals identity private keys for storage with AES-256-GCM. The sealing key
+ * is derived from a passphrase with scrypt, or comes from a key provider
+ * another plugin registers (for example one backed by the OS keyring). A
+ * sealed value is a single string that records how it was sealed, so the
+ * identity row keeps its shape:
+ *
+ *   sealed:v1:scrypt:<salt>:<iv>:<tag>:<ciphertext>
+ *   sealed:v1:provider:<provider id>:<iv>:<tag>:<ciphertext>
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "node:crypto";
+
+const SEALED_PREFIX = "sealed:v1:";
+// scrypt cost: about 100ms and 32MB per derivation
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+const PROVIDER_ID_PATTERN = /^[\w.-]{1,64}$/;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export type SealingScheme = "scrypt" | "provider";
+
+export interface SealingKey {
+  scheme: SealingScheme;
+  param: string; // scrypt salt (base64) or key provider id
+  key: Buffer; // 32 bytes
+}
+
+export function isSealed(value: string): boolean {
+  return value.startsWith(SEALED_PREFIX);
+}
+
+/**
+ * Read how a value was sealed. Throws if it is not a sealed value.
+ */
+export function getSealingParams(sealed: string): { scheme: SealingScheme; param: string } {
+  const parts = sealed.slice(SEALED_PREFIX.length).split(":");
+  const scheme = parts[0];
+  if (!isSealed(sealed) || parts.length !== 5 || (scheme !== "scrypt" && scheme !== "provider")) {
+    throw new Error("Not a sealed key");
+  }
+  return { scheme, param: parts[1] };
+}
+
+/**
+ * Derive a sealing key from a passphrase. Pass the salt of an existing
+ * sealed value to unseal it; omit it to seal with a fresh salt.
+ */
+export async function deriveSealingKey(passphrase: string, salt: Buffer = randomBytes(16)): Promise<SealingKey> {
+  const key = await new Promise<Buffer>((resolve, reject) => {
+    scrypt(passphrase, salt, 32, SCRYPT_OPTIONS, (err, derived) => (err ? reject(err) : resolve(derived)));
+  });
+  return { scheme: "scrypt", param: salt.toString("base64"), key };
+}
+
+/**
+ * Wrap a key from a key provider. Throws if the id or key is unusable.
+ */
+export function providerSealingKey(providerId: string, key: Buffer): SealingKey {
+  if (!PROVIDER_ID_PATTERN.test(providerId)) {
+    throw new Error("Key provider ids are 1-64 letters, digits, '.', '-' or '_'");
+  }
+  if (key.length !== 32) {
+    throw new Error("Key providers must supply a 32-byte key");
+  }
+  return { scheme: "provider", param: providerId, key };
+}
+
+export function sealValue(plaintext: string, sealingKey: SealingKey): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", sealingKey.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [
+    `${SEALED_PREFIX}${sealingKey.scheme}`,
+    sealingKey.param,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Unseal a value. Throws if the key is not the one it was sealed with.
+ */
+export function unsealValue(sealed: string, sealingKey: SealingKey): string {
+  const { scheme, param } = getSealingParams(sealed);
+  if (scheme !== sealingKey.scheme || param !== sealingKey.param) {
+    throw new Error("Key was sealed with a different key");
+  }
+  const [, , iv, tag, ciphertext] = sealed.slice(SEALED_PREFIX.length).split(":");
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", sealingKey.key, Buffer.from(iv, "base64"));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+  } catch {
+    throw new Error(scheme === "scrypt" ? "Wrong passphrase" : "Wrong key from key provider");
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * P2P Metrics
+ *
+ * Counters and histograms broken down by peer, message type, reject reason
+ * and rate-limit action. Rendered in Prometheus text format at /metrics on
+ * the UI server and summarized in p2p.stats. Peers are labelled by short
+ * key; messages that fail signature checks are counted under "unverified".
+ *
+ * Values live in memory and start from zero on each restart, as Prometheus
+ * counters are expected to.
+ */
+
+import { getDiscoveredPeers, getTopics } from "./discovery.js";
+import { shortKey } from "./identity.js";
+import { getP2PStats } from "./stats.js";
+
+export const UNVERIFIED_PEER = "unverified";
+
+// Cap on label combinations per metric, so peers cannot grow the registry without bound
+const MAX_SERIES = 5000;
+
+// Seconds; handshakes are fast, injects wait for an AI run
+const HANDSHAKE_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const INJECT_BUCKETS = [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+type Labels = Record<string, string>;
+
+interface Counter {
+  help: string;
+  series: Map<string, { labels: Labels; value: number }>;
+}
+
+interface Histogram {
+  help: string;
+  buckets: number[];
+  series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>;
+}
+
+const counters = {
+  p2p_bytes_received_total: "Bytes of protocol messages received, by peer and message type",
+  p2p_bytes_sent_total: "Bytes of protocol messages sent, by peer and message type",
+  p2p_messages_received_total: "Protocol messages received, by peer and message type",
+  p2p_messages_sent_total: "Protocol messages sent, by peer and message type",
+  p2p_rejects_total: "Inbound messages rejected, by peer, message type and reason",
+  p2p_rate_limit_hits_total: "Requests refused by the rate limiter, by peer and action",
+  p2p_replay_drops_total: "Messages dropped by replay protection, by peer and reason",
+};
+
+const histograms = {
+  p2p_handshake_duration_seconds: {
+    help: "Time to complete the protocol handshake on a new outbound connection",
+    buckets: HANDSHAKE_BUCKETS,
+  },
+  p2p_inject_rtt_seconds: { help: "Time from sending an inject to receiving its response", buckets: INJECT_BUCKETS },
+};
+
+type CounterName = keyof typeof counters;
+type HistogramName = keyof typeof histograms;
+
+let counterState: Record<CounterName, Counter> = createCounters();
+let histogramState: Record<HistogramName, Histogram> = createHistograms();
+
+function createCounters(): Record<CounterName, Counter> {
+  const state = {} as Record<CounterName, Counter>;
+  for (const [name, help] of Object.entries(counters)) {
+    state[name as CounterName] = { help, series: new Map() };
+  }
+  return state;
+}
+
+function createHistograms(): Record<HistogramName, Histogram> {
+  const state = {} as Record<HistogramName, Histogram>;
+  for (const [name, def] of Object.entries(histograms)) {
+    state[name as HistogramName] = { ...def, series: new Map() };
+  }
+  return state;
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels));
+}
+
+function peerLabel(peerKey: string): string {
+  return peerKey === UNVERIFIED_PEER ? peerKey : shortKey(peerKey);
+}
+
+function incCounter(name: CounterName, labels: Labels, amount = 1): void {
+  const { series } = counterState[name];
+  const key = seriesKey(labels);
+  const entry = series.get(key);
+  if (entry) {
+    entry.value += amount;
+  } else if (series.size < MAX_SERIES) {
+    series.set(key, { labels, value: amount });
+  }
+}
+
+function observe(name: HistogramName, labels: Labels, seconds: number): void {
+  const hist = histogramState[name];
+  const key = seriesKey(labels);
+  let entry = hist.series.get(key);
+  if (!entry) {
+    if (hist.series.size >= MAX_SERIES) return;
+    entry = { labels, counts: hist.buckets.map(() => 0), sum: 0, count: 0 };
+    hist.series.set(key, entry);
+  }
+  hist.buckets.forEach((bound, i) => {
+    if (seconds <= bound) entry.counts[i]++;
+  });
+  entry.sum += seconds;
+  entry.count++;
+}
+
+export function recordMessageIn(peerKey: string, type: string, bytes: number): void {
+  const labels = { peer: peerLabel(peerKey), type };
+  incCounter("p2p_messages_received_total", labels);
+  incCounter("p2p_bytes_received_total", labels, bytes);
+}
+
+export function recordMessageOut(peerKey: string, type: string, bytes: number): void {
+  const labels = { peer: peerLabel(peerKey), type };
+  incCounter("p2p_messages_sent_total", labels);
+  incCounter("p2p_bytes_sent_total", labels, bytes);
+}
+
+export function recordReject(peerKey: string, type: string, reason: string): void {
+  incCounter("p2p_rejects_total", { peer: peerLabel(peerKey), type, reason });
+}
+
+export function recordRateLimitHit(peerKey: string, action: string): void {
+  incCounter("p2p_rate_limit_hits_total", { peer: peerLabel(peerKey), action });
+}
+
+export function recordReplayDrop(peerKey: string, reason: "replay" | "stale" | "window full"): void {
+  incCounter("p2p_replay_drops_total", { peer: peerKey ? peerLabel(peerKey) : UNVERIFIED_PEER, reason });
+}
+
+export function observeHandshake(peerKey: string, ms: number): void {
+  observe("p2p_handshake_duration_seconds", { peer: peerLabel(peerKey) }, ms / 1000);
+}
+
+export function observeInjectRtt(peerKey: string, ms: number): void {
+  observe("p2p_inject_rtt_seconds", { peer: peerLabel(peerKey) }, ms / 1000);
+}
+
+/**
+ * Number of peers discovered in each joined topic.
+ */
+function discoveryPeersByTopic(): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const topic of getTopics()) {
+    result[topic] = getDiscoveredPeers(topic).length;
+  }
+  return result;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+/**
+ * Render every metric in the Prometheus text exposition format.
+ */
+export function renderPrometheusMetrics(): string {
+  const lines: string[] = [];
+  const stats = getP2PStats();
+
+  const scalar = (name: string, type: string, help: string, value: number) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, `${name} ${value}`);
+  };
+  scalar("p2p_messages_relayed_total", "counter", "Messages relayed to and from peers", stats.messagesRelayed);
+  scalar("p2p_connections_total", "counter", "Inbound P2P connections accepted", stats.connectionsTotal);
+  scalar("p2p_uptime_seconds", "gauge", "Seconds since the plugin started", (Date.now() - stats.startedAt) / 1000);
+
+  for (const [name, counter] of Object.entries(counterState)) {
+    lines.push(`# HELP ${name} ${counter.help}`, `# TYPE ${name} counter`);
+    for (const { labels, value } of counter.series.values()) {
+      lines.push(`${name}${formatLabels(labels)} ${value}`);
+    }
+  }
+
+  for (const [name, hist] of Object.entries(histogramState)) {
+    lines.push(`# HELP ${name} ${hist.help}`, `# TYPE ${name} histogram`);
+    for (const { labels, counts, sum, count } of hist.series.values()) {
+      hist.buckets.forEach((bound, i) => {
+        lines.push(`${name}_bucket${formatLabels(labels, { le: String(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${name}_bucket${formatLabels(labels, { le: "+Inf" })} ${count}`);
+      lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+    }
+  }
+
+  lines.push("# HELP p2p_discovery_peers Peers discovered per joined topic", "# TYPE p2p_discovery_peers gauge");
+  for (const [topic, count] of Object.entries(discoveryPeersByTopic())) {
+    lines.push(`p2p_discovery_peers${formatLabels({ topic })} ${count}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Sum a counter's series, grouped by one label.
+ */
+function totalsBy(name: CounterName, label: string): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const { labels, value } of counterState[name].series.values()) {
+    result[labels[label]] = (result[labels[label]] || 0) + value;
+  }
+  return result;
+}
+
+function sumCounter(name: CounterName): number {
+  let total = 0;
+  for (const { value } of counterState[name].series.values()) {
+    total += value;
+  }
+  return total;
+}
+
+function latencySummary(name: HistogramName): { count: number; avgMs: number } {
+  let count = 0;
+  let sum = 0;
+  for (const entry of histogramState[name].series.values()) {
+    count += entry.count;
+    sum += entry.sum;
+  }
+  return { count, avgMs: count ? Math.round((sum / count) * 1000) : 0 };
+}
+
+/**
+ * Compact summary of the metrics for p2p.stats.
+ */
+export function getMetricsSummary(): Record<string, unknown> {
+  const bytesIn = totalsBy("p2p_bytes_received_total", "peer");
+  const bytesOut = totalsBy("p2p_bytes_sent_total", "peer");
+  const peers: Record<string, { bytesIn: number; bytesOut: number }> = {};
+  for (const peer of new Set([...Object.keys(bytesIn), ...Object.keys(bytesOut)])) {
+    peers[peer] = { bytesIn: bytesIn[peer] || 0, bytesOut: bytesOut[peer] || 0 };
+  }
+
+  return {
+    bytesIn: sumCounter("p2p_bytes_received_total"),
+    bytesOut: sumCounter("p2p_bytes_sent_total"),
+    messagesIn: totalsBy("p2p_messages_received_total", "type"),
+    messagesOut: totalsBy("p2p_messages_sent_total", "type"),
+    rejects: totalsBy("p2p_rejects_total", "reason"),
+    rateLimitHits: totalsBy("p2p_rate_limit_hits_total", "action"),
+    replayDrops: totalsBy("p2p_replay_drops_total", "reason"),
+    handshake: latencySummary("p2p_handshake_duration_seconds"),
+    injectRtt: latencySummary("p2p_inject_rtt_seconds"),
+    discoveryPeers: discoveryPeersByTopic(),
+    peers,
+  };
+}
+
+/**
+ * Clear all metrics (for testing).
+ */
+export function resetMetrics(): void {
+  counterState = createCounters();
+  histogramState = createHistograms();
+}
@@ -0,0 +1,350 @@
+/**
+ * P2P Store-and-Forward Outbox
+ *
+ * Queues log messages (and optionally injects) for peers that are offline,
+ * and retries them with exponential backoff until they are delivered or
+ * expire. Each entry keeps its message id across retries so the receiver
+ * can drop duplicates. Failed entries stay listed for a week, up to 100 per
+ * peer, and are then pruned.
+ */
+
+import { randomBytes } from "node:crypto";
+import { shortKey } from "./identity.js";
+import { sendP2PInject, sendP2PLog } from "./p2p.js";
+import type { P2POutboxRow } from "./storage-schema.js";
+import type { InjectTrace } from "./trace.js";
+import { findPeer } from "./trust.js";
+import type { OutboxEntry, OutboxKind, OutboxStatus, SendResult, StorageApi } from "./types.js";
+import { EXIT_OFFLINE, EXIT_OK, EXIT_RATE_LIMITED } from "./types.js";
+
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const OUTBOX_MAX_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+const FAILED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const OUTBOX_POLL_MS = 15 * 1000;
+const MAX_OUTBOX_PER_PEER = 100;
+
+const LOG_TIMEOUT_MS = 10000;
+const INJECT_TIMEOUT_MS = 60000;
+
+export interface QueuedSendResult extends SendResult {
+  outboxId?: string; // Set when the message was queued for later delivery
+}
+
+// Module-level storage reference and cache
+let _storage: StorageApi | null = null;
+let _outboxCache: OutboxEntry[] = [];
+
+// Peers with a delivery run in progress
+const draining: Set<string> = new Set();
+
+let deliveryHandler: ((entry: OutboxEntry, result: SendResult) => void) | null = null;
+let moduleLogger: ((msg: string) => void) | null = null;
+
+export function setOutboxLogger(logger: (msg: string) => void): void {
+  moduleLogger = logger;
+}
+
+function log(msg: string): void {
+  if (moduleLogger) {
+    moduleLogger(msg);
+  }
+}
+
+/**
+ * Register a handler called when a queued message is finally delivered.
+ */
+export function setOutboxDeliveryHandler(handler: ((entry: OutboxEntry, result: SendResult) => void) | null): void {
+  deliveryHandler = handler;
+}
+
+export function setOutboxStorage(storage: StorageApi): void {
+  _storage = storage;
+}
+
+export async function loadOutbox(): Promise<void> {
+  if (!_storage) return;
+  const repo = _storage.getRepository<P2POutboxRow>("p2p", "outbox");
+  const rows: P2POutboxRow[] = await repo.findMany();
+  _outboxCache = rows.map(rowToEntry).sort((a, b) => a.created - b.created);
+}
+
+function rowToEntry(row: P2POutboxRow): OutboxEntry {
+  return {
+    id: row.id,
+    peerKey: row.peerKey,
+    session: row.session,
+    kind: row.kind as OutboxKind,
+    message: row.message,
+    status: row.status as OutboxStatus,
+    attempts: row.attempts,
+    created: row.created,
+    nextAttempt: row.nextAttempt,
+    lastError: row.lastError,
+    replySession: row.replySession,
+  };
+}
+
+function saveOutbox(): void {
+  if (!_storage) {
+    // Fallback: no storage available, data only in memory cache
+    return;
+  }
+  // Fire async write
+  syncOutboxToStorage(_outboxCache).catch(() => {});
+}
+
+async function syncOutboxToStorage(entries: OutboxEntry[]): Promise<void> {
+  if (!_storage) return;
+  const repo = _storage.getRepository<P2POutboxRow>("p2p", "outbox");
+  await _storage.raw(`DELETE FROM p2p_outbox`);
+  for (const entry of entries) {
+    await repo.insert({ ...entry });
+  }
+}
+
+/**
+ * List queued messages, optionally only those for one peer.
+ */
+export function getOutbox(peerKey?: string): OutboxEntry[] {
+  return peerKey ? _outboxCache.filter((e) => e.peerKey === peerKey) : [..._outboxCache];
+}
+
+/**
+ * Queue a message for a peer. Throws if the peer's outbox is full.
+ */
+export function enqueueOutbox(
+  peerKey: string,
+  session: string,
+  kind: OutboxKind,
+  message: string,
+  options: { id?: string; replySession?: string; lastError?: string } = {},
+): OutboxEntry {
+  const queued = _outboxCache.filter((e) => e.peerKey === peerKey && e.status === "pending").length;
+  if (queued >= MAX_OUTBOX_PER_PEER) {
+    throw new Error(`Outbox full for ${shortKey(peerKey)} (${MAX_OUTBOX_PER_PEER} messages)`);
+  }
+
+  const now = Date.now();
+  const entry: OutboxEntry = {
+    id: options.id || randomBytes(16).toString("hex"),
+    peerKey,
+    session,
+    kind,
+    message,
+    status: "pending",
+    attempts: 0,
+    created: now,
+    nextAttempt: now + RETRY_BASE_MS,
+    lastError: options.lastError,
+    replySession: options.replySession,
+  };
+  _outboxCache.push(entry);
+  saveOutbox();
+  log(`[outbox] Queued ${kind} ${entry.id.slice(0, 8)}... for ${shortKey(peerKey)}`);
+  return entry;
+}
+
+/**
+ * Cancel queued messages by entry id, or all messages for a peer
+ * (peer id, name, or public key). Returns the number removed.
+ */
+export function cancelOutbox(idOrPeer: string): number {
+  const peer = findPeer(idOrPeer);
+  const before = _outboxCache.length;
+  _outboxCache = _outboxCache.filter((e) => e.id !== idOrPeer && e.peerKey !== peer?.publicKey);
+  const removed = before - _outboxCache.length;
+  if (removed > 0) {
+    saveOutbox();
+  }
+  return removed;
+}
+
+/**
+ * Send a log or inject, queueing it in the outbox if the peer is offline.
+ */
+export async function sendOrQueue(
+  kind: OutboxKind,
+  peerIdOrName: string,
+  session: string,
+  message: string,
+  options: { timeoutMs?: number; replySession?: string; trace?: InjectTrace } = {},
+): Promise<QueuedSendResult> {
+  const msgId = randomBytes(16).toString("hex");
+  // A trace only applies to this first attempt; retries start their own
+  const result =
+    kind === "log"
+      ? await sendP2PLog(peerIdOrName, session, message, options.timeoutMs || LOG_TIMEOUT_MS, { msgId })
+      : await sendP2PInject(peerIdOrName, session, message, options.timeoutMs || INJECT_TIMEOUT_MS, {
+          msgId,
+          trace: options.trace,
+          replySession: options.replySession,
+        });
+
+  if (result.code !== EXIT_OFFLINE) {
+    return result;
+  }
+
+  const peer = findPeer(peerIdOrName);
+  if (!peer) {
+    return result;
+  }
+
+  try {
+    const entry = enqueueOutbox(peer.publicKey, session, kind, message, {
+      id: msgId,
+      replySession: options.replySession,
+      lastError: result.message,
+    });
+    return { ...result, outboxId: entry.id };
+  } catch (err: unknown) {
+    return { ...result, message: `${result.message}; ${err instanceof Error ? err.message : err}` };
+  }
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Try to deliver one entry. Returns false if the peer is unreachable,
+ * so the rest of its queue should wait.
+ */
+async function attemptDelivery(entry: OutboxEntry): Promise<boolean> {
+  const result =
+    entry.kind === "log"
+      ? await sendP2PLog(entry.peerKey, entry.session, entry.message, LOG_TIMEOUT_MS, { msgId: entry.id })
+      : await sendP2PInject(entry.peerKey, entry.session, entry.message, INJECT_TIMEOUT_MS, {
+          msgId: entry.id,
+          replySession: entry.replySession,
+        });
+
+  // The entry may have been cancelled while the attempt was running
+  if (!_outboxCache.includes(entry)) {
+    return true;
+  }
+
+  const now = Date.now();
+  entry.attempts++;
+
+  if (result.code === EXIT_OK) {
+    _outboxCache = _outboxCache.filter((e) => e !== entry);
+    saveOutbox();
+    log(`[outbox] Delivered ${entry.kind} ${entry.id.slice(0, 8)}... to ${shortKey(entry.peerKey)}`);
+    deliveryHandler?.(entry, result);
+    return true;
+  }
+
+  entry.lastError = result.message;
+  if (result.code === EXIT_OFFLINE || result.code === EXIT_RATE_LIMITED) {
+    if (now - entry.created > OUTBOX_MAX_AGE_MS) {
+      entry.status = "failed";
+      entry.lastError = `expired: ${result.message}`;
+    } else {
+      entry.nextAttempt = now + retryDelay(entry.attempts);
+    }
+    saveOutbox();
+    return false;
+  }
+
+  // Rejected or invalid - retrying will not help
+  entry.status = "failed";
+  saveOutbox();
+  log(`[outbox] Giving up on ${entry.id.slice(0, 8)}...: ${result.message}`);
+  return true;
+}
+
+/**
+ * Deliver a peer's due messages in order, stopping at the first that
+ * cannot reach the peer.
+ */
+async function drainPeer(peerKey: string): Promise<void> {
+  if (draining.has(peerKey)) return;
+  draining.add(peerKey);
+  try {
+    while (true) {
+      const next = _outboxCache.find((e) => e.peerKey === peerKey && e.status === "pending");
+      if (!next || next.nextAttempt > Date.now()) break;
+      if (!(await attemptDelivery(next))) break;
+    }
+  } finally {
+    draining.delete(peerKey);
+  }
+}
+
+/**
+ * Drop failed entries older than the retention window, and the oldest
+ * past the per-peer cap, so a peer that rejects everything cannot grow
+ * the outbox without bound.
+ */
+function pruneFailed(now: number): void {
+  const drop: Set<OutboxEntry> = new Set();
+  const kept: Map<string, number> = new Map();
+  // Newest first, so the cap keeps the most recent failures
+  for (const entry of [..._outboxCache].reverse()) {
+    if (entry.status !== "failed") continue;
+    const count = kept.get(entry.peerKey) ?? 0;
+    if (now - entry.created > FAILED_RETENTION_MS || count >= MAX_OUTBOX_PER_PEER) {
+      drop.add(entry);
+    } else {
+      kept.set(entry.peerKey, count + 1);
+    }
+  }
+  if (drop.size === 0) return;
+  _outboxCache = _outboxCache.filter((e) => !drop.has(e));
+  saveOutbox();
+  log(`[outbox] Pruned ${drop.size} failed message(s)`);
+}
+
+/**
+ * Prune old failures and retry every peer that has a message due.
+ */
+export async function processOutbox(): Promise<void> {
+  const now = Date.now();
+  pruneFailed(now);
+  const due = new Set(_outboxCache.filter((e) => e.status === "pending" && e.nextAttempt <= now).map((e) => e.peerKey));
+  await Promise.all(Array.from(due, (peerKey) => drainPeer(peerKey)));
+}
+
+/**
+ * Retry a peer's queue right away, e.g. when it is seen online.
+ */
+export function flushOutboxForPeer(peerKey: string): void {
+  const pending = _outboxCache.filter((e) => e.peerKey === peerKey && e.status === "pending");
+  if (pending.length === 0 || draining.has(peerKey)) return;
+
+  const now = Date.now();
+  for (const entry of pending) {
+    entry.nextAttempt = Math.min(entry.nextAttempt, now);
+  }
+  drainPeer(peerKey).catch(() => {});
+}
+
+/**
+ * Start the periodic retry loop. Returns a function that stops it.
+ */
+export function startOutboxWorker(): () => void {
+  const timer = setInterval(() => {
+    processOutbox().catch((err: unknown) => log(`[outbox] Retry pass failed: ${err}`));
+  }, OUTBOX_POLL_MS);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Count queued messages by status.
+ */
+export function getOutboxDepth(): { pending: number; failed: number } {
+  return {
+    pending: _outboxCache.filter((e) => e.status === "pending").length,
+    failed: _outboxCache.filter((e) => e.status === "failed").length,
+  };
+}
+
+/**
+ * Clear the outbox (for testing).
+ */
+export function resetOutbox(): void {
+  _outboxCache = [];
+  draining.clear();
+}
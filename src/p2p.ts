@@ -5,9 +5,29 @@
  */
 
 import { randomBytes } from "node:crypto";
+import { statSync } from "node:fs";
+import { basename } from "node:path";
 import type { Duplex } from "node:stream";
 import Hyperswarm from "hyperswarm";
+import { queueInject, setApprovalRunner } from "./approvals.js";
 import { getSwarmOptions } from "./config.js";
+import { type PoolChannel, pooledRequest } from "./connection-pool.js";
+import { isDuplicateDelivery, recordDelivery } from "./dedup.js";
+import { emitP2PEvent } from "./events.js";
+import {
+  FILE_CHUNK_SIZE,
+  getTransferId,
+  hashFile,
+  parseFileOffer,
+  readFileChunk,
+  receiveFileChunk,
+  receiveFileOffer,
+  recordTransfer,
+  resolveOutgoingPath,
+  updateTransfer,
+} from "./file-transfer.js";
+import { createMessageDecoder, FRAMING_VERSION, writeMessage } from "./framing.js";
+import { getFriend, processFriendKeyRotation, removeFriend } from "./friends.js";
 import {
   decryptMessage,
   decryptWithEphemeral,
@@ -21,13 +41,43 @@ import {
   signMessage,
   verifySignature,
 } from "./identity.js";
+import { createInjectJob, getInjectJob, resolveInjectJob } from "./inject-jobs.js";
+import { observeInjectRtt, recordMessageIn, recordMessageOut, recordReject, UNVERIFIED_PEER } from "./metrics.js";
+import { admitInject, isQuotaExceeded } from "./quotas.js";
 import { getRateLimiter, getReplayProtector } from "./rate-limit.js";
-import { addPeer, findPeer, getGrantForPeer, grantAccess, isAuthorized, processPeerKeyRotation } from "./trust.js";
-import type { ClaimResult, EphemeralKeyPair, InviteToken, KeyRotation, P2PMessage, SendResult } from "./types.js";
+import { getToolsForPeer, runRemoteToolCall } from "./remote-tools.js";
+import { beginTrace, checkInboundTrace, endTrace, type InjectTrace, newTrace } from "./trace.js";
+import {
+  addPeer,
+  canSendFiles,
+  findPeer,
+  getAllowedTools,
+  getGrantForPeer,
+  grantAccess,
+  isAuthorized,
+  matchesSessionPattern,
+  processKeyRevocation,
+  processPeerKeyRotation,
+  requiresApproval,
+} from "./trust.js";
+import type {
+  A2AToolResult,
+  ClaimResult,
+  EphemeralKeyPair,
+  FileOffer,
+  FileTransfer,
+  InviteToken,
+  KeyRotation,
+  P2PMessage,
+  RemoteToolInfo,
+  RevocationCertificate,
+  SendResult,
+} from "./types.js";
 import {
   EXIT_INVALID,
   EXIT_OFFLINE,
   EXIT_OK,
+  EXIT_QUOTA_EXCEEDED,
   EXIT_RATE_LIMITED,
   EXIT_REJECTED,
   EXIT_VERSION_MISMATCH,
@@ -37,7 +87,6 @@ import {
 
 // Security limits
 const MAX_PAYLOAD_SIZE = 1024 * 1024; // 1MB max payload size
-const MAX_MESSAGE_SIZE = MAX_PAYLOAD_SIZE + 4096; // Payload + protocol overhead
 
 // Module-level logger for debugging
 let moduleLogger: ((msg: string) => void) | null = null;
@@ -60,95 +109,64 @@ interface SessionState {
 }
 
 /**
- * Perform version handshake with peer.
+ * Encrypt an outbound payload for a pooled channel, preferring the
+ * handshake's ephemeral keys (v2+) over the peer's static key.
  */
-async function performHandshake(
-  socket: Duplex,
-  myPubKey: string,
-  ephemeral: EphemeralKeyPair,
-): Promise<{ version: number; peerEphemeralPub: string }> {
-  return new Promise((resolve, reject) => {
-    const timeout = setTimeout(() => {
-      reject(new Error("Handshake timeout"));
-    }, 5000);
-
-		const hello = signMessage<Omit<P2PMessage, "sig">>({
-			v: PROTOCOL_VERSION,
-			type: "hello",
-			from: myPubKey,
-			versions: [PROTOCOL_VERSION, MIN_PROTOCOL_VERSION],
-			ephemeralPub: ephemeral.publicKey,
-			nonce: randomBytes(16).toString("hex"),
-			ts: Date.now(),
-		});
-		socket.write(`${JSON.stringify(hello)}\n`);
-
-    let buffer = "";
-    const onData = (data: Buffer) => {
-      buffer += data.toString();
-      if (!buffer.includes("\n")) return;
-
-      const line = buffer.split("\n")[0];
-      buffer = buffer.slice(line.length + 1);
-
-      try {
-        const msg: P2PMessage = JSON.parse(line);
-
-        if (msg.type === "hello-ack" && msg.version !== undefined) {
-          clearTimeout(timeout);
-          socket.removeListener("data", onData);
+function encryptForChannel(
+  plaintext: string,
+  channel: PoolChannel,
+  peerEncryptPub: string,
+): { payload: string; ephemeralPub?: string } {
+  if (channel.version >= 2 && channel.peerEphemeralPub) {
+    return {
+      payload: encryptWithEphemeral(plaintext, channel.ephemeral.privateKey, channel.peerEphemeralPub),
+      ephemeralPub: channel.ephemeral.publicKey,
+    };
+  }
+  return { payload: encryptMessage(plaintext, peerEncryptPub) };
+}
 
-          if (msg.version < MIN_PROTOCOL_VERSION) {
-            reject(new Error(`Version ${msg.version} not supported`));
-            return;
-          }
+/**
+ * Map a pooled request failure to a send result.
+ */
+function failureResult(err: unknown, timeoutMessage: string): SendResult {
+  const message = err instanceof Error ? err.message : String(err);
+  if (message.includes("version")) {
+    return { code: EXIT_VERSION_MISMATCH, message };
+  }
+  if (message.includes("timeout")) {
+    return { code: EXIT_OFFLINE, message: timeoutMessage };
+  }
+  return { code: EXIT_OFFLINE, message };
+}
 
-          resolve({
-            version: msg.version,
-            peerEphemeralPub: msg.ephemeralPub || "",
-          });
-        } else if (msg.type === "hello") {
-          const commonVersions = (msg.versions || [PROTOCOL_VERSION]).filter(
-            (v) => v >= MIN_PROTOCOL_VERSION && v <= PROTOCOL_VERSION,
-          );
-
-          if (commonVersions.length === 0) {
-            clearTimeout(timeout);
-            reject(new Error("No common protocol version"));
-            return;
-          }
+function rejectResult(response: P2PMessage, fallback: string): SendResult {
+  const code =
+    response.reason === "rate limited"
+      ? EXIT_RATE_LIMITED
+      : response.reason === "quota exceeded"
+        ? EXIT_QUOTA_EXCEEDED
+        : EXIT_REJECTED;
+  return { code, message: response.reason || fallback };
+}
 
-          const negotiatedVersion = Math.max(...commonVersions);
-
-					const ack = signMessage<Omit<P2PMessage, "sig">>({
-						v: PROTOCOL_VERSION,
-						type: "hello-ack",
-						from: myPubKey,
-						version: negotiatedVersion,
-						ephemeralPub: ephemeral.publicKey,
-						nonce: randomBytes(16).toString("hex"),
-						ts: Date.now(),
-					});
-					socket.write(`${JSON.stringify(ack)}\n`);
-
-          clearTimeout(timeout);
-          socket.removeListener("data", onData);
-          resolve({
-            version: negotiatedVersion,
-            peerEphemeralPub: msg.ephemeralPub || "",
-          });
-        }
-      } catch {
-        // Continue buffering
-      }
-    };
+/**
+ * Options for sending a log or inject.
+ */
+export interface SendOptions {
+  // Stable message id; the receiver acks repeats of a delivered id without redelivering
+  msgId?: string;
+}
 
-    socket.on("data", onData);
-    socket.on("error", () => {
-      clearTimeout(timeout);
-      reject(new Error("Socket error during handshake"));
-    });
-  });
+/**
+ * Options for sending an inject.
+ */
+export interface InjectOptions extends SendOptions {
+  // Trace to continue when this inject is sent while processing a peer's inject
+  trace?: InjectTrace;
+  // Local session that receives the response of an inject that completes later
+  // (async, or parked for the peer owner's approval)
+  replySession?: string;
 }
 
 /**
@@ -160,6 +178,7 @@ export async function sendP2PLog(
   session: string,
   message: string,
   timeoutMs = 10000,
+  options: SendOptions = {},
 ): Promise<SendResult> {
   const identity = getIdentity();
   if (!identity) {
@@ -171,141 +190,168 @@ export async function sendP2PLog(
     return { code: EXIT_INVALID, message: `Peer not found: ${peerIdOrName}` };
   }
 
-  if (!peer.sessions.includes("*") && !peer.sessions.includes(session)) {
+  if (!peer.sessions.some((pattern) => matchesSessionPattern(pattern, session))) {
     return {
       code: EXIT_REJECTED,
       message: `No access to session "${session}"`,
     };
   }
 
-  if (!peer.encryptPub) {
+  const peerEncryptPub = peer.encryptPub;
+  if (!peerEncryptPub) {
     return {
       code: EXIT_INVALID,
       message: "Peer has no encryption key (claim token first)",
     };
   }
 
-  const topic = getTopic(peer.publicKey);
-  const swarm = new Hyperswarm(getSwarmOptions());
-  const ephemeral = generateEphemeralKeyPair();
-
-  // Handle swarm errors to prevent crashes
-  swarm.on("error", (err: Error) => {
-    log(`[sendP2PLog] Swarm error: ${err.message}`);
-  });
-
-  return new Promise<SendResult>((resolve) => {
-    let resolved = false;
-    const cleanup = async () => {
-      if (!resolved) {
-        resolved = true;
-        await swarm.destroy();
-      }
-    };
+  const requestId = randomBytes(16).toString("hex");
 
-    const timeout = setTimeout(async () => {
-      if (!resolved) {
-        await cleanup();
-        resolve({ code: EXIT_OFFLINE, message: "Peer offline (timeout)" });
-      }
-    }, timeoutMs);
+  try {
+    return await pooledRequest<SendResult>(peer.publicKey, {
+      requestId,
+      timeoutMs,
+      // Send "log" type - mailbox style, no AI invocation
+      build: (channel) => {
+        const { payload, ephemeralPub } = encryptForChannel(message, channel, peerEncryptPub);
+        return signMessage<Omit<P2PMessage, "sig">>({
+          v: channel.version,
+          type: "log",
+          from: identity.publicKey,
+          encryptPub: identity.encryptPub,
+          ephemeralPub,
+          session,
+          payload,
+          requestId,
+          msgId: options.msgId,
+          nonce: randomBytes(16).toString("hex"),
+          ts: Date.now(),
+        });
+      },
+      onMessage: (response) => {
+        if (response.type === "ack") return { code: EXIT_OK };
+        if (response.type === "reject") return rejectResult(response, "unauthorized");
+        return undefined;
+      },
+    });
+  } catch (err: unknown) {
+    log(`[sendP2PLog] Failed: ${err}`);
+    return failureResult(err, "Peer offline (timeout)");
+  }
+}
 
-    swarm.on("connection", async (socket: Duplex) => {
-      if (resolved) return;
+/**
+ * Decrypt a response or response chunk sent back over a pooled channel.
+ */
+function decryptResponse(response: P2PMessage, channel: PoolChannel, peerEncryptPub: string): string {
+  return response.ephemeralPub
+    ? decryptWithEphemeral(response.payload || "", channel.ephemeral.privateKey, response.ephemeralPub)
+    : decryptMessage(response.payload || "", peerEncryptPub);
+}
 
-      try {
-        const { version, peerEphemeralPub } = await performHandshake(socket, identity.publicKey, ephemeral);
+/**
+ * Send an encrypted tool-call or tool-list and parse the tool-result.
+ */
+async function toolRequest<T>(
+  peerIdOrName: string,
+  type: "tool-call" | "tool-list",
+  body: Record<string, unknown>,
+  timeoutMs: number,
+): Promise<SendResult & { data?: T }> {
+  const identity = getIdentity();
+  if (!identity) {
+    return { code: EXIT_INVALID, message: "No identity" };
+  }
 
-        clearTimeout(timeout);
+  const peer = findPeer(peerIdOrName);
+  if (!peer) {
+    return { code: EXIT_INVALID, message: `Peer not found: ${peerIdOrName}` };
+  }
 
-        let encryptedPayload: string;
-        let useEphemeral = false;
+  const peerEncryptPub = peer.encryptPub;
+  if (!peerEncryptPub) {
+    return {
+      code: EXIT_INVALID,
+      message: "Peer has no encryption key (claim token first)",
+    };
+  }
 
-        if (version >= 2 && peerEphemeralPub) {
-          encryptedPayload = encryptWithEphemeral(message, ephemeral.privateKey, peerEphemeralPub);
-          useEphemeral = true;
-        } else {
-          encryptedPayload = encryptMessage(message, peer.encryptPub!);
-        }
+  const requestId = randomBytes(16).toString("hex");
 
-        // Send "log" type - mailbox style, no AI invocation
-        const msg = signMessage<Omit<P2PMessage, "sig">>({
-          v: version,
-          type: "log",
+  try {
+    return await pooledRequest<SendResult & { data?: T }>(peer.publicKey, {
+      requestId,
+      timeoutMs,
+      build: (channel) => {
+        const { payload, ephemeralPub } = encryptForChannel(JSON.stringify(body), channel, peerEncryptPub);
+        return signMessage<Omit<P2PMessage, "sig">>({
+          v: channel.version,
+          type,
           from: identity.publicKey,
           encryptPub: identity.encryptPub,
-          ephemeralPub: useEphemeral ? ephemeral.publicKey : undefined,
-          session,
-          payload: encryptedPayload,
+          ephemeralPub,
+          payload,
+          requestId,
           nonce: randomBytes(16).toString("hex"),
           ts: Date.now(),
         });
-
-				const logMsgStr = `${JSON.stringify(msg)}\n`;
-				socket.write(logMsgStr);
-				let buffer = "";
-				socket.on("data", async (data: Buffer) => {
-					buffer += data.toString();
-					if (buffer.includes("\n")) {
-						const line = buffer.split("\n")[0];
-						try {
-							const response: P2PMessage = JSON.parse(line);
-							if (response.type === "ack") {
-								await cleanup();
-								resolve({ code: EXIT_OK });
-							} else if (response.type === "reject") {
-								await cleanup();
-								const code =
-									response.reason === "rate limited"
-										? EXIT_RATE_LIMITED
-										: EXIT_REJECTED;
-								resolve({ code, message: response.reason || "unauthorized" });
-							}
-						} catch {
-							await cleanup();
-							resolve({ code: EXIT_INVALID, message: "Invalid response" });
-						}
-					}
-				});
-
-        socket.on("error", async () => {
-          if (!resolved) {
-            await cleanup();
-            resolve({ code: EXIT_OFFLINE, message: "Connection error" });
+      },
+      onMessage: (response, channel) => {
+        if (response.type === "tool-result") {
+          try {
+            return { code: EXIT_OK, data: JSON.parse(decryptResponse(response, channel, peerEncryptPub)) as T };
+          } catch {
+            return { code: EXIT_INVALID, message: "Could not read tool result" };
           }
-        });
-      } catch (err: unknown) {
-        clearTimeout(timeout);
-        await cleanup();
-        if (err instanceof Error && err.message.includes("version")) {
-          resolve({ code: EXIT_VERSION_MISMATCH, message: err.message });
-        } else {
-          resolve({ code: EXIT_OFFLINE, message: `Handshake failed: ${err}` });
         }
-      }
+        if (response.type === "reject") return rejectResult(response, "unauthorized");
+        return undefined;
+      },
     });
+  } catch (err: unknown) {
+    log(`[toolRequest] ${type} failed: ${err}`);
+    return failureResult(err, "Peer offline (timeout)");
+  }
+}
 
-    swarm.join(topic, { server: false, client: true });
-  });
+/**
+ * Call a tool a peer has exported to us. The peer validates the arguments
+ * against the tool's inputSchema and checks our grant allows the tool.
+ */
+export async function callRemoteTool(
+  peerIdOrName: string,
+  tool: string,
+  args: Record<string, unknown> = {},
+  timeoutMs = 30000,
+): Promise<SendResult & { result?: A2AToolResult }> {
+  const { data, ...result } = await toolRequest<A2AToolResult>(peerIdOrName, "tool-call", { tool, args }, timeoutMs);
+  return data ? { ...result, result: data } : result;
 }
 
 /**
- * Inject a message into a peer's session and get the AI's response.
- * This invokes the peer's AI which processes the message and returns a response.
+ * List the tools a peer has exported to us.
  */
-export async function sendP2PInject(
+export async function listRemoteTools(
   peerIdOrName: string,
-  session: string,
-  message: string,
-  timeoutMs = 60000, // Longer timeout for AI processing
-): Promise<SendResult> {
-  // Enforce minimum timeout for AI processing - 30s minimum
-  const effectiveTimeout = Math.max(timeoutMs, 300000); // 5 minute minimum for AI
-  if (timeoutMs < 30000) {
-    log(`[sendP2PInject] Warning: timeout ${timeoutMs}ms too short for AI, using ${effectiveTimeout}ms`);
-  }
+  timeoutMs = 10000,
+): Promise<SendResult & { tools?: RemoteToolInfo[] }> {
+  const { data, ...result } = await toolRequest<{ tools: RemoteToolInfo[] }>(peerIdOrName, "tool-list", {}, timeoutMs);
+  return data ? { ...result, tools: data.tools } : result;
+}
 
-  log(`[sendP2PInject] Starting inject to ${peerIdOrName} session ${session} (timeout: ${effectiveTimeout}ms)`);
+interface InjectTarget {
+  identity: NonNullable<ReturnType<typeof getIdentity>>;
+  peerKey: string;
+  peerEncryptPub: string;
+  timeoutMs: number;
+}
+
+/**
+ * Validate an inject request and resolve the peer it goes to.
+ * Returns a failed SendResult if the inject cannot be sent.
+ */
+function resolveInjectTarget(peerIdOrName: string, session: string, timeoutMs: number): InjectTarget | SendResult {
+  log(`[sendP2PInject] Starting inject to ${peerIdOrName} session ${session} (timeout: ${timeoutMs}ms)`);
 
   const identity = getIdentity();
   if (!identity) {
@@ -319,7 +365,7 @@ export async function sendP2PInject(
     return { code: EXIT_INVALID, message: `Peer not found: ${peerIdOrName}` };
   }
 
-  if (!peer.sessions.includes("*") && !peer.sessions.includes(session)) {
+  if (!peer.sessions.some((pattern) => matchesSessionPattern(pattern, session))) {
     log(`[sendP2PInject] No access to session ${session}`);
     return {
       code: EXIT_REJECTED,
@@ -335,167 +381,534 @@ export async function sendP2PInject(
     };
   }
 
-  const topic = getTopic(peer.publicKey);
-  const swarm = new Hyperswarm(getSwarmOptions());
-  const ephemeral = generateEphemeralKeyPair();
-  const requestId = randomBytes(16).toString("hex");
+  return { identity, peerKey: peer.publicKey, peerEncryptPub: peer.encryptPub, timeoutMs };
+}
 
-  // Handle swarm errors to prevent crashes
-  swarm.on("error", (err: Error) => {
-    log(`[sendP2PInject] Swarm error: ${err.message}`);
+/**
+ * Timeout for waiting on an AI run over an open connection.
+ */
+function aiTimeout(timeoutMs: number): number {
+  // Enforce minimum timeout for AI processing - 30s minimum
+  const effectiveTimeout = Math.max(timeoutMs, 300000); // 5 minute minimum for AI
+  if (timeoutMs < 30000) {
+    log(`[sendP2PInject] Warning: timeout ${timeoutMs}ms too short for AI, using ${effectiveTimeout}ms`);
+  }
+  return effectiveTimeout;
+}
+
+/**
+ * Build a signed inject message for a pooled channel.
+ */
+function buildInject(
+  target: InjectTarget,
+  channel: PoolChannel,
+  session: string,
+  message: string,
+  requestId: string,
+  trace: InjectTrace,
+  options: SendOptions & { stream?: boolean; jobId?: string } = {},
+): P2PMessage {
+  const { payload, ephemeralPub } = encryptForChannel(message, channel, target.peerEncryptPub);
+  log(`[sendP2PInject] Sending inject v${channel.version} (${ephemeralPub ? "ephemeral" : "static"} encryption)`);
+  return signMessage<Omit<P2PMessage, "sig">>({
+    v: channel.version,
+    type: "inject",
+    from: target.identity.publicKey,
+    encryptPub: target.identity.encryptPub,
+    ephemeralPub,
+    session,
+    payload,
+    requestId,
+    stream: options.stream || undefined,
+    async: options.jobId ? true : undefined,
+    jobId: options.jobId,
+    msgId: options.msgId,
+    traceId: trace.traceId,
+    hops: trace.hops,
+    nonce: randomBytes(16).toString("hex"),
+    ts: Date.now(),
   });
+}
+
+/**
+ * Inject a message into a peer's session and get the AI's response.
+ * This invokes the peer's AI which processes the message and returns a response.
+ */
+export async function sendP2PInject(
+  peerIdOrName: string,
+  session: string,
+  message: string,
+  timeoutMs = 60000, // Longer timeout for AI processing
+  options: InjectOptions = {},
+): Promise<AsyncInjectResult> {
+  const target = resolveInjectTarget(peerIdOrName, session, aiTimeout(timeoutMs));
+  if ("code" in target) {
+    return target;
+  }
 
+  const requestId = randomBytes(16).toString("hex");
   log(`[sendP2PInject] Generated requestId: ${requestId.slice(0, 8)}...`);
+  const trace = options.trace ?? newTrace();
+  // An inject with this trace arriving while we wait means the chain looped back to us
+  beginTrace(trace.traceId);
+  const sentAt = Date.now();
 
-  return new Promise<SendResult>((resolve) => {
-    let resolved = false;
-    const cleanup = async () => {
-      if (!resolved) {
-        resolved = true;
-        log(`[sendP2PInject] Cleaning up swarm`);
-        await swarm.destroy();
-      }
-    };
+  try {
+    return await pooledRequest<AsyncInjectResult>(target.peerKey, {
+      requestId,
+      timeoutMs: target.timeoutMs,
+      // Send "inject" type with requestId - invokes AI and expects response
+      build: (channel) => buildInject(target, channel, session, message, requestId, trace, options),
+      onMessage: (response, channel) => {
+        log(`[sendP2PInject] Received ${response.type}, requestId: ${response.requestId?.slice(0, 8) || "none"}`);
+
+        if (response.type === "response") {
+          const decryptedResponse = decryptResponse(response, channel, target.peerEncryptPub);
+          log(`[sendP2PInject] Decrypted response (${decryptedResponse.length} chars)`);
+          observeInjectRtt(target.peerKey, Date.now() - sentAt);
+          return { code: EXIT_OK, response: decryptedResponse };
+        }
+        if (response.type === "reject") {
+          log(`[sendP2PInject] Got reject: ${response.reason}`);
+          return rejectResult(response, "unauthorized");
+        }
+        if (response.type === "ack" && response.reason === "duplicate") {
+          // Already delivered by an earlier attempt - its response went to that attempt
+          return { code: EXIT_OK, message: "duplicate" };
+        }
+        if (response.type === "ack" && response.reason === PENDING_APPROVAL && response.jobId) {
+          return pendingApprovalResult(response.jobId, target.peerKey, session, message, options);
+        }
+        // "ack" is ignored - keep waiting for the response
+        return undefined;
+      },
+    });
+  } catch (err: unknown) {
+    log(`[sendP2PInject] Error: ${err}`);
+    return failureResult(err, "Peer offline or AI timeout");
+  } finally {
+    endTrace(trace.traceId);
+  }
+}
 
-    const timeout = setTimeout(async () => {
-      if (!resolved) {
-        log(`[sendP2PInject] TIMEOUT after ${effectiveTimeout}ms waiting for response`);
-        await cleanup();
-        resolve({ code: EXIT_OFFLINE, message: "Peer offline or AI timeout" });
-      }
-    }, effectiveTimeout);
+export interface AsyncInjectResult extends SendResult {
+  jobId?: string; // Set when the peer accepted the job
+}
 
-    swarm.on("connection", async (socket: Duplex) => {
-      log(`[sendP2PInject] Connection established`);
-      if (resolved) {
-        log(`[sendP2PInject] Already resolved, ignoring connection`);
-        return;
-      }
+// Ack reason for an inject the peer parked until its owner approves it
+const PENDING_APPROVAL = "pending approval";
 
-      try {
-        log(`[sendP2PInject] Starting handshake...`);
-        const { version, peerEphemeralPub } = await performHandshake(socket, identity.publicKey, ephemeral);
-        log(`[sendP2PInject] Handshake complete v${version}, peerEphemeralPub: ${peerEphemeralPub ? "yes" : "no"}`);
+/**
+ * Track an inject the peer parked for its owner's approval as a job. The
+ * response is dialed back once the owner decides.
+ */
+function pendingApprovalResult(
+  jobId: string,
+  peerKey: string,
+  session: string,
+  message: string,
+  options: InjectOptions,
+): AsyncInjectResult {
+  if (!getInjectJob(jobId)) {
+    createInjectJob(jobId, peerKey, session, message, options.replySession);
+  }
+  log(`[sendP2PInject] Job ${jobId.slice(0, 8)}... is waiting for approval by ${shortKey(peerKey)}`);
+  return { code: EXIT_OK, message: PENDING_APPROVAL, jobId };
+}
+
+/**
+ * Inject a message without holding the connection open for the AI run.
+ *
+ * The peer acks with the job id right away, processes the message in the
+ * background, and dials back with a signed response. Track the job with
+ * getInjectJob(). The timeout only covers the peer's acknowledgement.
+ */
+export async function sendP2PInjectAsync(
+  peerIdOrName: string,
+  session: string,
+  message: string,
+  timeoutMs = 30000,
+  options: InjectOptions = {},
+): Promise<AsyncInjectResult> {
+  const target = resolveInjectTarget(peerIdOrName, session, timeoutMs);
+  if ("code" in target) {
+    return target;
+  }
 
-        let encryptedPayload: string;
-        let useEphemeral = false;
+  const requestId = randomBytes(16).toString("hex");
+  const jobId = randomBytes(16).toString("hex");
+  // Record the job first - the dial-back can arrive right after the ack
+  createInjectJob(jobId, target.peerKey, session, message, options.replySession);
+  const trace = options.trace ?? newTrace();
+  beginTrace(trace.traceId);
 
-        if (version >= 2 && peerEphemeralPub) {
-          encryptedPayload = encryptWithEphemeral(message, ephemeral.privateKey, peerEphemeralPub);
-          useEphemeral = true;
-          log(`[sendP2PInject] Using ephemeral encryption`);
-        } else {
-          encryptedPayload = encryptMessage(message, peer.encryptPub!);
-          log(`[sendP2PInject] Using static encryption`);
+  let result: SendResult;
+  try {
+    result = await pooledRequest<SendResult>(target.peerKey, {
+      requestId,
+      timeoutMs: target.timeoutMs,
+      build: (channel) =>
+        buildInject(target, channel, session, message, requestId, trace, { msgId: options.msgId, jobId }),
+      onMessage: (response, channel) => {
+        if (response.type === "ack") return { code: EXIT_OK, message: response.reason };
+        if (response.type === "response") {
+          // Peer does not support async injects and answered in place
+          const text = decryptResponse(response, channel, target.peerEncryptPub);
+          resolveInjectJob(jobId, { response: text });
+          return { code: EXIT_OK, response: text };
         }
+        if (response.type === "reject") return rejectResult(response, "unauthorized");
+        return undefined;
+      },
+    });
+  } catch (err: unknown) {
+    log(`[sendP2PInjectAsync] Error: ${err}`);
+    result = failureResult(err, "Peer offline (timeout)");
+  } finally {
+    endTrace(trace.traceId);
+  }
 
-        // Send "inject" type with requestId - invokes AI and expects response
-        const msg = signMessage<Omit<P2PMessage, "sig">>({
-          v: version,
-          type: "inject",
-          from: identity.publicKey,
-          encryptPub: identity.encryptPub,
-          ephemeralPub: useEphemeral ? ephemeral.publicKey : undefined,
-          session,
-          payload: encryptedPayload,
-          requestId,
-          nonce: randomBytes(16).toString("hex"),
-          ts: Date.now(),
-        });
+  if (result.code !== EXIT_OK) {
+    resolveInjectJob(jobId, { error: result.message || "inject failed" });
+    return result;
+  }
+  log(`[sendP2PInjectAsync] Job ${jobId.slice(0, 8)}... accepted by ${shortKey(target.peerKey)}`);
+  return { ...result, jobId };
+}
 
-				log(
-					`[sendP2PInject] Sending inject message with requestId ${requestId.slice(0, 8)}...`,
-				);
-				const injectMsgStr = `${JSON.stringify(msg)}\n`;
-				socket.write(injectMsgStr);
-				log(`[sendP2PInject] Inject sent, waiting for response...`);
+// Delays between attempts to dial back an async inject response
+const DIAL_BACK_DELAYS_MS = [0, 10000, 60000, 300000];
 
-        let buffer = "";
-        socket.on("data", async (data: Buffer) => {
-          const dataStr = data.toString();
-          log(`[sendP2PInject] Received data (${data.length} bytes): ${dataStr.slice(0, 100)}...`);
-          buffer += dataStr;
+/**
+ * Deliver the result of an async inject to the peer that requested it,
+ * connecting to the requester's own topic. Retries while the requester is
+ * unreachable. Sends the response text, or just the reason if the run failed.
+ */
+async function dialBackInjectResponse(
+  peerKey: string,
+  session: string,
+  jobId: string,
+  outcome: { text?: string; reason?: string },
+): Promise<boolean> {
+  const identity = getIdentity();
+  const peerEncryptPub = getGrantForPeer(peerKey)?.peerEncryptPub || findPeer(peerKey)?.encryptPub;
+  if (!identity || !peerEncryptPub) {
+    log(`[dialBack] Cannot answer job ${jobId.slice(0, 8)}...: no key for ${shortKey(peerKey)}`);
+    return false;
+  }
 
-          while (buffer.includes("\n")) {
-            const line = buffer.split("\n")[0];
-            buffer = buffer.slice(line.length + 1);
-            log(`[sendP2PInject] Processing line (${line.length} chars)`);
+  for (const delay of DIAL_BACK_DELAYS_MS) {
+    if (delay > 0) {
+      await new Promise<void>((resolve) => setTimeout(resolve, delay).unref?.());
+    }
+    const requestId = randomBytes(16).toString("hex");
+    try {
+      const accepted = await pooledRequest<boolean>(peerKey, {
+        requestId,
+        timeoutMs: 30000,
+        build: (channel) => {
+          const encrypted =
+            outcome.text === undefined ? undefined : encryptForChannel(outcome.text, channel, peerEncryptPub);
+          return signMessage<Omit<P2PMessage, "sig">>({
+            v: channel.version,
+            type: "response",
+            from: identity.publicKey,
+            encryptPub: identity.encryptPub,
+            ephemeralPub: encrypted?.ephemeralPub,
+            session,
+            payload: encrypted?.payload,
+            reason: outcome.reason,
+            requestId,
+            jobId,
+            nonce: randomBytes(16).toString("hex"),
+            ts: Date.now(),
+          });
+        },
+        onMessage: (response) => {
+          if (response.type === "ack") return true;
+          if (response.type === "reject") {
+            log(`[dialBack] Job ${jobId.slice(0, 8)}... rejected: ${response.reason}`);
+            return false;
+          }
+          return undefined;
+        },
+      });
+      return accepted;
+    } catch (err: unknown) {
+      log(`[dialBack] Job ${jobId.slice(0, 8)}... delivery to ${shortKey(peerKey)} failed: ${err}`);
+    }
+  }
+  log(`[dialBack] Giving up on job ${jobId.slice(0, 8)}...`);
+  return false;
+}
 
-            try {
-              const response: P2PMessage = JSON.parse(line);
-              log(
-                `[sendP2PInject] Parsed response type: ${response.type}, requestId: ${response.requestId?.slice(0, 8) || "none"}`,
-              );
-
-              // Wait for "response" message with matching requestId
-              if (response.type === "response" && response.requestId === requestId) {
-                log(`[sendP2PInject] Got matching response! Decrypting...`);
-                clearTimeout(timeout);
-                await cleanup();
-
-                // Decrypt the response payload
-                let decryptedResponse: string;
-                if (response.ephemeralPub && ephemeral) {
-                  log(`[sendP2PInject] Decrypting with ephemeral key`);
-                  decryptedResponse = decryptWithEphemeral(
-                    response.payload || "",
-                    ephemeral.privateKey,
-                    response.ephemeralPub,
-                  );
-                } else {
-                  log(`[sendP2PInject] Decrypting with static key`);
-                  decryptedResponse = decryptMessage(response.payload || "", identity.encryptPriv);
-                }
+/**
+ * Inject a message into a peer's session and stream the AI's response.
+ *
+ * Yields response text as the peer produces it and returns the final
+ * SendResult when the stream ends. Chunks are delivered in sequence order.
+ * Peers without streaming support answer with a single response, which is
+ * yielded as one chunk.
+ */
+export async function* sendP2PInjectStream(
+  peerIdOrName: string,
+  session: string,
+  message: string,
+  timeoutMs = 60000,
+  options: InjectOptions = {},
+): AsyncGenerator<string, AsyncInjectResult, void> {
+  const target = resolveInjectTarget(peerIdOrName, session, aiTimeout(timeoutMs));
+  if ("code" in target) {
+    return target;
+  }
 
-                log(
-                  `[sendP2PInject] Decrypted response (${decryptedResponse.length} chars): ${decryptedResponse.slice(0, 100)}...`,
-                );
-                resolve({ code: EXIT_OK, response: decryptedResponse });
-              } else if (response.type === "reject") {
-                log(`[sendP2PInject] Got reject: ${response.reason}`);
-                clearTimeout(timeout);
-                await cleanup();
-                const code = response.reason === "rate limited" ? EXIT_RATE_LIMITED : EXIT_REJECTED;
-                resolve({ code, message: response.reason || "unauthorized" });
-              } else if (response.type === "ack") {
-                log(`[sendP2PInject] Got ack (ignoring, waiting for response)`);
-              } else {
-                log(`[sendP2PInject] Got unexpected message type: ${response.type}`);
-              }
-            } catch (parseErr: unknown) {
-              log(`[sendP2PInject] Failed to parse response: ${parseErr}`);
-              // Continue buffering
-            }
-          }
-        });
+  const requestId = randomBytes(16).toString("hex");
+  const trace = options.trace ?? newTrace();
+  const ready: string[] = [];
+  const outOfOrder = new Map<number, string>();
+  let nextSeq = 0;
+  let result: AsyncInjectResult | undefined;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  const accept = (seq: number, text: string) => {
+    if (seq < nextSeq) return; // Duplicate
+    outOfOrder.set(seq, text);
+    let chunk = outOfOrder.get(nextSeq);
+    while (chunk !== undefined) {
+      outOfOrder.delete(nextSeq);
+      ready.push(chunk);
+      nextSeq++;
+      chunk = outOfOrder.get(nextSeq);
+    }
+    notify();
+  };
+
+  beginTrace(trace.traceId);
+  const sentAt = Date.now();
+  pooledRequest<AsyncInjectResult>(target.peerKey, {
+    requestId,
+    timeoutMs: target.timeoutMs,
+    build: (channel) => buildInject(target, channel, session, message, requestId, trace, { ...options, stream: true }),
+    onMessage: (response, channel) => {
+      if (response.type === "response-chunk") {
+        accept(response.seq ?? nextSeq, decryptResponse(response, channel, target.peerEncryptPub));
+        return undefined;
+      }
+      if (response.type === "response-end") {
+        const total = response.seq ?? nextSeq;
+        if (nextSeq < total) {
+          return { code: EXIT_OFFLINE, message: `Stream ended with ${total - nextSeq} missing chunk(s)` };
+        }
+        observeInjectRtt(target.peerKey, Date.now() - sentAt);
+        return { code: EXIT_OK };
+      }
+      if (response.type === "response") {
+        // Peer does not stream - deliver the whole response as one chunk
+        accept(nextSeq, decryptResponse(response, channel, target.peerEncryptPub));
+        observeInjectRtt(target.peerKey, Date.now() - sentAt);
+        return { code: EXIT_OK };
+      }
+      if (response.type === "reject") {
+        return rejectResult(response, "unauthorized");
+      }
+      if (response.type === "ack" && response.reason === PENDING_APPROVAL && response.jobId) {
+        return pendingApprovalResult(response.jobId, target.peerKey, session, message, options);
+      }
+      return undefined;
+    },
+  })
+    .then(
+      (res) => {
+        result = res;
+      },
+      (err: unknown) => {
+        log(`[sendP2PInjectStream] Error: ${err}`);
+        result = failureResult(err, "Peer offline or AI timeout");
+      },
+    )
+    .finally(() => {
+      endTrace(trace.traceId);
+      notify();
+    });
 
-        socket.on("error", async (err) => {
-          log(`[sendP2PInject] Socket error: ${err}`);
-          if (!resolved) {
-            clearTimeout(timeout);
-            await cleanup();
-            resolve({ code: EXIT_OFFLINE, message: "Connection error" });
-          }
-        });
+  while (true) {
+    const chunk = ready.shift();
+    if (chunk !== undefined) {
+      yield chunk;
+      continue;
+    }
+    if (result) {
+      return result;
+    }
+    await new Promise<void>((resolve) => {
+      wake = resolve;
+    });
+  }
+}
+
+/**
+ * Options for sending a file.
+ */
+export interface SendFileOptions {
+  name?: string; // Name the receiver sees (default: the file's base name)
+  timeoutMs?: number; // Timeout for each offer or chunk round trip
+}
+
+export interface FileSendResult extends SendResult {
+  transferId?: string;
+}
+
+// Receiver's answer to a file offer or chunk
+interface FileAck {
+  code: number;
+  message?: string;
+  offset?: number; // Bytes the receiver has so far
+  complete?: boolean;
+}
+
+/**
+ * Send a file to a peer's session inbox.
+ *
+ * The file is offered with its name, size, and SHA-256, then sent as
+ * encrypted chunks from whatever offset the receiver asks for. Sending the
+ * same file again after an interruption resumes where it stopped. Only
+ * files in the outgoing directory can be sent.
+ */
+export async function sendP2PFile(
+  peerIdOrName: string,
+  session: string,
+  filePath: string,
+  options: SendFileOptions = {},
+): Promise<FileSendResult> {
+  const identity = getIdentity();
+  if (!identity) {
+    return { code: EXIT_INVALID, message: "No identity" };
+  }
+
+  const peer = findPeer(peerIdOrName);
+  if (!peer) {
+    return { code: EXIT_INVALID, message: `Peer not found: ${peerIdOrName}` };
+  }
+
+  if (!peer.sessions.some((pattern) => matchesSessionPattern(pattern, session))) {
+    return {
+      code: EXIT_REJECTED,
+      message: `No access to session "${session}"`,
+    };
+  }
+
+  const peerEncryptPub = peer.encryptPub;
+  if (!peerEncryptPub) {
+    return {
+      code: EXIT_INVALID,
+      message: "Peer has no encryption key (claim token first)",
+    };
+  }
+
+  let sourcePath: string;
+  try {
+    sourcePath = resolveOutgoingPath(filePath);
+  } catch (err: unknown) {
+    return { code: EXIT_INVALID, message: err instanceof Error ? err.message : String(err) };
+  }
+
+  let size: number;
+  try {
+    const stats = statSync(sourcePath);
+    if (!stats.isFile()) {
+      return { code: EXIT_INVALID, message: `Not a file: ${sourcePath}` };
+    }
+    size = stats.size;
+  } catch (err: unknown) {
+    return { code: EXIT_INVALID, message: `Cannot read file: ${err instanceof Error ? err.message : err}` };
+  }
+
+  const offer: FileOffer = { name: options.name || basename(sourcePath), size, sha256: await hashFile(sourcePath) };
+  const transferId = getTransferId(identity.publicKey, session, offer);
+  const timeoutMs = options.timeoutMs || 30000;
+  const now = Date.now();
+  const transfer: FileTransfer = recordTransfer({
+    id: transferId,
+    direction: "send",
+    peerKey: peer.publicKey,
+    session,
+    ...offer,
+    bytes: 0,
+    status: "active",
+    started: now,
+    updated: now,
+    path: sourcePath,
+  });
 
-        socket.on("close", () => {
-          log(`[sendP2PInject] Socket closed, resolved=${resolved}`);
+  // One signed round trip: an offer or a chunk, answered by ack or reject
+  const exchange = (type: "file-offer" | "file-chunk", plaintext: string, offset?: number): Promise<FileAck> => {
+    const requestId = randomBytes(16).toString("hex");
+    return pooledRequest<FileAck>(peer.publicKey, {
+      requestId,
+      timeoutMs,
+      build: (channel) => {
+        const { payload, ephemeralPub } = encryptForChannel(plaintext, channel, peerEncryptPub);
+        return signMessage<Omit<P2PMessage, "sig">>({
+          v: channel.version,
+          type,
+          from: identity.publicKey,
+          encryptPub: identity.encryptPub,
+          ephemeralPub,
+          session,
+          payload,
+          requestId,
+          transferId,
+          offset,
+          nonce: randomBytes(16).toString("hex"),
+          ts: Date.now(),
         });
-      } catch (err: unknown) {
-        log(`[sendP2PInject] Error: ${err}`);
-        clearTimeout(timeout);
-        await cleanup();
-        if (err instanceof Error && err.message.includes("version")) {
-          resolve({ code: EXIT_VERSION_MISMATCH, message: err.message });
-        } else {
-          resolve({ code: EXIT_OFFLINE, message: `Handshake failed: ${err}` });
+      },
+      onMessage: (response) => {
+        if (response.type === "ack") {
+          return { code: EXIT_OK, offset: response.offset, complete: response.reason === "complete" };
         }
-      }
+        if (response.type === "reject") return rejectResult(response, "unauthorized");
+        return undefined;
+      },
     });
+  };
 
-    log(`[sendP2PInject] Joining topic...`);
-    swarm.join(topic, { server: false, client: true });
-  });
+  try {
+    log(`[sendP2PFile] Offering ${offer.name} (${size} bytes) to ${shortKey(peer.publicKey)}`);
+    let ack = await exchange("file-offer", JSON.stringify(offer));
+    let lastOffset = -1;
+
+    while (ack.code === EXIT_OK && !ack.complete) {
+      const offset = ack.offset ?? 0;
+      if (offset <= lastOffset || offset >= size) {
+        ack = { code: EXIT_REJECTED, message: `Peer stopped accepting data at offset ${offset}` };
+        break;
+      }
+      updateTransfer(transfer, { bytes: offset });
+      const data = await readFileChunk(sourcePath, offset, Math.min(FILE_CHUNK_SIZE, size - offset));
+      lastOffset = offset;
+      ack = await exchange("file-chunk", data.toString("base64"), offset);
+    }
+
+    if (ack.code !== EXIT_OK) {
+      updateTransfer(transfer, { status: "failed", error: ack.message });
+      return { code: ack.code, message: ack.message, transferId };
+    }
+
+    updateTransfer(transfer, { bytes: size, status: "complete" });
+    log(`[sendP2PFile] Sent ${offer.name} to ${shortKey(peer.publicKey)}`);
+    return { code: EXIT_OK, transferId };
+  } catch (err: unknown) {
+    log(`[sendP2PFile] Failed: ${err}`);
+    const result = failureResult(err, "Peer offline (timeout)");
+    updateTransfer(transfer, { status: "failed", error: result.message });
+    return { ...result, transferId };
+  }
 }
 
 /**
@@ -514,95 +927,46 @@ export async function claimToken(tokenStr: string, timeoutMs = 10000): Promise<C
     return { code: EXIT_INVALID, message: `Invalid token: ${err}` };
   }
 
-  const topic = getTopic(token.iss);
-  const swarm = new Hyperswarm(getSwarmOptions());
-  const ephemeral = generateEphemeralKeyPair();
-
-  // Handle swarm errors to prevent crashes
-  swarm.on("error", (err: Error) => {
-    log(`[claimInvite] Swarm error: ${err.message}`);
-  });
-
-  return new Promise<ClaimResult>((resolve) => {
-    let resolved = false;
-    const cleanup = async () => {
-      if (!resolved) {
-        resolved = true;
-        await swarm.destroy();
-      }
-    };
-
-    const timeout = setTimeout(async () => {
-      if (!resolved) {
-        await cleanup();
-        resolve({ code: EXIT_OFFLINE, message: "Issuer offline (timeout)" });
-      }
-    }, timeoutMs);
-
-    swarm.on("connection", async (socket: Duplex) => {
-      if (resolved) return;
-
-      try {
-        const { version } = await performHandshake(socket, identity.publicKey, ephemeral);
-        clearTimeout(timeout);
+  const requestId = randomBytes(16).toString("hex");
 
-        const msg = signMessage<Omit<P2PMessage, "sig">>({
-          v: version,
+  try {
+    return await pooledRequest<ClaimResult>(token.iss, {
+      requestId,
+      timeoutMs,
+      build: (channel) =>
+        signMessage<Omit<P2PMessage, "sig">>({
+          v: channel.version,
           type: "claim",
           from: identity.publicKey,
           encryptPub: identity.encryptPub,
           token: tokenStr,
+          requestId,
           nonce: randomBytes(16).toString("hex"),
           ts: Date.now(),
-        });
-
-				socket.write(`${JSON.stringify(msg)}\n`);
-
-        let buffer = "";
-        socket.on("data", async (data: Buffer) => {
-          buffer += data.toString();
-          if (buffer.includes("\n")) {
-            const line = buffer.split("\n")[0];
-            try {
-              const response: P2PMessage = JSON.parse(line);
-              if (response.type === "ack") {
-                addPeer(token.iss, token.ses, token.cap, response.encryptPub);
-                await cleanup();
-                resolve({
-                  code: EXIT_OK,
-                  peerKey: token.iss,
-                  sessions: token.ses,
-                  caps: token.cap,
-                });
-              } else if (response.type === "reject") {
-                await cleanup();
-                resolve({
-                  code: EXIT_REJECTED,
-                  message: response.reason || "claim rejected",
-                });
-              }
-            } catch {
-              await cleanup();
-              resolve({ code: EXIT_INVALID, message: "Invalid response" });
-            }
-          }
-        });
-
-        socket.on("error", async () => {
-          if (!resolved) {
-            await cleanup();
-            resolve({ code: EXIT_OFFLINE, message: "Connection error" });
-          }
-        });
-      } catch (err: unknown) {
-        clearTimeout(timeout);
-        await cleanup();
-        resolve({ code: EXIT_OFFLINE, message: `Handshake failed: ${err}` });
-      }
+        }),
+      onMessage: (response) => {
+        if (response.type === "ack") {
+          addPeer(token.iss, token.ses, token.cap, response.encryptPub);
+          return {
+            code: EXIT_OK,
+            peerKey: token.iss,
+            sessions: token.ses,
+            caps: token.cap,
+          };
+        }
+        if (response.type === "reject") {
+          return {
+            code: EXIT_REJECTED,
+            message: response.reason || "claim rejected",
+          };
+        }
+        return undefined;
+      },
     });
-
-    swarm.join(topic, { server: false, client: true });
-  });
+  } catch (err: unknown) {
+    log(`[claimInvite] Failed: ${err}`);
+    return failureResult(err, "Issuer offline (timeout)");
+  }
 }
 
 /**
@@ -618,104 +982,101 @@ export async function sendKeyRotation(
     return { code: EXIT_INVALID, message: "No identity" };
   }
 
-  const peer = findPeer(peerIdOrName);
-  if (!peer) {
+  // Friends we never granted access are told too
+  const peerKey = findPeer(peerIdOrName)?.publicKey || getFriend(peerIdOrName)?.publicKey;
+  if (!peerKey) {
     return { code: EXIT_INVALID, message: `Peer not found: ${peerIdOrName}` };
   }
 
-  const topic = getTopic(peer.publicKey);
-  const swarm = new Hyperswarm(getSwarmOptions());
-  const ephemeral = generateEphemeralKeyPair();
-
-  // Handle swarm errors to prevent crashes
-  swarm.on("error", (err: Error) => {
-    log(`[notifyKeyRotation] Swarm error: ${err.message}`);
-  });
-
-  return new Promise<SendResult>((resolve) => {
-    let resolved = false;
-    const cleanup = async () => {
-      if (!resolved) {
-        resolved = true;
-        await swarm.destroy();
-      }
-    };
-
-    const timeout = setTimeout(async () => {
-      if (!resolved) {
-        await cleanup();
-        resolve({ code: EXIT_OFFLINE, message: "Peer offline (timeout)" });
-      }
-    }, timeoutMs);
-
-    swarm.on("connection", async (socket: Duplex) => {
-      if (resolved) return;
-
-      try {
-        const { version } = await performHandshake(socket, rotation.newSignPub, ephemeral);
-        clearTimeout(timeout);
+  const requestId = randomBytes(16).toString("hex");
 
-        const msg: P2PMessage = {
-          v: version,
+  try {
+    return await pooledRequest<SendResult>(peerKey, {
+      requestId,
+      timeoutMs,
+      build: (channel) => ({
+        v: channel.version,
+        type: "key-rotation",
+        from: rotation.oldSignPub,
+        keyRotation: {
+          v: rotation.v,
           type: "key-rotation",
-          from: rotation.oldSignPub,
-          keyRotation: {
-            v: rotation.v,
-            type: "key-rotation",
-            oldSignPub: rotation.oldSignPub,
-            newSignPub: rotation.newSignPub,
-            newEncryptPub: rotation.newEncryptPub,
-            reason: rotation.reason,
-            effectiveAt: rotation.effectiveAt,
-            gracePeriodMs: rotation.gracePeriodMs,
-            sig: rotation.sig,
-          },
-          nonce: randomBytes(16).toString("hex"),
-          ts: Date.now(),
+          oldSignPub: rotation.oldSignPub,
+          newSignPub: rotation.newSignPub,
+          newEncryptPub: rotation.newEncryptPub,
+          reason: rotation.reason,
+          effectiveAt: rotation.effectiveAt,
+          gracePeriodMs: rotation.gracePeriodMs,
           sig: rotation.sig,
-        };
+        },
+        requestId,
+        nonce: randomBytes(16).toString("hex"),
+        ts: Date.now(),
+        sig: rotation.sig,
+      }),
+      onMessage: (response) => {
+        if (response.type === "ack") return { code: EXIT_OK };
+        if (response.type === "reject") {
+          return {
+            code: EXIT_REJECTED,
+            message: response.reason || "rotation rejected",
+          };
+        }
+        return undefined;
+      },
+    });
+  } catch (err: unknown) {
+    log(`[notifyKeyRotation] Failed: ${err}`);
+    return failureResult(err, "Peer offline (timeout)");
+  }
+}
 
-				socket.write(`${JSON.stringify(msg)}\n`);
+/**
+ * Send a revocation certificate to a peer or friend. The certificate
+ * travels as is, signed by the revoked key, but the connection carrying it
+ * is opened with our identity, so one must be loaded.
+ */
+export async function sendKeyRevocation(
+  peerIdOrName: string,
+  cert: RevocationCertificate,
+  timeoutMs = 10000,
+): Promise<SendResult> {
+  const peerKey = findPeer(peerIdOrName)?.publicKey || getFriend(peerIdOrName)?.publicKey;
+  if (!peerKey) {
+    return { code: EXIT_INVALID, message: `Peer not found: ${peerIdOrName}` };
+  }
 
-        let buffer = "";
-        socket.on("data", async (data: Buffer) => {
-          buffer += data.toString();
-          if (buffer.includes("\n")) {
-            const line = buffer.split("\n")[0];
-            try {
-              const response: P2PMessage = JSON.parse(line);
-              if (response.type === "ack") {
-                await cleanup();
-                resolve({ code: EXIT_OK });
-              } else if (response.type === "reject") {
-                await cleanup();
-                resolve({
-                  code: EXIT_REJECTED,
-                  message: response.reason || "rotation rejected",
-                });
-              }
-            } catch {
-              await cleanup();
-              resolve({ code: EXIT_INVALID, message: "Invalid response" });
-            }
-          }
-        });
+  const requestId = randomBytes(16).toString("hex");
 
-        socket.on("error", async () => {
-          if (!resolved) {
-            await cleanup();
-            resolve({ code: EXIT_OFFLINE, message: "Connection error" });
-          }
-        });
-      } catch (err: unknown) {
-        clearTimeout(timeout);
-        await cleanup();
-        resolve({ code: EXIT_OFFLINE, message: `Handshake failed: ${err}` });
-      }
+  try {
+    return await pooledRequest<SendResult>(peerKey, {
+      requestId,
+      timeoutMs,
+      build: (channel) => ({
+        v: channel.version,
+        type: "key-revoke",
+        from: cert.revokedKey,
+        revocation: cert,
+        requestId,
+        nonce: randomBytes(16).toString("hex"),
+        ts: Date.now(),
+        sig: cert.sig,
+      }),
+      onMessage: (response) => {
+        if (response.type === "ack") return { code: EXIT_OK };
+        if (response.type === "reject") {
+          return {
+            code: EXIT_REJECTED,
+            message: response.reason || "revocation rejected",
+          };
+        }
+        return undefined;
+      },
     });
-
-    swarm.join(topic, { server: false, client: true });
-  });
+  } catch (err: unknown) {
+    log(`[sendKeyRevocation] Failed: ${err}`);
+    return failureResult(err, "Peer offline (timeout)");
+  }
 }
 
 /**
@@ -725,9 +1086,22 @@ export interface P2PCallbacks {
   // Log message to session (mailbox style) - just stores, no AI invocation
   onLogMessage?: (session: string, message: string, peerKey?: string) => void;
   // Inject message to session and get AI response
-  onInjectMessage?: (session: string, message: string, peerKey?: string) => Promise<string>;
+  // The trace identifies the chain of injects; continue it on any inject sent while processing.
+  onInjectMessage?: (session: string, message: string, peerKey?: string, trace?: InjectTrace) => Promise<string>;
+  // Inject message to session and stream the AI response as it is generated.
+  // Used for inject requests that ask for streaming; falls back to onInjectMessage.
+  onInjectMessageStream?: (
+    session: string,
+    message: string,
+    peerKey?: string,
+    trace?: InjectTrace,
+  ) => AsyncIterable<string>;
+  // Called when a file from a peer has been verified and saved to the session inbox
+  onFileReceived?: (session: string, transfer: FileTransfer, peerKey: string) => void;
   // Called when a new connection is established
   onConnection?: () => void;
+  // Called when a verified message arrives from a peer (the peer is online)
+  onPeerSeen?: (peerKey: string) => void;
   // Logging output
   onLog: (msg: string) => void;
 }
@@ -779,6 +1153,19 @@ export function createP2PListener(
 
   swarm.join(topic, { server: true, client: false });
 
+  // Parked injects are carried out through this listener's handlers once decided
+  setApprovalRunner((pending, denyReason) =>
+    runAsyncInject(
+      callbacks,
+      pending.peerKey,
+      pending.session,
+      pending.jobId,
+      pending.message,
+      { traceId: pending.traceId, hops: pending.hops },
+      denyReason,
+    ),
+  );
+
   swarm.on("connection", (socket: Duplex) => {
     onLog("P2P connection received");
     handleConnection(socket, identity.publicKey, callbacks);
@@ -788,18 +1175,135 @@ export function createP2PListener(
   return swarm;
 }
 
+/**
+ * Process an async inject and send its result back on a new connection.
+ * A deny reason skips the AI run and sends just the reason.
+ */
+async function runAsyncInject(
+  callbacks: P2PCallbacks,
+  peerKey: string,
+  session: string,
+  jobId: string,
+  message: string,
+  trace: InjectTrace,
+  denyReason?: string,
+): Promise<void> {
+  const { onInjectMessage, onLog } = callbacks;
+  let outcome: { text?: string; reason?: string };
+  if (denyReason) {
+    outcome = { reason: denyReason };
+  } else {
+    beginTrace(trace.traceId);
+    try {
+      outcome = { text: onInjectMessage ? await onInjectMessage(session, message, peerKey, trace) : "" };
+    } catch (err: unknown) {
+      onLog(`[handleConnection] ERROR: async inject ${jobId.slice(0, 8)}... failed: ${err}`);
+      outcome = { reason: "inject failed" };
+    } finally {
+      endTrace(trace.traceId);
+    }
+  }
+  if (await dialBackInjectResponse(peerKey, session, jobId, outcome)) {
+    onLog(`Delivered async inject result ${jobId.slice(0, 8)}... to ${shortKey(peerKey)}`);
+  }
+}
+
 function handleConnection(socket: Duplex, myPublicKey: string, callbacks: P2PCallbacks): void {
   if (callbacks.onConnection) {
     callbacks.onConnection();
   }
-  const { onLogMessage, onInjectMessage, onLog } = callbacks;
+  emitP2PEvent({ type: "connection" });
+  const { onLogMessage, onInjectMessage, onInjectMessageStream, onFileReceived, onPeerSeen, onLog } = callbacks;
   const rateLimiter = getRateLimiter();
   const replayProtector = getReplayProtector();
 
   const ephemeral = generateEphemeralKeyPair();
   const sessionState: SessionState = { ephemeral };
   let handshakeComplete = false;
-  let buffer = "";
+  const decoder = createMessageDecoder();
+
+  // Send a signed control message, echoing the request id so pooled
+  // senders can route it to the right pending request.
+  const reply = (
+    type: "ack" | "reject" | "response-end",
+    request: P2PMessage,
+    extra: Partial<P2PMessage> = {},
+  ): void => {
+    const message = signMessage<Omit<P2PMessage, "sig">>({
+      v: PROTOCOL_VERSION,
+      type,
+      from: myPublicKey,
+      session: request.session,
+      requestId: request.requestId,
+      nonce: randomBytes(16).toString("hex"),
+      ts: Date.now(),
+      ...extra,
+    });
+    // Hello is answered before its signature is checked
+    const peer = request.type === "hello" ? UNVERIFIED_PEER : request.from;
+    recordMessageOut(peer, type, writeMessage(socket, message, decoder.framed));
+    if (type === "reject") {
+      recordReject(peer, request.type, extra.reason || "");
+      emitP2PEvent({ type: "reject", from: request.from, messageType: request.type, reason: extra.reason || "" });
+    }
+  };
+
+  // Encrypt AI output for the requester and send it as a response or chunk
+  const sendResponse = (
+    type: "response" | "response-chunk" | "tool-result",
+    request: P2PMessage,
+    text: string,
+    seq?: number,
+  ): void => {
+    const identity = getIdentity()!;
+    let encryptedResponse: string;
+    let responseEphemeral: EphemeralKeyPair | undefined;
+
+    if (request.v >= 2 && request.ephemeralPub) {
+      // Use ephemeral encryption for response - MUST use sender's ephemeralPub!
+      responseEphemeral = generateEphemeralKeyPair();
+      encryptedResponse = encryptWithEphemeral(
+        text,
+        responseEphemeral.privateKey,
+        request.ephemeralPub, // Use sender's EPHEMERAL key, not static encryptPub!
+      );
+    } else {
+      // Fallback to peer's encryption key
+      const grant = getGrantForPeer(request.from);
+      if (!grant?.peerEncryptPub) {
+        throw new Error("No encryption key for sender");
+      }
+      encryptedResponse = encryptMessage(text, grant.peerEncryptPub);
+    }
+
+    const response = signMessage<Omit<P2PMessage, "sig">>({
+      v: PROTOCOL_VERSION,
+      type,
+      from: myPublicKey,
+      encryptPub: identity.encryptPub,
+      ephemeralPub: responseEphemeral?.publicKey,
+      session: request.session,
+      payload: encryptedResponse,
+      requestId: request.requestId,
+      seq,
+      nonce: randomBytes(16).toString("hex"),
+      ts: Date.now(),
+    });
+    recordMessageOut(request.from, type, writeMessage(socket, response, decoder.framed));
+  };
+
+  // Decrypt a request payload with this connection's ephemeral key (v2+)
+  // or the sender's static key
+  const decryptPayload = (msg: P2PMessage): string => {
+    if (msg.v >= 2 && msg.ephemeralPub && sessionState.ephemeral) {
+      return decryptWithEphemeral(msg.payload || "", sessionState.ephemeral.privateKey, msg.ephemeralPub);
+    }
+    const grant = getGrantForPeer(msg.from);
+    if (!grant?.peerEncryptPub) {
+      throw new Error("No encryption key for sender");
+    }
+    return decryptMessage(msg.payload || "", grant.peerEncryptPub);
+  };
 
   // CRITICAL: Add error handler FIRST to prevent uncaught error crashes
   socket.on("error", (err: Error) => {
@@ -809,371 +1313,433 @@ function handleConnection(socket: Duplex, myPublicKey: string, callbacks: P2PCal
 
   socket.on("close", () => {
     onLog(`[handleConnection] Socket closed`);
+    emitP2PEvent({ type: "connection-closed" });
   });
 
-  socket.on("data", async (data: Buffer) => {
-    buffer += data.toString();
-    if (!buffer.includes("\n")) return;
-
-    const line = buffer.split("\n")[0];
-    buffer = buffer.slice(line.length + 1);
-
-    // Reject oversized messages before parsing (defense against memory exhaustion)
-    if (line.length > MAX_MESSAGE_SIZE) {
-      onLog(`Rejected: message too large (${line.length} > ${MAX_MESSAGE_SIZE})`);
-      return;
-    }
-
-    let msg: P2PMessage;
+  socket.on("data", (data: Buffer) => {
+    // Pooled connections carry many messages; handle every complete one.
+    // Each message is processed independently so a slow inject does not
+    // hold up the messages queued behind it.
     try {
-      msg = JSON.parse(line);
-    } catch {
-      return;
+      decoder.push(data);
+      let text = decoder.next();
+      while (text !== null) {
+        let msg: P2PMessage | null = null;
+        try {
+          msg = JSON.parse(text);
+        } catch {
+          // Skip malformed messages
+        }
+        if (msg) {
+          const { type } = msg;
+          void handleMessage(msg, Buffer.byteLength(text)).catch((err: unknown) => {
+            onLog(`[handleConnection] ERROR: ${type} failed: ${err}`);
+          });
+        }
+        text = decoder.next();
+      }
+    } catch (err: unknown) {
+      // Oversized message (defense against memory exhaustion) - the stream cannot be resynced
+      onLog(`Rejected: ${err instanceof Error ? err.message : err}`);
+      socket.destroy();
     }
+  });
 
+  async function handleMessage(msg: P2PMessage, size: number): Promise<void> {
     // Handle hello (handshake)
     if (msg.type === "hello" && !handshakeComplete) {
       const commonVersions = (msg.versions || [1]).filter((v) => v >= MIN_PROTOCOL_VERSION && v <= PROTOCOL_VERSION);
 
-			if (commonVersions.length === 0) {
-				const reject = signMessage<Omit<P2PMessage, "sig">>({
-					v: PROTOCOL_VERSION,
-					type: "reject",
-					from: myPublicKey,
-					reason: "no common protocol version",
-					nonce: randomBytes(16).toString("hex"),
-					ts: Date.now(),
-				});
-				socket.write(`${JSON.stringify(reject)}\n`);
-				return;
-			}
+      if (commonVersions.length === 0) {
+        reply("reject", msg, { reason: "no common protocol version" });
+        return;
+      }
 
       const negotiatedVersion = Math.max(...commonVersions);
       sessionState.negotiatedVersion = negotiatedVersion;
       sessionState.peerEphemeralPub = msg.ephemeralPub;
 
-			const ack = signMessage<Omit<P2PMessage, "sig">>({
-				v: PROTOCOL_VERSION,
-				type: "hello-ack",
-				from: myPublicKey,
-				version: negotiatedVersion,
-				ephemeralPub: ephemeral.publicKey,
-				nonce: randomBytes(16).toString("hex"),
-				ts: Date.now(),
-			});
-			socket.write(`${JSON.stringify(ack)}\n`);
-			handshakeComplete = true;
-			onLog(`Handshake complete: v${negotiatedVersion}`);
-			return;
-		}
-
-		// Verify signature for non-hello messages
-		if (msg.type !== "hello" && msg.type !== "hello-ack") {
-			// Handle key rotation
-			if (msg.type === "key-rotation" && msg.keyRotation) {
-				const rotation: KeyRotation = {
-					...msg.keyRotation,
-					type: "key-rotation",
-				};
-				if (processPeerKeyRotation(rotation)) {
-					onLog(`Key rotation processed for ${shortKey(msg.from)}`);
-					const ack = signMessage<Omit<P2PMessage, "sig">>({
-						v: PROTOCOL_VERSION,
-						type: "ack",
-						from: myPublicKey,
-						nonce: randomBytes(16).toString("hex"),
-						ts: Date.now(),
-					});
-					socket.write(`${JSON.stringify(ack)}\n`);
-				} else {
-					onLog(`Key rotation rejected for ${shortKey(msg.from)}`);
-					const reject = signMessage<Omit<P2PMessage, "sig">>({
-						v: PROTOCOL_VERSION,
-						type: "reject",
-						from: myPublicKey,
-						reason: "invalid key rotation",
-						nonce: randomBytes(16).toString("hex"),
-						ts: Date.now(),
-					});
-					socket.write(`${JSON.stringify(reject)}\n`);
-				}
-				return;
-			}
+      const ack = signMessage<Omit<P2PMessage, "sig">>({
+        v: PROTOCOL_VERSION,
+        type: "hello-ack",
+        from: myPublicKey,
+        version: negotiatedVersion,
+        ephemeralPub: ephemeral.publicKey,
+        nonce: randomBytes(16).toString("hex"),
+        ts: Date.now(),
+      });
+      // The hello-ack is always newline-delimited; frames start after it
+      writeMessage(socket, ack, false);
+      if (negotiatedVersion >= FRAMING_VERSION) {
+        decoder.setFramed();
+      }
+      handshakeComplete = true;
+      onLog(`Handshake complete: v${negotiatedVersion}${decoder.framed ? " (framed)" : ""}`);
+      emitP2PEvent({ type: "handshake", version: negotiatedVersion, framed: decoder.framed });
+      return;
+    }
+
+    // Verify signature for non-hello messages
+    if (msg.type !== "hello" && msg.type !== "hello-ack") {
+      // Handle key rotation
+      if (msg.type === "key-rotation" && msg.keyRotation) {
+        const rotation: KeyRotation = {
+          ...msg.keyRotation,
+          type: "key-rotation",
+        };
+        const wasVerified = Boolean(
+          findPeer(rotation.oldSignPub)?.verified || getFriend(rotation.oldSignPub)?.verified,
+        );
+        const accepted = processPeerKeyRotation(rotation);
+        // Not short-circuited: a friend is usually also a peer
+        const friendUpdated = processFriendKeyRotation(rotation);
+        recordMessageIn(accepted || friendUpdated ? msg.from : UNVERIFIED_PEER, msg.type, size);
+        if (accepted || friendUpdated) {
+          onLog(`Key rotation processed for ${shortKey(msg.from)}`);
+          if (wasVerified) {
+            onLog(
+              `Warning: ${shortKey(msg.from)} is no longer verified after changing keys; compare safety numbers again`,
+            );
+          }
+          reply("ack", msg);
+        } else {
+          onLog(`Key rotation rejected for ${shortKey(msg.from)}`);
+          reply("reject", msg, { reason: "invalid key rotation" });
+        }
+        return;
+      }
+
+      // Handle key revocation: drop every grant and friend entry for the key
+      if (msg.type === "key-revoke" && msg.revocation) {
+        const cert = msg.revocation;
+        // Only keys we know, so strangers cannot fill the revocation list
+        const known = findPeer(cert.revokedKey) || getFriend(cert.revokedKey);
+        const affected = known ? processKeyRevocation(cert) : undefined;
+        recordMessageIn(affected ? cert.revokedKey : UNVERIFIED_PEER, msg.type, size);
+        if (affected) {
+          for (const key of affected) {
+            removeFriend(key);
+          }
+          onLog(`Key revoked: ${shortKey(cert.revokedKey)} (${cert.reason})`);
+          reply("ack", msg);
+        } else {
+          onLog(`Key revocation rejected for ${shortKey(msg.from)}`);
+          reply("reject", msg, { reason: known ? "invalid revocation certificate" : "unknown key" });
+        }
+        return;
+      }
 
       if (!verifySignature(msg, msg.from)) {
         onLog(`Rejected: invalid signature from ${shortKey(msg.from)}`);
+        recordMessageIn(UNVERIFIED_PEER, msg.type, size);
+        recordReject(UNVERIFIED_PEER, msg.type, "invalid signature");
+        emitP2PEvent({ type: "reject", from: msg.from, messageType: msg.type, reason: "invalid signature" });
         rateLimiter.check(msg.from, "invalidMessages");
         return;
       }
 
-      if (!replayProtector.check(msg.nonce, msg.ts)) {
+      if (!replayProtector.check(msg.nonce, msg.ts, msg.from)) {
         onLog(`Rejected: replay detected from ${shortKey(msg.from)}`);
+        recordMessageIn(msg.from, msg.type, size);
+        recordReject(msg.from, msg.type, "replay detected");
+        emitP2PEvent({ type: "reject", from: msg.from, messageType: msg.type, reason: "replay detected" });
         rateLimiter.check(msg.from, "invalidMessages");
         return;
       }
+
+      recordMessageIn(msg.from, msg.type, size);
+      onPeerSeen?.(msg.from);
     }
 
-		// Handle claim messages
-		if (msg.type === "claim" && msg.token) {
-			if (!rateLimiter.check(msg.from, "claims")) {
-				onLog(`Rate limited: claim from ${shortKey(msg.from)}`);
-				const reject = signMessage<Omit<P2PMessage, "sig">>({
-					v: PROTOCOL_VERSION,
-					type: "reject",
-					from: myPublicKey,
-					reason: "rate limited",
-					nonce: randomBytes(16).toString("hex"),
-					ts: Date.now(),
-				});
-				socket.write(`${JSON.stringify(reject)}\n`);
-				return;
-			}
+    // Handle claim messages
+    if (msg.type === "claim" && msg.token) {
+      if (!rateLimiter.check(msg.from, "claims")) {
+        onLog(`Rate limited: claim from ${shortKey(msg.from)}`);
+        reply("reject", msg, { reason: "rate limited" });
+        return;
+      }
 
       onLog(`Claim request from ${shortKey(msg.from)}`);
       try {
         const token = parseInviteToken(msg.token);
 
-				if (token.iss !== myPublicKey) {
-					const reject = signMessage<Omit<P2PMessage, "sig">>({
-						v: PROTOCOL_VERSION,
-						type: "reject",
-						from: myPublicKey,
-						reason: "token not issued by this peer",
-						nonce: randomBytes(16).toString("hex"),
-						ts: Date.now(),
-					});
-					socket.write(`${JSON.stringify(reject)}\n`);
-					return;
-				}
-
-				if (token.sub !== msg.from) {
-					const reject = signMessage<Omit<P2PMessage, "sig">>({
-						v: PROTOCOL_VERSION,
-						type: "reject",
-						from: myPublicKey,
-						reason: "token not issued for you",
-						nonce: randomBytes(16).toString("hex"),
-						ts: Date.now(),
-					});
-					socket.write(`${JSON.stringify(reject)}\n`);
-					return;
-				}
-
-        grantAccess(msg.from, token.ses, token.cap, msg.encryptPub);
+        if (token.iss !== myPublicKey) {
+          reply("reject", msg, { reason: "token not issued by this peer" });
+          return;
+        }
+
+        if (token.sub !== msg.from) {
+          reply("reject", msg, { reason: "token not issued for you" });
+          return;
+        }
+
+        const expiresAt = token.ttl ? Date.now() + token.ttl * 3600000 : undefined;
+        grantAccess(msg.from, token.ses, token.cap, msg.encryptPub, { expiresAt });
         onLog(`Granted access to ${shortKey(msg.from)} for sessions: ${token.ses.join(", ")}`);
 
-				const identity = getIdentity()!;
-				const ack = signMessage<Omit<P2PMessage, "sig">>({
-					v: PROTOCOL_VERSION,
-					type: "ack",
-					from: myPublicKey,
-					encryptPub: identity.encryptPub,
-					nonce: randomBytes(16).toString("hex"),
-					ts: Date.now(),
-				});
-				socket.write(`${JSON.stringify(ack)}\n`);
-			} catch (err: unknown) {
-				onLog(`Rejected claim: ${err}`);
-				const reject = signMessage<Omit<P2PMessage, "sig">>({
-					v: PROTOCOL_VERSION,
-					type: "reject",
-					from: myPublicKey,
-					reason: `invalid token: ${err}`,
-					nonce: randomBytes(16).toString("hex"),
-					ts: Date.now(),
-				});
-				socket.write(`${JSON.stringify(reject)}\n`);
-			}
-			return;
-		}
-
-		// Handle log and inject messages
-		if (
-			(msg.type === "log" || msg.type === "inject") &&
-			msg.payload &&
-			msg.session
-		) {
-			const actionName = msg.type === "log" ? "logs" : "injects";
-			if (!rateLimiter.check(msg.from, actionName)) {
-				onLog(`Rate limited: ${msg.type} from ${shortKey(msg.from)}`);
-				const reject = signMessage<Omit<P2PMessage, "sig">>({
-					v: PROTOCOL_VERSION,
-					type: "reject",
-					from: myPublicKey,
-					session: msg.session,
-					reason: "rate limited",
-					nonce: randomBytes(16).toString("hex"),
-					ts: Date.now(),
-				});
-				socket.write(`${JSON.stringify(reject)}\n`);
-				return;
-			}
-
-			// Check payload size limit (security hardening)
-			const payloadSize =
-				typeof msg.payload === "string" ? msg.payload.length : 0;
-			if (payloadSize > MAX_PAYLOAD_SIZE) {
-				onLog(
-					`Rejected: payload too large from ${shortKey(msg.from)} (${payloadSize} > ${MAX_PAYLOAD_SIZE})`,
-				);
-				const reject = signMessage<Omit<P2PMessage, "sig">>({
-					v: PROTOCOL_VERSION,
-					type: "reject",
-					from: myPublicKey,
-					session: msg.session,
-					reason: `payload too large: ${payloadSize} bytes exceeds ${MAX_PAYLOAD_SIZE} limit`,
-					nonce: randomBytes(16).toString("hex"),
-					ts: Date.now(),
-				});
-				socket.write(`${JSON.stringify(reject)}\n`);
-				return;
-			}
-
-			if (!isAuthorized(msg.from, msg.session)) {
-				onLog(`Rejected: unauthorized ${shortKey(msg.from)} -> ${msg.session}`);
-				const reject = signMessage<Omit<P2PMessage, "sig">>({
-					v: PROTOCOL_VERSION,
-					type: "reject",
-					from: myPublicKey,
-					session: msg.session,
-					reason: "unauthorized",
-					nonce: randomBytes(16).toString("hex"),
-					ts: Date.now(),
-				});
-				socket.write(`${JSON.stringify(reject)}\n`);
-				return;
-			}
+        const identity = getIdentity()!;
+        reply("ack", msg, { encryptPub: identity.encryptPub });
+      } catch (err: unknown) {
+        onLog(`Rejected claim: ${err}`);
+        reply("reject", msg, { reason: `invalid token: ${err}` });
+      }
+      return;
+    }
 
-      onLog(`${msg.type} from ${shortKey(msg.from)} -> ${msg.session}`);
-      try {
-        let decryptedPayload: string;
+    // Handle a dial-back response to one of our async injects
+    if (msg.type === "response" && msg.jobId) {
+      const job = getInjectJob(msg.jobId);
+      if (!job || job.peerKey !== msg.from || job.status === "complete" || job.status === "failed") {
+        onLog(`Rejected: response for unknown job from ${shortKey(msg.from)}`);
+        reply("reject", msg, { jobId: msg.jobId, reason: "unknown job" });
+        return;
+      }
 
-        if (msg.v >= 2 && msg.ephemeralPub && sessionState.ephemeral) {
-          decryptedPayload = decryptWithEphemeral(msg.payload, sessionState.ephemeral.privateKey, msg.ephemeralPub);
+      try {
+        if (msg.payload) {
+          resolveInjectJob(job.id, { response: decryptPayload(msg) });
         } else {
-          const grant = getGrantForPeer(msg.from);
-          if (!grant?.peerEncryptPub) {
-            throw new Error("No encryption key for sender");
-          }
-          decryptedPayload = decryptMessage(msg.payload, grant.peerEncryptPub);
+          resolveInjectJob(job.id, { error: msg.reason || "inject failed" });
         }
+        reply("ack", msg, { jobId: job.id });
+        onLog(`Async inject ${job.id.slice(0, 8)}... answered by ${shortKey(msg.from)}`);
+      } catch (err: unknown) {
+        onLog(`[handleConnection] ERROR: response for job ${job.id.slice(0, 8)}... failed: ${err}`);
+        reply("reject", msg, { jobId: job.id, reason: "response failed" });
+      }
+      return;
+    }
 
-				// Handle based on message type
-				if (msg.type === "log") {
-					// Mailbox style - just log the message, don't invoke AI
-					onLog(`[handleConnection] Processing LOG message`);
-					if (onLogMessage) {
-						onLogMessage(msg.session, decryptedPayload, msg.from);
-					}
-					// Send ack
-					const ack = signMessage<Omit<P2PMessage, "sig">>({
-						v: PROTOCOL_VERSION,
-						type: "ack",
-						from: myPublicKey,
-						session: msg.session,
-						nonce: randomBytes(16).toString("hex"),
-						ts: Date.now(),
-					});
-					socket.write(`${JSON.stringify(ack)}\n`);
-					onLog(`Logged to ${msg.session}`);
-				} else if (msg.type === "inject") {
-					// Invoke AI and return response
-					onLog(
-						`[handleConnection] Processing INJECT message, requestId: ${msg.requestId?.slice(0, 8) || "none"}`,
-					);
-					onLog(
-						`[handleConnection] onInjectMessage handler: ${onInjectMessage ? "present" : "MISSING"}`,
-					);
-
-          if (onInjectMessage) {
-            onLog(`[handleConnection] Calling onInjectMessage for session ${msg.session}...`);
-            const aiResponse = await onInjectMessage(msg.session, decryptedPayload, msg.from);
-            onLog(
-              `[handleConnection] AI response received (${aiResponse.length} chars): ${aiResponse.slice(0, 100)}...`,
-            );
+    // Handle file offers and chunks
+    if ((msg.type === "file-offer" || msg.type === "file-chunk") && msg.payload && msg.session && msg.transferId) {
+      const transferId = msg.transferId;
+      // Chunks belong to an accepted offer, so only offers count against the rate limit
+      if (msg.type === "file-offer" && !rateLimiter.check(msg.from, "files")) {
+        onLog(`Rate limited: file offer from ${shortKey(msg.from)}`);
+        reply("reject", msg, { transferId, reason: "rate limited" });
+        return;
+      }
 
-            // Encrypt the response
-            const identity = getIdentity()!;
-            let encryptedResponse: string;
-            let responseEphemeral: EphemeralKeyPair | undefined;
+      if (msg.payload.length > MAX_PAYLOAD_SIZE) {
+        onLog(`Rejected: ${msg.type} too large from ${shortKey(msg.from)}`);
+        reply("reject", msg, { transferId, reason: "payload too large" });
+        return;
+      }
 
-            onLog(
-              `[handleConnection] Encrypting response, msg.v=${msg.v}, msg.ephemeralPub=${msg.ephemeralPub ? "yes" : "no"}, msg.encryptPub=${msg.encryptPub ? "yes" : "no"}`,
-            );
+      if (!canSendFiles(msg.from, msg.session)) {
+        onLog(`Rejected: ${shortKey(msg.from)} has no files access to ${msg.session}`);
+        reply("reject", msg, { transferId, reason: "unauthorized" });
+        return;
+      }
+
+      try {
+        const plaintext = decryptPayload(msg);
+        const { transfer, completed } =
+          msg.type === "file-offer"
+            ? await receiveFileOffer(msg.from, msg.session, transferId, parseFileOffer(plaintext))
+            : await receiveFileChunk(msg.from, transferId, msg.offset ?? -1, Buffer.from(plaintext, "base64"));
+
+        if (msg.type === "file-offer") {
+          onLog(`File offer ${transfer.name} (${transfer.size} bytes) from ${shortKey(msg.from)} -> ${msg.session}`);
+        }
+        reply("ack", msg, {
+          transferId,
+          offset: transfer.bytes,
+          reason: transfer.status === "complete" ? "complete" : undefined,
+        });
+        if (completed) {
+          onLog(`Received file ${transfer.name} from ${shortKey(msg.from)}`);
+          onFileReceived?.(msg.session, transfer, msg.from);
+        }
+      } catch (err: unknown) {
+        const reason = err instanceof Error ? err.message : String(err);
+        onLog(`Rejected ${msg.type} from ${shortKey(msg.from)}: ${reason}`);
+        reply("reject", msg, { transferId, reason });
+      }
+      return;
+    }
+
+    // Handle remote tool calls and listings
+    if (msg.type === "tool-call" || msg.type === "tool-list") {
+      if (!rateLimiter.check(msg.from, "tools")) {
+        onLog(`Rate limited: ${msg.type} from ${shortKey(msg.from)}`);
+        reply("reject", msg, { reason: "rate limited" });
+        return;
+      }
+
+      const payloadSize = typeof msg.payload === "string" ? msg.payload.length : 0;
+      if (payloadSize > MAX_PAYLOAD_SIZE) {
+        onLog(`Rejected: payload too large from ${shortKey(msg.from)} (${payloadSize} > ${MAX_PAYLOAD_SIZE})`);
+        reply("reject", msg, {
+          reason: `payload too large: ${payloadSize} bytes exceeds ${MAX_PAYLOAD_SIZE} limit`,
+        });
+        return;
+      }
+
+      if (getAllowedTools(msg.from).length === 0) {
+        onLog(`Rejected: ${msg.type} from ${shortKey(msg.from)} without tools capability`);
+        reply("reject", msg, { reason: "unauthorized" });
+        return;
+      }
+
+      // Encrypting the result fails if the caller sent no key to encrypt it to
+      const sendToolResult = (result: unknown): boolean => {
+        try {
+          sendResponse("tool-result", msg, JSON.stringify(result));
+          return true;
+        } catch (err: unknown) {
+          onLog(`[handleConnection] ERROR: ${msg.type} reply failed: ${err}`);
+          reply("reject", msg, { reason: `${msg.type} failed` });
+          return false;
+        }
+      };
+
+      if (msg.type === "tool-list") {
+        if (sendToolResult({ tools: getToolsForPeer(msg.from) })) {
+          onLog(`Listed exported tools for ${shortKey(msg.from)}`);
+        }
+        return;
+      }
+
+      let call: unknown;
+      try {
+        call = JSON.parse(decryptPayload(msg));
+      } catch {
+        reply("reject", msg, { reason: "invalid tool call" });
+        return;
+      }
+
+      const outcome = await runRemoteToolCall(msg.from, call);
+      if ("reason" in outcome) {
+        onLog(`Rejected tool call from ${shortKey(msg.from)}: ${outcome.reason}`);
+        reply("reject", msg, { reason: outcome.reason });
+        return;
+      }
+      if (sendToolResult(outcome.result)) {
+        onLog(`Ran tool for ${shortKey(msg.from)}`);
+      }
+      return;
+    }
+
+    // Handle log and inject messages
+    if ((msg.type === "log" || msg.type === "inject") && msg.payload && msg.session) {
+      const actionName = msg.type === "log" ? "logs" : "injects";
+      if (!rateLimiter.check(msg.from, actionName)) {
+        onLog(`Rate limited: ${msg.type} from ${shortKey(msg.from)}`);
+        reply("reject", msg, { reason: "rate limited" });
+        return;
+      }
 
-            if (msg.v >= 2 && msg.ephemeralPub) {
-              // Use ephemeral encryption for response - MUST use sender's ephemeralPub!
-              responseEphemeral = generateEphemeralKeyPair();
-              onLog(
-                `[handleConnection] Using ephemeral encryption, generated key: ${responseEphemeral.publicKey.slice(0, 16)}..., sender ephemeral: ${msg.ephemeralPub.slice(0, 16)}...`,
-              );
-              encryptedResponse = encryptWithEphemeral(
-                aiResponse,
-                responseEphemeral.privateKey,
-                msg.ephemeralPub, // Use sender's EPHEMERAL key, not static encryptPub!
-              );
-              onLog(`[handleConnection] Encrypted response (${encryptedResponse.length} chars)`);
-            } else {
-              // Fallback to peer's encryption key
-              const grant = getGrantForPeer(msg.from);
-              if (!grant?.peerEncryptPub) {
-                throw new Error("No encryption key for sender");
+      // Check payload size limit (security hardening)
+      const payloadSize = typeof msg.payload === "string" ? msg.payload.length : 0;
+      if (payloadSize > MAX_PAYLOAD_SIZE) {
+        onLog(`Rejected: payload too large from ${shortKey(msg.from)} (${payloadSize} > ${MAX_PAYLOAD_SIZE})`);
+        reply("reject", msg, {
+          reason: `payload too large: ${payloadSize} bytes exceeds ${MAX_PAYLOAD_SIZE} limit`,
+        });
+        return;
+      }
+
+      if (!isAuthorized(msg.from, msg.session, msg.type)) {
+        onLog(`Rejected: unauthorized ${shortKey(msg.from)} -> ${msg.session}`);
+        reply("reject", msg, { reason: "unauthorized" });
+        return;
+      }
+
+      // Retry of an outbox message that was already delivered - ack it again
+      if (msg.msgId && isDuplicateDelivery(msg.from, msg.msgId)) {
+        onLog(`Duplicate ${msg.type} ${msg.msgId.slice(0, 8)}... from ${shortKey(msg.from)}`);
+        reply("ack", msg, { reason: "duplicate" });
+        return;
+      }
+
+      // Refuse injects whose chain looped back to us or grew past the hop limit
+      const trace: InjectTrace = { traceId: msg.traceId || newTrace().traceId, hops: msg.hops ?? 0 };
+      const parked = msg.type === "inject" && requiresApproval(msg.from);
+      if (msg.type === "inject") {
+        const traceReject = checkInboundTrace(trace);
+        if (traceReject) {
+          onLog(`Rejected: ${traceReject} for inject from ${shortKey(msg.from)} (hops: ${trace.hops})`);
+          reply("reject", msg, { reason: traceReject });
+          return;
+        }
+
+        // A parked inject is counted when it is approved, not while it waits
+        if (parked ? isQuotaExceeded(msg.from) : !admitInject(msg.from)) {
+          onLog(`Rejected: inject quota exceeded for ${shortKey(msg.from)}`);
+          reply("reject", msg, { reason: "quota exceeded" });
+          return;
+        }
+      }
+
+      onLog(`${msg.type} from ${shortKey(msg.from)} -> ${msg.session}`);
+      emitP2PEvent({ type: "message", kind: msg.type, from: msg.from, session: msg.session });
+      try {
+        const decryptedPayload = decryptPayload(msg);
+
+        if (msg.msgId) {
+          recordDelivery(msg.from, msg.msgId);
+        }
+
+        // Handle based on message type
+        if (msg.type === "log") {
+          // Mailbox style - just log the message, don't invoke AI
+          onLog(`[handleConnection] Processing LOG message`);
+          if (onLogMessage) {
+            onLogMessage(msg.session, decryptedPayload, msg.from);
+          }
+          reply("ack", msg);
+          onLog(`Logged to ${msg.session}`);
+        } else if (msg.type === "inject") {
+          // Invoke AI and return response
+          onLog(`[handleConnection] Processing INJECT message, requestId: ${msg.requestId?.slice(0, 8) || "none"}`);
+
+          if (parked) {
+            // Park until the owner decides; the result is dialed back like an async inject's
+            const jobId = msg.jobId || randomBytes(16).toString("hex");
+            if (!queueInject(jobId, msg.from, msg.session, decryptedPayload, trace)) {
+              reply("reject", msg, { reason: "approval queue full" });
+              return;
+            }
+            reply("ack", msg, { jobId, reason: PENDING_APPROVAL });
+            onLog(`Inject ${jobId.slice(0, 8)}... from ${shortKey(msg.from)} is waiting for approval`);
+          } else if (msg.async && msg.jobId) {
+            // Ack now, run the AI in the background, and dial back with the result
+            reply("ack", msg, { jobId: msg.jobId, reason: "accepted" });
+            onLog(`Accepted async inject job ${msg.jobId.slice(0, 8)}... from ${shortKey(msg.from)}`);
+            void runAsyncInject(callbacks, msg.from, msg.session, msg.jobId, decryptedPayload, trace);
+          } else {
+            beginTrace(trace.traceId);
+            try {
+              if (msg.stream && onInjectMessageStream) {
+                onLog(`[handleConnection] Streaming response for session ${msg.session}...`);
+                let seq = 0;
+                for await (const chunk of onInjectMessageStream(msg.session, decryptedPayload, msg.from, trace)) {
+                  if (!chunk) continue;
+                  sendResponse("response-chunk", msg, chunk, seq++);
+                }
+                reply("response-end", msg, { seq });
+                onLog(`Streamed AI response to ${shortKey(msg.from)} (${seq} chunks)`);
+              } else if (onInjectMessage) {
+                onLog(`[handleConnection] Calling onInjectMessage for session ${msg.session}...`);
+                const aiResponse = await onInjectMessage(msg.session, decryptedPayload, msg.from, trace);
+                onLog(`[handleConnection] AI response received (${aiResponse.length} chars)`);
+                sendResponse("response", msg, aiResponse);
+                onLog(`Sent AI response to ${shortKey(msg.from)} (requestId: ${msg.requestId?.slice(0, 8)}...)`);
+              } else {
+                // No inject handler - send ack for backwards compatibility
+                reply("ack", msg);
+                onLog(`Delivered to ${msg.session} (no inject handler)`);
               }
-              onLog(`[handleConnection] Using static encryption with peer key`);
-              encryptedResponse = encryptMessage(aiResponse, grant.peerEncryptPub);
+            } finally {
+              endTrace(trace.traceId);
             }
-
-            // Send response message
-            const response = signMessage<Omit<P2PMessage, "sig">>({
-              v: PROTOCOL_VERSION,
-              type: "response",
-              from: myPublicKey,
-              encryptPub: identity.encryptPub,
-              ephemeralPub: responseEphemeral?.publicKey,
-              session: msg.session,
-              payload: encryptedResponse,
-              requestId: msg.requestId,
-              nonce: randomBytes(16).toString("hex"),
-              ts: Date.now(),
-            });
-
-						const responseJson = JSON.stringify(response);
-						onLog(
-							`[handleConnection] Sending response message (${responseJson.length} chars), requestId: ${msg.requestId?.slice(0, 8)}...`,
-						);
-						const writeResult = socket.write(`${responseJson}\n`);
-						onLog(`[handleConnection] socket.write returned: ${writeResult}`);
-						onLog(
-							`Sent AI response to ${shortKey(msg.from)} (requestId: ${msg.requestId?.slice(0, 8)}...)`,
-						);
-					} else {
-						// No inject handler - send ack for backwards compatibility
-						onLog(`[handleConnection] No inject handler, sending ack instead`);
-						const ack = signMessage<Omit<P2PMessage, "sig">>({
-							v: PROTOCOL_VERSION,
-							type: "ack",
-							from: myPublicKey,
-							session: msg.session,
-							nonce: randomBytes(16).toString("hex"),
-							ts: Date.now(),
-						});
-						socket.write(`${JSON.stringify(ack)}\n`);
-						onLog(`Delivered to ${msg.session} (no inject handler)`);
-					}
-				}
-			} catch (err: unknown) {
-				onLog(`[handleConnection] ERROR: ${msg.type} failed: ${err}`);
-				const reject = signMessage<Omit<P2PMessage, "sig">>({
-					v: PROTOCOL_VERSION,
-					type: "reject",
-					from: myPublicKey,
-					session: msg.session,
-					reason: `${msg.type} failed`,
-					nonce: randomBytes(16).toString("hex"),
-					ts: Date.now(),
-				});
-				socket.write(`${JSON.stringify(reject)}\n`);
-			}
-		}
-	});
+          }
+        }
+      } catch (err: unknown) {
+        onLog(`[handleConnection] ERROR: ${msg.type} failed: ${err}`);
+        reply("reject", msg, { reason: `${msg.type} failed` });
+      }
+    }
+  }
 }
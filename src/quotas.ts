@@ -0,0 +1,156 @@
+/**
+ * P2P Inject Quotas
+ *
+ * Daily budgets on what a peer's injects may cost: how many injects, how
+ * long the AI spends answering them, and how many response characters it
+ * produces. A peer's budget is set on its grant, falling back to the
+ * `injectQuota` config. An inject is counted when it is admitted, or when
+ * it is approved if it had to wait for approval; time and characters are
+ * recorded once the AI has answered, so the inject that crosses a limit
+ * still completes and the next one is refused.
+ *
+ * Usage is counted per UTC day and persisted so restarts do not reset it.
+ */
+
+import { getP2PConfig } from "./config.js";
+import type { P2PQuotaUsageRow } from "./storage-schema.js";
+import { getGrantForPeer } from "./trust.js";
+import type { InjectQuota, InjectUsage, StorageApi } from "./types.js";
+
+// Module-level storage reference and cache
+let _storage: StorageApi | null = null;
+const _usage: Map<string, InjectUsage> = new Map();
+// Last write queued for each peer, so writes land in order
+const _writes: Map<string, Promise<void>> = new Map();
+
+export function setQuotaStorage(storage: StorageApi): void {
+  _storage = storage;
+}
+
+/**
+ * Restore today's usage. Rows from earlier days are dropped.
+ */
+export async function loadQuotaUsage(): Promise<void> {
+  if (!_storage) return;
+  const repo = _storage.getRepository<P2PQuotaUsageRow>("p2p", "quota_usage");
+  const rows: P2PQuotaUsageRow[] = await repo.findMany();
+  const day = today();
+  _usage.clear();
+  for (const row of rows) {
+    if (row.day !== day) {
+      repo.delete(row.id).catch(() => {});
+      continue;
+    }
+    _usage.set(row.id, {
+      day: row.day,
+      injects: row.injects,
+      processingMs: row.processingMs,
+      responseChars: row.responseChars,
+    });
+  }
+}
+
+/**
+ * Queue a write of a peer's usage behind any still in flight, so two
+ * writes cannot both find no row and both insert one.
+ */
+function persistUsage(peerKey: string): void {
+  if (!_storage) return;
+  const write = (_writes.get(peerKey) ?? Promise.resolve()).then(() => writeUsage(peerKey)).catch(() => {});
+  _writes.set(peerKey, write);
+  write.then(() => {
+    if (_writes.get(peerKey) === write) _writes.delete(peerKey);
+  });
+}
+
+async function writeUsage(peerKey: string): Promise<void> {
+  const usage = _usage.get(peerKey);
+  if (!_storage || !usage) return;
+  const repo = _storage.getRepository<P2PQuotaUsageRow>("p2p", "quota_usage");
+  if (await repo.findById(peerKey)) {
+    await repo.update(peerKey, { ...usage });
+  } else {
+    await repo.insert({ id: peerKey, ...usage });
+  }
+}
+
+function today(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Usage is kept under the grant's current key, so a peer that rotates
+ * its key keeps its count.
+ */
+function usageKey(peerKey: string): string {
+  return getGrantForPeer(peerKey)?.peerKey || peerKey;
+}
+
+function currentUsage(key: string, now = Date.now()): InjectUsage {
+  const day = today(now);
+  let usage = _usage.get(key);
+  if (!usage || usage.day !== day) {
+    usage = { day, injects: 0, processingMs: 0, responseChars: 0 };
+    _usage.set(key, usage);
+  }
+  return usage;
+}
+
+/**
+ * The daily budget that applies to a peer, if any.
+ */
+export function getInjectQuota(peerKey: string): InjectQuota | undefined {
+  return getGrantForPeer(peerKey)?.quota ?? getP2PConfig().injectQuota;
+}
+
+/**
+ * What a peer has used of its budget today.
+ */
+export function getInjectUsage(peerKey: string, now = Date.now()): InjectUsage {
+  return { ...currentUsage(usageKey(peerKey), now) };
+}
+
+/**
+ * Check if a peer has used up any part of its budget for today.
+ */
+export function isQuotaExceeded(peerKey: string, now = Date.now()): boolean {
+  const quota = getInjectQuota(peerKey);
+  if (!quota) return false;
+  const usage = currentUsage(usageKey(peerKey), now);
+  return (
+    (quota.injectsPerDay !== undefined && usage.injects >= quota.injectsPerDay) ||
+    (quota.processingMsPerDay !== undefined && usage.processingMs >= quota.processingMsPerDay) ||
+    (quota.responseCharsPerDay !== undefined && usage.responseChars >= quota.responseCharsPerDay)
+  );
+}
+
+/**
+ * Count an inject against the peer's budget. Returns false, without
+ * counting it, if the budget is used up.
+ */
+export function admitInject(peerKey: string): boolean {
+  if (isQuotaExceeded(peerKey)) return false;
+  const key = usageKey(peerKey);
+  const usage = currentUsage(key);
+  usage.injects++;
+  persistUsage(key);
+  return true;
+}
+
+/**
+ * Record the AI time and response size of an answered inject.
+ */
+export function recordInjectUsage(peerKey: string, processingMs: number, responseChars: number): void {
+  const key = usageKey(peerKey);
+  const usage = currentUsage(key);
+  usage.processingMs += processingMs;
+  usage.responseChars += responseChars;
+  persistUsage(key);
+}
+
+/**
+ * Clear all usage (for testing).
+ */
+export function resetQuotaUsage(): void {
+  _usage.clear();
+}
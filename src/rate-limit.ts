@@ -1,36 +1,161 @@
 /**
  * P2P Rate Limiting and Replay Protection
+ *
+ * Limits are resolved per peer and action: built-in defaults, then the
+ * plugin's `rateLimits` config, then a friend's own rate limit, then the
+ * `peerRateLimits` config for that peer. Bans are persisted so they
+ * survive restarts.
+ *
+ * Replay protection remembers each sender's nonces for as long as their
+ * message timestamps are inside the replay window, persisted the same way.
  */
 
-import type { RateLimitConfig, RateLimits, ReplayState } from "./types.js";
+import { getP2PConfig } from "./config.js";
+import { getFriend } from "./friends.js";
+import { recordRateLimitHit, recordReplayDrop } from "./metrics.js";
+import { incrementStat } from "./stats.js";
+import type { P2PBanRow, P2PNonceRow } from "./storage-schema.js";
+import type { RateLimitBan, RateLimitConfig, RateLimits, ReplayState, StorageApi } from "./types.js";
 
 const DEFAULT_LIMITS: Record<string, RateLimitConfig> = {
   injects: { maxPerMinute: 10, maxPerHour: 100, banDurationMs: 3600000 },
+  logs: { maxPerMinute: 30, maxPerHour: 300, banDurationMs: 3600000 },
+  files: { maxPerMinute: 10, maxPerHour: 60, banDurationMs: 3600000 }, // File offers; chunks ride on an accepted offer
+  tools: { maxPerMinute: 30, maxPerHour: 300, banDurationMs: 3600000 }, // Remote tool calls and listings
   claims: { maxPerMinute: 5, maxPerHour: 20, banDurationMs: 3600000 },
   invalidMessages: { maxPerMinute: 3, maxPerHour: 10, banDurationMs: 7200000 },
 };
 
 const rateLimits: RateLimits = {};
 
+// Module-level storage reference
+let _storage: StorageApi | null = null;
+
+export function setRateLimitStorage(storage: StorageApi): void {
+  _storage = storage;
+}
+
+/**
+ * Restore persisted bans that have not yet run out.
+ */
+export async function loadBans(): Promise<void> {
+  if (!_storage) return;
+  const repo = _storage.getRepository<P2PBanRow>("p2p", "bans");
+  const rows: P2PBanRow[] = await repo.findMany();
+  const now = Date.now();
+  for (const row of rows) {
+    if (row.until <= now) {
+      repo.delete(row.id).catch(() => {});
+      continue;
+    }
+    getActionState(row.peerKey, row.action).banned = row.until;
+  }
+}
+
+function getActionState(peerKey: string, action: string) {
+  if (!rateLimits[peerKey]) {
+    rateLimits[peerKey] = {};
+  }
+  if (!rateLimits[peerKey][action]) {
+    rateLimits[peerKey][action] = { minute: [], hour: [] };
+  }
+  return rateLimits[peerKey][action];
+}
+
+// Which friend rate limit field applies to each action
+const FRIEND_LIMIT_FIELDS: Record<string, "messagesPerMinute" | "injectsPerMinute"> = {
+  logs: "messagesPerMinute",
+  injects: "injectsPerMinute",
+};
+
+/**
+ * The limits that apply to one peer for one action.
+ */
+export function getRateLimitConfig(peerKey: string, action: string): RateLimitConfig {
+  const config = getP2PConfig();
+  let limits: RateLimitConfig = {
+    ...(DEFAULT_LIMITS[action] || DEFAULT_LIMITS.injects),
+    ...config.rateLimits?.[action],
+  };
+
+  // A friend's per-minute limit also scales the hourly limit to match
+  const field = FRIEND_LIMIT_FIELDS[action];
+  const perMinute = field && getFriend(peerKey)?.rateLimit?.[field];
+  if (perMinute) {
+    limits = {
+      ...limits,
+      maxPerMinute: perMinute,
+      maxPerHour: Math.round((limits.maxPerHour * perMinute) / limits.maxPerMinute),
+    };
+  }
+
+  return { ...limits, ...config.peerRateLimits?.[peerKey]?.[action] };
+}
+
+async function persistBan(peerKey: string, action: string, until: number): Promise<void> {
+  if (!_storage) return;
+  const repo = _storage.getRepository<P2PBanRow>("p2p", "bans");
+  const id = `${peerKey}:${action}`;
+  if (await repo.findById(id)) {
+    await repo.update(id, { until });
+  } else {
+    await repo.insert({ id, peerKey, action, until });
+  }
+}
+
+/**
+ * List peers that are currently banned, soonest expiry first.
+ */
+export function getBans(): RateLimitBan[] {
+  const now = Date.now();
+  const bans: RateLimitBan[] = [];
+  for (const [peerKey, actions] of Object.entries(rateLimits)) {
+    for (const [action, state] of Object.entries(actions)) {
+      if (state.banned && state.banned > now) {
+        bans.push({ peerKey, action, until: state.banned });
+      }
+    }
+  }
+  return bans.sort((a, b) => a.until - b.until);
+}
+
+/**
+ * Lift a peer's bans, for one action or all of them, and clear their
+ * request history so they start fresh. Returns the number of bans lifted.
+ */
+export function unbanPeer(peerKey: string, action?: string): number {
+  const actions = rateLimits[peerKey];
+  if (!actions) return 0;
+
+  const now = Date.now();
+  let lifted = 0;
+  for (const [name, state] of Object.entries(actions)) {
+    if (action && name !== action) continue;
+    if (state.banned && state.banned > now) {
+      lifted++;
+    }
+    delete actions[name];
+    _storage
+      ?.getRepository<P2PBanRow>("p2p", "bans")
+      .delete(`${peerKey}:${name}`)
+      .catch(() => {});
+  }
+  return lifted;
+}
+
 export function getRateLimiter() {
   return {
     check(peerKey: string, action: string): boolean {
-      const config = DEFAULT_LIMITS[action] || DEFAULT_LIMITS.injects;
+      const config = getRateLimitConfig(peerKey, action);
       const now = Date.now();
       const minuteAgo = now - 60000;
       const hourAgo = now - 3600000;
 
-      if (!rateLimits[peerKey]) {
-        rateLimits[peerKey] = {};
-      }
-      if (!rateLimits[peerKey][action]) {
-        rateLimits[peerKey][action] = { minute: [], hour: [] };
-      }
-
-      const state = rateLimits[peerKey][action];
+      const state = getActionState(peerKey, action);
 
       // Check if banned
       if (state.banned && state.banned > now) {
+        recordRateLimitHit(peerKey, action);
         return false;
       }
 
@@ -41,6 +166,8 @@ export function getRateLimiter() {
       // Check limits
       if (state.minute.length >= config.maxPerMinute || state.hour.length >= config.maxPerHour) {
         state.banned = now + config.banDurationMs;
+        persistBan(peerKey, action, state.banned).catch(() => {});
+        recordRateLimitHit(peerKey, action);
         return false;
       }
 
@@ -59,49 +186,114 @@ export function getRateLimiter() {
 
 // Replay protection
 const replayState: ReplayState = {
-  nonces: new Set(),
-  timestamps: [],
+  senders: new Map(),
+  lastPrune: 0,
 };
 
 const REPLAY_WINDOW_MS = 300000; // 5 minutes
-const MAX_NONCES = 10000;
+const MAX_NONCES_PER_SENDER = 10000;
+const PRUNE_INTERVAL_MS = 30000;
+
+/**
+ * Restore nonces that are still inside the replay window, so messages seen
+ * before a restart cannot be replayed after it.
+ */
+export async function loadNonces(): Promise<void> {
+  if (!_storage) return;
+  const repo = _storage.getRepository<P2PNonceRow>("p2p", "nonces");
+  const rows: P2PNonceRow[] = await repo.findMany();
+  const cutoff = Date.now() - REPLAY_WINDOW_MS;
+  for (const row of rows.sort((a, b) => a.seenAt - b.seenAt)) {
+    if (row.ts >= cutoff) {
+      getSenderNonces(row.sender).set(row.nonce, row.ts);
+    }
+  }
+  await _storage.raw(`DELETE FROM p2p_nonces WHERE ts < ?`, [cutoff]);
+}
+
+function getSenderNonces(sender: string): Map<string, number> {
+  let nonces = replayState.senders.get(sender);
+  if (!nonces) {
+    nonces = new Map();
+    replayState.senders.set(sender, nonces);
+  }
+  return nonces;
+}
+
+/**
+ * Evict nonces whose message timestamp has left the replay window. A replay
+ * of one of those would fail the timestamp check anyway.
+ */
+function pruneNonces(now: number): void {
+  const cutoff = now - REPLAY_WINDOW_MS;
+  for (const [sender, nonces] of replayState.senders) {
+    for (const [nonce, ts] of nonces) {
+      if (ts < cutoff) {
+        nonces.delete(nonce);
+      }
+    }
+    if (nonces.size === 0) {
+      replayState.senders.delete(sender);
+    }
+  }
+  replayState.lastPrune = now;
+  _storage?.raw(`DELETE FROM p2p_nonces WHERE ts < ?`, [cutoff]).catch(() => {});
+}
+
+function persistNonce(sender: string, nonce: string, ts: number, seenAt: number): void {
+  if (!_storage) return;
+  // Fire async write
+  const repo = _storage.getRepository<P2PNonceRow>("p2p", "nonces");
+  repo.insert({ id: `${sender}:${nonce}`, sender, nonce, ts, seenAt }).catch(() => {});
+}
 
 export function getReplayProtector() {
   return {
-    check(nonce: string, timestamp: number): boolean {
+    /**
+     * Accept a message's nonce once per sender, and only while its
+     * timestamp is within the replay window.
+     */
+    check(nonce: string, timestamp: number, sender = ""): boolean {
       const now = Date.now();
 
       // Check timestamp is within window
       if (Math.abs(now - timestamp) > REPLAY_WINDOW_MS) {
+        incrementStat("staleMessagesRejected");
+        recordReplayDrop(sender, "stale");
         return false;
       }
 
+      if (now - replayState.lastPrune > PRUNE_INTERVAL_MS) {
+        pruneNonces(now);
+      }
+
       // Check nonce hasn't been seen
-      if (replayState.nonces.has(nonce)) {
+      const nonces = getSenderNonces(sender);
+      if (nonces.has(nonce)) {
+        incrementStat("replaysRejected");
+        recordReplayDrop(sender, "replay");
         return false;
       }
 
-      // Record nonce
-      replayState.nonces.add(nonce);
-      replayState.timestamps.push(now);
-
-			// Cleanup old nonces periodically
-			if (replayState.nonces.size > MAX_NONCES) {
-				const _cutoff = now - REPLAY_WINDOW_MS;
-				const _newNonces = new Set<string>();
-				const _newTimestamps: number[] = [];
-
-        // Keep only recent entries (simplified cleanup)
-        replayState.nonces.clear();
-        replayState.timestamps.length = 0;
+      // A sender that fills its window is refused rather than evicting
+      // nonces that could still be replayed
+      if (nonces.size >= MAX_NONCES_PER_SENDER) {
+        pruneNonces(now);
+        if (nonces.size >= MAX_NONCES_PER_SENDER) {
+          recordReplayDrop(sender, "window full");
+          return false;
+        }
       }
 
+      // Record nonce
+      nonces.set(nonce, timestamp);
+      persistNonce(sender, nonce, timestamp, now);
       return true;
     },
 
     reset(): void {
-      replayState.nonces.clear();
-      replayState.timestamps.length = 0;
+      replayState.senders.clear();
+      replayState.lastPrune = 0;
     },
   };
 }
@@ -0,0 +1,89 @@
+/**
+ * P2P Remote Tools (receiver side)
+ *
+ * A2A tools this node exports to peers. A peer can call an exported tool
+ * with a tool-call message if its grant has the "tools" capability and the
+ * tool is on its allowlist (see setAllowedTools in trust.ts). Arguments are
+ * validated against the tool's inputSchema before the handler runs.
+ *
+ * Tools are exported by name from this plugin's own tools (`exportedTools`
+ * config) or by other plugins through the p2p extension.
+ */
+
+import { z } from "zod";
+import { canCallTool, getAllowedTools } from "./trust.js";
+import type { A2AToolResult, P2PToolDefinition, RemoteToolInfo } from "./types.js";
+
+// Exported tools by name, with their compiled argument schema
+const exportedTools: Map<string, { tool: P2PToolDefinition; schema: z.ZodType }> = new Map();
+
+/**
+ * Export a tool to peers. Replaces an exported tool with the same name.
+ * Throws if the tool's input schema cannot be compiled.
+ */
+export function exportTool(tool: P2PToolDefinition): void {
+  const schema = z.fromJSONSchema((tool.inputSchema || { type: "object" }) as Parameters<typeof z.fromJSONSchema>[0]);
+  exportedTools.set(tool.name, { tool, schema });
+}
+
+export function unexportTool(name: string): boolean {
+  return exportedTools.delete(name);
+}
+
+export function getExportedTools(): P2PToolDefinition[] {
+  return Array.from(exportedTools.values()).map((e) => e.tool);
+}
+
+/**
+ * Exported tools a peer may call.
+ */
+export function getToolsForPeer(peerKey: string): RemoteToolInfo[] {
+  const allowed = getAllowedTools(peerKey);
+  return getExportedTools()
+    .filter((t) => allowed.includes("*") || allowed.includes(t.name))
+    .map((t) => ({
+      name: t.name,
+      description: t.description,
+      inputSchema: (t.inputSchema || { type: "object" }) as Record<string, unknown>,
+    }));
+}
+
+/**
+ * Run an exported tool for a peer. Returns the tool result, or the reason
+ * the call was refused. A tool that is not exported and one the peer may
+ * not call get the same answer, so peers cannot probe for tools.
+ */
+export async function runRemoteToolCall(
+  peerKey: string,
+  call: unknown,
+): Promise<{ result: A2AToolResult } | { reason: string }> {
+  const parsed = z.object({ tool: z.string(), args: z.record(z.string(), z.unknown()).default({}) }).safeParse(call);
+  if (!parsed.success) {
+    return { reason: "invalid tool call" };
+  }
+
+  const { tool: name, args } = parsed.data;
+  const entry = exportedTools.get(name);
+  if (!entry || !canCallTool(peerKey, name)) {
+    return { reason: "tool not available" };
+  }
+
+  const valid = entry.schema.safeParse(args);
+  if (!valid.success) {
+    const issue = valid.error.issues[0];
+    return { reason: `invalid arguments: ${issue.path.join(".") || "args"}: ${issue.message}` };
+  }
+
+  try {
+    return { result: await entry.tool.handler(valid.data as Record<string, unknown>) };
+  } catch {
+    return { reason: "tool failed" };
+  }
+}
+
+/**
+ * Remove all exported tools (for testing).
+ */
+export function resetExportedTools(): void {
+  exportedTools.clear();
+}
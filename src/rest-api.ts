@@ -0,0 +1,715 @@
+/**
+ * P2P REST API (v1)
+ *
+ * Versioned JSON API on the local UI server for peers, grants, invites,
+ * friends, pending friend requests, discovery topics and the discovery
+ * profile. Every request needs the bearer token stored in the data
+ * directory, and browsers may only call it from the configured WOPR web UI
+ * origin (`webUiOrigin`). Request bodies are validated with zod.
+ *
+ * `GET /api/v1/events` streams live P2P activity as Server-Sent Events.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import type http from "node:http";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+import { approveInject, denyInject, getPendingInjects } from "./approvals.js";
+import { getP2PConfig } from "./config.js";
+import {
+  getDiscoveredPeers,
+  getProfile,
+  getTopics,
+  joinTopic,
+  leaveTopic,
+  notifyGrantUpdate,
+  updateProfile,
+} from "./discovery.js";
+import { getRecentEvents, onP2PEvent } from "./events.js";
+import {
+  acceptPendingRequest,
+  denyPendingRequest,
+  getFriend,
+  getFriends,
+  getPendingIncomingRequests,
+  getPendingOutgoingRequests,
+  grantFriendCap,
+  removeFriend,
+  revokeFriendCap,
+} from "./friends.js";
+import { createInviteToken, shortKey } from "./identity.js";
+import { claimToken } from "./p2p.js";
+import { getInjectQuota, getInjectUsage } from "./quotas.js";
+import {
+  addPeer,
+  findPeer,
+  getAccessGrants,
+  getPeers,
+  getSessionCaps,
+  grantSessionCaps,
+  isGrantActive,
+  namePeer,
+  revokePeer,
+} from "./trust.js";
+import type { AccessGrant, P2PEvent } from "./types.js";
+import { EXIT_OK } from "./types.js";
+
+export const API_PREFIX = "/api/v1";
+
+const MAX_BODY_SIZE = 64 * 1024;
+const EVENTS_PATH = "/events";
+const SSE_HEARTBEAT_MS = 15000;
+
+let apiToken: string | null = null;
+
+// Resolve data directory (same logic as trust.ts/friends.ts)
+function getTokenPath(): string {
+  const dataDir =
+    process.env.WOPR_P2P_DATA_DIR || (existsSync("/data") ? "/data/p2p" : join(homedir(), ".wopr", "p2p"));
+  return join(dataDir, "api-token");
+}
+
+/**
+ * The API bearer token, generated on first use and kept in the data
+ * directory (mode 0600) so local tools can read it.
+ */
+export function getApiToken(): string {
+  if (apiToken) return apiToken;
+
+  const path = getTokenPath();
+  if (existsSync(path)) {
+    const stored = readFileSync(path, "utf-8").trim();
+    if (stored) {
+      apiToken = stored;
+      return apiToken;
+    }
+  }
+
+  apiToken = randomBytes(32).toString("hex");
+  mkdirSync(join(path, ".."), { recursive: true });
+  writeFileSync(path, `${apiToken}\n`, { mode: 0o600 });
+  return apiToken;
+}
+
+/**
+ * Forget the cached token (for testing).
+ */
+export function resetApiToken(): void {
+  apiToken = null;
+}
+
+/**
+ * Allow cross-origin requests from the WOPR web UI only. Requests from any
+ * other origin get no CORS headers, so browsers block the response.
+ */
+export function applyCors(req: http.IncomingMessage, res: http.ServerResponse): void {
+  const allowed = getP2PConfig().webUiOrigin;
+  res.setHeader("Vary", "Origin");
+  if (allowed && req.headers.origin === allowed) {
+    res.setHeader("Access-Control-Allow-Origin", allowed);
+    res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type, Last-Event-ID");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  }
+}
+
+function bearerToken(req: http.IncomingMessage): string | null {
+  const header = req.headers.authorization || "";
+  return header.startsWith("Bearer ") ? header.slice(7).trim() : null;
+}
+
+function tokenMatches(token: string | null): boolean {
+  if (!token) return false;
+  // Compare digests so the comparison does not leak the token length
+  const given = createHash("sha256").update(token).digest();
+  const expected = createHash("sha256").update(getApiToken()).digest();
+  return timingSafeEqual(given, expected);
+}
+
+/**
+ * Check a request's bearer token. Routes outside /api/v1 that expose peer
+ * data, such as /metrics, use this too.
+ */
+export function hasApiToken(req: http.IncomingMessage): boolean {
+  return tokenMatches(bearerToken(req));
+}
+
+function isAuthorized(req: http.IncomingMessage, url: URL): boolean {
+  let token = bearerToken(req);
+  // EventSource cannot set headers, so the event stream also takes ?token=
+  if (token === null && url.pathname === API_PREFIX + EVENTS_PATH) {
+    token = url.searchParams.get("token");
+  }
+  return tokenMatches(token);
+}
+
+interface ApiRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+interface Route {
+  method: "GET" | "POST" | "DELETE";
+  path: string; // Segments starting with ":" are parameters
+  handler: (req: ApiRequest) => ApiResponse | Promise<ApiResponse>;
+}
+
+function ok(body: unknown): ApiResponse {
+  return { status: 200, body };
+}
+
+function fail(status: number, error: string): ApiResponse {
+  return { status, body: { error } };
+}
+
+/**
+ * Validate a request body. Returns the parsed value or a 400 response.
+ */
+function parseBody<T>(schema: z.ZodType<T>, body: unknown): T | ApiResponse {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    return {
+      status: 400,
+      body: {
+        error: "Invalid request body",
+        issues: result.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+      },
+    };
+  }
+  return result.data;
+}
+
+function isResponse(value: unknown): value is ApiResponse {
+  return typeof value === "object" && value !== null && "status" in value && "body" in value;
+}
+
+// Request bodies
+const GrantBody = z
+  .object({
+    peer: z.string().min(1),
+    sessions: z.array(z.string().min(1)).min(1).optional(),
+    caps: z.array(z.string().min(1)).min(1).optional(),
+    sessionCaps: z.record(z.string().min(1), z.array(z.string().min(1))).optional(),
+    expiresInHours: z.number().positive().optional(),
+    windows: z.array(z.object({ days: z.array(z.number().int()), start: z.string(), end: z.string() })).optional(),
+  })
+  .refine((b) => b.sessions || (b.sessionCaps && Object.keys(b.sessionCaps).length > 0), {
+    message: "sessions or sessionCaps is required",
+    path: ["sessions"],
+  });
+
+const NamePeerBody = z.object({
+  name: z.string().min(1).max(64),
+});
+
+const InviteBody = z.object({
+  forPubkey: z.string().min(1),
+  sessions: z.array(z.string().min(1)).min(1),
+  expireHours: z.number().positive().optional(),
+  expiresInHours: z.number().positive().optional(),
+});
+
+const ClaimBody = z.object({
+  token: z.string().startsWith("wop1://"),
+  timeoutMs: z.number().int().positive().max(60000).optional(),
+});
+
+const FriendCapBody = z.object({
+  cap: z.enum(["message", "inject"]),
+});
+
+const TopicBody = z.object({
+  topic: z.string().min(1).max(200),
+});
+
+const ProfileBody = z.object({
+  content: z.record(z.string(), z.unknown()),
+});
+
+/**
+ * Carry out an approval decision. Injects cannot be decided while the
+ * listener is down.
+ */
+function decideInject(decide: () => unknown, jobId: string): ApiResponse {
+  try {
+    return decide() ? ok({ success: true, jobId }) : fail(404, `No pending inject: ${jobId}`);
+  } catch (err: unknown) {
+    return fail(503, err instanceof Error ? err.message : String(err));
+  }
+}
+
+function peerView(p: ReturnType<typeof getPeers>[number]) {
+  return {
+    id: p.id,
+    name: p.name,
+    publicKey: p.publicKey,
+    sessions: p.sessions,
+    caps: p.caps,
+    added: new Date(p.added).toISOString(),
+  };
+}
+
+const routes: Route[] = [
+  // Peers
+  {
+    method: "GET",
+    path: "/peers",
+    handler: () => ok({ peers: getPeers().map(peerView) }),
+  },
+  {
+    method: "POST",
+    path: "/peers/:peer/name",
+    handler: ({ params, body }) => {
+      const parsed = parseBody(NamePeerBody, body);
+      if (isResponse(parsed)) return parsed;
+      const peer = findPeer(params.peer);
+      if (!peer) return fail(404, `Peer not found: ${params.peer}`);
+      namePeer(peer.publicKey, parsed.name);
+      return ok({ success: true, peer: peerView(peer) });
+    },
+  },
+
+  // Grants
+  {
+    method: "GET",
+    path: "/grants",
+    handler: ({ query }) => {
+      const grants = getAccessGrants();
+      const filtered = query.get("includeRevoked") === "true" ? grants : grants.filter((g) => !g.revoked);
+      return ok({
+        grants: filtered.map((g) => ({
+          id: g.id,
+          peerKey: g.peerKey,
+          name: g.peerName,
+          sessions: g.sessions,
+          caps: g.caps,
+          sessionCaps: getSessionCaps(g),
+          revoked: g.revoked || false,
+          active: isGrantActive(g),
+          quota: getInjectQuota(g.peerKey) ?? null,
+          usage: getInjectUsage(g.peerKey),
+          requireApproval: g.requireApproval || false,
+          expiresAt: g.expiresAt ? new Date(g.expiresAt).toISOString() : undefined,
+          windows: g.windows,
+          created: new Date(g.created).toISOString(),
+        })),
+      });
+    },
+  },
+  {
+    method: "POST",
+    path: "/grants",
+    handler: ({ body }) => {
+      const parsed = parseBody(GrantBody, body);
+      if (isResponse(parsed)) return parsed;
+      const peerKey = findPeer(parsed.peer)?.publicKey || parsed.peer;
+      const caps = parsed.caps || ["inject"];
+      const sessionCaps = {
+        ...Object.fromEntries((parsed.sessions || []).map((s) => [s, caps])),
+        ...parsed.sessionCaps,
+      };
+      let grant: AccessGrant;
+      try {
+        grant = grantSessionCaps(peerKey, sessionCaps, undefined, {
+          expiresAt: parsed.expiresInHours ? Date.now() + parsed.expiresInHours * 3600000 : undefined,
+          windows: parsed.windows,
+        });
+      } catch (err: unknown) {
+        return fail(400, err instanceof Error ? err.message : String(err));
+      }
+      addPeer(peerKey, Object.keys(sessionCaps), Array.from(new Set(Object.values(sessionCaps).flat())));
+      const notified = notifyGrantUpdate(peerKey, grant.sessions, grant.expiresAt);
+      return {
+        status: 201,
+        body: {
+          success: true,
+          grantId: grant.id,
+          peer: shortKey(peerKey),
+          sessions: grant.sessions,
+          caps: grant.caps,
+          sessionCaps: getSessionCaps(grant),
+          expiresAt: grant.expiresAt ? new Date(grant.expiresAt).toISOString() : undefined,
+          windows: grant.windows,
+          notified,
+        },
+      };
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/grants/:peer",
+    handler: ({ params }) => {
+      try {
+        revokePeer(params.peer);
+      } catch (err: unknown) {
+        return fail(404, err instanceof Error ? err.message : String(err));
+      }
+      return ok({ success: true, peer: params.peer });
+    },
+  },
+
+  // Invites
+  {
+    method: "POST",
+    path: "/invites",
+    handler: ({ body }) => {
+      const parsed = parseBody(InviteBody, body);
+      if (isResponse(parsed)) return parsed;
+      const expireHours = parsed.expireHours || 168;
+      try {
+        const token = createInviteToken(parsed.forPubkey, parsed.sessions, expireHours, parsed.expiresInHours);
+        return {
+          status: 201,
+          body: {
+            token,
+            forPeer: shortKey(parsed.forPubkey),
+            sessions: parsed.sessions,
+            expiresIn: `${expireHours} hours`,
+          },
+        };
+      } catch (err: unknown) {
+        return fail(400, `Failed to create invite: ${err instanceof Error ? err.message : err}`);
+      }
+    },
+  },
+  {
+    method: "POST",
+    path: "/invites/claim",
+    handler: async ({ body }) => {
+      const parsed = parseBody(ClaimBody, body);
+      if (isResponse(parsed)) return parsed;
+      const result = await claimToken(parsed.token, parsed.timeoutMs || 10000);
+      if (result.code !== EXIT_OK) {
+        return fail(502, `Claim failed: ${result.message}`);
+      }
+      return ok({ success: true, peerKey: result.peerKey, sessions: result.sessions, caps: result.caps });
+    },
+  },
+
+  // Friends
+  {
+    method: "GET",
+    path: "/friends",
+    handler: () =>
+      ok({
+        friends: getFriends().map((f) => ({
+          name: f.name,
+          publicKey: f.publicKey,
+          sessionName: f.sessionName,
+          caps: f.caps,
+          channel: f.channel,
+          addedAt: new Date(f.addedAt).toISOString(),
+        })),
+      }),
+  },
+  {
+    method: "DELETE",
+    path: "/friends/:friend",
+    handler: ({ params }) =>
+      removeFriend(params.friend)
+        ? ok({ success: true, friend: params.friend })
+        : fail(404, `Friend not found: ${params.friend}`),
+  },
+  {
+    method: "POST",
+    path: "/friends/:friend/caps",
+    handler: ({ params, body }) => {
+      const parsed = parseBody(FriendCapBody, body);
+      if (isResponse(parsed)) return parsed;
+      if (!grantFriendCap(params.friend, parsed.cap)) {
+        return fail(404, `Friend not found: ${params.friend}`);
+      }
+      return ok({ success: true, caps: getFriend(params.friend)?.caps });
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/friends/:friend/caps/:cap",
+    handler: ({ params }) => {
+      if (!revokeFriendCap(params.friend, params.cap)) {
+        return fail(404, `Friend not found: ${params.friend}`);
+      }
+      return ok({ success: true, caps: getFriend(params.friend)?.caps });
+    },
+  },
+
+  // Pending friend requests
+  {
+    method: "GET",
+    path: "/pending",
+    handler: () =>
+      ok({
+        incoming: getPendingIncomingRequests().map((p) => ({
+          from: p.request.from,
+          pubkey: p.request.pubkey,
+          channel: p.channel,
+          receivedAt: new Date(p.receivedAt).toISOString(),
+        })),
+        outgoing: getPendingOutgoingRequests().map((p) => ({
+          to: p.request.to,
+          channel: p.channel,
+          sentAt: new Date(p.sentAt).toISOString(),
+        })),
+      }),
+  },
+  {
+    method: "POST",
+    path: "/pending/:from/accept",
+    handler: ({ params }) => {
+      const result = acceptPendingRequest(params.from);
+      if (!result) return fail(404, `No pending friend request from ${params.from}`);
+      return ok({
+        success: true,
+        friend: { name: result.friend.name, sessionName: result.friend.sessionName, caps: result.friend.caps },
+      });
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/pending/:from",
+    handler: ({ params }) =>
+      denyPendingRequest(params.from)
+        ? ok({ success: true, from: params.from })
+        : fail(404, `No pending friend request from ${params.from}`),
+  },
+
+  // Injects waiting for approval
+  {
+    method: "GET",
+    path: "/injects/pending",
+    handler: () =>
+      ok({
+        pending: getPendingInjects().map((p) => ({
+          jobId: p.id,
+          peerKey: p.peerKey,
+          name: findPeer(p.peerKey)?.name,
+          session: p.session,
+          message: p.message,
+          receivedAt: new Date(p.created).toISOString(),
+          expiresAt: new Date(p.expiresAt).toISOString(),
+        })),
+      }),
+  },
+  {
+    method: "POST",
+    path: "/injects/pending/:jobId/approve",
+    handler: ({ params }) => decideInject(() => approveInject(params.jobId), params.jobId),
+  },
+  {
+    method: "DELETE",
+    path: "/injects/pending/:jobId",
+    handler: ({ params }) => decideInject(() => denyInject(params.jobId), params.jobId),
+  },
+
+  // Discovery topics and profile
+  {
+    method: "GET",
+    path: "/topics",
+    handler: () => ok({ topics: getTopics() }),
+  },
+  {
+    method: "POST",
+    path: "/topics",
+    handler: async ({ body }) => {
+      const parsed = parseBody(TopicBody, body);
+      if (isResponse(parsed)) return parsed;
+      try {
+        await joinTopic(parsed.topic);
+      } catch (err: unknown) {
+        return fail(503, err instanceof Error ? err.message : String(err));
+      }
+      return { status: 201, body: { success: true, topic: parsed.topic, topics: getTopics() } };
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/topics/:topic",
+    handler: async ({ params }) => {
+      await leaveTopic(params.topic);
+      return ok({ success: true, topic: params.topic, topics: getTopics() });
+    },
+  },
+  {
+    method: "GET",
+    path: "/topics/:topic/peers",
+    handler: ({ params }) => ok({ peers: getDiscoveredPeers(params.topic) }),
+  },
+  {
+    method: "GET",
+    path: "/profile",
+    handler: () => {
+      const profile = getProfile();
+      return profile ? ok({ profile }) : fail(503, "Discovery not initialized");
+    },
+  },
+  {
+    method: "POST",
+    path: "/profile",
+    handler: ({ body }) => {
+      const parsed = parseBody(ProfileBody, body);
+      if (isResponse(parsed)) return parsed;
+      const profile = updateProfile(parsed.content);
+      return profile ? ok({ profile }) : fail(503, "Discovery not initialized");
+    },
+  },
+];
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function matchRoute(method: string, path: string): { route: Route; params: Record<string, string> } | null {
+  const segments = path.split("/").filter(Boolean);
+  for (const route of routes) {
+    if (route.method !== method) continue;
+    const pattern = route.path.split("/").filter(Boolean);
+    if (pattern.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matched = pattern.every((part, i) => {
+      if (part.startsWith(":")) {
+        params[part.slice(1)] = safeDecode(segments[i]);
+        return true;
+      }
+      return part === segments[i];
+    });
+    if (matched) return { route, params };
+  }
+  return null;
+}
+
+function readBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf-8");
+      if (!text) {
+        resolve({});
+        return;
+      }
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new Error("Invalid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function send(res: http.ServerResponse, response: ApiResponse): void {
+  res.statusCode = response.status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(response.body));
+}
+
+function writeEvent(res: http.ServerResponse, event: P2PEvent): void {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Stream events as Server-Sent Events until the client disconnects.
+ * `?types=a,b` limits the stream to those event types. A reconnecting
+ * client gets the events it missed since `Last-Event-ID`, as far back as
+ * the bus history goes.
+ */
+function streamEvents(req: http.IncomingMessage, res: http.ServerResponse, query: URLSearchParams): void {
+  const types = query.get("types")?.split(",").filter(Boolean);
+  const wanted = (event: P2PEvent) => !types?.length || types.includes(event.type);
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.write("retry: 3000\n\n");
+
+  const lastId = Number(req.headers["last-event-id"] ?? query.get("lastEventId"));
+  if (Number.isInteger(lastId) && lastId > 0) {
+    for (const event of getRecentEvents(lastId)) {
+      if (wanted(event)) writeEvent(res, event);
+    }
+  }
+
+  const unsubscribe = onP2PEvent((event) => {
+    if (wanted(event)) writeEvent(res, event);
+  });
+
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+  heartbeat.unref();
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
+
+/**
+ * Handle a request under /api/v1.
+ */
+export async function handleApiRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  applyCors(req, res);
+
+  // CORS preflight carries no credentials
+  if (req.method === "OPTIONS") {
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || "/", "http://localhost");
+  if (!isAuthorized(req, url)) {
+    res.setHeader("WWW-Authenticate", "Bearer");
+    send(res, fail(401, "Unauthorized"));
+    return;
+  }
+
+  const path = url.pathname.slice(API_PREFIX.length);
+  if (req.method === "GET" && path === EVENTS_PATH) {
+    streamEvents(req, res, url.searchParams);
+    return;
+  }
+  const match = matchRoute(req.method || "GET", path);
+  if (!match) {
+    send(res, fail(404, "Not found"));
+    return;
+  }
+
+  let body: unknown = {};
+  if (req.method === "POST") {
+    try {
+      body = await readBody(req);
+    } catch (err: unknown) {
+      send(res, fail(400, err instanceof Error ? err.message : String(err)));
+      return;
+    }
+  }
+
+  try {
+    send(res, await match.route.handler({ params: match.params, query: url.searchParams, body }));
+  } catch (_err: unknown) {
+    send(res, fail(500, "Internal error"));
+  }
+}
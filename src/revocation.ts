@@ -0,0 +1,65 @@
+/**
+ * P2P Key Revocation
+ *
+ * Publishes a revocation certificate (see createRevocationCertificate) to
+ * every known peer and friend. Each drops its grants and friend entries for
+ * the key and refuses any later rotation from it. The certificate is
+ * applied here too, which also covers a peer's certificate handed to us out
+ * of band.
+ */
+
+import { getFriends, removeFriend } from "./friends.js";
+import { getIdentity, isIdentityLocked, parseRevocationCertificate, shortKey } from "./identity.js";
+import { sendKeyRevocation } from "./p2p.js";
+import { getPeers, isKeyRevoked, processKeyRevocation } from "./trust.js";
+import type { RevocationPublishResult } from "./types.js";
+import { EXIT_OK } from "./types.js";
+
+/**
+ * Apply a wopr-revoke1:// certificate and send it to every known peer and
+ * friend. Throws without changing anything if the certificate is malformed
+ * or does not verify, or no identity is loaded to connect to peers with.
+ */
+export async function publishKeyRevocation(certStr: string, timeoutMs = 10000): Promise<RevocationPublishResult> {
+  const cert = parseRevocationCertificate(certStr);
+
+  // Connections are opened with our identity. Any identity will do, since
+  // the certificate carries the revoked key's own signature.
+  if (!getIdentity()) {
+    throw new Error(
+      isIdentityLocked()
+        ? "Identity is locked. Unlock it to publish the revocation."
+        : "No identity to connect to peers with. Create one (wopr p2p id) to publish the revocation.",
+    );
+  }
+
+  const affected = processKeyRevocation(cert) ?? [];
+  for (const key of affected) {
+    removeFriend(key);
+  }
+
+  const recipients = new Set([...getPeers().map((p) => p.publicKey), ...getFriends().map((f) => f.publicKey)]);
+  for (const key of recipients) {
+    if (affected.includes(key) || isKeyRevoked(key)) {
+      recipients.delete(key);
+    }
+  }
+
+  const keys = Array.from(recipients);
+  const results = await Promise.all(keys.map((key) => sendKeyRevocation(key, cert, timeoutMs)));
+
+  const result: RevocationPublishResult = {
+    revokedKey: shortKey(cert.revokedKey),
+    rotatedKeys: affected.filter((key) => key !== cert.revokedKey).map(shortKey),
+    delivered: [],
+    failed: {},
+  };
+  keys.forEach((key, i) => {
+    if (results[i].code === EXIT_OK) {
+      result.delivered.push(shortKey(key));
+    } else {
+      result.failed[shortKey(key)] = results[i].message || "failed";
+    }
+  });
+  return result;
+}
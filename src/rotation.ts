@@ -0,0 +1,269 @@
+/**
+ * P2P Key Rotation Campaigns
+ *
+ * A rotation only helps if every peer and friend hears about it before its
+ * grace period ends; after that they reject the old key and do not know the
+ * new one. A campaign tracks delivery of one rotation to each of them,
+ * retrying offline recipients with backoff until the grace period ends.
+ * While it runs, the listener also answers on the old key's topic, so peers
+ * still dialing the old key reach us and get the rotation when seen.
+ *
+ * Campaigns are persisted so retries survive restarts.
+ */
+
+import type Hyperswarm from "hyperswarm";
+import { emitP2PEvent } from "./events.js";
+import { getFriends } from "./friends.js";
+import { getTopic, shortKey } from "./identity.js";
+import { sendKeyRotation } from "./p2p.js";
+import type { P2PRotationCampaignRow } from "./storage-schema.js";
+import { getPeers } from "./trust.js";
+import type { KeyRotation, RotationCampaign, RotationDelivery, RotationDeliveryStatus, StorageApi } from "./types.js";
+import { EXIT_OFFLINE, EXIT_OK, EXIT_PEER_OFFLINE, EXIT_RATE_LIMITED } from "./types.js";
+
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+const ROTATION_POLL_MS = 30 * 1000;
+const SEND_TIMEOUT_MS = 10000;
+const MAX_CAMPAIGNS = 10;
+
+// Module-level storage reference and cache
+let _storage: StorageApi | null = null;
+let _campaigns: RotationCampaign[] = [];
+
+// "<campaign id>:<peer key>" for deliveries with a send in progress
+const inFlight: Set<string> = new Set();
+
+export function setRotationStorage(storage: StorageApi): void {
+  _storage = storage;
+}
+
+export async function loadRotationCampaigns(): Promise<void> {
+  if (!_storage) return;
+  const repo = _storage.getRepository<P2PRotationCampaignRow>("p2p", "rotation_campaigns");
+  const rows: P2PRotationCampaignRow[] = await repo.findMany();
+  _campaigns = rows
+    .map((row) => ({
+      id: row.id,
+      rotation: JSON.parse(row.rotationJson) as KeyRotation,
+      recipients: row.recipients.map((r) => ({ ...r, status: r.status as RotationDeliveryStatus })),
+      created: row.created,
+      deadline: row.deadline,
+    }))
+    .sort((a, b) => a.created - b.created);
+}
+
+function persistCampaign(campaign: RotationCampaign, isNew = false): void {
+  if (!_storage) return;
+  // Fire async write
+  const repo = _storage.getRepository<P2PRotationCampaignRow>("p2p", "rotation_campaigns");
+  const row = {
+    id: campaign.id,
+    rotationJson: JSON.stringify(campaign.rotation),
+    recipients: campaign.recipients,
+    created: campaign.created,
+    deadline: campaign.deadline,
+  };
+  (isNew ? repo.insert(row) : repo.update(row.id, row)).catch(() => {});
+}
+
+/**
+ * Every known peer and friend, once each.
+ */
+function rotationRecipients(rotation: KeyRotation): RotationDelivery[] {
+  const now = Date.now();
+  const recipients = new Map<string, RotationDelivery>();
+  const add = (peerKey: string, name?: string) => {
+    if (peerKey === rotation.oldSignPub || peerKey === rotation.newSignPub) return;
+    const existing = recipients.get(peerKey);
+    if (existing) {
+      existing.name ??= name;
+      return;
+    }
+    recipients.set(peerKey, { peerKey, name, status: "pending", attempts: 0, nextAttempt: now });
+  };
+  for (const peer of getPeers()) {
+    add(peer.publicKey, peer.name);
+  }
+  for (const friend of getFriends()) {
+    add(friend.publicKey, friend.name);
+  }
+  return Array.from(recipients.values());
+}
+
+/**
+ * Start announcing a rotation to every known peer and friend. Delivery
+ * happens on the next processRotationCampaigns() pass.
+ */
+export function startRotationCampaign(rotation: KeyRotation): RotationCampaign {
+  const campaign: RotationCampaign = {
+    id: shortKey(rotation.newSignPub),
+    rotation,
+    recipients: rotationRecipients(rotation),
+    created: Date.now(),
+    deadline: rotation.effectiveAt + rotation.gracePeriodMs,
+  };
+  _campaigns.push(campaign);
+  persistCampaign(campaign, true);
+
+  // Keep only the most recent campaigns
+  while (_campaigns.length > MAX_CAMPAIGNS) {
+    const dropped = _campaigns.shift();
+    if (dropped) {
+      _storage
+        ?.getRepository<P2PRotationCampaignRow>("p2p", "rotation_campaigns")
+        .delete(dropped.id)
+        .catch(() => {});
+    }
+  }
+  return campaign;
+}
+
+function settle(campaign: RotationCampaign, delivery: RotationDelivery, status: RotationDeliveryStatus): void {
+  delivery.status = status;
+  emitP2PEvent({ type: "rotation-delivery", campaignId: campaign.id, peer: delivery.peerKey, status });
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Send the rotation to one recipient and record the outcome.
+ */
+async function deliver(campaign: RotationCampaign, delivery: RotationDelivery): Promise<void> {
+  const key = `${campaign.id}:${delivery.peerKey}`;
+  if (inFlight.has(key)) return;
+  inFlight.add(key);
+  try {
+    const result = await sendKeyRotation(delivery.peerKey, campaign.rotation, SEND_TIMEOUT_MS);
+    const now = Date.now();
+    delivery.attempts++;
+
+    if (result.code === EXIT_OK) {
+      delivery.deliveredAt = now;
+      delivery.lastError = undefined;
+      settle(campaign, delivery, "delivered");
+    } else if (result.code === EXIT_OFFLINE || result.code === EXIT_PEER_OFFLINE || result.code === EXIT_RATE_LIMITED) {
+      delivery.lastError = result.message;
+      if (now >= campaign.deadline) {
+        settle(campaign, delivery, "expired");
+      } else {
+        delivery.nextAttempt = now + retryDelay(delivery.attempts);
+      }
+    } else {
+      // Rejected or invalid - retrying will not help
+      delivery.lastError = result.message;
+      settle(campaign, delivery, "rejected");
+    }
+    persistCampaign(campaign);
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+/**
+ * Send every due delivery and expire those past the grace period. A
+ * recipient that missed an earlier rotation gets that one first, since it
+ * cannot verify a later one without it.
+ */
+export async function processRotationCampaigns(): Promise<void> {
+  const now = Date.now();
+  const scheduled = new Set<string>();
+  const sends: Promise<void>[] = [];
+
+  for (const campaign of _campaigns) {
+    let expired = false;
+    for (const delivery of campaign.recipients) {
+      if (delivery.status !== "pending") continue;
+      if (now >= campaign.deadline) {
+        delivery.lastError ??= "grace period ended";
+        settle(campaign, delivery, "expired");
+        expired = true;
+        continue;
+      }
+      if (scheduled.has(delivery.peerKey)) continue;
+      scheduled.add(delivery.peerKey);
+      if (delivery.nextAttempt <= now) {
+        sends.push(deliver(campaign, delivery));
+      }
+    }
+    if (expired) {
+      persistCampaign(campaign);
+    }
+  }
+
+  await Promise.all(sends);
+}
+
+/**
+ * Retry a recipient right away, e.g. when it is seen online.
+ */
+export function flushRotationForPeer(peerKey: string): void {
+  const now = Date.now();
+  for (const campaign of _campaigns) {
+    const delivery = campaign.recipients.find((r) => r.peerKey === peerKey && r.status === "pending");
+    if (delivery && now < campaign.deadline) {
+      delivery.nextAttempt = now;
+      deliver(campaign, delivery).catch(() => {});
+      return;
+    }
+  }
+}
+
+/**
+ * Start the periodic retry loop. Returns a function that stops it.
+ */
+export function startRotationWorker(): () => void {
+  const timer = setInterval(() => {
+    processRotationCampaigns().catch(() => {});
+  }, ROTATION_POLL_MS);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Listen on the topics of keys rotated away from within their grace
+ * period, so peers that still dial them reach us. Returns those keys.
+ */
+export function joinRotatedTopics(swarm: Hyperswarm): string[] {
+  const now = Date.now();
+  const keys = [...new Set(_campaigns.filter((c) => now < c.deadline).map((c) => c.rotation.oldSignPub))];
+  for (const key of keys) {
+    swarm.join(getTopic(key), { server: true, client: false });
+  }
+  return keys;
+}
+
+/**
+ * List campaigns, oldest first.
+ */
+export function getRotationCampaigns(): RotationCampaign[] {
+  return [..._campaigns];
+}
+
+/**
+ * Look up a campaign by id, or the latest one.
+ */
+export function getRotationCampaign(id?: string): RotationCampaign | undefined {
+  return id ? _campaigns.find((c) => c.id === id) : _campaigns[_campaigns.length - 1];
+}
+
+/**
+ * Count a campaign's recipients by delivery status.
+ */
+export function countDeliveries(campaign: RotationCampaign): Record<RotationDeliveryStatus, number> {
+  const counts: Record<RotationDeliveryStatus, number> = { pending: 0, delivered: 0, rejected: 0, expired: 0 };
+  for (const delivery of campaign.recipients) {
+    counts[delivery.status]++;
+  }
+  return counts;
+}
+
+/**
+ * Clear all campaigns (for testing).
+ */
+export function resetRotationCampaigns(): void {
+  _campaigns = [];
+  inFlight.clear();
+}
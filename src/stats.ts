@@ -1,18 +1,23 @@
 /**
  * In-memory P2P statistics collector.
  *
- * Tracks messages relayed, connections, and bandwidth for WebMCP reporting.
+ * Tracks messages relayed, connections, rejected replays, and bandwidth
+ * for WebMCP reporting.
  */
 
 export interface P2PStats {
   messagesRelayed: number;
   connectionsTotal: number;
+  replaysRejected: number; // Messages whose nonce was already seen from that sender
+  staleMessagesRejected: number; // Messages with a timestamp outside the replay window
   startedAt: number;
 }
 
 let stats: P2PStats = {
   messagesRelayed: 0,
   connectionsTotal: 0,
+  replaysRejected: 0,
+  staleMessagesRejected: 0,
   startedAt: Date.now(),
 };
 
@@ -28,6 +33,8 @@ export function resetStats(): void {
   stats = {
     messagesRelayed: 0,
     connectionsTotal: 0,
+    replaysRejected: 0,
+    staleMessagesRejected: 0,
     startedAt: Date.now(),
   };
 }
@@ -1,4 +1,4 @@
-import { existsSync, readFileSync, renameSync } from "node:fs";
+import { existsSync, readFileSync, renameSync, rmSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
 import { shortKey } from "./identity.js";
@@ -201,3 +201,20 @@ export async function migrateJsonToSql(storage: StorageApi, log: (msg: string) =
     log(`No JSON files to migrate (fresh install or already migrated)`);
   }
 }
+
+/**
+ * Delete identity.json and its migration backup, which hold the private
+ * keys in the clear. Call once the keys are sealed in storage. Returns the
+ * files removed.
+ */
+export function removePlaintextIdentityFiles(): string[] {
+  const removed: string[] = [];
+  for (const name of ["identity.json", "identity.json.backup"]) {
+    const file = join(getDataDir(), name);
+    if (existsSync(file)) {
+      rmSync(file);
+      removed.push(file);
+    }
+  }
+  return removed;
+}
@@ -36,6 +36,8 @@ export const P2PPeerSchema = z.object({
       }),
     )
     .optional(),
+  verified: z.number().optional(), // SQLite stores boolean as 0/1, use number
+  verifiedAt: z.number().optional(),
 });
 
 export const P2PAccessGrantSchema = z.object({
@@ -45,6 +47,18 @@ export const P2PAccessGrantSchema = z.object({
   peerEncryptPub: z.string().optional(),
   sessions: z.array(z.string()),
   caps: z.array(z.string()),
+  sessionCaps: z.record(z.string(), z.array(z.string())).optional(), // Caps by session pattern
+  tools: z.array(z.string()).optional(), // Remote tool allowlist
+  expiresAt: z.number().optional(),
+  windows: z.array(z.object({ days: z.array(z.number()), start: z.string(), end: z.string() })).optional(),
+  quota: z
+    .object({
+      injectsPerDay: z.number().optional(),
+      processingMsPerDay: z.number().optional(),
+      responseCharsPerDay: z.number().optional(),
+    })
+    .optional(),
+  requireApproval: z.number().optional(), // SQLite stores boolean as 0/1, use number
   created: z.number(),
   revoked: z.number().optional(), // SQLite stores boolean as 0/1, use number
   keyHistory: z
@@ -69,6 +83,14 @@ export const P2PFriendSchema = z.object({
   addedAt: z.number(),
   caps: z.array(z.string()),
   channel: z.string(),
+  rateLimit: z
+    .object({
+      messagesPerMinute: z.number(),
+      injectsPerMinute: z.number().optional(),
+    })
+    .optional(),
+  verified: z.number().optional(), // SQLite stores boolean as 0/1, use number
+  verifiedAt: z.number().optional(),
 });
 
 export const P2PPendingRequestSchema = z.object({
@@ -86,6 +108,110 @@ export const P2PAutoAcceptSchema = z.object({
   addedAt: z.number(),
 });
 
+export const P2POutboxSchema = z.object({
+  id: z.string(), // Message id, reused as msgId on every retry
+  peerKey: z.string(),
+  session: z.string(),
+  kind: z.string(), // "log" or "inject"
+  message: z.string(),
+  status: z.string(), // "pending" or "failed"
+  attempts: z.number(),
+  created: z.number(),
+  nextAttempt: z.number(),
+  lastError: z.string().optional(),
+  replySession: z.string().optional(),
+});
+
+export const P2PDeliveredSchema = z.object({
+  id: z.string(), // "{senderKey}:{msgId}"
+  from: z.string(),
+  msgId: z.string(),
+  receivedAt: z.number(),
+});
+
+export const P2PInjectJobSchema = z.object({
+  id: z.string(), // Job id, echoed by the peer when it dials back
+  peerKey: z.string(),
+  session: z.string(),
+  message: z.string(),
+  status: z.string(), // "pending", "complete", "failed", or "expired"
+  created: z.number(),
+  updated: z.number(),
+  response: z.string().optional(),
+  error: z.string().optional(),
+  replySession: z.string().optional(),
+});
+
+export const P2PPendingInjectSchema = z.object({
+  id: z.string(), // Local id the owner decides by
+  jobId: z.string(), // Job id sent back to the requester
+  peerKey: z.string(),
+  session: z.string(),
+  message: z.string(),
+  traceId: z.string(),
+  hops: z.number(),
+  created: z.number(),
+  expiresAt: z.number(),
+});
+
+export const P2PBanSchema = z.object({
+  id: z.string(), // "{peerKey}:{action}"
+  peerKey: z.string(),
+  action: z.string(),
+  until: z.number(),
+});
+
+export const P2PQuotaUsageSchema = z.object({
+  id: z.string(), // Peer public key
+  day: z.string(), // UTC date the counts are for
+  injects: z.number(),
+  processingMs: z.number(),
+  responseChars: z.number(),
+});
+
+export const P2PNonceSchema = z.object({
+  id: z.string(), // "{sender}:{nonce}"
+  sender: z.string(),
+  nonce: z.string(),
+  ts: z.number(), // Message timestamp; the nonce is dropped once it leaves the replay window
+  seenAt: z.number(),
+});
+
+export const P2PGroupSchema = z.object({
+  id: z.string(), // Lowercased group name
+  name: z.string(),
+  members: z.array(z.string()), // Peer public keys, JSON array stored as TEXT
+  created: z.number(),
+  updated: z.number(),
+});
+
+export const P2PRotationCampaignSchema = z.object({
+  id: z.string(), // Short ID of the new key
+  rotationJson: z.string(), // Signed KeyRotation
+  recipients: z.array(
+    z.object({
+      // JSON array stored as TEXT
+      peerKey: z.string(),
+      name: z.string().optional(),
+      status: z.string(), // "pending" | "delivered" | "rejected" | "expired"
+      attempts: z.number(),
+      nextAttempt: z.number(),
+      deliveredAt: z.number().optional(),
+      lastError: z.string().optional(),
+    }),
+  ),
+  created: z.number(),
+  deadline: z.number(),
+});
+
+export const P2PRevokedKeySchema = z.object({
+  id: z.string(), // Revoked public key
+  reason: z.string(),
+  revokedAt: z.number(), // When the certificate was created
+  receivedAt: z.number(),
+  certificate: z.string(), // wopr-revoke1:// token, so it can be passed on
+});
+
 // ============================================
 // PluginSchema registration
 // ============================================
@@ -123,6 +249,53 @@ export const p2pPluginSchema: PluginSchema = {
       primaryKey: "id",
       indexes: [{ fields: ["pattern"], unique: true }],
     },
+    outbox: {
+      schema: P2POutboxSchema,
+      primaryKey: "id",
+      indexes: [{ fields: ["peerKey"] }, { fields: ["status"] }],
+    },
+    delivered: {
+      schema: P2PDeliveredSchema,
+      primaryKey: "id",
+      indexes: [{ fields: ["receivedAt"] }],
+    },
+    inject_jobs: {
+      schema: P2PInjectJobSchema,
+      primaryKey: "id",
+      indexes: [{ fields: ["status"] }, { fields: ["created"] }],
+    },
+    pending_injects: {
+      schema: P2PPendingInjectSchema,
+      primaryKey: "id",
+      indexes: [{ fields: ["expiresAt"] }],
+    },
+    bans: {
+      schema: P2PBanSchema,
+      primaryKey: "id",
+      indexes: [{ fields: ["peerKey"] }],
+    },
+    quota_usage: {
+      schema: P2PQuotaUsageSchema,
+      primaryKey: "id",
+    },
+    nonces: {
+      schema: P2PNonceSchema,
+      primaryKey: "id",
+      indexes: [{ fields: ["ts"] }],
+    },
+    groups: {
+      schema: P2PGroupSchema,
+      primaryKey: "id",
+    },
+    rotation_campaigns: {
+      schema: P2PRotationCampaignSchema,
+      primaryKey: "id",
+      indexes: [{ fields: ["deadline"] }],
+    },
+    revoked_keys: {
+      schema: P2PRevokedKeySchema,
+      primaryKey: "id",
+    },
   },
   // Migration callback for v0 -> v1 (reads JSON, inserts into SQL)
   // This is called by core's storage.register() when version changes
@@ -137,3 +310,13 @@ export type P2PAccessGrantRow = z.infer<typeof P2PAccessGrantSchema>;
 export type P2PFriendRow = z.infer<typeof P2PFriendSchema>;
 export type P2PPendingRequestRow = z.infer<typeof P2PPendingRequestSchema>;
 export type P2PAutoAcceptRow = z.infer<typeof P2PAutoAcceptSchema>;
+export type P2POutboxRow = z.infer<typeof P2POutboxSchema>;
+export type P2PDeliveredRow = z.infer<typeof P2PDeliveredSchema>;
+export type P2PInjectJobRow = z.infer<typeof P2PInjectJobSchema>;
+export type P2PPendingInjectRow = z.infer<typeof P2PPendingInjectSchema>;
+export type P2PBanRow = z.infer<typeof P2PBanSchema>;
+export type P2PQuotaUsageRow = z.infer<typeof P2PQuotaUsageSchema>;
+export type P2PNonceRow = z.infer<typeof P2PNonceSchema>;
+export type P2PGroupRow = z.infer<typeof P2PGroupSchema>;
+export type P2PRotationCampaignRow = z.infer<typeof P2PRotationCampaignSchema>;
+export type P2PRevokedKeyRow = z.infer<typeof P2PRevokedKeySchema>;
@@ -0,0 +1,96 @@
+/**
+ * P2P Inject Tracing
+ *
+ * Every inject carries a signed trace id and hop count. A node remembers
+ * which traces it is taking part in (sending or processing an inject), so
+ * an inject that comes back around a chain of peers (A -> B -> C -> A) is
+ * rejected as a loop, and chains that grow past the hop limit are cut off.
+ */
+
+import { randomBytes } from "node:crypto";
+import { getP2PConfig } from "./config.js";
+
+const DEFAULT_MAX_HOPS = 4;
+
+export interface InjectTrace {
+  traceId: string;
+  hops: number; // Number of peer-to-peer forwards before this inject
+}
+
+// Traces this node is sending or processing, with a count of each
+const activeTraces: Map<string, number> = new Map();
+
+// Trace of the inbound inject each local session is processing
+const sessionTraces: Map<string, InjectTrace> = new Map();
+
+/**
+ * Start a new trace for an inject that did not come from a peer.
+ */
+export function newTrace(): InjectTrace {
+  return { traceId: randomBytes(16).toString("hex"), hops: 0 };
+}
+
+/**
+ * The trace to attach to an inject sent while processing `trace`.
+ */
+export function nextHop(trace: InjectTrace): InjectTrace {
+  return { traceId: trace.traceId, hops: trace.hops + 1 };
+}
+
+export function getMaxHops(): number {
+  return getP2PConfig().maxHops ?? DEFAULT_MAX_HOPS;
+}
+
+/**
+ * Check an inbound inject's trace. Returns the reject reason, or null if
+ * the inject may be processed.
+ */
+export function checkInboundTrace(trace: InjectTrace): "loop detected" | "hop limit" | null {
+  if (activeTraces.has(trace.traceId)) {
+    return "loop detected";
+  }
+  if (trace.hops >= getMaxHops()) {
+    return "hop limit";
+  }
+  return null;
+}
+
+/**
+ * Mark a trace as in progress on this node. Call endTrace() when done.
+ */
+export function beginTrace(traceId: string): void {
+  activeTraces.set(traceId, (activeTraces.get(traceId) || 0) + 1);
+}
+
+export function endTrace(traceId: string): void {
+  const count = (activeTraces.get(traceId) || 0) - 1;
+  if (count > 0) {
+    activeTraces.set(traceId, count);
+  } else {
+    activeTraces.delete(traceId);
+  }
+}
+
+/**
+ * Remember the trace a session is processing, so injects the session
+ * sends meanwhile continue it.
+ */
+export function setSessionTrace(session: string, trace: InjectTrace): void {
+  sessionTraces.set(session, trace);
+}
+
+export function clearSessionTrace(session: string): void {
+  sessionTraces.delete(session);
+}
+
+export function getSessionTrace(session: string): InjectTrace | undefined {
+  return sessionTraces.get(session);
+}
+
+/**
+ * Clear all trace state (for testing).
+ */
+export function resetTraces(): void {
+  activeTraces.clear();
+  sessionTraces.clear();
+}
@@ -4,14 +4,39 @@
  * Handles access grants, peer management, and key rotation.
  */
 
-import { getIdentity, initIdentity, parseInviteToken, shortKey, verifyKeyRotation } from "./identity.js";
-import type { P2PAccessGrantRow, P2PPeerRow } from "./storage-schema.js";
-import type { AccessGrant, KeyHistory, KeyRotation, Peer, StorageApi } from "./types.js";
+import { emitP2PEvent } from "./events.js";
+import {
+  formatRevocationCertificate,
+  getIdentity,
+  initIdentity,
+  parseInviteToken,
+  shortKey,
+  verifyKeyRotation,
+  verifyRevocationCertificate,
+} from "./identity.js";
+import type { P2PAccessGrantRow, P2PPeerRow, P2PRevokedKeyRow } from "./storage-schema.js";
+import type {
+  AccessGrant,
+  GrantWindow,
+  InjectQuota,
+  KeyHistory,
+  KeyRotation,
+  Peer,
+  RevocationCertificate,
+  RevokedKey,
+  StorageApi,
+} from "./types.js";
+
+const GRANT_SWEEP_MS = 60000;
+// Capabilities that let a sender deliver each message type into a session
+const MESSAGE_TYPE_CAPS = { log: ["message", "inject"], inject: ["inject"] };
+const WINDOW_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
 
 // Module-level storage reference and cache
 let _storage: StorageApi | null = null;
 let _grantsCache: AccessGrant[] | null = null;
 let _peersCache: Peer[] | null = null;
+const _revokedKeys: Map<string, RevokedKey> = new Map();
 
 export function setTrustStorage(storage: StorageApi): void {
   _storage = storage;
@@ -23,10 +48,33 @@ export async function loadTrustData(): Promise<void> {
   const peersRepo = _storage.getRepository<P2PPeerRow>("p2p", "peers");
 
   const grantRows = await grantsRepo.findMany();
-  _grantsCache = grantRows.map(rowToAccessGrant);
+  const grants: AccessGrant[] = grantRows.map(rowToAccessGrant);
+  _grantsCache = grants;
+
+  // Rows from before per-session caps: store their sessions x caps as a map
+  if (grants.some((g) => !g.sessionCaps)) {
+    for (const grant of grants) {
+      grant.sessionCaps = getSessionCaps(grant);
+    }
+    saveAccessGrants(grants);
+  }
 
   const peerRows = await peersRepo.findMany();
   _peersCache = peerRows.map(rowToPeer);
+
+  const revokedRows: P2PRevokedKeyRow[] = await _storage
+    .getRepository<P2PRevokedKeyRow>("p2p", "revoked_keys")
+    .findMany();
+  _revokedKeys.clear();
+  for (const row of revokedRows) {
+    _revokedKeys.set(row.id, {
+      publicKey: row.id,
+      reason: row.reason as RevocationCertificate["reason"],
+      revokedAt: row.revokedAt,
+      receivedAt: row.receivedAt,
+      certificate: row.certificate,
+    });
+  }
 }
 
 function rowToAccessGrant(row: P2PAccessGrantRow): AccessGrant {
@@ -40,6 +88,12 @@ function rowToAccessGrant(row: P2PAccessGrantRow): AccessGrant {
     created: row.created,
     revoked: row.revoked ? true : undefined,
     keyHistory: row.keyHistory,
+    sessionCaps: row.sessionCaps,
+    tools: row.tools,
+    expiresAt: row.expiresAt,
+    windows: row.windows,
+    quota: row.quota,
+    requireApproval: row.requireApproval ? true : undefined,
   };
 }
 
@@ -53,6 +107,8 @@ function rowToPeer(row: P2PPeerRow): Peer {
     caps: row.caps,
     added: row.added,
     keyHistory: row.keyHistory,
+    verified: row.verified ? true : undefined,
+    verifiedAt: row.verifiedAt,
   };
 }
 
@@ -89,6 +145,12 @@ async function syncGrantsToStorage(grants: AccessGrant[]): Promise<void> {
       created: grant.created,
       revoked: grant.revoked ? 1 : undefined,
       keyHistory: grant.keyHistory,
+      sessionCaps: getSessionCaps(grant),
+      tools: grant.tools,
+      expiresAt: grant.expiresAt,
+      windows: grant.windows,
+      quota: grant.quota,
+      requireApproval: grant.requireApproval ? 1 : undefined,
     });
   }
 }
@@ -123,38 +185,235 @@ async function syncPeersToStorage(peers: Peer[]): Promise<void> {
       caps: peer.caps,
       added: peer.added,
       keyHistory: peer.keyHistory,
+      verified: peer.verified ? 1 : undefined,
+      verifiedAt: peer.verifiedAt,
     });
   }
 }
 
+function minuteOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check grant windows are well formed. Throws on the first bad one.
+ */
+export function validateGrantWindows(windows: GrantWindow[]): void {
+  for (const w of windows) {
+    if (!Array.isArray(w.days) || w.days.length === 0 || w.days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      throw new Error("Window days must be a non-empty list of 0 (Sunday) to 6 (Saturday)");
+    }
+    if (!WINDOW_TIME_PATTERN.test(w.start) || !WINDOW_TIME_PATTERN.test(w.end)) {
+      throw new Error(`Window times must be HH:MM (got ${w.start}-${w.end})`);
+    }
+  }
+}
+
 /**
- * Check if a sender is authorized for a session.
+ * Check if a time falls inside one of the windows, in local time. A window
+ * that ends before it starts runs past midnight into the next day.
  */
-export function isAuthorized(senderKey: string, session: string): boolean {
+export function inGrantWindow(windows: GrantWindow[], now = Date.now()): boolean {
+  const date = new Date(now);
+  const day = date.getDay();
+  const minute = date.getHours() * 60 + date.getMinutes();
+
+  return windows.some((w) => {
+    const start = minuteOfDay(w.start);
+    const end = minuteOfDay(w.end);
+    if (start < end) {
+      return w.days.includes(day) && minute >= start && minute < end;
+    }
+    return (w.days.includes(day) && minute >= start) || (w.days.includes((day + 6) % 7) && minute < end);
+  });
+}
+
+/**
+ * Check if a grant applies now: not revoked or expired, and inside one of
+ * its windows if it has any.
+ */
+export function isGrantActive(grant: AccessGrant, now = Date.now()): boolean {
+  if (grant.revoked) return false;
+  if (grant.expiresAt !== undefined && now >= grant.expiresAt) return false;
+  return !grant.windows?.length || inGrantWindow(grant.windows, now);
+}
+
+/**
+ * Revoke grants whose expiry has passed. Returns the grants it revoked.
+ */
+export function expireGrants(now = Date.now()): AccessGrant[] {
   const grants = getAccessGrants();
+  const expired = grants.filter((g) => !g.revoked && g.expiresAt !== undefined && now >= g.expiresAt);
+  if (expired.length === 0) return [];
 
-  // Check current key - accept either "inject" or "message" capability
-  const hasMessageCap = (caps: string[]) => caps.includes("inject") || caps.includes("message");
+  for (const grant of expired) {
+    grant.revoked = true;
+  }
+  saveAccessGrants(grants);
+  return expired;
+}
+
+/**
+ * Start the periodic expiry sweep. Returns a function that stops it.
+ */
+export function startGrantSweeper(onExpired: (grant: AccessGrant) => void): () => void {
+  const timer = setInterval(() => {
+    for (const grant of expireGrants()) {
+      onExpired(grant);
+    }
+  }, GRANT_SWEEP_MS);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
 
-  const grant = grants.find(
+/**
+ * Check if a session name matches a grant's session pattern. "*" matches
+ * every session; other patterns may use "*" as a wildcard ("support-*").
+ */
+export function matchesSessionPattern(pattern: string, session: string): boolean {
+  if (pattern === "*" || pattern === session) return true;
+  if (!pattern.includes("*")) return false;
+  const parts = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${parts.join(".*")}$`).test(session);
+}
+
+/**
+ * A grant's capabilities by session pattern. Grants made before the
+ * per-session map give every one of their sessions all of their caps.
+ */
+export function getSessionCaps(grant: AccessGrant): Record<string, string[]> {
+  return grant.sessionCaps ?? Object.fromEntries(grant.sessions.map((s) => [s, grant.caps]));
+}
+
+/**
+ * Capabilities a grant gives in a session, from every pattern it matches.
+ */
+export function capsForSession(grant: AccessGrant, session: string): string[] {
+  const caps = new Set<string>();
+  for (const [pattern, patternCaps] of Object.entries(getSessionCaps(grant))) {
+    if (!matchesSessionPattern(pattern, session)) continue;
+    for (const cap of patternCaps) caps.add(cap);
+  }
+  return Array.from(caps);
+}
+
+/**
+ * Check if a sender may send a message type into a session. A log needs
+ * "message" or "inject" on the session; an inject needs "inject".
+ */
+export function isAuthorized(senderKey: string, session: string, type: "log" | "inject" = "log"): boolean {
+  return hasSessionGrant(senderKey, session, MESSAGE_TYPE_CAPS[type]);
+}
+
+/**
+ * Check if a sender may send files into a session ("files" capability).
+ */
+export function canSendFiles(senderKey: string, session: string): boolean {
+  return hasSessionGrant(senderKey, session, ["files"]);
+}
+
+/**
+ * Check if a sender may call an exported tool: it needs the "tools"
+ * capability and the tool on its allowlist.
+ */
+export function canCallTool(senderKey: string, tool: string): boolean {
+  const now = Date.now();
+  return getAccessGrants().some(
     (g) =>
-      !g.revoked &&
-      g.peerKey === senderKey &&
-      (g.sessions.includes("*") || g.sessions.includes(session)) &&
-      hasMessageCap(g.caps),
+      isGrantActive(g, now) &&
+      g.caps.includes("tools") &&
+      !!g.tools &&
+      (g.tools.includes("*") || g.tools.includes(tool)) &&
+      // Current key, or a rotated key still in its grace period
+      (g.peerKey === senderKey ||
+        !!g.keyHistory?.some((h) => h.publicKey === senderKey && h.validUntil && now < h.validUntil)),
   );
+}
+
+/**
+ * Tools on a sender's allowlist, if it has the "tools" capability.
+ */
+export function getAllowedTools(senderKey: string): string[] {
+  const grant = getGrantForPeer(senderKey);
+  if (!grant || !isGrantActive(grant) || !grant.caps.includes("tools")) return [];
+  return grant.tools || [];
+}
+
+/**
+ * Set which exported tools a peer may call. A non-empty list also grants
+ * the "tools" capability; an empty one removes it. Returns the grant, or
+ * undefined if the peer has no grant.
+ */
+export function setAllowedTools(peerKey: string, tools: string[]): AccessGrant | undefined {
+  const grants = getAccessGrants();
+  const resolvedKey = findPeer(peerKey)?.publicKey || peerKey;
+  const grant = grants.find((g) => g.peerKey === resolvedKey && !g.revoked);
+  if (!grant) return undefined;
+
+  grant.tools = Array.from(new Set(tools));
+  grant.caps =
+    tools.length > 0 ? Array.from(new Set([...grant.caps, "tools"])) : grant.caps.filter((c) => c !== "tools");
+  saveAccessGrants(grants);
+  return grant;
+}
+
+/**
+ * Set a peer's daily inject budget, or clear it to fall back to the
+ * injectQuota config. Returns the grant, or undefined if the peer has no
+ * grant.
+ */
+export function setInjectQuota(peerKey: string, quota: InjectQuota | undefined): AccessGrant | undefined {
+  const grants = getAccessGrants();
+  const resolvedKey = findPeer(peerKey)?.publicKey || peerKey;
+  const grant = grants.find((g) => g.peerKey === resolvedKey && !g.revoked);
+  if (!grant) return undefined;
+
+  grant.quota = quota;
+  saveAccessGrants(grants);
+  return grant;
+}
+
+/**
+ * Set whether a peer's injects must be approved by the owner before they
+ * run. Returns the grant, or undefined if the peer has no grant.
+ */
+export function setRequireApproval(peerKey: string, required: boolean): AccessGrant | undefined {
+  const grants = getAccessGrants();
+  const resolvedKey = findPeer(peerKey)?.publicKey || peerKey;
+  const grant = grants.find((g) => g.peerKey === resolvedKey && !g.revoked);
+  if (!grant) return undefined;
+
+  grant.requireApproval = required || undefined;
+  saveAccessGrants(grants);
+  return grant;
+}
+
+/**
+ * Check if a peer's injects wait for the owner's approval.
+ */
+export function requiresApproval(senderKey: string): boolean {
+  return getGrantForPeer(senderKey)?.requireApproval === true;
+}
+
+function hasSessionGrant(senderKey: string, session: string, acceptedCaps: string[]): boolean {
+  const grants = getAccessGrants();
+  const now = Date.now();
+  const hasCap = (g: AccessGrant) => capsForSession(g, session).some((c) => acceptedCaps.includes(c));
+
+  // Check current key
+  const grant = grants.find((g) => isGrantActive(g, now) && g.peerKey === senderKey && hasCap(g));
 
   if (grant) return true;
 
   // Check key history (for rotated keys in grace period)
   for (const g of grants) {
-    if (g.revoked || !g.keyHistory) continue;
-    if (!g.sessions.includes("*") && !g.sessions.includes(session)) continue;
-    if (!hasMessageCap(g.caps)) continue;
+    if (!isGrantActive(g, now) || !g.keyHistory) continue;
+    if (!hasCap(g)) continue;
 
     for (const history of g.keyHistory) {
       if (history.publicKey === senderKey) {
-        if (history.validUntil && Date.now() < history.validUntil) {
+        if (history.validUntil && now < history.validUntil) {
           return true;
         }
       }
@@ -271,7 +530,47 @@ export function namePeer(idOrKey: string, name: string): void {
   savePeers(peers);
 }
 
-export function grantAccess(peerKey: string, sessions: string[], caps: string[], encryptPub?: string): AccessGrant {
+/**
+ * Mark a peer's key as verified (its safety number was confirmed out of
+ * band), or clear the mark. Returns false if there is no such peer.
+ */
+export function setPeerVerified(idOrKey: string, verified: boolean): boolean {
+  const peers = getPeers();
+  const peer = peers.find((p) => p.id === idOrKey || p.publicKey === idOrKey);
+  if (!peer) return false;
+
+  peer.verified = verified || undefined;
+  peer.verifiedAt = verified ? Date.now() : undefined;
+  savePeers(peers);
+  return true;
+}
+
+/**
+ * Grant a peer the same capabilities on each of the sessions.
+ */
+export function grantAccess(
+  peerKey: string,
+  sessions: string[],
+  caps: string[],
+  encryptPub?: string,
+  limits: Pick<AccessGrant, "expiresAt" | "windows"> = {},
+): AccessGrant {
+  return grantSessionCaps(peerKey, Object.fromEntries(sessions.map((s) => [s, caps])), encryptPub, limits);
+}
+
+/**
+ * Grant a peer capabilities per session pattern, e.g. { "support-*":
+ * ["inject"], main: ["message"] }. Merged into the peer's existing grant.
+ */
+export function grantSessionCaps(
+  peerKey: string,
+  sessionCaps: Record<string, string[]>,
+  encryptPub?: string,
+  limits: Pick<AccessGrant, "expiresAt" | "windows"> = {},
+): AccessGrant {
+  if (limits.windows) validateGrantWindows(limits.windows);
+  const sessions = Object.keys(sessionCaps);
+  const caps = Array.from(new Set(Object.values(sessionCaps).flat()));
   const grants = getAccessGrants();
 
   // Resolve short ID to full public key if needed
@@ -287,9 +586,16 @@ export function grantAccess(peerKey: string, sessions: string[], caps: string[],
   // Find existing grant by resolved key
   const existing = grants.find((g) => g.peerKey === resolvedKey && !g.revoked);
   if (existing) {
+    const merged = { ...getSessionCaps(existing) };
+    for (const [pattern, patternCaps] of Object.entries(sessionCaps)) {
+      merged[pattern] = Array.from(new Set([...(merged[pattern] || []), ...patternCaps]));
+    }
+    existing.sessionCaps = merged;
     existing.sessions = Array.from(new Set([...existing.sessions, ...sessions]));
     existing.caps = Array.from(new Set([...existing.caps, ...caps]));
     if (encryptPub) existing.peerEncryptPub = encryptPub;
+    if (limits.expiresAt !== undefined) existing.expiresAt = limits.expiresAt;
+    if (limits.windows) existing.windows = limits.windows;
     saveAccessGrants(grants);
     return existing;
   }
@@ -300,7 +606,9 @@ export function grantAccess(peerKey: string, sessions: string[], caps: string[],
     peerEncryptPub: encryptPub,
     sessions,
     caps,
+    sessionCaps,
     created: Date.now(),
+    ...limits,
   };
 
   grants.push(grant);
@@ -339,6 +647,10 @@ export function addPeer(publicKey: string, sessions: string[], caps: string[], e
  * Process a key rotation message from a peer.
  */
 export function processPeerKeyRotation(rotation: KeyRotation): boolean {
+  // A stolen key must not be able to move a peer to the thief's key
+  if (isKeyRevoked(rotation.oldSignPub) || isKeyRevoked(rotation.newSignPub)) {
+    return false;
+  }
   if (!verifyKeyRotation(rotation)) {
     return false;
   }
@@ -388,12 +700,77 @@ export function processPeerKeyRotation(rotation: KeyRotation): boolean {
     peer.encryptPub = rotation.newEncryptPub;
     peer.id = shortKey(rotation.newSignPub);
 
+    // The safety number was for the old key
+    if (peer.verified) {
+      peer.verified = undefined;
+      peer.verifiedAt = undefined;
+      emitP2PEvent({ type: "verification-cleared", contact: "peer", key: peer.publicKey, name: peer.name });
+    }
+
     savePeers(peers);
   }
 
   return grantIdx !== -1 || peerIdx !== -1;
 }
 
+/**
+ * Check if a key has been declared dead by a revocation certificate.
+ */
+export function isKeyRevoked(publicKey: string): boolean {
+  return _revokedKeys.has(publicKey);
+}
+
+export function getRevokedKeys(): RevokedKey[] {
+  return Array.from(_revokedKeys.values());
+}
+
+/**
+ * Apply a revocation certificate: remember the key as revoked and revoke
+ * every active grant for it, or for a key a peer rotated to from it.
+ * Returns the keys affected (friend entries for them should go too), or
+ * undefined if the certificate does not verify.
+ */
+export function processKeyRevocation(cert: RevocationCertificate): string[] | undefined {
+  if (!verifyRevocationCertificate(cert)) {
+    return undefined;
+  }
+
+  const key = cert.revokedKey;
+  if (!_revokedKeys.has(key)) {
+    const revoked: RevokedKey = {
+      publicKey: key,
+      reason: cert.reason,
+      revokedAt: cert.created,
+      receivedAt: Date.now(),
+      certificate: formatRevocationCertificate(cert),
+    };
+    _revokedKeys.set(key, revoked);
+    _storage
+      ?.getRepository<P2PRevokedKeyRow>("p2p", "revoked_keys")
+      .insert({
+        id: key,
+        reason: revoked.reason,
+        revokedAt: revoked.revokedAt,
+        receivedAt: revoked.receivedAt,
+        certificate: revoked.certificate,
+      })
+      .catch(() => {});
+    emitP2PEvent({ type: "key-revoked", key, reason: cert.reason });
+  }
+
+  const usedKey = (current: string, history?: KeyHistory[]) =>
+    current === key || (history?.some((h) => h.publicKey === key) ?? false);
+  const affected = new Set<string>([key]);
+  for (const grant of getAccessGrants().filter((g) => !g.revoked && usedKey(g.peerKey, g.keyHistory))) {
+    revokePeer(grant.id);
+    affected.add(grant.peerKey);
+  }
+  for (const peer of getPeers().filter((p) => usedKey(p.publicKey, p.keyHistory))) {
+    affected.add(peer.publicKey);
+  }
+  return Array.from(affected);
+}
+
 /**
  * Clean up expired key history entries.
  */
@@ -31,10 +31,13 @@ export const EXIT_RATE_LIMITED = 4;
 export const EXIT_VERSION_MISMATCH = 5;
 export const EXIT_PEER_OFFLINE = 6;
 export const EXIT_UNAUTHORIZED = 7;
+export const EXIT_QUOTA_EXCEEDED = 8;
 
 // Protocol version
-export const PROTOCOL_VERSION = 2;
+export const PROTOCOL_VERSION = 3; // v2: ephemeral keys, v3: length-prefixed framing
 export const MIN_PROTOCOL_VERSION = 1;
+// Every version we can speak, newest first (sent in hello)
+export const SUPPORTED_PROTOCOL_VERSIONS = [3, 2, 1];
 
 export interface Identity {
   publicKey: string;
@@ -46,6 +49,57 @@ export interface Identity {
   rotatedAt?: number;
 }
 
+// Supplies the key that seals identity private keys at rest (e.g. from the OS keyring)
+export interface IdentityKeyProvider {
+  id: string; // Recorded with the sealed keys; 1-64 letters, digits, '.', '-' or '_'
+  getKey(): Promise<Buffer>; // 32 bytes
+}
+
+// How identity private keys are protected at rest
+export type IdentityProtection = "none" | "passphrase" | "provider";
+
+// What an identity backup holds: everything, or only public contact data
+export type BackupKind = "full" | "contacts";
+
+export interface BackupContents {
+  identity?: Identity; // Full backups only
+  peers: Peer[];
+  grants: AccessGrant[]; // Empty in contacts backups
+  friends: Friend[];
+  autoAccept: AutoAcceptRule[]; // Empty in contacts backups
+}
+
+export interface BackupBundle {
+  format: "wopr-p2p-backup";
+  v: number;
+  kind: BackupKind;
+  created: number;
+  publicKey: string; // Exporter's signing key
+  checksum: string; // SHA-256 (hex) of the contents JSON
+  sealed?: string; // Contents sealed with the backup passphrase (always for full backups)
+  contents?: BackupContents; // Contents in the clear (contacts backups without a passphrase)
+  sig: string;
+}
+
+// On import, keep the local record ("skip") or overwrite it ("replace")
+export type BackupConflict = "skip" | "replace";
+
+export interface BackupImportCounts {
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+export interface BackupImportResult {
+  kind: BackupKind;
+  exportedBy: string; // Short ID of the exporting identity
+  identity: "restored" | "replaced" | "unchanged" | "none";
+  peers: BackupImportCounts;
+  grants: BackupImportCounts;
+  friends: BackupImportCounts;
+  autoAccept: BackupImportCounts;
+}
+
 export interface KeyRotation {
   v: number;
   type: "key-rotation";
@@ -58,6 +112,65 @@ export interface KeyRotation {
   sig: string;
 }
 
+// Declares a key dead. Signed by that key ahead of time and kept offline,
+// so it can be published even after the key is stolen.
+export interface RevocationCertificate {
+  v: number;
+  type: "key-revoke";
+  revokedKey: string;
+  reason: "compromise" | "retired";
+  created: number;
+  sig: string;
+}
+
+export interface RevokedKey {
+  publicKey: string;
+  reason: RevocationCertificate["reason"];
+  revokedAt: number; // When the certificate was created
+  receivedAt: number;
+  certificate: string; // wopr-revoke1:// token
+}
+
+export interface RevocationPublishResult {
+  revokedKey: string; // Short ID
+  rotatedKeys: string[]; // Short IDs of keys rotated to from the revoked key, revoked with it
+  delivered: string[]; // Short IDs of peers and friends that accepted the certificate
+  failed: Record<string, string>; // Short ID -> reason
+}
+
+// Safety number of a peer or friend and whether it was confirmed
+export interface ContactVerification {
+  name?: string;
+  shortId: string;
+  safetyNumber: string; // 12 groups of 5 digits
+  verified: boolean;
+  verifiedAt?: number;
+  peer: boolean; // Known as a peer
+  friend: boolean; // Known as a friend
+}
+
+// Delivery of our key rotation to one peer or friend
+export type RotationDeliveryStatus = "pending" | "delivered" | "rejected" | "expired";
+
+export interface RotationDelivery {
+  peerKey: string;
+  name?: string;
+  status: RotationDeliveryStatus;
+  attempts: number;
+  nextAttempt: number;
+  deliveredAt?: number;
+  lastError?: string;
+}
+
+// Announcing one rotation to every known peer and friend until its grace period ends
+export interface RotationCampaign {
+  id: string; // Short ID of the new key
+  rotation: KeyRotation;
+  recipients: RotationDelivery[];
+  created: number;
+  deadline: number; // End of the grace period; recipients still pending then expire
+}
+
 export interface KeyHistory {
   publicKey: string;
   encryptPub: string;
@@ -71,11 +184,24 @@ export interface AccessGrant {
   peerKey: string;
   peerName?: string;
   peerEncryptPub?: string;
-  sessions: string[];
-  caps: string[];
+  sessions: string[]; // Every session pattern in sessionCaps
+  caps: string[]; // Every cap in sessionCaps, plus grant-wide caps ("tools")
+  sessionCaps?: Record<string, string[]>; // Caps by session pattern ("*" and globs like "support-*")
   created: number;
   revoked?: boolean;
   keyHistory?: KeyHistory[];
+  tools?: string[]; // Exported tools the peer may call with the "tools" capability ("*" for all)
+  expiresAt?: number; // After this the grant no longer applies; the sweeper then marks it revoked
+  windows?: GrantWindow[]; // If set, the grant only applies inside one of these windows
+  quota?: InjectQuota; // Daily inject budget; overrides the injectQuota config
+  requireApproval?: boolean; // Injects wait in the approval queue until the owner approves them
+}
+
+// Recurring window in which a grant applies, in this node's local time
+export interface GrantWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"; earlier than start for a window that runs past midnight
 }
 
 export interface Peer {
@@ -87,6 +213,8 @@ export interface Peer {
   caps: string[];
   added: number;
   keyHistory?: KeyHistory[];
+  verified?: boolean; // Safety number confirmed out of band
+  verifiedAt?: number;
 }
 
 export interface InviteToken {
@@ -96,6 +224,7 @@ export interface InviteToken {
   ses: string[];
   cap: string[];
   exp: number;
+  ttl?: number; // Hours the grant made by claiming this token lasts
   nonce: string;
   sig: string;
 }
@@ -106,10 +235,18 @@ export type P2PMessageType =
   | "log" // Mailbox: just log to session history
   | "inject" // Invoke AI: process and return response
   | "response" // AI response to an inject request
+  | "response-chunk" // Partial AI response for a streaming inject
+  | "response-end" // Marks the end of a streamed response
   | "ack"
   | "reject"
   | "claim"
-  | "key-rotation";
+  | "key-rotation"
+  | "key-revoke" // Revocation certificate: the sender's key is dead
+  | "file-offer" // Offer to send a file: encrypted {name, size, sha256}
+  | "file-chunk" // Encrypted file bytes at an offset
+  | "tool-call" // Call an exported A2A tool: encrypted {tool, args}
+  | "tool-list" // Ask which exported tools the sender may call
+  | "tool-result"; // Encrypted answer to a tool-call (the tool result) or tool-list (the tools)
 
 export interface P2PMessage {
   v: number;
@@ -122,12 +259,22 @@ export interface P2PMessage {
   token?: string;
   reason?: string;
   requestId?: string; // For inject/response correlation
+  stream?: boolean; // Inject asks for response-chunk/response-end instead of one response
+  seq?: number; // Chunk sequence number; on response-end, the total chunk count
+  msgId?: string; // Stable id across outbox retries, used by the receiver to drop duplicates
+  traceId?: string; // Shared by every inject in a chain of peers, for loop detection
+  hops?: number; // Peer-to-peer forwards before this inject
+  async?: boolean; // Inject asks for an immediate ack and a later dial-back response
+  jobId?: string; // Async inject job a dial-back response belongs to
+  transferId?: string; // File transfer this offer or chunk belongs to
+  offset?: number; // Chunk byte offset; on acks, the bytes received so far
   nonce: string;
   ts: number;
   sig: string;
   versions?: number[];
   version?: number;
   keyRotation?: KeyRotation;
+  revocation?: RevocationCertificate;
 }
 
 export interface EphemeralKeyPair {
@@ -143,6 +290,27 @@ export interface RateLimitConfig {
   banDurationMs: number;
 }
 
+// Daily inject budget for a peer; unset fields are unlimited
+export interface InjectQuota {
+  injectsPerDay?: number;
+  processingMsPerDay?: number; // Time the AI spends answering the peer's injects
+  responseCharsPerDay?: number;
+}
+
+// What a peer has used of its inject budget today
+export interface InjectUsage {
+  day: string; // UTC date, "YYYY-MM-DD"
+  injects: number;
+  processingMs: number;
+  responseChars: number;
+}
+
+export interface RateLimitBan {
+  peerKey: string;
+  action: string;
+  until: number; // Ban ends at this time
+}
+
 export interface RateLimitState {
   minute: number[];
   hour: number[];
@@ -156,8 +324,8 @@ export interface RateLimits {
 }
 
 export interface ReplayState {
-  nonces: Set<string>;
-  timestamps: number[];
+  senders: Map<string, Map<string, number>>; // Sender key -> nonce -> message timestamp
+  lastPrune: number;
 }
 
 export interface Profile {
@@ -216,6 +384,13 @@ export type P2PToolDefinition = Omit<A2AToolDefinition, "handler"> & {
   ) => Promise<import("@wopr-network/plugin-types").A2AToolResult>;
 };
 
+// A tool another peer may call, as listed by p2p.listRemoteTools
+export interface RemoteToolInfo {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
 // P2P Extension API - exposed to other plugins via ctx.getExtension("p2p")
 export interface P2PExtension {
   // Identity
@@ -225,6 +400,8 @@ export interface P2PExtension {
     encryptPub: string;
   } | null;
   shortKey(key: string): string;
+  // Seal identity keys with this provider's key; unlocks an identity it sealed
+  setIdentityKeyProvider(provider: IdentityKeyProvider | null): void;
 
   // Peers
   getPeers(): Peer[];
@@ -241,8 +418,146 @@ export interface P2PExtension {
   getTopics(): string[];
   getDiscoveredPeers(topic?: string): DiscoveredPeer[];
   requestConnection(peerId: string): Promise<ConnectionResult>;
+
+  // Live activity (returns an unsubscribe function)
+  onEvent(listener: (event: P2PEvent) => void): () => void;
+
+  // Remote tools: let peers with the "tools" capability call a tool
+  exportTool(tool: P2PToolDefinition): void;
+  unexportTool(name: string): boolean;
+}
+
+// Store-and-forward outbox
+export type OutboxKind = "log" | "inject";
+export type OutboxStatus = "pending" | "failed";
+
+export interface OutboxEntry {
+  id: string; // Also sent as msgId for receiver-side dedup
+  peerKey: string;
+  session: string;
+  kind: OutboxKind;
+  message: string;
+  status: OutboxStatus;
+  attempts: number;
+  created: number;
+  nextAttempt: number;
+  lastError?: string;
+  replySession?: string; // Local session that receives the response of a queued inject
+}
+
+// Async inject jobs (the requester's side)
+export type InjectJobStatus = "pending" | "complete" | "failed" | "expired";
+
+export interface InjectJob {
+  id: string;
+  peerKey: string;
+  session: string;
+  message: string;
+  status: InjectJobStatus;
+  created: number;
+  updated: number;
+  response?: string;
+  error?: string;
+  replySession?: string; // Local session that receives the response when it arrives
+}
+
+// Inject from a peer waiting in the approval queue
+export interface PendingInject {
+  id: string; // Local id the owner decides by
+  jobId: string; // Job id the requester tracks the inject by
+  peerKey: string;
+  session: string;
+  message: string;
+  traceId: string;
+  hops: number;
+  created: number;
+  expiresAt: number; // Denied automatically if still pending after this
 }
 
+// File transfer
+export interface FileOffer {
+  name: string;
+  size: number;
+  sha256: string; // Hex digest of the whole file
+}
+
+export type TransferDirection = "send" | "receive";
+export type TransferStatus = "active" | "complete" | "failed";
+
+export interface FileTransfer {
+  id: string;
+  direction: TransferDirection;
+  peerKey: string;
+  session: string;
+  name: string;
+  size: number;
+  sha256: string;
+  bytes: number; // Bytes transferred so far
+  status: TransferStatus;
+  started: number;
+  updated: number;
+  path?: string; // Local file: the source when sending, the inbox file once received
+  error?: string;
+}
+
+// Peer groups
+export interface PeerGroup {
+  name: string;
+  members: string[]; // Peer public keys
+  created: number;
+  updated: number;
+}
+
+export type GroupMemberStatus = "ok" | "offline" | "rejected" | "timeout" | "error";
+
+export interface GroupMemberResult {
+  peer: string; // Public key
+  name?: string;
+  status: GroupMemberStatus;
+  code: number;
+  message?: string;
+  response?: string; // AI response (group inject only)
+}
+
+export interface GroupSendResult {
+  group: string;
+  results: Record<string, GroupMemberResult>; // Keyed by peer short ID
+  delivered: string[]; // Short IDs, as are the lists below
+  offline: string[];
+  rejected: string[];
+  timedOut: string[];
+  failed: string[];
+}
+
+// Live P2P activity events
+export type P2PEventPayload =
+  | { type: "connection" }
+  | { type: "connection-closed" }
+  | { type: "handshake"; version: number; framed: boolean }
+  | { type: "message"; kind: "log" | "inject"; from: string; session: string }
+  | { type: "reject"; from: string; messageType: string; reason: string }
+  | { type: "peer-discovered"; peerId: string; publicKey: string; topics: string[] }
+  | { type: "peer-dropped"; peerKey?: string; reason: string }
+  | { type: "connect-request"; peerId: string; topic: string; accepted: boolean }
+  | { type: "topic-joined"; topic: string }
+  | { type: "topic-left"; topic: string }
+  | { type: "friend-request"; from: string; pubkey: string }
+  | { type: "friend-request-denied"; from: string }
+  | { type: "friend-added"; name: string; pubkey: string }
+  | { type: "friend-removed"; name: string; pubkey: string }
+  | { type: "inject-pending"; jobId: string; from: string; session: string }
+  | { type: "inject-decided"; jobId: string; from: string; approved: boolean; reason?: string }
+  | { type: "rotation-delivery"; campaignId: string; peer: string; status: RotationDeliveryStatus }
+  | { type: "key-revoked"; key: string; reason: RevocationCertificate["reason"] }
+  | { type: "verification-cleared"; contact: "peer" | "friend"; key: string; name?: string };
+
+export type P2PEventType = P2PEventPayload["type"];
+
+export type P2PEvent = P2PEventPayload & {
+  id: number; // Increases by one per event; used as the SSE event id
+  ts: number;
+};
+
 // P2P Send/Claim Results
 export interface SendResult {
   code: number;
@@ -350,6 +665,9 @@ export interface Friend {
   addedAt: number;
   caps: string[]; // Capabilities granted (starts with ["message"])
   channel: string; // Channel type where friended
+  rateLimit?: FriendGrant["rateLimit"]; // Overrides the default limits for this friend
+  verified?: boolean; // Safety number confirmed out of band
+  verifiedAt?: number;
 }
 
 /**
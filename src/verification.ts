@@ -0,0 +1,74 @@
+/**
+ * P2P Key Verification
+ *
+ * Invites and friend requests carry keys through channels anyone can post
+ * to, so nothing proves a key belongs to who it claims. The safety number
+ * for our key and theirs lets two people compare out of band; when it
+ * matches, the peer or friend is marked verified. The mark is cleared when
+ * their key changes through a rotation.
+ */
+
+import { getFriend, setFriendVerified } from "./friends.js";
+import { computeSafetyNumber, getIdentity, shortKey } from "./identity.js";
+import { findPeer, setPeerVerified } from "./trust.js";
+import type { ContactVerification, Friend, Peer } from "./types.js";
+
+function resolveContact(nameOrKey: string): { key: string; peer?: Peer; friend?: Friend } {
+  // A friend is usually also a peer, possibly known under another name
+  const found = findPeer(nameOrKey);
+  const friend = getFriend(found ? found.publicKey : nameOrKey);
+  const peer = found ?? (friend && findPeer(friend.publicKey));
+  const key = peer?.publicKey ?? friend?.publicKey;
+  if (!key) {
+    throw new Error(`Unknown peer or friend: ${nameOrKey}`);
+  }
+  return { key, peer, friend };
+}
+
+/**
+ * Look up the safety number and verification state of a peer or friend.
+ * Throws if there is no identity or no such contact.
+ */
+export function getContactVerification(nameOrKey: string): ContactVerification {
+  const identity = getIdentity();
+  if (!identity) throw new Error("No identity");
+
+  const { key, peer, friend } = resolveContact(nameOrKey);
+  const verifiedAt = peer?.verifiedAt ?? friend?.verifiedAt;
+  return {
+    name: peer?.name ?? friend?.name,
+    shortId: shortKey(key),
+    safetyNumber: computeSafetyNumber(identity.publicKey, key),
+    verified: Boolean(peer?.verified || friend?.verified),
+    verifiedAt,
+    peer: Boolean(peer),
+    friend: Boolean(friend),
+  };
+}
+
+/**
+ * Mark a peer or friend verified if the safety number they read out
+ * matches ours. Spacing and punctuation are ignored. Throws on a mismatch,
+ * which means one side holds the wrong key.
+ */
+export function verifyContact(nameOrKey: string, safetyNumber: string): ContactVerification {
+  const expected = getContactVerification(nameOrKey);
+  if (safetyNumber.replace(/\D/g, "") !== expected.safetyNumber.replace(/\D/g, "")) {
+    throw new Error("Safety number does not match. Do not trust this key until you find out why.");
+  }
+
+  const { key } = resolveContact(nameOrKey);
+  setPeerVerified(key, true);
+  setFriendVerified(key, true);
+  return getContactVerification(key);
+}
+
+/**
+ * Clear the verified mark of a peer or friend.
+ */
+export function unverifyContact(nameOrKey: string): ContactVerification {
+  const { key } = resolveContact(nameOrKey);
+  setPeerVerified(key, false);
+  setFriendVerified(key, false);
+  return getContactVerification(key);
+}
@@ -2,7 +2,7 @@
  * WebMCP response builders for P2P plugin.
  *
  * Builds JSON responses for the three WebMCP endpoints:
- * - /api/webmcp/status  — node identity, peers, grants, topics
+ * - /api/webmcp/status  — node identity, peers, grants, topics, outbox depth
  * - /api/webmcp/peers   — peer list with truncated public keys
  * - /api/webmcp/stats   — network statistics with formatted values
  *
@@ -12,6 +12,8 @@
 
 import { getDiscoveredPeers, getTopics } from "./discovery.js";
 import { getIdentity, shortKey } from "./identity.js";
+import { getMetricsSummary } from "./metrics.js";
+import { getOutboxDepth } from "./outbox.js";
 import { getP2PStats } from "./stats.js";
 import { getAccessGrants, getPeers } from "./trust.js";
 
@@ -70,6 +72,7 @@ export function buildP2pStatusResponse(): Record<string, unknown> {
       revoked: grants.filter((g) => g.revoked).length,
     },
     topics,
+    outbox: getOutboxDepth(),
   };
 }
 
@@ -105,7 +108,10 @@ export function buildP2pStatsResponse(): Record<string, unknown> {
   return {
     messagesRelayed: stats.messagesRelayed,
     connectionsTotal: stats.connectionsTotal,
+    replaysRejected: stats.replaysRejected,
+    staleMessagesRejected: stats.staleMessagesRejected,
     uptime: formatUptime(uptimeMs),
     startedAt: new Date(stats.startedAt).toISOString(),
+    metrics: getMetricsSummary(),
   };
 }
@@ -0,0 +1,197 @@
+/**
+ * Unit tests for the inject approval queue
+ */
+
+import { describe, it, beforeEach, afterEach, expect, vi } from "vitest";
+import { mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+import type { PendingInject } from "../src/types.js";
+
+const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-approvals-${process.pid}`);
+const PEER = "approval-peer-key";
+const TRACE = { traceId: "trace-1", hops: 0 };
+
+describe("Inject Approvals", () => {
+  let trust: typeof import("../src/trust.js");
+  let approvals: typeof import("../src/approvals.js");
+  let config: typeof import("../src/config.js");
+  let quotas: typeof import("../src/quotas.js");
+
+  beforeEach(async () => {
+    mkdirSync(TEST_DATA_DIR, { recursive: true });
+    process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+    vi.resetModules();
+    trust = await import("../src/trust.js");
+    approvals = await import("../src/approvals.js");
+    config = await import("../src/config.js");
+    quotas = await import("../src/quotas.js");
+    trust.grantAccess(PEER, ["main"], ["inject"]);
+  });
+
+  afterEach(() => {
+    approvals.resetApprovals();
+    vi.useRealTimers();
+    config.setP2PConfig({ approvalTimeoutMs: undefined });
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it("should only require approval for peers set to need it", () => {
+    expect(trust.requiresApproval(PEER)).toBe(false);
+    expect(trust.setRequireApproval(PEER, true)?.requireApproval).toBe(true);
+    expect(trust.requiresApproval(PEER)).toBe(true);
+
+    trust.setRequireApproval(PEER, false);
+    expect(trust.requiresApproval(PEER)).toBe(false);
+    expect(trust.setRequireApproval("unknown-peer", true)).toBeUndefined();
+  });
+
+  it("should park an inject and notify the owner", () => {
+    const notifier = vi.fn();
+    approvals.setApprovalNotifier(notifier);
+
+    const pending = approvals.queueInject("job-1", PEER, "main", "hello", TRACE);
+    expect(pending).toMatchObject({
+      jobId: "job-1",
+      peerKey: PEER,
+      session: "main",
+      message: "hello",
+      traceId: "trace-1",
+    });
+    expect(notifier).toHaveBeenCalledWith(pending);
+    expect(approvals.getPendingInjects()).toEqual([pending]);
+
+    // A retry of the same job is not queued or announced twice
+    expect(approvals.queueInject("job-1", PEER, "main", "hello", TRACE)).toBe(pending);
+    expect(notifier).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not let another peer's job id reach an inject already waiting", () => {
+    const runner = vi.fn(async () => {});
+    approvals.setApprovalRunner(runner);
+    const mine = approvals.queueInject("job-1", PEER, "main", "hello", TRACE) as PendingInject;
+    const theirs = approvals.queueInject("job-1", "other-peer-key", "main", "hijack", TRACE) as PendingInject;
+
+    expect(theirs.id).not.toBe(mine.id);
+    expect(approvals.getPendingInjects()).toHaveLength(2);
+
+    approvals.approveInject(theirs.id);
+    expect(runner).toHaveBeenLastCalledWith(expect.objectContaining({ peerKey: "other-peer-key", message: "hijack" }));
+    expect(approvals.getPendingInject(mine.id)).toBe(mine);
+  });
+
+  it("should run an approved inject and dial back the reason for a denied one", async () => {
+    const runner = vi.fn(async () => {});
+    approvals.setApprovalRunner(runner);
+    const first = approvals.queueInject("job-1", PEER, "main", "one", TRACE) as PendingInject;
+    const second = approvals.queueInject("job-2", PEER, "main", "two", TRACE) as PendingInject;
+
+    expect(approvals.approveInject(first.id)).toBe(first);
+    expect(runner).toHaveBeenLastCalledWith(first);
+    expect(approvals.denyInject(second.id, "not now")).toBe(second);
+    expect(runner).toHaveBeenLastCalledWith(second, "not now");
+
+    expect(approvals.getPendingInjects()).toEqual([]);
+    expect(approvals.approveInject(first.id)).toBeUndefined();
+    expect(approvals.denyInject(second.id)).toBeUndefined();
+  });
+
+  it("should leave injects queued when there is no listener to answer the requester", () => {
+    const pending = approvals.queueInject("job-1", PEER, "main", "hello", TRACE) as PendingInject;
+
+    expect(() => approvals.approveInject(pending.id)).toThrow(/listener is not running/);
+    expect(() => approvals.denyInject(pending.id)).toThrow(/listener is not running/);
+    expect(approvals.getPendingInject(pending.id)).toBe(pending);
+    expect(approvals.approveInject("unknown")).toBeUndefined();
+
+    const runner = vi.fn(async () => {});
+    approvals.setApprovalRunner(runner);
+    expect(approvals.approveInject(pending.id)).toBe(pending);
+    expect(runner).toHaveBeenCalledWith(pending);
+  });
+
+  it("should count only approved injects against the quota", () => {
+    trust.setInjectQuota(PEER, { injectsPerDay: 1 });
+    const runner = vi.fn(async () => {});
+    approvals.setApprovalRunner(runner);
+    const first = approvals.queueInject("job-1", PEER, "main", "one", TRACE) as PendingInject;
+    const second = approvals.queueInject("job-2", PEER, "main", "two", TRACE) as PendingInject;
+    const third = approvals.queueInject("job-3", PEER, "main", "three", TRACE) as PendingInject;
+
+    // Waiting and denied injects cost nothing
+    approvals.denyInject(first.id);
+    expect(quotas.getInjectUsage(PEER).injects).toBe(0);
+
+    expect(approvals.approveInject(second.id)).toBe(second);
+    expect(runner).toHaveBeenLastCalledWith(second);
+    expect(quotas.getInjectUsage(PEER).injects).toBe(1);
+
+    // The budget ran out while this one waited
+    expect(approvals.approveInject(third.id)).toBe(third);
+    expect(runner).toHaveBeenLastCalledWith(third, "quota exceeded");
+    expect(quotas.getInjectUsage(PEER).injects).toBe(1);
+  });
+
+  it("should deny injects left undecided past the timeout", () => {
+    vi.useFakeTimers();
+    config.setP2PConfig({ approvalTimeoutMs: 60000 });
+    const runner = vi.fn(async () => {});
+    approvals.setApprovalRunner(runner);
+    const pending = approvals.queueInject("job-1", PEER, "main", "hello", TRACE) as PendingInject;
+
+    vi.advanceTimersByTime(59000);
+    expect(runner).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1000);
+    expect(runner).toHaveBeenCalledWith(pending, "approval timed out");
+    expect(approvals.getPendingInject(pending.id)).toBeUndefined();
+  });
+
+  it("should restore the queue and start timeouts once a runner is set", async () => {
+    vi.useFakeTimers();
+    const now = Date.now();
+    approvals.setApprovalStorage({
+      getRepository: () => ({
+        findMany: async () => [
+          {
+            id: "late",
+            jobId: "job-late",
+            peerKey: PEER,
+            session: "main",
+            message: "b",
+            traceId: "t",
+            hops: 0,
+            created: now - 5000,
+            expiresAt: now - 1000,
+          },
+          {
+            id: "early",
+            jobId: "job-early",
+            peerKey: PEER,
+            session: "main",
+            message: "a",
+            traceId: "t",
+            hops: 1,
+            created: now - 9000,
+            expiresAt: now + 60000,
+          },
+        ],
+        delete: async () => {},
+      }),
+    } as never);
+
+    await approvals.loadPendingInjects();
+    expect(approvals.getPendingInjects().map((p) => p.id)).toEqual(["early", "late"]);
+
+    // Nothing is denied before there is a runner to tell the requester
+    vi.advanceTimersByTime(1000);
+    expect(approvals.getPendingInjects()).toHaveLength(2);
+
+    const runner = vi.fn(async () => {});
+    approvals.setApprovalRunner(runner);
+    vi.advanceTimersByTime(0);
+    expect(runner).toHaveBeenCalledWith(expect.objectContaining({ id: "late" }), "approval timed out");
+    expect(approvals.getPendingInjects().map((p) => p.id)).toEqual(["early"]);
+  });
+});
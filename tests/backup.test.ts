@@ -0,0 +1,146 @@
+/**
+ * Unit tests for identity backup export and import
+ */
+
+import { describe, it, beforeEach, afterEach, expect, vi } from "vitest";
+import { mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-backup-${process.pid}`);
+const PASSPHRASE = "correct horse";
+const PEER = "backup-peer-key";
+
+interface Node {
+  identity: typeof import("../src/identity.js");
+  trust: typeof import("../src/trust.js");
+  friends: typeof import("../src/friends.js");
+  backup: typeof import("../src/backup.js");
+}
+
+// Fresh modules, as on another machine
+async function freshNode(): Promise<Node> {
+  vi.resetModules();
+  return {
+    identity: await import("../src/identity.js"),
+    trust: await import("../src/trust.js"),
+    friends: await import("../src/friends.js"),
+    backup: await import("../src/backup.js"),
+  };
+}
+
+describe("Identity Backup", () => {
+  let node: Node;
+
+  beforeEach(async () => {
+    mkdirSync(TEST_DATA_DIR, { recursive: true });
+    process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+    node = await freshNode();
+    node.identity.initIdentity();
+    node.trust.addPeer(PEER, ["main"], ["inject"]);
+    node.trust.grantAccess(PEER, ["main"], ["inject"]);
+    node.trust.namePeer(PEER, "hope");
+    node.friends.addAutoAcceptRule("alice*");
+  });
+
+  afterEach(() => {
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it("should restore the identity and trust data on a fresh node", async () => {
+    const original = node.identity.getIdentity();
+    const bundle = await node.backup.exportBackup({ passphrase: PASSPHRASE });
+    expect(bundle).not.toContain(original?.privateKey);
+
+    const restored = await freshNode();
+    const result = await restored.backup.importBackup(bundle, { passphrase: PASSPHRASE });
+    expect(result).toMatchObject({
+      kind: "full",
+      identity: "restored",
+      peers: { added: 1, replaced: 0, skipped: 0 },
+      grants: { added: 1, replaced: 0, skipped: 0 },
+      autoAccept: { added: 1, replaced: 0, skipped: 0 },
+    });
+    expect(restored.identity.getIdentity()).toEqual(original);
+    expect(restored.trust.isAuthorized(PEER, "main", "inject")).toBe(true);
+    expect(restored.trust.findPeer("hope")?.publicKey).toBe(PEER);
+    expect(restored.friends.getAutoAcceptRules().map((r) => r.pattern)).toEqual(["alice*"]);
+  });
+
+  it("should refuse bundles that do not verify or decrypt", async () => {
+    await expect(node.backup.exportBackup()).rejects.toThrow(/need a passphrase/);
+    await expect(node.backup.exportBackup({ passphrase: "short" })).rejects.toThrow(/at least 8/);
+
+    const bundle = await node.backup.exportBackup({ passphrase: PASSPHRASE });
+    await expect(node.backup.importBackup(bundle)).rejects.toThrow(/passphrase is required/);
+    await expect(node.backup.importBackup(bundle, { passphrase: "wrong horse" })).rejects.toThrow(
+      /Wrong passphrase/,
+    );
+    await expect(node.backup.importBackup("not json")).rejects.toThrow(/Not a backup file/);
+
+    const tampered = JSON.parse(bundle);
+    tampered.checksum = "0".repeat(64);
+    await expect(node.backup.importBackup(JSON.stringify(tampered), { passphrase: PASSPHRASE })).rejects.toThrow(
+      /signature is invalid/,
+    );
+  });
+
+  it("should only replace a different identity when asked to", async () => {
+    const bundle = await node.backup.exportBackup({ passphrase: PASSPHRASE });
+    const other = await freshNode();
+    const local = other.identity.initIdentity();
+
+    await expect(other.backup.importBackup(bundle, { passphrase: PASSPHRASE })).rejects.toThrow(
+      /different identity/,
+    );
+    expect(other.identity.getIdentity()).toEqual(local);
+    expect(other.trust.getPeers()).toEqual([]);
+
+    const result = await other.backup.importBackup(bundle, { passphrase: PASSPHRASE, replaceIdentity: true });
+    expect(result.identity).toBe("replaced");
+    expect(other.identity.getIdentity()?.publicKey).not.toBe(local.publicKey);
+  });
+
+  it("should keep local records on conflict unless told to replace them", async () => {
+    const bundle = await node.backup.exportBackup({ passphrase: PASSPHRASE });
+    node.trust.grantAccess(PEER, ["support"], ["message"]);
+    const grantsBefore = structuredClone(node.trust.getAccessGrants());
+
+    const skipped = await node.backup.importBackup(bundle, { passphrase: PASSPHRASE });
+    expect(skipped.identity).toBe("unchanged");
+    expect(skipped.grants).toEqual({ added: 0, replaced: 0, skipped: 1 });
+    expect(node.trust.getAccessGrants()).toEqual(grantsBefore);
+
+    const replaced = await node.backup.importBackup(bundle, { passphrase: PASSPHRASE, onConflict: "replace" });
+    expect(replaced.grants).toEqual({ added: 0, replaced: 1, skipped: 0 });
+    expect(node.trust.isAuthorized(PEER, "support")).toBe(false);
+  });
+
+  it("should export contacts without keys or access and merge only public fields", async () => {
+    const bundle = await node.backup.exportBackup({ contactsOnly: true });
+    const parsed = JSON.parse(bundle);
+    expect(parsed.kind).toBe("contacts");
+    expect(parsed.contents.identity).toBeUndefined();
+    expect(parsed.contents.grants).toEqual([]);
+    expect(parsed.contents.peers[0]).toMatchObject({ publicKey: PEER, name: "hope", sessions: [], caps: [] });
+    expect(bundle).not.toContain(node.identity.getIdentity()?.privateKey);
+
+    // A contacts backup renames a known peer but leaves its access alone
+    node.trust.namePeer(PEER, "old-name");
+    const result = await node.backup.importBackup(bundle, { onConflict: "replace" });
+    expect(result).toMatchObject({ kind: "contacts", identity: "none", peers: { replaced: 1 } });
+    expect(node.trust.findPeer(PEER)).toMatchObject({ name: "hope", caps: ["inject"] });
+  });
+
+  it("should refuse full backups when restricted to contacts", async () => {
+    const bundle = await node.backup.exportBackup({ passphrase: PASSPHRASE });
+    const other = await freshNode();
+    other.identity.initIdentity();
+
+    await expect(
+      other.backup.importBackup(bundle, { passphrase: PASSPHRASE, replaceIdentity: true, contactsOnly: true }),
+    ).rejects.toThrow(/Only contacts backups/);
+    expect(other.trust.getPeers()).toEqual([]);
+  });
+});
@@ -55,13 +55,13 @@ describe("registerChannelHooks", () => {
     expect(registeredCommands.length).toBe(0);
   });
 
-  it("should register 5 commands on each channel provider", () => {
+  it("should register 6 commands on each channel provider", () => {
     const { ctx, registeredCommands } = createMockCtx();
 
     registerChannelHooks(ctx);
 
-    // friend, accept, friends, unfriend, grant
-    expect(registeredCommands.length).toBe(5);
+    // friend, accept, friends, unfriend, grant, verify
+    expect(registeredCommands.length).toBe(6);
   });
 
   it("should register 2 message parsers on each channel provider", () => {
@@ -115,6 +115,14 @@ describe("registerChannelHooks", () => {
     expect(registeredCommands.find((c: any) => c.name === "grant")).toBeTruthy();
   });
 
+  it("should register verify command", () => {
+    const { ctx, registeredCommands } = createMockCtx();
+
+    registerChannelHooks(ctx);
+
+    expect(registeredCommands.find((c: any) => c.name === "verify")).toBeTruthy();
+  });
+
   it("should register p2p-friend-request parser", () => {
     const { ctx, registeredParsers } = createMockCtx();
 
@@ -156,8 +164,8 @@ describe("registerChannelHooks", () => {
 
     registerChannelHooks(ctx);
 
-    expect(commands1.length).toBe(5);
-    expect(commands2.length).toBe(5);
+    expect(commands1.length).toBe(6);
+    expect(commands2.length).toBe(6);
     expect(logMessages.some(m => m.includes("2 channel(s)"))).toBeTruthy();
   });
 
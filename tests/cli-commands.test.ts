@@ -9,7 +9,8 @@ import { mkdirSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
-import { friendCommand, handleFriendCommand } from "../src/cli-commands.js";
+import { friendCommand, handleFriendCommand, handleP2PCommand, p2pCommand } from "../src/cli-commands.js";
+import { getRateLimiter } from "../src/rate-limit.js";
 
 /** Temporary data directory for tests that touch friends state */
 const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-cli-${process.pid}`);
@@ -280,6 +281,27 @@ describe("handleFriendCommand", () => {
     });
   });
 
+  describe("ratelimit subcommand", () => {
+    it("should show usage when no name given", async () => {
+      const { ctx } = createMockCtx();
+      const { stderr } = await captureConsole(() => handleFriendCommand(ctx as any, ["ratelimit"]));
+      expect(stderr.some(l => l.includes("Usage"))).toBeTruthy();
+    });
+
+    it("should reject invalid limits", async () => {
+      const { ctx } = createMockCtx();
+      const { stderr } = await captureConsole(() => handleFriendCommand(ctx as any, ["ratelimit", "hope", "fast"]));
+      expect(stderr.some(l => l.includes("positive whole numbers"))).toBeTruthy();
+    });
+
+    it("should error for unknown friend", async () => {
+      cleanup = useTestDataDir();
+      const { ctx } = createMockCtx();
+      const { stderr } = await captureConsole(() => handleFriendCommand(ctx as any, ["ratelimit", "nobody", "5"]));
+      expect(stderr.some(l => l.includes("not found"))).toBeTruthy();
+    });
+  });
+
   describe("pending subcommand", () => {
     it("should show pending requests status", async () => {
       cleanup = useTestDataDir();
@@ -291,3 +313,102 @@ describe("handleFriendCommand", () => {
     });
   });
 });
+
+describe("p2pCommand export", () => {
+  it("should export command metadata", () => {
+    expect(p2pCommand.name).toBe("p2p");
+    expect(p2pCommand.handler).toBe(handleP2PCommand);
+  });
+});
+
+describe("handleP2PCommand", () => {
+  it("should show help for unknown subcommand", async () => {
+    const { ctx } = createMockCtx();
+    const { stdout } = await captureConsole(() => handleP2PCommand(ctx as any, ["bogus"]));
+    expect(stdout.join("\n").includes("wopr p2p")).toBeTruthy();
+  });
+
+  it("should list and lift bans", async () => {
+    const limiter = getRateLimiter();
+    limiter.reset("cli-banned-peer");
+    for (let i = 0; i <= 3; i++) {
+      limiter.check("cli-banned-peer", "invalidMessages");
+    }
+
+    const { ctx } = createMockCtx();
+    const { stdout } = await captureConsole(() => handleP2PCommand(ctx as any, ["bans"]));
+    expect(stdout.some(l => l.includes("invalidMessages"))).toBeTruthy();
+
+    const { stdout: unbanOut } = await captureConsole(() => handleP2PCommand(ctx as any, ["unban", "cli-banned-peer"]));
+    expect(unbanOut.some(l => l.includes("Lifted 1 ban"))).toBeTruthy();
+  });
+
+  it("should report when a peer has no bans", async () => {
+    const { ctx } = createMockCtx();
+    const { stderr } = await captureConsole(() => handleP2PCommand(ctx as any, ["unban", "not-banned"]));
+    expect(stderr.some(l => l.includes("No active bans"))).toBeTruthy();
+  });
+
+  describe("--json output", () => {
+    let cleanup: (() => void) | undefined;
+
+    afterEach(() => {
+      if (cleanup) {
+        cleanup();
+        cleanup = undefined;
+      }
+    });
+
+    async function runJson(args: string[]): Promise<any> {
+      const { ctx } = createMockCtx();
+      const { stdout } = await captureConsole(() => handleP2PCommand(ctx as any, args));
+      return JSON.parse(stdout.join("\n"));
+    }
+
+    it("should print the identity as JSON", async () => {
+      cleanup = useTestDataDir();
+      const data = await runJson(["id", "--json"]);
+      expect(typeof data.shortId).toBe("string");
+      expect(typeof data.publicKey).toBe("string");
+      expect(data.privateKey).toBeUndefined();
+    });
+
+    it("should accept --json before the subcommand", async () => {
+      cleanup = useTestDataDir();
+      const data = await runJson(["--json", "peers"]);
+      expect(data).toEqual({ count: 0, peers: [] });
+    });
+
+    it("should list topics and discovered peers", async () => {
+      expect(await runJson(["topics", "list", "--json"])).toEqual({ topics: [] });
+      expect(await runJson(["discover", "--json"])).toEqual({ count: 0, peers: [] });
+    });
+
+    it("should include stats in status", async () => {
+      cleanup = useTestDataDir();
+      const data = await runJson(["status", "--json"]);
+      expect(data.peers).toEqual({ count: 0 });
+      expect(typeof data.stats.uptime).toBe("string");
+      expect(Array.isArray(data.connections)).toBeTruthy();
+    });
+
+    it("should report errors as JSON", async () => {
+      const data = await runJson(["grant", "--json"]);
+      expect(data.success).toBe(false);
+      expect(data.error.includes("Usage")).toBeTruthy();
+    });
+
+    it("should report send failures as JSON", async () => {
+      cleanup = useTestDataDir();
+      const data = await runJson(["send", "nobody", "main", "hello", "--no-queue", "--json"]);
+      expect(data.success).toBe(false);
+      expect(data.error.includes("Send failed")).toBeTruthy();
+    });
+  });
+
+  it("should print usage for invite without an action", async () => {
+    const { ctx } = createMockCtx();
+    const { stderr } = await captureConsole(() => handleP2PCommand(ctx as any, ["invite"]));
+    expect(stderr.some(l => l.includes("invite [create|claim]"))).toBeTruthy();
+  });
+});
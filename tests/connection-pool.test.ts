@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the P2P connection pool
+ *
+ * Tests the handshake over an in-memory socket, pool status reporting,
+ * and the pre-flight error paths. Live Hyperswarm dialing is not tested
+ * (requires live DHT).
+ */
+
+import { describe, it, beforeEach, afterEach, expect, vi } from "vitest";
+import { mkdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Duplex } from "node:stream";
+
+import { encodeFrame } from "../src/framing.js";
+
+const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-pool-${process.pid}`);
+
+function useTestDataDir() {
+  mkdirSync(TEST_DATA_DIR, { recursive: true });
+  process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+  return () => {
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  };
+}
+
+/** In-memory socket that records writes and lets the test push inbound data */
+function createFakeSocket() {
+  const written: string[] = [];
+  const socket = new Duplex({
+    read() {},
+    write(chunk, _encoding, callback) {
+      written.push(chunk.toString());
+      callback();
+    },
+  });
+  return { socket, written };
+}
+
+describe("Connection Pool", () => {
+  let cleanup: (() => void) | undefined;
+  let pool: typeof import("../src/connection-pool.js");
+  let identity: typeof import("../src/identity.js");
+
+  beforeEach(async () => {
+    cleanup = useTestDataDir();
+    vi.resetModules();
+    identity = await import("../src/identity.js");
+    pool = await import("../src/connection-pool.js");
+  });
+
+  afterEach(async () => {
+    await pool.closeConnectionPool();
+    if (cleanup) {
+      cleanup();
+      cleanup = undefined;
+    }
+  });
+
+  describe("status", () => {
+    it("should report an empty pool", () => {
+      expect(pool.getConnectionPoolStatus()).toEqual([]);
+    });
+
+    it("should return false when closing an unknown peer", () => {
+      expect(pool.closePeerConnection("unknown-peer")).toBe(false);
+    });
+  });
+
+  describe("pooledRequest", () => {
+    it("should reject when no identity exists", async () => {
+      await expect(
+        pool.pooledRequest("some-peer", {
+          requestId: "req-1",
+          timeoutMs: 1000,
+          build: () => {
+            throw new Error("should not build");
+          },
+          onMessage: () => undefined,
+        }),
+      ).rejects.toThrow("No identity");
+      expect(pool.getConnectionPoolStatus()).toEqual([]);
+    });
+  });
+
+  describe("performHandshake", () => {
+    it("should send a hello and resolve on hello-ack", async () => {
+      const me = identity.initIdentity();
+      const ephemeral = identity.generateEphemeralKeyPair();
+      const peerEphemeral = identity.generateEphemeralKeyPair();
+      const { socket, written } = createFakeSocket();
+
+      const handshake = pool.performHandshake(socket, me.publicKey, ephemeral);
+
+      const hello = JSON.parse(written[0]);
+      expect(hello.type).toBe("hello");
+      expect(hello.ephemeralPub).toBe(ephemeral.publicKey);
+
+      socket.push(`${JSON.stringify({ type: "hello-ack", version: 2, ephemeralPub: peerEphemeral.publicKey })}\n`);
+
+      await expect(handshake).resolves.toMatchObject({ version: 2, peerEphemeralPub: peerEphemeral.publicKey });
+    });
+
+    it("should reject a hello-ack below the minimum version", async () => {
+      const me = identity.initIdentity();
+      const { socket } = createFakeSocket();
+
+      const handshake = pool.performHandshake(socket, me.publicKey, identity.generateEphemeralKeyPair());
+      socket.push(`${JSON.stringify({ type: "hello-ack", version: 0 })}\n`);
+
+      await expect(handshake).rejects.toThrow("Version 0 not supported");
+    });
+
+    it("should offer every supported version in the hello", async () => {
+      const me = identity.initIdentity();
+      const { socket, written } = createFakeSocket();
+
+      const handshake = pool.performHandshake(socket, me.publicKey, identity.generateEphemeralKeyPair());
+
+      expect(JSON.parse(written[0]).versions).toEqual([3, 2, 1]);
+      socket.push(`${JSON.stringify({ type: "hello-ack", version: 3, ephemeralPub: "x" })}\n`);
+      await handshake;
+    });
+
+    it("should keep messages after the hello-ack in the returned decoder", async () => {
+      const me = identity.initIdentity();
+      const { socket } = createFakeSocket();
+
+      const handshake = pool.performHandshake(socket, me.publicKey, identity.generateEphemeralKeyPair());
+      const trailing = JSON.stringify({ type: "ack", requestId: "req-1" });
+      socket.push(`${JSON.stringify({ type: "hello-ack", version: 2, ephemeralPub: "x" })}\n${trailing}\n`);
+
+      const { decoder } = await handshake;
+      expect(decoder.framed).toBe(false);
+      expect(decoder.next()).toBe(trailing);
+    });
+
+    it("should switch to frames when v3 is negotiated", async () => {
+      const me = identity.initIdentity();
+      const { socket } = createFakeSocket();
+
+      const handshake = pool.performHandshake(socket, me.publicKey, identity.generateEphemeralKeyPair());
+      const frame = encodeFrame({ type: "ack", requestId: "req-1" });
+      socket.push(
+        Buffer.concat([Buffer.from(`${JSON.stringify({ type: "hello-ack", version: 3, ephemeralPub: "x" })}\n`), frame]),
+      );
+
+      const { version, decoder } = await handshake;
+      expect(version).toBe(3);
+      expect(decoder.framed).toBe(true);
+      expect(JSON.parse(decoder.next() ?? "")).toEqual({ type: "ack", requestId: "req-1" });
+    });
+  });
+});
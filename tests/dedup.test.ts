@@ -0,0 +1,33 @@
+/**
+ * Unit tests for receiver-side delivery deduplication
+ */
+
+import { describe, it, beforeEach, expect } from "vitest";
+
+import { isDuplicateDelivery, recordDelivery, resetDeliveredIds } from "../src/dedup.js";
+
+describe("Delivery Dedup", () => {
+  beforeEach(() => {
+    resetDeliveredIds();
+  });
+
+  it("should not flag an unseen message id", () => {
+    expect(isDuplicateDelivery("sender-a", "msg-1")).toBe(false);
+  });
+
+  it("should flag a recorded message id from the same sender", () => {
+    recordDelivery("sender-a", "msg-1");
+    expect(isDuplicateDelivery("sender-a", "msg-1")).toBe(true);
+  });
+
+  it("should track message ids per sender", () => {
+    recordDelivery("sender-a", "msg-1");
+    expect(isDuplicateDelivery("sender-b", "msg-1")).toBe(false);
+  });
+
+  it("should forget everything on reset", () => {
+    recordDelivery("sender-a", "msg-1");
+    resetDeliveredIds();
+    expect(isDuplicateDelivery("sender-a", "msg-1")).toBe(false);
+  });
+});
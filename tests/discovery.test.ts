@@ -5,21 +5,49 @@
  * and grant notifications. Mocks Hyperswarm for isolation.
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, beforeAll, afterAll, beforeEach, afterEach, expect, vi } from "vitest";
+import { EventEmitter } from "node:events";
+import { mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 
-// We need to mock identity and trust before importing discovery.
-// Since node:test doesn't have vi.mock, we test the pure state functions
-// by manipulating module state through the exported API.
+// Stand-in for Hyperswarm, so tests can hand discovery a connection
+const swarms = vi.hoisted(() => [] as EventEmitter[]);
+vi.mock("hyperswarm", async () => {
+  const { EventEmitter } = await import("node:events");
+  class FakeSwarm extends EventEmitter {
+    keyPair = { publicKey: Buffer.alloc(32, 1) };
+    connections = new Set();
+    constructor() {
+      super();
+      swarms.push(this);
+    }
+    join() {}
+    async leave() {}
+    async destroy() {}
+  }
+  return { default: FakeSwarm };
+});
 
 // Import the discovery module functions
 import {
   getDiscoveredPeers,
   getProfile,
+  initDiscovery,
+  joinTopic,
   getTopics,
   notifyGrantUpdate,
+  requestConnection,
   shutdownDiscovery,
+  signDiscoveryMessage,
   updateProfile,
+  verifyDiscoveryMessage,
 } from "../src/discovery.js";
+import { getIdentity, initIdentity, saveIdentity } from "../src/identity.js";
+import { sendP2PLog } from "../src/p2p.js";
+import { getReplayProtector } from "../src/rate-limit.js";
+import { getAccessGrants, grantSessionCaps, isAuthorized, isGrantActive } from "../src/trust.js";
+import type { DiscoveryProfile, Identity } from "../src/types.js";
 
 describe("Discovery Module - State Management", () => {
   // The discovery module maintains module-level state (maps, profile).
@@ -110,7 +138,6 @@ describe("Discovery Module - Topic Operations (without init)", () => {
 
 describe("Discovery Module - requestConnection (without init)", () => {
   it("should return offline result when not initialized", async () => {
-    const { requestConnection } = await import("../src/discovery.js");
     const { EXIT_PEER_OFFLINE } = await import("../src/types.js");
 
     const result = await requestConnection("some-peer-id");
@@ -119,3 +146,197 @@ describe("Discovery Module - requestConnection (without init)", () => {
     expect(result.message?.includes("not initialized")).toBeTruthy();
   });
 });
+
+describe("Discovery Module - Message Signing", () => {
+  const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-discovery-${process.pid}`);
+  const SWARM_KEY = "ab".repeat(32);
+  let myKey: string;
+
+  beforeAll(() => {
+    mkdirSync(TEST_DATA_DIR, { recursive: true });
+    process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+    myKey = (getIdentity() ?? initIdentity()).publicKey;
+  });
+
+  afterAll(() => {
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    getReplayProtector().reset();
+  });
+
+  function signedProfile(): Record<string, unknown> {
+    return signDiscoveryMessage(
+      { type: "profile", profile: { id: "me", publicKey: myKey, encryptPub: "", content: {}, topics: [], updated: 1 } },
+      SWARM_KEY,
+    );
+  }
+
+  it("should accept a signed message from the connection's swarm key", () => {
+    expect(verifyDiscoveryMessage(signedProfile(), SWARM_KEY, undefined)).toBeNull();
+  });
+
+  it("should reject unsigned messages", () => {
+    expect(verifyDiscoveryMessage({ type: "profile", profile: {} }, SWARM_KEY, undefined)).toBe("unsigned message");
+  });
+
+  it("should reject a tampered message", () => {
+    const msg = signedProfile();
+    msg.topic = "injected";
+    expect(verifyDiscoveryMessage(msg, SWARM_KEY, undefined)).toBe("invalid signature");
+  });
+
+  it("should reject a message when the connection's swarm key is unknown", () => {
+    expect(verifyDiscoveryMessage(signedProfile(), undefined, undefined)).toBe("unknown swarm key");
+  });
+
+  it("should reject a message relayed over a different swarm connection", () => {
+    expect(verifyDiscoveryMessage(signedProfile(), "cd".repeat(32), undefined)).toBe("swarm key mismatch");
+  });
+
+  it("should reject a different sender on an already verified connection", () => {
+    expect(verifyDiscoveryMessage(signedProfile(), SWARM_KEY, "other-key")).toBe("sender changed");
+  });
+
+  it("should reject a profile claiming a key other than the signer's", () => {
+    const msg = signDiscoveryMessage(
+      { type: "connect_request", topic: "t", profile: { id: "x", publicKey: "someone-else" } },
+      SWARM_KEY,
+    );
+    expect(verifyDiscoveryMessage(msg, SWARM_KEY, undefined)).toBe("profile key mismatch");
+  });
+
+  it("should reject a replayed message", () => {
+    const msg = signedProfile();
+    expect(verifyDiscoveryMessage(msg, SWARM_KEY, undefined)).toBeNull();
+    expect(verifyDiscoveryMessage(msg, SWARM_KEY, undefined)).toBe("replay detected");
+  });
+});
+
+describe("Discovery Module - Connection Requests", () => {
+  const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-discovery-conn-${process.pid}`);
+  const REMOTE_SWARM_KEY = "ef".repeat(32);
+
+  interface FakeSocket extends EventEmitter {
+    written: string[];
+    write(data: string | Buffer): boolean;
+    destroy(): void;
+  }
+
+  let remote: Identity;
+  let socket: FakeSocket;
+
+  function profileOf(identity: Identity): DiscoveryProfile {
+    return {
+      id: "remote",
+      publicKey: identity.publicKey,
+      encryptPub: identity.encryptPub,
+      content: {},
+      topics: ["t"],
+      updated: 1,
+    };
+  }
+
+  // Sign as the remote identity, then switch back to ours
+  function signedByRemote(msg: Record<string, unknown>): Record<string, unknown> {
+    const me = getIdentity() as Identity;
+    saveIdentity(remote);
+    const signed = signDiscoveryMessage(msg, REMOTE_SWARM_KEY);
+    saveIdentity(me);
+    return signed;
+  }
+
+  function receive(msg: Record<string, unknown>): void {
+    socket.emit("data", Buffer.from(JSON.stringify(signedByRemote(msg))));
+  }
+
+  // Same acceptance rule as the plugin: only peers with an active grant
+  async function connect(): Promise<void> {
+    await initDiscovery(
+      async (peer) => {
+        const grant = getAccessGrants().find((g) => g.peerKey === peer.publicKey && isGrantActive(g));
+        return grant ? { accept: true, sessions: grant.sessions } : { accept: false, sessions: [] };
+      },
+      () => {},
+    );
+    const written: string[] = [];
+    socket = Object.assign(new EventEmitter(), {
+      written,
+      write: (data: string | Buffer) => written.push(data.toString()) > 0,
+      destroy: () => {},
+    });
+    swarms[swarms.length - 1].emit("connection", socket, {
+      publicKey: Buffer.from(REMOTE_SWARM_KEY, "hex"),
+      client: true,
+    });
+  }
+
+  beforeEach(() => {
+    mkdirSync(TEST_DATA_DIR, { recursive: true });
+    process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+    getReplayProtector().reset();
+    remote = initIdentity(true);
+    initIdentity(true);
+  });
+
+  afterEach(async () => {
+    socket?.emit("close");
+    await shutdownDiscovery();
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it("should not widen a peer's caps when it asks to connect", async () => {
+    grantSessionCaps(remote.publicKey, { main: ["message"] });
+    await connect();
+    receive({ type: "connect_request", topic: "t", profile: profileOf(remote) });
+
+    await vi.waitFor(() => expect(socket.written.some((w) => w.includes("connect_response"))).toBe(true));
+    expect(isAuthorized(remote.publicKey, "main", "log")).toBe(true);
+    expect(isAuthorized(remote.publicKey, "main", "inject")).toBe(false);
+  });
+
+  it("should ignore a connect_response it did not ask for", async () => {
+    await connect();
+    receive({ type: "profile", profile: profileOf(remote) });
+    await vi.waitFor(() => expect(getDiscoveredPeers()).toHaveLength(1));
+
+    receive({ type: "connect_response", accept: true, sessions: ["*"] });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(getDiscoveredPeers()[0].connected).toBeFalsy();
+    expect(isAuthorized(remote.publicKey, "main", "inject")).toBe(false);
+  });
+
+  it("should settle its own connect_request without granting the sessions named in the response", async () => {
+    await connect();
+    await joinTopic("t");
+    receive({ type: "profile", profile: profileOf(remote) });
+    await vi.waitFor(() => expect(getDiscoveredPeers()).toHaveLength(1));
+
+    const pending = requestConnection(remote.publicKey);
+    receive({ type: "connect_response", accept: true, sessions: ["*"] });
+    await expect(pending).resolves.toMatchObject({ accept: true, sessions: ["*"] });
+    expect(getDiscoveredPeers()[0].connected).toBe(true);
+    expect(isAuthorized(remote.publicKey, "main", "inject")).toBe(false);
+    expect(isAuthorized(remote.publicKey, "main", "log")).toBe(false);
+  });
+
+  it("should let us send to the sessions an accepted connect_request names", async () => {
+    await connect();
+    await joinTopic("t");
+    receive({ type: "profile", profile: profileOf(remote) });
+    await vi.waitFor(() => expect(getDiscoveredPeers()).toHaveLength(1));
+
+    const pending = requestConnection(remote.publicKey);
+    receive({ type: "connect_response", accept: true, sessions: ["main"] });
+    await expect(pending).resolves.toMatchObject({ accept: true, sessions: ["main"] });
+
+    // The fake swarm never connects, so an allowed send times out instead
+    const sent = await sendP2PLog(remote.publicKey, "main", "hello", 50);
+    expect(sent.message).not.toMatch(/No access to session/);
+    const refused = await sendP2PLog(remote.publicKey, "other", "hello", 50);
+    expect(refused.message).toBe('No access to session "other"');
+  });
+});
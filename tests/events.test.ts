@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the P2P event bus
+ */
+
+import { describe, it, beforeEach, expect } from "vitest";
+
+import { emitP2PEvent, getRecentEvents, onP2PEvent, resetEvents } from "../src/events.js";
+import { acceptPendingRequest, denyPendingRequest, queueForApproval, removeFriend } from "../src/friends.js";
+import type { FriendRequest, P2PEvent } from "../src/types.js";
+
+function friendRequest(from: string, pubkey: string): FriendRequest {
+  return { type: "FRIEND_REQUEST", to: "me", from, pubkey, encryptPub: "enc", timestamp: Date.now(), sig: `sig-${from}` };
+}
+
+describe("P2P Events", () => {
+  beforeEach(() => {
+    resetEvents();
+  });
+
+  it("should deliver events with increasing ids and a timestamp", () => {
+    const received: P2PEvent[] = [];
+    onP2PEvent((e) => received.push(e));
+
+    emitP2PEvent({ type: "connection" });
+    emitP2PEvent({ type: "topic-joined", topic: "ai-agents" });
+
+    expect(received.map((e) => e.id)).toEqual([1, 2]);
+    expect(received[1]).toMatchObject({ type: "topic-joined", topic: "ai-agents" });
+    expect(received[0].ts).toBeGreaterThan(0);
+  });
+
+  it("should stop delivering after unsubscribe", () => {
+    const received: P2PEvent[] = [];
+    const unsubscribe = onP2PEvent((e) => received.push(e));
+
+    emitP2PEvent({ type: "connection" });
+    unsubscribe();
+    emitP2PEvent({ type: "connection-closed" });
+
+    expect(received).toHaveLength(1);
+  });
+
+  it("should keep delivering when a listener throws", () => {
+    const received: P2PEvent[] = [];
+    onP2PEvent(() => {
+      throw new Error("boom");
+    });
+    onP2PEvent((e) => received.push(e));
+
+    emitP2PEvent({ type: "connection" });
+    expect(received).toHaveLength(1);
+  });
+
+  it("should return recent events after a given id", () => {
+    emitP2PEvent({ type: "connection" });
+    emitP2PEvent({ type: "handshake", version: 3, framed: true });
+    emitP2PEvent({ type: "connection-closed" });
+
+    expect(getRecentEvents(1).map((e) => e.type)).toEqual(["handshake", "connection-closed"]);
+  });
+
+  it("should only keep a bounded history", () => {
+    for (let i = 0; i < 250; i++) {
+      emitP2PEvent({ type: "connection" });
+    }
+    const recent = getRecentEvents();
+    expect(recent).toHaveLength(200);
+    expect(recent[0].id).toBe(51);
+  });
+
+  describe("Friend events", () => {
+    it("should emit friend request, added and removed events", () => {
+      const received: P2PEvent[] = [];
+      onP2PEvent((e) => received.push(e));
+
+      queueForApproval(friendRequest("events-alice", "events-alice-key"), "discord", "c1");
+      acceptPendingRequest("events-alice");
+      removeFriend("events-alice");
+
+      expect(received.map((e) => e.type)).toEqual(["friend-request", "friend-added", "friend-removed"]);
+      expect(received[1]).toMatchObject({ name: "events-alice", pubkey: "events-alice-key" });
+    });
+
+    it("should emit an event when a request is denied", () => {
+      queueForApproval(friendRequest("events-bob", "events-bob-key"), "discord", "c1");
+      const received: P2PEvent[] = [];
+      onP2PEvent((e) => received.push(e));
+
+      expect(denyPendingRequest("events-bob")).toBeTruthy();
+      expect(received).toEqual([expect.objectContaining({ type: "friend-request-denied", from: "events-bob" })]);
+    });
+  });
+});
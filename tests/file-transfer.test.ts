@@ -0,0 +1,231 @@
+/**
+ * Unit tests for the file transfer receiving side
+ *
+ * Tests offers, chunked writes, resuming, checksum verification, quotas,
+ * and file name sanitizing. Files are written under a temporary data dir.
+ */
+
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { setP2PConfig } from "../src/config.js";
+import {
+  getInboxDir,
+  getOutgoingDir,
+  getTransferId,
+  getTransfers,
+  hashFile,
+  parseFileOffer,
+  readFileChunk,
+  receiveFileChunk,
+  receiveFileOffer,
+  resetTransfers,
+  resolveOutgoingPath,
+  safeFileName,
+} from "../src/file-transfer.js";
+import type { FileOffer } from "../src/types.js";
+
+const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-files-${process.pid}`);
+
+function useTestDataDir() {
+  mkdirSync(TEST_DATA_DIR, { recursive: true });
+  process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+  return () => {
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  };
+}
+
+function offerFor(name: string, data: Buffer): FileOffer {
+  return { name, size: data.length, sha256: createHash("sha256").update(data).digest("hex") };
+}
+
+describe("File Transfer", () => {
+  let cleanup: (() => void) | undefined;
+
+  beforeEach(() => {
+    cleanup = useTestDataDir();
+    resetTransfers();
+  });
+
+  afterEach(() => {
+    resetTransfers();
+    setP2PConfig({ maxFileSize: undefined, inboxQuotaBytes: undefined, outgoingDir: undefined });
+    if (cleanup) {
+      cleanup();
+      cleanup = undefined;
+    }
+  });
+
+  describe("safeFileName", () => {
+    it("should strip directories and unsafe characters", () => {
+      expect(safeFileName("../../etc/passwd")).toBe("passwd");
+      expect(safeFileName("..\\windows\\evil.txt")).toBe("evil.txt");
+      expect(safeFileName("report: final?.pdf")).toBe("report_ final_.pdf");
+    });
+
+    it("should not allow hidden or empty names", () => {
+      expect(safeFileName(".bashrc")).toBe("bashrc");
+      expect(safeFileName("..")).toBe("file");
+    });
+  });
+
+  describe("parseFileOffer", () => {
+    it("should accept a well-formed offer", () => {
+      const offer = offerFor("a.txt", Buffer.from("hello"));
+      expect(parseFileOffer(JSON.stringify(offer))).toEqual(offer);
+    });
+
+    it("should reject a malformed offer", () => {
+      expect(() => parseFileOffer(JSON.stringify({ name: "a.txt", size: -1, sha256: "x" }))).toThrow(
+        "invalid file offer",
+      );
+    });
+  });
+
+  describe("getTransferId", () => {
+    it("should be stable for the same file and session", () => {
+      const offer = offerFor("a.txt", Buffer.from("hello"));
+      expect(getTransferId("sender", "main", offer)).toBe(getTransferId("sender", "main", offer));
+      expect(getTransferId("sender", "main", offer)).not.toBe(getTransferId("sender", "other", offer));
+    });
+  });
+
+  describe("receiving", () => {
+    it("should assemble chunks and move the file into the session inbox", async () => {
+      const data = Buffer.from("hello, peer");
+      const offer = offerFor("greeting.txt", data);
+
+      const accepted = await receiveFileOffer("peer-a", "main", "t1", offer);
+      expect(accepted.transfer.bytes).toBe(0);
+      expect(accepted.completed).toBe(false);
+
+      await receiveFileChunk("peer-a", "t1", 0, data.subarray(0, 5));
+      const { transfer, completed } = await receiveFileChunk("peer-a", "t1", 5, data.subarray(5));
+
+      expect(completed).toBe(true);
+      expect(transfer.status).toBe("complete");
+      expect(transfer.path).toBe(join(getInboxDir("main"), "greeting.txt"));
+      expect(readFileSync(transfer.path as string, "utf8")).toBe("hello, peer");
+    });
+
+    it("should ignore a chunk at the wrong offset and report the expected one", async () => {
+      const data = Buffer.from("0123456789");
+      await receiveFileOffer("peer-a", "main", "t1", offerFor("digits.txt", data));
+      await receiveFileChunk("peer-a", "t1", 0, data.subarray(0, 4));
+
+      const { transfer } = await receiveFileChunk("peer-a", "t1", 8, data.subarray(8));
+      expect(transfer.bytes).toBe(4);
+    });
+
+    it("should resume from the partial file when the offer is repeated", async () => {
+      const data = Buffer.from("0123456789");
+      const offer = offerFor("digits.txt", data);
+      await receiveFileOffer("peer-a", "main", "t1", offer);
+      await receiveFileChunk("peer-a", "t1", 0, data.subarray(0, 6));
+
+      resetTransfers(); // Forget in-memory state, as after a restart
+      const { transfer } = await receiveFileOffer("peer-a", "main", "t1", offer);
+      expect(transfer.bytes).toBe(6);
+
+      const result = await receiveFileChunk("peer-a", "t1", 6, data.subarray(6));
+      expect(result.completed).toBe(true);
+    });
+
+    it("should complete an empty file on offer", async () => {
+      const { transfer, completed } = await receiveFileOffer("peer-a", "main", "t1", offerFor("empty", Buffer.alloc(0)));
+      expect(completed).toBe(true);
+      expect(existsSync(transfer.path as string)).toBe(true);
+    });
+
+    it("should not overwrite an existing inbox file", async () => {
+      const dir = getInboxDir("main");
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(join(dir, "notes.txt"), "old");
+
+      const data = Buffer.from("new");
+      await receiveFileOffer("peer-a", "main", "t1", offerFor("notes.txt", data));
+      const { transfer } = await receiveFileChunk("peer-a", "t1", 0, data);
+
+      expect(transfer.path).toBe(join(dir, "notes (1).txt"));
+      expect(readFileSync(join(dir, "notes.txt"), "utf8")).toBe("old");
+    });
+
+    it("should fail the transfer on checksum mismatch", async () => {
+      const offer = offerFor("a.txt", Buffer.from("expected"));
+      await receiveFileOffer("peer-a", "main", "t1", offer);
+
+      await expect(receiveFileChunk("peer-a", "t1", 0, Buffer.from("tampered"))).rejects.toThrow("checksum mismatch");
+      expect(getTransfers()[0].status).toBe("failed");
+      expect(existsSync(join(getInboxDir("main"), "a.txt"))).toBe(false);
+    });
+
+    it("should reject chunks for unknown transfers", async () => {
+      await expect(receiveFileChunk("peer-a", "nope", 0, Buffer.from("x"))).rejects.toThrow("unknown transfer");
+    });
+
+    it("should reject files over the size limit", async () => {
+      setP2PConfig({ maxFileSize: 4 });
+      await expect(receiveFileOffer("peer-a", "main", "t1", offerFor("big", Buffer.from("12345")))).rejects.toThrow(
+        "file too large",
+      );
+    });
+
+    it("should reject offers that would exceed the inbox quota", async () => {
+      setP2PConfig({ inboxQuotaBytes: 8 });
+      await receiveFileOffer("peer-a", "main", "t1", offerFor("a", Buffer.from("12345")));
+
+      await expect(receiveFileOffer("peer-b", "main", "t2", offerFor("b", Buffer.from("12345")))).rejects.toThrow(
+        "inbox quota exceeded",
+      );
+      // Other sessions have their own quota
+      await expect(receiveFileOffer("peer-b", "other", "t2", offerFor("b", Buffer.from("12345")))).resolves.toBeDefined();
+    });
+  });
+
+  describe("sender helpers", () => {
+    it("should hash and read a file in ranges", async () => {
+      const path = join(TEST_DATA_DIR, "source.bin");
+      const data = Buffer.from("abcdefghij");
+      writeFileSync(path, data);
+
+      expect(await hashFile(path)).toBe(offerFor("source.bin", data).sha256);
+      expect((await readFileChunk(path, 3, 4)).toString()).toBe("defg");
+      expect((await readFileChunk(path, 8, 4)).toString()).toBe("ij");
+    });
+
+    it("should resolve files relative to the outgoing directory", () => {
+      const dir = getOutgoingDir();
+      expect(dir).toBe(join(TEST_DATA_DIR, "files", "outgoing"));
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(join(dir, "report.txt"), "hi");
+
+      expect(resolveOutgoingPath("report.txt")).toBe(join(dir, "report.txt"));
+      expect(resolveOutgoingPath(join(dir, "report.txt"))).toBe(join(dir, "report.txt"));
+    });
+
+    it("should refuse files outside the outgoing directory", () => {
+      const dir = getOutgoingDir();
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(join(TEST_DATA_DIR, "identity.json"), "secret");
+      symlinkSync(join(TEST_DATA_DIR, "identity.json"), join(dir, "link.json"));
+
+      expect(() => resolveOutgoingPath(join(TEST_DATA_DIR, "identity.json"))).toThrow(/only be sent from/);
+      expect(() => resolveOutgoingPath("../../identity.json")).toThrow(/only be sent from/);
+      expect(() => resolveOutgoingPath("link.json")).toThrow(/only be sent from/);
+      expect(() => resolveOutgoingPath(".")).toThrow(/only be sent from/);
+    });
+
+    it("should use the configured outgoing directory", () => {
+      const dir = join(TEST_DATA_DIR, "shared");
+      mkdirSync(dir, { recursive: true });
+      setP2PConfig({ outgoingDir: dir });
+
+      expect(resolveOutgoingPath("a.txt")).toBe(join(dir, "a.txt"));
+      expect(() => resolveOutgoingPath(join(TEST_DATA_DIR, "files", "outgoing", "a.txt"))).toThrow();
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the P2P wire codec
+ *
+ * Tests newline-delimited and length-prefixed decoding, switching modes
+ * mid-stream, and size limits.
+ */
+
+import { describe, it, expect } from "vitest";
+import { PassThrough } from "node:stream";
+
+import { createMessageDecoder, encodeFrame, FRAME_HEADER_SIZE, writeMessage } from "../src/framing.js";
+
+describe("Framing", () => {
+  describe("line mode", () => {
+    it("should split coalesced lines", () => {
+      const decoder = createMessageDecoder();
+      decoder.push(Buffer.from('{"a":1}\n{"b":2}\n'));
+
+      expect(decoder.next()).toBe('{"a":1}');
+      expect(decoder.next()).toBe('{"b":2}');
+      expect(decoder.next()).toBeNull();
+    });
+
+    it("should wait for the rest of a partial line", () => {
+      const decoder = createMessageDecoder();
+      decoder.push(Buffer.from('{"a":'));
+      expect(decoder.next()).toBeNull();
+
+      decoder.push(Buffer.from("1}\n"));
+      expect(decoder.next()).toBe('{"a":1}');
+    });
+
+    it("should reject an unterminated line past the limit", () => {
+      const decoder = createMessageDecoder(16);
+      expect(() => decoder.push(Buffer.alloc(32, 0x61))).toThrow("Message too large");
+    });
+  });
+
+  describe("framed mode", () => {
+    it("should decode a frame split across chunks", () => {
+      const decoder = createMessageDecoder();
+      decoder.setFramed();
+      const frame = encodeFrame({ type: "log", payload: "hello" });
+
+      decoder.push(frame.subarray(0, 2));
+      expect(decoder.next()).toBeNull();
+      decoder.push(frame.subarray(2, 10));
+      expect(decoder.next()).toBeNull();
+      decoder.push(frame.subarray(10));
+
+      expect(JSON.parse(decoder.next() as string)).toEqual({ type: "log", payload: "hello" });
+      expect(decoder.next()).toBeNull();
+    });
+
+    it("should carry payloads containing newlines", () => {
+      const decoder = createMessageDecoder();
+      decoder.setFramed();
+      decoder.push(encodeFrame({ payload: "line one\nline two" }));
+
+      expect(JSON.parse(decoder.next() as string).payload).toBe("line one\nline two");
+    });
+
+    it("should keep buffered bytes when switching from lines to frames", () => {
+      const decoder = createMessageDecoder();
+      decoder.push(Buffer.concat([Buffer.from('{"type":"hello-ack"}\n'), encodeFrame({ type: "ack" })]));
+
+      expect(decoder.next()).toBe('{"type":"hello-ack"}');
+      decoder.setFramed();
+      expect(decoder.framed).toBe(true);
+      expect(decoder.next()).toBe('{"type":"ack"}');
+    });
+
+    it("should reject an oversized frame from its header alone", () => {
+      const decoder = createMessageDecoder(16);
+      decoder.setFramed();
+      const header = Buffer.alloc(FRAME_HEADER_SIZE);
+      header.writeUInt32BE(1024, 0);
+
+      expect(() => decoder.push(header)).toThrow("Frame too large");
+    });
+  });
+
+  describe("writeMessage", () => {
+    it("should write a newline-terminated line when not framed", () => {
+      const socket = new PassThrough();
+      writeMessage(socket, { type: "hello" }, false);
+      expect(socket.read().toString()).toBe('{"type":"hello"}\n');
+    });
+
+    it("should write a length-prefixed frame when framed", () => {
+      const socket = new PassThrough();
+      writeMessage(socket, { type: "hello" }, true);
+
+      const written: Buffer = socket.read();
+      expect(written.readUInt32BE(0)).toBe(written.length - FRAME_HEADER_SIZE);
+      expect(written.subarray(FRAME_HEADER_SIZE).toString()).toBe('{"type":"hello"}');
+    });
+
+    it("should return the number of bytes written", () => {
+      const socket = new PassThrough();
+      expect(writeMessage(socket, { type: "hello" }, false)).toBe(17);
+      expect(writeMessage(socket, { type: "hello" }, true)).toBe(FRAME_HEADER_SIZE + 16);
+    });
+  });
+});
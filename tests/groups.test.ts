@@ -0,0 +1,135 @@
+/**
+ * Unit tests for peer groups and group fan-out
+ *
+ * Sending is mocked so each member's outcome can be chosen per test.
+ */
+
+import { describe, it, beforeEach, afterEach, expect, vi } from "vitest";
+import { mkdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+vi.mock("../src/p2p.js", () => ({
+  sendP2PLog: vi.fn(),
+  sendP2PInject: vi.fn(),
+}));
+
+import {
+  addGroupMembers,
+  createGroup,
+  deleteGroup,
+  getGroup,
+  getGroups,
+  removeGroupMembers,
+  resetGroups,
+  sendGroupInject,
+  sendGroupLog,
+} from "../src/groups.js";
+import { shortKey } from "../src/identity.js";
+import { sendP2PInject, sendP2PLog } from "../src/p2p.js";
+import { addPeer, namePeer } from "../src/trust.js";
+import { EXIT_OFFLINE, EXIT_OK, EXIT_REJECTED, type SendResult } from "../src/types.js";
+
+const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-groups-${process.pid}`);
+
+const ALICE = "a1".repeat(32);
+const BOB = "b2".repeat(32);
+const CAROL = "c3".repeat(32);
+
+describe("Peer Groups", () => {
+  beforeEach(() => {
+    mkdirSync(TEST_DATA_DIR, { recursive: true });
+    process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+    resetGroups();
+    for (const key of [ALICE, BOB, CAROL]) {
+      addPeer(key, ["*"], ["inject"], "enc");
+    }
+    namePeer(ALICE, "alice");
+  });
+
+  afterEach(() => {
+    vi.mocked(sendP2PLog).mockReset();
+    vi.mocked(sendP2PInject).mockReset();
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  describe("membership", () => {
+    it("should create a group with members resolved to public keys", () => {
+      const group = createGroup("swarm", ["alice", shortKey(BOB)]);
+
+      expect(group.members).toEqual([ALICE, BOB]);
+      expect(getGroup("SWARM")).toBe(group);
+      expect(getGroups()).toHaveLength(1);
+    });
+
+    it("should reject invalid and duplicate names", () => {
+      expect(() => createGroup("has space")).toThrow("Group names");
+      createGroup("swarm");
+      expect(() => createGroup("Swarm")).toThrow("already exists");
+    });
+
+    it("should reject unknown peers", () => {
+      expect(() => createGroup("swarm", ["alice", "nobody"])).toThrow("Unknown peer(s): nobody");
+      expect(getGroup("swarm")).toBeUndefined();
+    });
+
+    it("should add members once and remove them", () => {
+      createGroup("swarm", ["alice"]);
+      addGroupMembers("swarm", [BOB, "alice"]);
+      expect(getGroup("swarm")?.members).toEqual([ALICE, BOB]);
+
+      removeGroupMembers("swarm", ["alice"]);
+      expect(getGroup("swarm")?.members).toEqual([BOB]);
+    });
+
+    it("should throw when changing a missing group", () => {
+      expect(() => addGroupMembers("nope", [BOB])).toThrow("Group not found");
+    });
+
+    it("should delete a group", () => {
+      createGroup("swarm");
+      expect(deleteGroup("swarm")).toBeTruthy();
+      expect(deleteGroup("swarm")).toBeFalsy();
+    });
+  });
+
+  describe("fan-out", () => {
+    it("should log to every member and sort the outcomes", async () => {
+      const outcomes: Record<string, SendResult> = {
+        [ALICE]: { code: EXIT_OK },
+        [BOB]: { code: EXIT_OFFLINE, message: "Peer offline (timeout)" },
+        [CAROL]: { code: EXIT_REJECTED, message: "unauthorized" },
+      };
+      vi.mocked(sendP2PLog).mockImplementation(async (peer) => outcomes[peer]);
+      createGroup("swarm", [ALICE, BOB, CAROL]);
+
+      const result = await sendGroupLog("swarm", "main", "hello all");
+
+      expect(sendP2PLog).toHaveBeenCalledTimes(3);
+      expect(result.delivered).toEqual([shortKey(ALICE)]);
+      expect(result.offline).toEqual([shortKey(BOB)]);
+      expect(result.rejected).toEqual([shortKey(CAROL)]);
+      expect(result.results[shortKey(ALICE)]).toMatchObject({ peer: ALICE, name: "alice", status: "ok" });
+    });
+
+    it("should gather inject responses and time out slow members", async () => {
+      vi.mocked(sendP2PInject).mockImplementation((peer) =>
+        peer === ALICE
+          ? Promise.resolve({ code: EXIT_OK, response: "on it" })
+          : new Promise<SendResult>(() => {}),
+      );
+      createGroup("swarm", [ALICE, BOB]);
+
+      const result = await sendGroupInject("swarm", "main", "status?", 50);
+
+      expect(result.results[shortKey(ALICE)].response).toBe("on it");
+      expect(result.timedOut).toEqual([shortKey(BOB)]);
+      expect(result.results[shortKey(BOB)].status).toBe("timeout");
+    });
+
+    it("should throw for a missing group", async () => {
+      await expect(sendGroupLog("nope", "main", "hi")).rejects.toThrow("Group not found");
+    });
+  });
+});
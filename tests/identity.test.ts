@@ -534,3 +534,102 @@ describe("Invite Tokens", () => {
     });
   });
 });
+
+describe("Sealed Identity Keys", () => {
+  let cleanup: (() => void) | undefined;
+  let mod: typeof import("../src/identity.js");
+  const rows = new Map<string, Record<string, unknown>>();
+  const storage = {
+    getRepository: () => ({
+      findById: async (id: string) => rows.get(id) ?? null,
+      insert: async (row: Record<string, unknown>) => {
+        rows.set(row.id as string, { ...row });
+      },
+      update: async (id: string, patch: Record<string, unknown>) => {
+        rows.set(id, { ...rows.get(id), ...patch });
+      },
+    }),
+  } as never;
+
+  // Load the stored identity into a fresh module, as a restart would
+  async function restart() {
+    vi.resetModules();
+    mod = await import("../src/identity.js");
+    mod.setIdentityStorage(storage);
+    return mod.loadIdentity();
+  }
+
+  beforeEach(async () => {
+    cleanup = useTestDataDir();
+    rows.clear();
+    await restart();
+  });
+
+  afterEach(() => {
+    if (cleanup) {
+      cleanup();
+      cleanup = undefined;
+    }
+  });
+
+  it("should store keys sealed and load locked until unlocked with the passphrase", async () => {
+    const identity = mod.initIdentity();
+    expect(await mod.rekeyIdentity({ passphrase: "correct horse" })).toBe("passphrase");
+    expect(rows.get("default")?.privateKey).toMatch(/^sealed:v1:scrypt:/);
+    expect(rows.get("default")?.encryptPriv).not.toContain(identity.encryptPriv);
+
+    expect(await restart()).toBeNull();
+    expect(mod.isIdentityLocked()).toBe(true);
+    expect(mod.getIdentityProtection()).toBe("passphrase");
+    expect(() => mod.initIdentity()).toThrow(/locked/);
+
+    await expect(mod.unlockIdentity()).rejects.toThrow(/passphrase is required/);
+    await expect(mod.unlockIdentity("wrong horse")).rejects.toThrow(/Wrong passphrase/);
+    expect(mod.isIdentityLocked()).toBe(true);
+
+    const onUnlock = vi.fn();
+    mod.setIdentityUnlockHandler(onUnlock);
+    const unlocked = await mod.unlockIdentity("correct horse");
+    expect(unlocked).toEqual(identity);
+    expect(mod.getIdentity()).toEqual(identity);
+    expect(onUnlock).toHaveBeenCalledWith(identity);
+  });
+
+  it("should keep keys sealed across rotation", async () => {
+    mod.initIdentity();
+    await mod.rekeyIdentity({ passphrase: "correct horse" });
+    const { identity } = mod.rotateIdentity("scheduled");
+    await vi.waitFor(() => expect(rows.get("default")?.publicKey).toBe(identity.publicKey));
+    expect(rows.get("default")?.privateKey).toMatch(/^sealed:/);
+
+    await restart();
+    expect(await mod.unlockIdentity("correct horse")).toEqual(identity);
+  });
+
+  it("should seal with a registered key provider", async () => {
+    const provider = { id: "os-keyring", getKey: async () => Buffer.alloc(32, 7) };
+    mod.initIdentity();
+    await expect(mod.rekeyIdentity({ useKeyProvider: true })).rejects.toThrow(/No key provider/);
+    mod.setIdentityKeyProvider(provider);
+    expect(await mod.rekeyIdentity({ useKeyProvider: true })).toBe("provider");
+
+    await restart();
+    await expect(mod.unlockIdentity()).rejects.toThrow(/os-keyring/);
+    mod.setIdentityKeyProvider({ ...provider, getKey: async () => Buffer.alloc(32, 8) });
+    await expect(mod.unlockIdentity()).rejects.toThrow(/Wrong key/);
+    mod.setIdentityKeyProvider(provider);
+    expect(await mod.unlockIdentity()).not.toBeNull();
+    expect(mod.getIdentityProtection()).toBe("provider");
+  });
+
+  it("should store keys unsealed again and reject short passphrases", async () => {
+    const identity = mod.initIdentity();
+    await expect(mod.rekeyIdentity({ passphrase: "short" })).rejects.toThrow(/at least 8/);
+    await mod.rekeyIdentity({ passphrase: "correct horse" });
+    expect(await mod.rekeyIdentity()).toBe("none");
+    expect(rows.get("default")?.privateKey).toBe(identity.privateKey);
+
+    expect(await restart()).toEqual(identity);
+    expect(mod.isIdentityLocked()).toBe(false);
+  });
+});
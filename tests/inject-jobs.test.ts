@@ -0,0 +1,77 @@
+/**
+ * Unit tests for async inject job tracking
+ */
+
+import { describe, it, beforeEach, afterEach, expect, vi } from "vitest";
+
+import {
+  createInjectJob,
+  getInjectJob,
+  getInjectJobs,
+  resetInjectJobs,
+  resolveInjectJob,
+  setInjectJobHandler,
+} from "../src/inject-jobs.js";
+import type { InjectJob } from "../src/types.js";
+
+describe("Inject Jobs", () => {
+  beforeEach(() => {
+    resetInjectJobs();
+  });
+
+  afterEach(() => {
+    setInjectJobHandler(null);
+    vi.useRealTimers();
+  });
+
+  it("should create a pending job", () => {
+    const job = createInjectJob("job-1", "peer-key", "main", "hello", "local");
+
+    expect(job.status).toBe("pending");
+    expect(getInjectJob("job-1")).toBe(job);
+    expect(job.replySession).toBe("local");
+  });
+
+  it("should complete a job with the response and notify the handler", () => {
+    const completed: InjectJob[] = [];
+    setInjectJobHandler((job) => completed.push(job));
+    createInjectJob("job-1", "peer-key", "main", "hello");
+
+    resolveInjectJob("job-1", { response: "hi there" });
+
+    const job = getInjectJob("job-1");
+    expect(job?.status).toBe("complete");
+    expect(job?.response).toBe("hi there");
+    expect(completed).toHaveLength(1);
+  });
+
+  it("should fail a job with an error", () => {
+    createInjectJob("job-1", "peer-key", "main", "hello");
+    resolveInjectJob("job-1", { error: "inject failed" });
+
+    expect(getInjectJob("job-1")?.status).toBe("failed");
+    expect(getInjectJob("job-1")?.error).toBe("inject failed");
+  });
+
+  it("should return undefined when resolving an unknown job", () => {
+    expect(resolveInjectJob("nope", { response: "x" })).toBeUndefined();
+  });
+
+  it("should list jobs newest first and filter by status", () => {
+    createInjectJob("job-1", "peer-key", "main", "first");
+    createInjectJob("job-2", "peer-key", "main", "second");
+    resolveInjectJob("job-1", { response: "done" });
+
+    expect(getInjectJobs().map((j) => j.id)).toEqual(["job-2", "job-1"]);
+    expect(getInjectJobs("pending").map((j) => j.id)).toEqual(["job-2"]);
+  });
+
+  it("should expire pending jobs that never got a response", () => {
+    vi.useFakeTimers();
+    createInjectJob("job-1", "peer-key", "main", "hello");
+
+    vi.advanceTimersByTime(25 * 60 * 60 * 1000);
+
+    expect(getInjectJob("job-1")?.status).toBe("expired");
+  });
+});
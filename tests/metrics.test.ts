@@ -0,0 +1,107 @@
+/**
+ * Unit tests for P2P metrics and the Prometheus exporter
+ */
+
+import { describe, it, beforeEach, expect } from "vitest";
+
+import { shortKey } from "../src/identity.js";
+import {
+  getMetricsSummary,
+  observeHandshake,
+  observeInjectRtt,
+  recordMessageIn,
+  recordMessageOut,
+  recordReject,
+  recordReplayDrop,
+  renderPrometheusMetrics,
+  resetMetrics,
+  UNVERIFIED_PEER,
+} from "../src/metrics.js";
+import { getRateLimiter, getReplayProtector } from "../src/rate-limit.js";
+
+const PEER = "a".repeat(64);
+
+describe("P2P Metrics", () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  it("should count messages and bytes per peer and type", () => {
+    recordMessageIn(PEER, "inject", 100);
+    recordMessageIn(PEER, "inject", 50);
+    recordMessageOut(PEER, "response", 300);
+
+    const text = renderPrometheusMetrics();
+    expect(text).toContain(`p2p_bytes_received_total{peer="${shortKey(PEER)}",type="inject"} 150`);
+    expect(text).toContain(`p2p_messages_received_total{peer="${shortKey(PEER)}",type="inject"} 2`);
+    expect(text).toContain(`p2p_bytes_sent_total{peer="${shortKey(PEER)}",type="response"} 300`);
+  });
+
+  it("should declare every metric with HELP and TYPE lines", () => {
+    const text = renderPrometheusMetrics();
+    expect(text).toContain("# TYPE p2p_rejects_total counter");
+    expect(text).toContain("# TYPE p2p_handshake_duration_seconds histogram");
+    expect(text).toContain("# TYPE p2p_discovery_peers gauge");
+    expect(text).toContain("# HELP p2p_connections_total ");
+    expect(text.endsWith("\n")).toBeTruthy();
+  });
+
+  it("should render cumulative histogram buckets", () => {
+    observeHandshake(PEER, 80);
+    observeHandshake(PEER, 400);
+
+    const text = renderPrometheusMetrics();
+    const label = `peer="${shortKey(PEER)}"`;
+    expect(text).toContain(`p2p_handshake_duration_seconds_bucket{${label},le="0.05"} 0`);
+    expect(text).toContain(`p2p_handshake_duration_seconds_bucket{${label},le="0.1"} 1`);
+    expect(text).toContain(`p2p_handshake_duration_seconds_bucket{${label},le="0.5"} 2`);
+    expect(text).toContain(`p2p_handshake_duration_seconds_bucket{${label},le="+Inf"} 2`);
+    expect(text).toContain(`p2p_handshake_duration_seconds_count{${label}} 2`);
+  });
+
+  it("should escape label values", () => {
+    recordReject(UNVERIFIED_PEER, "inject", 'bad "quote"\nline');
+    expect(renderPrometheusMetrics()).toContain('reason="bad \\"quote\\"\\nline"');
+  });
+
+  it("should count rate-limit hits from the rate limiter", () => {
+    const peer = "b".repeat(64);
+    const limiter = getRateLimiter();
+    for (let i = 0; i < 12; i++) {
+      limiter.check(peer, "claims");
+    }
+
+    expect(getMetricsSummary().rateLimitHits).toEqual({ claims: 7 });
+    limiter.reset(peer);
+  });
+
+  it("should count replay drops by reason", () => {
+    const replay = getReplayProtector();
+    replay.reset();
+    replay.check("nonce-1", Date.now(), PEER);
+    replay.check("nonce-1", Date.now(), PEER);
+    replay.check("nonce-2", Date.now() - 10 * 60 * 1000, PEER);
+
+    expect(getMetricsSummary().replayDrops).toEqual({ replay: 1, stale: 1 });
+    replay.reset();
+  });
+
+  it("should summarize totals and latency for p2p.stats", () => {
+    recordMessageIn(PEER, "log", 10);
+    recordMessageOut(PEER, "ack", 5);
+    recordReject(PEER, "inject", "unauthorized");
+    recordReplayDrop("", "replay");
+    observeInjectRtt(PEER, 1000);
+    observeInjectRtt(PEER, 3000);
+
+    const summary = getMetricsSummary();
+    expect(summary).toMatchObject({
+      bytesIn: 10,
+      bytesOut: 5,
+      messagesIn: { log: 1 },
+      rejects: { unauthorized: 1 },
+      injectRtt: { count: 2, avgMs: 2000 },
+      peers: { [shortKey(PEER)]: { bytesIn: 10, bytesOut: 5 } },
+    });
+  });
+});
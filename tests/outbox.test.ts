@@ -0,0 +1,166 @@
+/**
+ * Unit tests for the store-and-forward outbox
+ *
+ * Tests queueing, listing, cancelling, and the retry pass. Delivery runs
+ * without an identity, so every attempt fails before touching the network.
+ */
+
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+import { mkdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  cancelOutbox,
+  enqueueOutbox,
+  getOutbox,
+  getOutboxDepth,
+  processOutbox,
+  resetOutbox,
+  sendOrQueue,
+} from "../src/outbox.js";
+import { EXIT_INVALID } from "../src/types.js";
+
+const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-outbox-${process.pid}`);
+
+function useTestDataDir() {
+  mkdirSync(TEST_DATA_DIR, { recursive: true });
+  process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+  return () => {
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  };
+}
+
+describe("Outbox", () => {
+  let cleanup: (() => void) | undefined;
+
+  beforeEach(() => {
+    cleanup = useTestDataDir();
+    resetOutbox();
+  });
+
+  afterEach(() => {
+    resetOutbox();
+    if (cleanup) {
+      cleanup();
+      cleanup = undefined;
+    }
+  });
+
+  describe("enqueueOutbox", () => {
+    it("should queue a pending entry scheduled for a later retry", () => {
+      const before = Date.now();
+      const entry = enqueueOutbox("peer-key-a", "main", "log", "hello");
+
+      expect(entry.status).toBe("pending");
+      expect(entry.attempts).toBe(0);
+      expect(entry.nextAttempt).toBeGreaterThan(before);
+      expect(getOutbox()).toHaveLength(1);
+    });
+
+    it("should keep a caller-supplied id", () => {
+      const entry = enqueueOutbox("peer-key-a", "main", "inject", "hi", { id: "msg-1", replySession: "local" });
+      expect(entry.id).toBe("msg-1");
+      expect(entry.replySession).toBe("local");
+    });
+
+    it("should refuse to queue past the per-peer limit", () => {
+      for (let i = 0; i < 100; i++) {
+        enqueueOutbox("peer-key-a", "main", "log", `msg ${i}`);
+      }
+      expect(() => enqueueOutbox("peer-key-a", "main", "log", "one too many")).toThrow("Outbox full");
+      // Other peers are unaffected
+      expect(() => enqueueOutbox("peer-key-b", "main", "log", "hello")).not.toThrow();
+    });
+  });
+
+  describe("getOutbox", () => {
+    it("should filter by peer key", () => {
+      enqueueOutbox("peer-key-a", "main", "log", "a");
+      enqueueOutbox("peer-key-b", "main", "log", "b");
+
+      expect(getOutbox("peer-key-a").map((e) => e.message)).toEqual(["a"]);
+      expect(getOutbox()).toHaveLength(2);
+    });
+  });
+
+  describe("cancelOutbox", () => {
+    it("should remove an entry by id", () => {
+      const entry = enqueueOutbox("peer-key-a", "main", "log", "a");
+      enqueueOutbox("peer-key-a", "main", "log", "b");
+
+      expect(cancelOutbox(entry.id)).toBe(1);
+      expect(getOutbox().map((e) => e.message)).toEqual(["b"]);
+    });
+
+    it("should return 0 for an unknown id", () => {
+      expect(cancelOutbox("nope")).toBe(0);
+    });
+  });
+
+  describe("getOutboxDepth", () => {
+    it("should count pending and failed entries", () => {
+      expect(getOutboxDepth()).toEqual({ pending: 0, failed: 0 });
+      enqueueOutbox("peer-key-a", "main", "log", "a");
+      expect(getOutboxDepth()).toEqual({ pending: 1, failed: 0 });
+    });
+  });
+
+  describe("processOutbox", () => {
+    it("should not retry entries before they are due", async () => {
+      enqueueOutbox("peer-key-a", "main", "log", "a");
+      await processOutbox();
+      expect(getOutbox()[0].attempts).toBe(0);
+    });
+
+    it("should mark an entry failed when delivery cannot succeed", async () => {
+      const entry = enqueueOutbox("peer-key-a", "main", "log", "a");
+      entry.nextAttempt = Date.now();
+
+      await processOutbox();
+
+      expect(entry.attempts).toBe(1);
+      expect(entry.status).toBe("failed");
+      expect(entry.lastError).toBe("No identity");
+      expect(getOutboxDepth()).toEqual({ pending: 0, failed: 1 });
+    });
+
+    it("should prune failed entries past the retention window", async () => {
+      const old = enqueueOutbox("peer-key-a", "main", "log", "old");
+      old.status = "failed";
+      old.created = Date.now() - 8 * 24 * 60 * 60 * 1000;
+      const recent = enqueueOutbox("peer-key-a", "main", "log", "recent");
+      recent.status = "failed";
+
+      await processOutbox();
+
+      expect(getOutbox()).toEqual([recent]);
+    });
+
+    it("should keep only the newest failed entries for a peer", async () => {
+      // Failures do not count against the pending limit, so they can pile up
+      const entries = Array.from({ length: 101 }, (_, i) => {
+        const entry = enqueueOutbox("peer-key-a", "main", "log", `m${i}`);
+        entry.status = "failed";
+        return entry;
+      });
+      enqueueOutbox("peer-key-b", "main", "log", "b").status = "failed";
+
+      await processOutbox();
+
+      expect(getOutboxDepth()).toEqual({ pending: 0, failed: 101 });
+      expect(getOutbox("peer-key-a")).toHaveLength(100);
+      expect(getOutbox("peer-key-a")).not.toContain(entries[0]);
+    });
+  });
+
+  describe("sendOrQueue", () => {
+    it("should not queue messages that fail for reasons other than being offline", async () => {
+      const result = await sendOrQueue("log", "nonexistent-peer", "main", "hello");
+      expect(result.code).toBe(EXIT_INVALID);
+      expect(result.outboxId).toBeUndefined();
+      expect(getOutbox()).toHaveLength(0);
+    });
+  });
+});
@@ -12,7 +12,18 @@ import { mkdirSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
-import { claimToken, createP2PListener, sendKeyRotation, sendP2PInject, sendP2PLog, setP2PLogger } from "../src/p2p.js";
+import {
+  claimToken,
+  createP2PListener,
+  sendKeyRotation,
+  sendP2PFile,
+  sendP2PInject,
+  sendP2PInjectAsync,
+  sendP2PInjectStream,
+  sendP2PLog,
+  setP2PLogger,
+} from "../src/p2p.js";
+import { getInjectJobs, resetInjectJobs } from "../src/inject-jobs.js";
 import { EXIT_INVALID } from "../src/types.js";
 
 /** Temporary data directory for tests — empty, so no identity exists */
@@ -106,6 +117,36 @@ describe("P2P Module - sendP2PInject validation", () => {
   });
 });
 
+describe("P2P Module - sendP2PInjectStream validation", () => {
+  it("should finish without chunks and return EXIT_INVALID when peer not found", async () => {
+    const stream = sendP2PInjectStream("nonexistent-peer", "test-session", "hello", 1000);
+    const step = await stream.next();
+    expect(step.done).toBe(true);
+    expect(step.value).toMatchObject({ code: EXIT_INVALID });
+  });
+});
+
+describe("P2P Module - sendP2PInjectAsync validation", () => {
+  afterEach(() => {
+    resetInjectJobs();
+  });
+
+  it("should return EXIT_INVALID without creating a job when peer not found", async () => {
+    const result = await sendP2PInjectAsync("nonexistent-peer", "test-session", "hello", 1000);
+    expect(result.code).toBe(EXIT_INVALID);
+    expect(result.jobId).toBeUndefined();
+    expect(getInjectJobs()).toHaveLength(0);
+  });
+});
+
+describe("P2P Module - sendP2PFile validation", () => {
+  it("should return EXIT_INVALID when no identity or peer not found", async () => {
+    const result = await sendP2PFile("nonexistent-peer", "test-session", "/nonexistent/file.txt");
+    expect(result.code).toBe(EXIT_INVALID);
+    expect(result.transferId).toBeUndefined();
+  });
+});
+
 describe("P2P Module - claimToken validation", () => {
   it("should return EXIT_INVALID for malformed token", async () => {
     const result = await claimToken("not-a-valid-token", 1000);
@@ -159,7 +200,7 @@ describe("P2P Module - Protocol Constants", () => {
   it("should export protocol version constants", async () => {
     const types = await import("../src/types.js");
 
-    expect(types.PROTOCOL_VERSION).toBe(2);
+    expect(types.PROTOCOL_VERSION).toBe(3);
     expect(types.MIN_PROTOCOL_VERSION).toBe(1);
     expect(types.PROTOCOL_VERSION >= types.MIN_PROTOCOL_VERSION).toBeTruthy();
   });
@@ -0,0 +1,113 @@
+/**
+ * Tests for starting the plugin with a locked identity
+ *
+ * The listener and discovery both need the identity, so a locked start
+ * leaves them down until the identity is unlocked. Mocks Hyperswarm and
+ * the storage API.
+ */
+
+import { describe, it, beforeEach, afterEach, expect, vi } from "vitest";
+import { mkdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+vi.mock("hyperswarm", async () => {
+  const { EventEmitter } = await import("node:events");
+  class FakeSwarm extends EventEmitter {
+    keyPair = { publicKey: Buffer.alloc(32, 1) };
+    connections = new Set();
+    join() {}
+    async leave() {}
+    async destroy() {}
+  }
+  return { default: FakeSwarm };
+});
+
+const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-plugin-unlock-${process.pid}`);
+const PASSPHRASE = "correct horse";
+
+// In-memory stand-in for the storage API, shared across module reloads
+function createStorage() {
+  const tables = new Map<string, Map<string, Record<string, unknown>>>();
+  const table = (name: string) => {
+    if (!tables.has(name)) tables.set(name, new Map());
+    return tables.get(name) as Map<string, Record<string, unknown>>;
+  };
+  return {
+    register: async () => {},
+    raw: async () => [],
+    getRepository: (namespace: string, name: string) => {
+      const rows = table(`${namespace}.${name}`);
+      const matches = (row: Record<string, unknown>, where: Record<string, unknown> = {}) =>
+        Object.entries(where).every(([key, value]) => typeof value === "object" || row[key] === value);
+      return {
+        findById: async (id: string) => rows.get(id) ?? null,
+        findFirst: async (where: Record<string, unknown>) =>
+          Array.from(rows.values()).find((row) => matches(row, where)) ?? null,
+        findMany: async (where?: Record<string, unknown>) =>
+          Array.from(rows.values()).filter((row) => matches(row, where)),
+        insert: async (row: Record<string, unknown>) => {
+          rows.set(row.id as string, { ...row });
+          return row;
+        },
+        update: async (id: string, patch: Record<string, unknown>) => {
+          rows.set(id, { ...rows.get(id), ...patch });
+        },
+        delete: async (id: string) => rows.delete(id),
+      };
+    },
+  };
+}
+
+describe("Plugin start with a locked identity", () => {
+  let storage: ReturnType<typeof createStorage>;
+
+  beforeEach(async () => {
+    mkdirSync(TEST_DATA_DIR, { recursive: true });
+    process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+    delete process.env.WOPR_P2P_PASSPHRASE;
+
+    // Seal an identity, as a previous run with `wopr p2p rekey` would
+    storage = createStorage();
+    vi.resetModules();
+    const identity = await import("../src/identity.js");
+    identity.setIdentityStorage(storage as never);
+    identity.initIdentity();
+    await identity.rekeyIdentity({ passphrase: PASSPHRASE });
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it("should start discovery once the identity is unlocked", async () => {
+    const { default: plugin } = await import("../src/index.js");
+    const identity = await import("../src/identity.js");
+    const discovery = await import("../src/discovery.js");
+    const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+    await plugin.init?.({
+      log,
+      storage,
+      getConfig: () => ({ uiPort: 40000 + (process.pid % 20000) }),
+      getMainConfig: () => undefined,
+      getPluginDir: () => TEST_DATA_DIR,
+    } as never);
+
+    try {
+      expect(identity.isIdentityLocked()).toBe(true);
+      expect(discovery.getProfile()).toBeNull();
+      await expect(discovery.joinTopic("t")).rejects.toThrow(/Discovery not initialized/);
+
+      const unlocked = await identity.unlockIdentity(PASSPHRASE);
+      await vi.waitFor(() => expect(discovery.getProfile()?.publicKey).toBe(unlocked.publicKey));
+      await discovery.joinTopic("t");
+      expect(discovery.getTopics()).toEqual(["t"]);
+      expect(log.warn).not.toHaveBeenCalledWith(expect.stringMatching(/Failed to initialize discovery/));
+    } finally {
+      await plugin.shutdown?.();
+    }
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for per-peer inject quotas
+ */
+
+import { describe, it, beforeEach, afterEach, expect, vi } from "vitest";
+import { mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-quotas-${process.pid}`);
+const PEER = "quota-peer-key";
+
+describe("Inject Quotas", () => {
+  let trust: typeof import("../src/trust.js");
+  let quotas: typeof import("../src/quotas.js");
+  let config: typeof import("../src/config.js");
+
+  beforeEach(async () => {
+    mkdirSync(TEST_DATA_DIR, { recursive: true });
+    process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+    vi.resetModules();
+    trust = await import("../src/trust.js");
+    quotas = await import("../src/quotas.js");
+    config = await import("../src/config.js");
+    trust.grantAccess(PEER, ["main"], ["inject"]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    config.setP2PConfig({ injectQuota: undefined });
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it("should admit every inject when no quota is set", () => {
+    for (let i = 0; i < 50; i++) {
+      expect(quotas.admitInject(PEER)).toBe(true);
+    }
+    expect(quotas.getInjectUsage(PEER).injects).toBe(50);
+  });
+
+  it("should refuse injects past the daily count", () => {
+    trust.setInjectQuota(PEER, { injectsPerDay: 2 });
+    expect(quotas.admitInject(PEER)).toBe(true);
+    expect(quotas.admitInject(PEER)).toBe(true);
+    expect(quotas.admitInject(PEER)).toBe(false);
+    expect(quotas.getInjectUsage(PEER).injects).toBe(2);
+  });
+
+  it("should refuse injects once processing time or response size is used up", () => {
+    trust.setInjectQuota(PEER, { processingMsPerDay: 60000 });
+    quotas.recordInjectUsage(PEER, 60000, 10);
+    expect(quotas.isQuotaExceeded(PEER)).toBe(true);
+
+    trust.setInjectQuota(PEER, { responseCharsPerDay: 100 });
+    expect(quotas.isQuotaExceeded(PEER)).toBe(false);
+    quotas.recordInjectUsage(PEER, 0, 90);
+    expect(quotas.isQuotaExceeded(PEER)).toBe(true);
+  });
+
+  it("should fall back to the injectQuota config", () => {
+    config.setP2PConfig({ injectQuota: { injectsPerDay: 1 } });
+    expect(quotas.getInjectQuota(PEER)).toEqual({ injectsPerDay: 1 });
+    expect(quotas.admitInject(PEER)).toBe(true);
+    expect(quotas.admitInject(PEER)).toBe(false);
+
+    // The grant's own quota wins
+    trust.setInjectQuota(PEER, { injectsPerDay: 5 });
+    expect(quotas.admitInject(PEER)).toBe(true);
+  });
+
+  it("should start counting again the next day", () => {
+    vi.useFakeTimers({ now: new Date("2026-03-01T23:59:00Z") });
+    trust.setInjectQuota(PEER, { injectsPerDay: 1 });
+    expect(quotas.admitInject(PEER)).toBe(true);
+    expect(quotas.admitInject(PEER)).toBe(false);
+
+    vi.setSystemTime(new Date("2026-03-02T00:01:00Z"));
+    expect(quotas.getInjectUsage(PEER)).toEqual({ day: "2026-03-02", injects: 0, processingMs: 0, responseChars: 0 });
+    expect(quotas.admitInject(PEER)).toBe(true);
+  });
+
+  it("should restore today's usage and drop older rows on load", async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const deleted: string[] = [];
+    quotas.setQuotaStorage({
+      getRepository: () => ({
+        findMany: async () => [
+          { id: PEER, day: today, injects: 3, processingMs: 1000, responseChars: 50 },
+          { id: "old-peer", day: "2000-01-01", injects: 9, processingMs: 0, responseChars: 0 },
+        ],
+        delete: async (id: string) => deleted.push(id),
+      }),
+    } as never);
+
+    await quotas.loadQuotaUsage();
+    expect(quotas.getInjectUsage(PEER)).toEqual({ day: today, injects: 3, processingMs: 1000, responseChars: 50 });
+    expect(deleted).toEqual(["old-peer"]);
+  });
+
+  it("should write a peer's usage in order without racing inserts", async () => {
+    const rows: Map<string, Record<string, unknown>> = new Map();
+    let inserts = 0;
+    quotas.setQuotaStorage({
+      getRepository: () => ({
+        findById: async (id: string) => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          return rows.get(id);
+        },
+        insert: async (row: Record<string, unknown>) => {
+          inserts++;
+          rows.set(row.id as string, row);
+        },
+        update: async (id: string, fields: Record<string, unknown>) => {
+          rows.set(id, { ...rows.get(id), ...fields });
+        },
+      }),
+    } as never);
+
+    quotas.admitInject(PEER);
+    quotas.admitInject(PEER);
+    quotas.recordInjectUsage(PEER, 500, 20);
+    await vi.waitFor(() => expect(rows.get(PEER)).toMatchObject({ injects: 2, processingMs: 500, responseChars: 20 }));
+    expect(inserts).toBe(1);
+  });
+
+  it("should clear a peer's quota", () => {
+    trust.setInjectQuota(PEER, { injectsPerDay: 1 });
+    trust.setInjectQuota(PEER, undefined);
+    expect(quotas.getInjectQuota(PEER)).toBeUndefined();
+    expect(trust.setInjectQuota("unknown-peer", { injectsPerDay: 1 })).toBeUndefined();
+  });
+});
@@ -5,9 +5,11 @@
  * and replay protection (nonce deduplication, timestamp window).
  */
 
-import { describe, it, beforeEach, expect } from "vitest";
+import { describe, it, beforeEach, afterEach, expect, vi } from "vitest";
 
-import { getRateLimiter, getReplayProtector } from "../src/rate-limit.js";
+import { setP2PConfig } from "../src/config.js";
+import { getBans, getRateLimitConfig, getRateLimiter, getReplayProtector, unbanPeer } from "../src/rate-limit.js";
+import { getP2PStats, resetStats } from "../src/stats.js";
 
 describe("Rate Limiter", () => {
   let limiter: ReturnType<typeof getRateLimiter>;
@@ -140,6 +142,73 @@ describe("Rate Limiter", () => {
   });
 });
 
+describe("Rate Limit Config", () => {
+  afterEach(() => {
+    setP2PConfig({ rateLimits: undefined, peerRateLimits: undefined });
+    getRateLimiter().reset("test-peer");
+  });
+
+  it("should give logs their own limits", () => {
+    expect(getRateLimitConfig("test-peer", "logs").maxPerMinute).toBe(30);
+  });
+
+  it("should apply configured limits per action", () => {
+    setP2PConfig({ rateLimits: { injects: { maxPerMinute: 2 } } });
+    const limits = getRateLimitConfig("test-peer", "injects");
+    expect(limits.maxPerMinute).toBe(2);
+    expect(limits.maxPerHour).toBe(100);
+
+    const limiter = getRateLimiter();
+    expect(limiter.check("test-peer", "injects")).toBe(true);
+    expect(limiter.check("test-peer", "injects")).toBe(true);
+    expect(limiter.check("test-peer", "injects")).toBe(false);
+  });
+
+  it("should let per-peer overrides win over action config", () => {
+    setP2PConfig({
+      rateLimits: { injects: { maxPerMinute: 2 } },
+      peerRateLimits: { "test-peer": { injects: { maxPerMinute: 50 } } },
+    });
+    expect(getRateLimitConfig("test-peer", "injects").maxPerMinute).toBe(50);
+    expect(getRateLimitConfig("other-peer", "injects").maxPerMinute).toBe(2);
+  });
+});
+
+describe("Bans", () => {
+  const limiter = getRateLimiter();
+
+  beforeEach(() => {
+    limiter.reset("test-peer");
+  });
+
+  function banTestPeer(): void {
+    for (let i = 0; i <= 3; i++) {
+      limiter.check("test-peer", "invalidMessages");
+    }
+  }
+
+  it("should list active bans", () => {
+    banTestPeer();
+    const bans = getBans().filter((b) => b.peerKey === "test-peer");
+    expect(bans).toHaveLength(1);
+    expect(bans[0].action).toBe("invalidMessages");
+    expect(bans[0].until).toBeGreaterThan(Date.now());
+  });
+
+  it("should lift a ban and reset the peer's counts", () => {
+    banTestPeer();
+    expect(unbanPeer("test-peer")).toBe(1);
+    expect(getBans().some((b) => b.peerKey === "test-peer")).toBe(false);
+    expect(limiter.check("test-peer", "invalidMessages")).toBe(true);
+  });
+
+  it("should only lift the ban for the given action", () => {
+    banTestPeer();
+    expect(unbanPeer("test-peer", "injects")).toBe(0);
+    expect(limiter.check("test-peer", "invalidMessages")).toBe(false);
+  });
+});
+
 describe("Replay Protector", () => {
   let protector: ReturnType<typeof getReplayProtector>;
 
@@ -179,6 +248,41 @@ describe("Replay Protector", () => {
       const nearEdge = Date.now() - 4 * 60 * 1000;
       expect(protector.check("edge-nonce", nearEdge)).toBe(true);
     });
+
+    it("should scope nonces to the sender", () => {
+      expect(protector.check("shared-nonce", Date.now(), "peer-a")).toBe(true);
+      expect(protector.check("shared-nonce", Date.now(), "peer-b")).toBe(true);
+      expect(protector.check("shared-nonce", Date.now(), "peer-a")).toBe(false);
+    });
+
+    it("should keep recent nonces while evicting expired ones", () => {
+      vi.useFakeTimers();
+      try {
+        const start = Date.now();
+        expect(protector.check("old-nonce", start, "peer-a")).toBe(true);
+        vi.advanceTimersByTime(4 * 60 * 1000);
+        expect(protector.check("recent-nonce", Date.now(), "peer-a")).toBe(true);
+
+        // The old nonce has left the window; the recent one has not
+        vi.advanceTimersByTime(2 * 60 * 1000);
+        expect(protector.check("trigger-prune", Date.now(), "peer-a")).toBe(true);
+        expect(protector.check("recent-nonce", Date.now() - 2 * 60 * 1000, "peer-a")).toBe(false);
+        expect(protector.check("old-nonce", start, "peer-a")).toBe(false);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should count rejected replays and stale messages in stats", () => {
+      resetStats();
+      protector.check("nonce-1", Date.now(), "peer-a");
+      protector.check("nonce-1", Date.now(), "peer-a");
+      protector.check("nonce-2", Date.now() - 10 * 60 * 1000, "peer-a");
+
+      const stats = getP2PStats();
+      expect(stats.replaysRejected).toBe(1);
+      expect(stats.staleMessagesRejected).toBe(1);
+    });
   });
 
   describe("reset", () => {
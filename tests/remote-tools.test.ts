@@ -0,0 +1,132 @@
+/**
+ * Unit tests for exported tools and remote tool calls (receiver side)
+ */
+
+import { describe, it, beforeEach, afterEach, expect, vi } from "vitest";
+import { mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+import type { P2PToolDefinition } from "../src/types.js";
+
+const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-remote-tools-${process.pid}`);
+const PEER = "peer-key-1";
+
+function echoTool(name = "echo"): P2PToolDefinition {
+  return {
+    name,
+    description: "Echo a message",
+    inputSchema: {
+      type: "object",
+      properties: { text: { type: "string" } },
+      required: ["text"],
+    },
+    handler: vi.fn(async (args) => ({ content: [{ type: "text", text: String(args.text) }] })),
+  };
+}
+
+describe("Remote Tools", () => {
+  let trust: typeof import("../src/trust.js");
+  let tools: typeof import("../src/remote-tools.js");
+
+  beforeEach(async () => {
+    mkdirSync(TEST_DATA_DIR, { recursive: true });
+    process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+    vi.resetModules();
+    trust = await import("../src/trust.js");
+    tools = await import("../src/remote-tools.js");
+    trust.grantAccess(PEER, ["main"], ["inject"]);
+  });
+
+  afterEach(() => {
+    tools.resetExportedTools();
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it("should run an allowed tool with valid arguments", async () => {
+    const tool = echoTool();
+    tools.exportTool(tool);
+    trust.setAllowedTools(PEER, ["echo"]);
+
+    const outcome = await tools.runRemoteToolCall(PEER, { tool: "echo", args: { text: "hi" } });
+    expect(outcome).toEqual({ result: { content: [{ type: "text", text: "hi" }] } });
+    expect(tool.handler).toHaveBeenCalledWith({ text: "hi" });
+  });
+
+  it("should refuse tools without the tools capability or off the allowlist", async () => {
+    tools.exportTool(echoTool());
+    tools.exportTool(echoTool("other"));
+    expect(await tools.runRemoteToolCall(PEER, { tool: "echo", args: { text: "hi" } })).toEqual({
+      reason: "tool not available",
+    });
+
+    trust.setAllowedTools(PEER, ["other"]);
+    expect(await tools.runRemoteToolCall(PEER, { tool: "echo", args: { text: "hi" } })).toEqual({
+      reason: "tool not available",
+    });
+    expect(await tools.runRemoteToolCall("stranger", { tool: "other", args: { text: "hi" } })).toEqual({
+      reason: "tool not available",
+    });
+  });
+
+  it("should answer the same for tools that are not exported", async () => {
+    trust.setAllowedTools(PEER, ["*"]);
+    expect(await tools.runRemoteToolCall(PEER, { tool: "missing", args: {} })).toEqual({
+      reason: "tool not available",
+    });
+  });
+
+  it("should validate arguments against the input schema", async () => {
+    const tool = echoTool();
+    tools.exportTool(tool);
+    trust.setAllowedTools(PEER, ["*"]);
+
+    const outcome = await tools.runRemoteToolCall(PEER, { tool: "echo", args: { text: 5 } });
+    expect(outcome).toHaveProperty("reason");
+    expect((outcome as { reason: string }).reason).toMatch(/^invalid arguments: text:/);
+    expect(tool.handler).not.toHaveBeenCalled();
+  });
+
+  it("should reject malformed calls and report handler failures", async () => {
+    const tool = echoTool();
+    vi.mocked(tool.handler).mockRejectedValueOnce(new Error("boom"));
+    tools.exportTool(tool);
+    trust.setAllowedTools(PEER, ["echo"]);
+
+    expect(await tools.runRemoteToolCall(PEER, { args: {} })).toEqual({ reason: "invalid tool call" });
+    expect(await tools.runRemoteToolCall(PEER, { tool: "echo", args: { text: "x" } })).toEqual({
+      reason: "tool failed",
+    });
+  });
+
+  it("should list only the exported tools a peer may call", () => {
+    tools.exportTool(echoTool());
+    tools.exportTool(echoTool("other"));
+    expect(tools.getToolsForPeer(PEER)).toEqual([]);
+
+    trust.setAllowedTools(PEER, ["echo"]);
+    expect(tools.getToolsForPeer(PEER).map((t) => t.name)).toEqual(["echo"]);
+
+    trust.setAllowedTools(PEER, ["*"]);
+    expect(tools.getToolsForPeer(PEER).map((t) => t.name)).toEqual(["echo", "other"]);
+  });
+
+  it("should drop the tools capability when the allowlist is cleared", () => {
+    expect(trust.setAllowedTools(PEER, ["echo"])?.caps).toContain("tools");
+    const grant = trust.setAllowedTools(PEER, []);
+    expect(grant?.caps).not.toContain("tools");
+    expect(trust.canCallTool(PEER, "echo")).toBe(false);
+    expect(trust.setAllowedTools("stranger", ["echo"])).toBeUndefined();
+  });
+
+  it("should stop serving a tool once it is unexported", async () => {
+    tools.exportTool(echoTool());
+    trust.setAllowedTools(PEER, ["echo"]);
+    expect(tools.unexportTool("echo")).toBe(true);
+    expect(tools.unexportTool("echo")).toBe(false);
+    expect(await tools.runRemoteToolCall(PEER, { tool: "echo", args: { text: "hi" } })).toEqual({
+      reason: "tool not available",
+    });
+  });
+});
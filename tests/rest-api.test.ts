@@ -0,0 +1,231 @@
+/**
+ * Tests for the authenticated REST API on the P2P UI server
+ */
+import { describe, it, afterEach, beforeEach, expect } from "vitest";
+import http from "node:http";
+import { mkdirSync, readFileSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { setP2PConfig } from "../src/config.js";
+import { emitP2PEvent, resetEvents } from "../src/events.js";
+import { _startUIServer as startUIServer } from "../src/index.js";
+import { getApiToken, resetApiToken } from "../src/rest-api.js";
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+// Open an SSE stream and resolve with the text received once `until` matches
+function readEvents(port: number, path: string, until: RegExp, headers: Record<string, string> = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const req = http.get({ host: "127.0.0.1", port, path, headers }, (res) => {
+      expect(res.headers["content-type"]).toBe("text/event-stream");
+      let data = "";
+      res.on("data", (chunk) => {
+        data += chunk;
+        if (until.test(data)) {
+          req.destroy();
+          resolve(data);
+        }
+      });
+    });
+    req.on("error", reject);
+  });
+}
+
+// HTTP request helper that parses JSON replies
+function request(
+  port: number,
+  method: string,
+  path: string,
+  options: { token?: string; body?: string; origin?: string } = {},
+): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (options.token) headers.Authorization = `Bearer ${options.token}`;
+    if (options.origin) headers.Origin = options.origin;
+
+    const req = http.request({ host: "127.0.0.1", port, method, path, headers }, (res) => {
+      let data = "";
+      res.on("data", (chunk) => (data += chunk));
+      res.on("end", () =>
+        resolve({ status: res.statusCode!, headers: res.headers, body: data ? JSON.parse(data) : undefined }),
+      );
+    });
+    req.on("error", reject);
+    if (options.body !== undefined) req.write(options.body);
+    req.end();
+  });
+}
+
+describe("REST API v1", () => {
+  let server: http.Server | null = null;
+  let port: number;
+  let token: string;
+  const dataDir = join(tmpdir(), `wopr-p2p-test-api-${process.pid}`);
+
+  beforeEach(async () => {
+    mkdirSync(dataDir, { recursive: true });
+    process.env.WOPR_P2P_DATA_DIR = dataDir;
+    resetApiToken();
+    token = getApiToken();
+
+    server = startUIServer(0, dataDir);
+    await new Promise<void>((resolve) => server?.once("listening", resolve));
+    port = (server.address() as { port: number }).port;
+  });
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise<void>((resolve) => server?.close(() => resolve()));
+      server = null;
+    }
+    setP2PConfig({ webUiOrigin: undefined });
+    resetApiToken();
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("should store the token in the data directory with owner-only access", () => {
+    const path = join(dataDir, "api-token");
+    expect(readFileSync(path, "utf-8").trim()).toBe(token);
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+  });
+
+  it("should reject requests without the bearer token", async () => {
+    const res = await request(port, "GET", "/api/v1/peers");
+    expect(res.status).toBe(401);
+    expect(res.headers["www-authenticate"]).toBe("Bearer");
+  });
+
+  it("should reject requests with a wrong token", async () => {
+    const res = await request(port, "GET", "/api/v1/peers", { token: "not-the-token" });
+    expect(res.status).toBe(401);
+  });
+
+  it("should list peers with a valid token", async () => {
+    const res = await request(port, "GET", "/api/v1/peers", { token });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ peers: [] });
+  });
+
+  it("should require the token to scrape /metrics", async () => {
+    const url = `http://127.0.0.1:${port}/metrics`;
+    const denied = await fetch(url);
+    expect(denied.status).toBe(401);
+    expect(await denied.text()).not.toContain("p2p_");
+
+    const res = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("p2p_uptime_seconds");
+  });
+
+  it("should return 404 for unknown routes", async () => {
+    const res = await request(port, "GET", "/api/v1/nope", { token });
+    expect(res.status).toBe(404);
+  });
+
+  it("should validate request bodies", async () => {
+    const res = await request(port, "POST", "/api/v1/grants", { token, body: JSON.stringify({ peer: "x" }) });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("Invalid request body");
+    expect(res.body.issues.some((i: { path: string }) => i.path === "sessions")).toBeTruthy();
+  });
+
+  it("should reject malformed JSON", async () => {
+    const res = await request(port, "POST", "/api/v1/topics", { token, body: "{not json" });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("Invalid JSON");
+  });
+
+  it("should create and list grants", async () => {
+    const created = await request(port, "POST", "/api/v1/grants", {
+      token,
+      body: JSON.stringify({ peer: "peer-public-key", sessions: ["main"], caps: ["message"] }),
+    });
+    expect(created.status).toBe(201);
+    expect(created.body.caps).toEqual(["message"]);
+
+    const listed = await request(port, "GET", "/api/v1/grants", { token });
+    expect(listed.body.grants.some((g: { peerKey: string }) => g.peerKey === "peer-public-key")).toBeTruthy();
+  });
+
+  it("should return 404 when revoking a peer with no grant", async () => {
+    const res = await request(port, "DELETE", "/api/v1/grants/unknown-peer", { token });
+    expect(res.status).toBe(404);
+  });
+
+  it("should report discovery as unavailable before it starts", async () => {
+    const res = await request(port, "GET", "/api/v1/profile", { token });
+    expect(res.status).toBe(503);
+  });
+
+  describe("Event stream", () => {
+    beforeEach(() => {
+      resetEvents();
+    });
+
+    it("should require the token", async () => {
+      const res = await request(port, "GET", "/api/v1/events");
+      expect(res.status).toBe(401);
+    });
+
+    it("should stream events, taking the token from the query string", async () => {
+      const stream = readEvents(port, `/api/v1/events?token=${token}`, /event: topic-joined/);
+      // Let the stream subscribe before emitting
+      await new Promise((r) => setTimeout(r, 50));
+      emitP2PEvent({ type: "topic-joined", topic: "ai-agents" });
+
+      const text = await stream;
+      expect(text).toContain("id: 1\n");
+      expect(text).toContain('"topic":"ai-agents"');
+    });
+
+    it("should filter by event type", async () => {
+      const stream = readEvents(port, `/api/v1/events?token=${token}&types=topic-left`, /event: topic-left/);
+      await new Promise((r) => setTimeout(r, 50));
+      emitP2PEvent({ type: "topic-joined", topic: "a" });
+      emitP2PEvent({ type: "topic-left", topic: "a" });
+
+      const text = await stream;
+      expect(text).not.toContain("topic-joined");
+    });
+
+    it("should replay events missed since Last-Event-ID", async () => {
+      emitP2PEvent({ type: "connection" });
+      emitP2PEvent({ type: "handshake", version: 3, framed: true });
+
+      const text = await readEvents(port, "/api/v1/events", /event: handshake/, {
+        Authorization: `Bearer ${token}`,
+        "Last-Event-ID": "1",
+      });
+      expect(text).not.toContain("event: connection\n");
+      expect(text).toContain("id: 2\n");
+    });
+  });
+
+  describe("CORS", () => {
+    it("should allow the configured web UI origin", async () => {
+      setP2PConfig({ webUiOrigin: "http://localhost:7437" });
+      const res = await request(port, "OPTIONS", "/api/v1/peers", { origin: "http://localhost:7437" });
+      expect(res.status).toBe(204);
+      expect(res.headers["access-control-allow-origin"]).toBe("http://localhost:7437");
+      expect(res.headers["access-control-allow-headers"]).toContain("Authorization");
+    });
+
+    it("should not allow other origins", async () => {
+      setP2PConfig({ webUiOrigin: "http://localhost:7437" });
+      const res = await request(port, "GET", "/api/v1/peers", { token, origin: "http://evil.example" });
+      expect(res.headers["access-control-allow-origin"]).toBeUndefined();
+    });
+
+    it("should no longer allow any origin on the WebMCP routes", async () => {
+      const res = await request(port, "GET", "/api/webmcp/stats", { origin: "http://evil.example" });
+      expect(res.status).toBe(200);
+      expect(res.headers["access-control-allow-origin"]).toBeUndefined();
+    });
+  });
+});
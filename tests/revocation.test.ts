@@ -0,0 +1,130 @@
+/**
+ * Unit tests for key revocation certificates
+ *
+ * sendKeyRevocation is mocked, so each test decides which recipients are
+ * reachable.
+ */
+
+import { mkdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/p2p.js", () => ({
+  sendKeyRevocation: vi.fn(),
+}));
+
+import { getFriend, processFriendKeyRotation, restoreFriends } from "../src/friends.js";
+import {
+  createRevocationCertificate,
+  formatRevocationCertificate,
+  initIdentity,
+  parseRevocationCertificate,
+  rotateIdentity,
+  shortKey,
+} from "../src/identity.js";
+import { sendKeyRevocation } from "../src/p2p.js";
+import { publishKeyRevocation } from "../src/revocation.js";
+import {
+  addPeer,
+  grantAccess,
+  isAuthorized,
+  isKeyRevoked,
+  processKeyRevocation,
+  processPeerKeyRotation,
+} from "../src/trust.js";
+import { EXIT_OFFLINE, EXIT_OK, type Friend, type Identity, type SendResult } from "../src/types.js";
+
+const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-revocation-${process.pid}`);
+
+const ALICE = "a1".repeat(32);
+const CAROL = "c3".repeat(32);
+
+function friend(publicKey: string, name: string): Friend {
+  return {
+    name,
+    publicKey,
+    encryptPub: "enc",
+    sessionName: `friend:p2p:${name}`,
+    addedAt: 0,
+    caps: ["message"],
+    channel: "discord",
+  };
+}
+
+describe("Key Revocation", () => {
+  // The identity plays the peer whose key is revoked
+  let victim: Identity;
+  let outcomes: Record<string, SendResult>;
+
+  beforeEach(() => {
+    mkdirSync(TEST_DATA_DIR, { recursive: true });
+    process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+    victim = initIdentity(true);
+    addPeer(victim.publicKey, ["main"], ["inject"], victim.encryptPub);
+    grantAccess(victim.publicKey, ["main"], ["inject"], victim.encryptPub);
+    outcomes = { [ALICE]: { code: EXIT_OK }, [CAROL]: { code: EXIT_OK } };
+    vi.mocked(sendKeyRevocation).mockImplementation(async (peer) => outcomes[peer] ?? { code: EXIT_OK });
+  });
+
+  afterEach(() => {
+    vi.mocked(sendKeyRevocation).mockReset();
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it("should create certificates that verify and reject tampered ones", () => {
+    const cert = parseRevocationCertificate(createRevocationCertificate("retired"));
+    expect(cert).toMatchObject({ type: "key-revoke", revokedKey: victim.publicKey, reason: "retired" });
+
+    const tampered = formatRevocationCertificate({ ...cert, revokedKey: ALICE });
+    expect(() => parseRevocationCertificate(tampered)).toThrow(/Invalid signature/);
+    expect(() => parseRevocationCertificate("wop1://nope")).toThrow(/Invalid revocation certificate format/);
+  });
+
+  it("should revoke grants for the key and refuse later rotations from it", () => {
+    const cert = parseRevocationCertificate(createRevocationCertificate());
+    expect(isAuthorized(victim.publicKey, "main", "inject")).toBe(true);
+
+    expect(processKeyRevocation(cert)).toEqual([victim.publicKey]);
+    expect(isKeyRevoked(victim.publicKey)).toBe(true);
+    expect(isAuthorized(victim.publicKey, "main", "inject")).toBe(false);
+
+    // A thief holding the key cannot move peers or friends to a new one
+    restoreFriends([friend(victim.publicKey, "victim")], []);
+    const { rotation } = rotateIdentity();
+    expect(processPeerKeyRotation(rotation)).toBe(false);
+    expect(processFriendKeyRotation(rotation)).toBe(false);
+  });
+
+  it("should ignore certificates that do not verify", () => {
+    const cert = parseRevocationCertificate(createRevocationCertificate());
+    expect(processKeyRevocation({ ...cert, reason: "retired" })).toBeUndefined();
+    expect(isKeyRevoked(victim.publicKey)).toBe(false);
+  });
+
+  it("should publish to every other peer and friend and report failures", async () => {
+    addPeer(ALICE, ["*"], ["inject"], "enc");
+    restoreFriends([friend(victim.publicKey, "victim"), friend(CAROL, "carol")], []);
+    outcomes[CAROL] = { code: EXIT_OFFLINE, message: "Peer offline" };
+
+    const result = await publishKeyRevocation(createRevocationCertificate());
+    expect(sendKeyRevocation).not.toHaveBeenCalledWith(victim.publicKey, expect.anything(), expect.anything());
+    expect(result.delivered).toContain(shortKey(ALICE));
+    expect(result.failed[shortKey(CAROL)]).toBe("Peer offline");
+    expect(getFriend("victim")).toBeUndefined();
+    expect(isAuthorized(victim.publicKey, "main", "inject")).toBe(false);
+  });
+
+  it("should refuse to publish without an identity to connect with", async () => {
+    const certStr = createRevocationCertificate();
+
+    // Fresh modules start with no identity loaded
+    vi.resetModules();
+    const p2p = await import("../src/p2p.js");
+    const revocation = await import("../src/revocation.js");
+
+    await expect(revocation.publishKeyRevocation(certStr)).rejects.toThrow(/No identity to connect to peers with/);
+    expect(p2p.sendKeyRevocation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Unit tests for key rotation campaigns
+ *
+ * sendKeyRotation is mocked, so each test decides which recipients are
+ * reachable.
+ */
+
+import { describe, it, beforeEach, afterEach, expect, vi } from "vitest";
+import { mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+vi.mock("../src/p2p.js", () => ({
+  sendKeyRotation: vi.fn(),
+}));
+
+import { getFriend, processFriendKeyRotation, restoreFriends } from "../src/friends.js";
+import { initIdentity, rotateIdentity } from "../src/identity.js";
+import { sendKeyRotation } from "../src/p2p.js";
+import {
+  countDeliveries,
+  flushRotationForPeer,
+  getRotationCampaign,
+  processRotationCampaigns,
+  resetRotationCampaigns,
+  startRotationCampaign,
+} from "../src/rotation.js";
+import { addPeer } from "../src/trust.js";
+import { EXIT_OFFLINE, EXIT_OK, EXIT_REJECTED, type Friend, type KeyRotation, type SendResult } from "../src/types.js";
+
+const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-rotation-${process.pid}`);
+
+const ALICE = "a1".repeat(32);
+const BOB = "b2".repeat(32);
+const CAROL = "c3".repeat(32);
+
+function friend(publicKey: string, name: string): Friend {
+  return {
+    name,
+    publicKey,
+    encryptPub: "enc",
+    sessionName: `friend:p2p:${name}`,
+    addedAt: 0,
+    caps: ["message"],
+    channel: "discord",
+  };
+}
+
+function rotation(oldSignPub: string, newSignPub: string, gracePeriodMs = 24 * 3600000): KeyRotation {
+  return {
+    v: 1,
+    type: "key-rotation",
+    oldSignPub,
+    newSignPub,
+    newEncryptPub: "new-enc",
+    reason: "scheduled",
+    effectiveAt: Date.now(),
+    gracePeriodMs,
+    sig: "sig",
+  };
+}
+
+describe("Key Rotation Campaigns", () => {
+  let outcomes: Record<string, SendResult>;
+
+  beforeEach(() => {
+    mkdirSync(TEST_DATA_DIR, { recursive: true });
+    process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+    resetRotationCampaigns();
+    addPeer(ALICE, ["*"], ["inject"], "enc");
+    addPeer(BOB, ["*"], ["inject"], "enc");
+    restoreFriends([friend(BOB, "bob"), friend(CAROL, "carol")], []);
+    outcomes = { [ALICE]: { code: EXIT_OK }, [BOB]: { code: EXIT_OK }, [CAROL]: { code: EXIT_OK } };
+    vi.mocked(sendKeyRotation).mockImplementation(async (peer) => outcomes[peer]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.mocked(sendKeyRotation).mockReset();
+    resetRotationCampaigns();
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it("should address every peer and friend once", async () => {
+    const campaign = startRotationCampaign(rotation("old-key", "new-key"));
+    expect(campaign.recipients.map((r) => r.peerKey).sort()).toEqual([ALICE, BOB, CAROL]);
+    expect(campaign.recipients.find((r) => r.peerKey === CAROL)?.name).toBe("carol");
+
+    await processRotationCampaigns();
+    expect(sendKeyRotation).toHaveBeenCalledTimes(3);
+    expect(countDeliveries(campaign)).toEqual({ pending: 0, delivered: 3, rejected: 0, expired: 0 });
+    expect(getRotationCampaign()).toBe(campaign);
+  });
+
+  it("should retry offline recipients with backoff and give up on rejections", async () => {
+    vi.useFakeTimers();
+    outcomes[BOB] = { code: EXIT_OFFLINE, message: "Peer offline" };
+    outcomes[CAROL] = { code: EXIT_REJECTED, message: "invalid key rotation" };
+    const campaign = startRotationCampaign(rotation("old-key", "new-key"));
+
+    await processRotationCampaigns();
+    expect(countDeliveries(campaign)).toEqual({ pending: 1, delivered: 1, rejected: 1, expired: 0 });
+    const bob = campaign.recipients.find((r) => r.peerKey === BOB);
+    expect(bob).toMatchObject({ attempts: 1, lastError: "Peer offline" });
+
+    // Not due yet
+    await processRotationCampaigns();
+    expect(sendKeyRotation).toHaveBeenCalledTimes(3);
+
+    outcomes[BOB] = { code: EXIT_OK };
+    vi.advanceTimersByTime(30000);
+    await processRotationCampaigns();
+    expect(bob?.status).toBe("delivered");
+    expect(sendKeyRotation).toHaveBeenCalledTimes(4);
+  });
+
+  it("should expire recipients still pending when the grace period ends", async () => {
+    vi.useFakeTimers();
+    outcomes[ALICE] = { code: EXIT_OFFLINE, message: "Peer offline" };
+    const campaign = startRotationCampaign(rotation("old-key", "new-key", 60000));
+    await processRotationCampaigns();
+
+    vi.advanceTimersByTime(60000);
+    await processRotationCampaigns();
+    const alice = campaign.recipients.find((r) => r.peerKey === ALICE);
+    expect(alice?.status).toBe("expired");
+    expect(sendKeyRotation).toHaveBeenCalledTimes(3);
+  });
+
+  it("should send a missed earlier rotation before a later one", async () => {
+    outcomes[ALICE] = { code: EXIT_OFFLINE };
+    const first = startRotationCampaign(rotation("key-1", "key-2"));
+    await processRotationCampaigns();
+    const second = startRotationCampaign(rotation("key-2", "key-3"));
+
+    // Alice comes back online
+    outcomes[ALICE] = { code: EXIT_OK };
+    flushRotationForPeer(ALICE);
+    await vi.waitFor(() => expect(first.recipients.find((r) => r.peerKey === ALICE)?.status).toBe("delivered"));
+    expect(second.recipients.find((r) => r.peerKey === ALICE)?.status).toBe("pending");
+
+    await processRotationCampaigns();
+    expect(countDeliveries(second).delivered).toBe(3);
+  });
+
+  it("should move a friend to the keys in their rotation", () => {
+    const original = initIdentity(true);
+    restoreFriends([friend(original.publicKey, "dana")], []);
+
+    const { identity, rotation: signed } = rotateIdentity();
+    expect(processFriendKeyRotation(signed)).toBe(true);
+    expect(getFriend("dana")).toMatchObject({
+      publicKey: identity.publicKey,
+      encryptPub: identity.encryptPub,
+      sessionName: "friend:p2p:dana",
+    });
+
+    // Tampered or replayed rotations are ignored
+    expect(processFriendKeyRotation({ ...signed, newSignPub: ALICE })).toBe(false);
+    expect(processFriendKeyRotation(signed)).toBe(false);
+  });
+});
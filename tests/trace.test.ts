@@ -0,0 +1,76 @@
+/**
+ * Unit tests for inject trace loop detection
+ */
+
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+
+import { setP2PConfig } from "../src/config.js";
+import {
+  beginTrace,
+  checkInboundTrace,
+  clearSessionTrace,
+  endTrace,
+  getSessionTrace,
+  newTrace,
+  nextHop,
+  resetTraces,
+  setSessionTrace,
+} from "../src/trace.js";
+
+describe("Inject Trace", () => {
+  beforeEach(() => {
+    resetTraces();
+  });
+
+  afterEach(() => {
+    setP2PConfig({ maxHops: undefined });
+  });
+
+  it("should start new traces at hop 0 with unique ids", () => {
+    const a = newTrace();
+    const b = newTrace();
+    expect(a.hops).toBe(0);
+    expect(a.traceId).not.toBe(b.traceId);
+  });
+
+  it("should keep the trace id and count a hop when forwarding", () => {
+    const trace = newTrace();
+    expect(nextHop(trace)).toEqual({ traceId: trace.traceId, hops: 1 });
+  });
+
+  it("should accept an inject for a trace this node is not part of", () => {
+    expect(checkInboundTrace(newTrace())).toBeNull();
+  });
+
+  it("should detect a loop while the trace is active", () => {
+    const trace = newTrace();
+    beginTrace(trace.traceId);
+    expect(checkInboundTrace(nextHop(nextHop(trace)))).toBe("loop detected");
+
+    endTrace(trace.traceId);
+    expect(checkInboundTrace(nextHop(nextHop(trace)))).toBeNull();
+  });
+
+  it("should keep a trace active until every user has ended it", () => {
+    const trace = newTrace();
+    beginTrace(trace.traceId);
+    beginTrace(trace.traceId);
+    endTrace(trace.traceId);
+    expect(checkInboundTrace(trace)).toBe("loop detected");
+  });
+
+  it("should enforce the configured hop limit", () => {
+    setP2PConfig({ maxHops: 2 });
+    expect(checkInboundTrace({ traceId: "t", hops: 1 })).toBeNull();
+    expect(checkInboundTrace({ traceId: "t", hops: 2 })).toBe("hop limit");
+  });
+
+  it("should track the trace each session is processing", () => {
+    const trace = newTrace();
+    setSessionTrace("main", trace);
+    expect(getSessionTrace("main")).toBe(trace);
+
+    clearSessionTrace("main");
+    expect(getSessionTrace("main")).toBeUndefined();
+  });
+});
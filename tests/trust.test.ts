@@ -379,6 +379,155 @@ describe("Authorization", () => {
     });
   });
 
+  describe("canSendFiles", () => {
+    it("should allow peer with files capability for the session", () => {
+      trust.grantAccess("files-key", ["s1"], ["files"]);
+      expect(trust.canSendFiles("files-key", "s1")).toBe(true);
+      expect(trust.canSendFiles("files-key", "s2")).toBe(false);
+    });
+
+    it("should not treat message or inject as files access", () => {
+      trust.grantAccess("msg-key", ["*"], ["message", "inject"]);
+      expect(trust.canSendFiles("msg-key", "s1")).toBe(false);
+    });
+  });
+
+  describe("per-session capabilities", () => {
+    it("should check each message type against the session's caps", () => {
+      trust.grantSessionCaps("matrix-key", { main: ["message"], "support-*": ["inject"] });
+
+      expect(trust.isAuthorized("matrix-key", "main", "log")).toBe(true);
+      expect(trust.isAuthorized("matrix-key", "main", "inject")).toBe(false);
+      expect(trust.isAuthorized("matrix-key", "support-eu", "inject")).toBe(true);
+      expect(trust.isAuthorized("matrix-key", "support-eu", "log")).toBe(true);
+      expect(trust.isAuthorized("matrix-key", "sales", "log")).toBe(false);
+    });
+
+    it("should keep caps separate when merging grants for different sessions", () => {
+      trust.grantAccess("merge-key", ["s1"], ["message"]);
+      const grant = trust.grantAccess("merge-key", ["s2"], ["inject", "files"]);
+
+      expect(trust.getSessionCaps(grant)).toEqual({ s1: ["message"], s2: ["inject", "files"] });
+      expect(trust.isAuthorized("merge-key", "s1", "inject")).toBe(false);
+      expect(trust.canSendFiles("merge-key", "s1")).toBe(false);
+      expect(trust.canSendFiles("merge-key", "s2")).toBe(true);
+    });
+
+    it("should match session globs", () => {
+      expect(trust.matchesSessionPattern("*", "anything")).toBe(true);
+      expect(trust.matchesSessionPattern("support-*", "support-eu")).toBe(true);
+      expect(trust.matchesSessionPattern("support-*", "support")).toBe(false);
+      expect(trust.matchesSessionPattern("*-prod", "api-prod")).toBe(true);
+      expect(trust.matchesSessionPattern("a.b", "axb")).toBe(false);
+    });
+
+    it("should treat grants without a map as sessions x caps", () => {
+      const legacy: AccessGrant = {
+        id: "g-legacy",
+        peerKey: "legacy-key",
+        sessions: ["s1", "s2"],
+        caps: ["inject"],
+        created: Date.now(),
+      };
+      trust.saveAccessGrants([legacy]);
+
+      expect(trust.getSessionCaps(legacy)).toEqual({ s1: ["inject"], s2: ["inject"] });
+      expect(trust.isAuthorized("legacy-key", "s2", "inject")).toBe(true);
+    });
+
+    it("should migrate stored grants to per-session caps on load", async () => {
+      const inserted: Record<string, unknown>[] = [];
+      trust.setTrustStorage({
+        raw: vi.fn(async () => []),
+        getRepository: () => ({
+          findMany: async () => [{ id: "g-row", peerKey: "row-key", sessions: ["s1"], caps: ["message"], created: 1 }],
+          insert: async (row: Record<string, unknown>) => inserted.push(row),
+        }),
+      });
+
+      await trust.loadTrustData();
+      await vi.waitFor(() => expect(inserted.length).toBeGreaterThan(0));
+      expect(inserted[0].sessionCaps).toEqual({ s1: ["message"] });
+      expect(trust.getAccessGrants()[0].sessionCaps).toEqual({ s1: ["message"] });
+    });
+  });
+
+  describe("grant expiry and windows", () => {
+    // Local time, so the windows below line up with Date#getDay/getHours
+    const monday10am = new Date(2026, 0, 5, 10, 0).getTime();
+    const monday8pm = new Date(2026, 0, 5, 20, 0).getTime();
+    const saturday10am = new Date(2026, 0, 10, 10, 0).getTime();
+    const officeHours = [{ days: [1, 2, 3, 4, 5], start: "09:00", end: "18:00" }];
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should stop authorizing a grant once it expires", () => {
+      trust.grantAccess("expiring-key", ["s1"], ["message"], undefined, { expiresAt: Date.now() + 1000 });
+      expect(trust.isAuthorized("expiring-key", "s1")).toBe(true);
+
+      vi.useFakeTimers({ now: Date.now() + 2000 });
+      expect(trust.isAuthorized("expiring-key", "s1")).toBe(false);
+    });
+
+    it("should only authorize inside the grant's windows", () => {
+      trust.grantAccess("office-key", ["s1"], ["message"], undefined, { windows: officeHours });
+
+      vi.useFakeTimers({ now: monday10am });
+      expect(trust.isAuthorized("office-key", "s1")).toBe(true);
+      vi.setSystemTime(monday8pm);
+      expect(trust.isAuthorized("office-key", "s1")).toBe(false);
+      vi.setSystemTime(saturday10am);
+      expect(trust.isAuthorized("office-key", "s1")).toBe(false);
+    });
+
+    it("should carry windows that end before they start past midnight", () => {
+      const nights = [{ days: [1], start: "22:00", end: "06:00" }];
+      expect(trust.inGrantWindow(nights, new Date(2026, 0, 5, 23, 0).getTime())).toBe(true);
+      expect(trust.inGrantWindow(nights, new Date(2026, 0, 6, 5, 59).getTime())).toBe(true);
+      expect(trust.inGrantWindow(nights, new Date(2026, 0, 6, 6, 0).getTime())).toBe(false);
+      expect(trust.inGrantWindow(nights, new Date(2026, 0, 5, 5, 0).getTime())).toBe(false);
+    });
+
+    it("should reject malformed windows", () => {
+      expect(() =>
+        trust.grantAccess("bad-key", ["s1"], ["message"], undefined, {
+          windows: [{ days: [7], start: "09:00", end: "18:00" }],
+        }),
+      ).toThrow("Window days");
+      expect(() =>
+        trust.grantAccess("bad-key", ["s1"], ["message"], undefined, {
+          windows: [{ days: [1], start: "9am", end: "18:00" }],
+        }),
+      ).toThrow("HH:MM");
+    });
+
+    it("should revoke expired grants when swept", () => {
+      const now = Date.now();
+      trust.grantAccess("swept-key", ["s1"], ["message"], undefined, { expiresAt: now + 1000 });
+      trust.grantAccess("lasting-key", ["s1"], ["message"]);
+
+      expect(trust.expireGrants(now)).toEqual([]);
+      const expired = trust.expireGrants(now + 1000);
+      expect(expired.map((g: AccessGrant) => g.peerKey)).toEqual(["swept-key"]);
+      expect(trust.getAccessGrants().find((g: AccessGrant) => g.peerKey === "swept-key").revoked).toBe(true);
+      expect(trust.expireGrants(now + 2000)).toEqual([]);
+    });
+
+    it("should sweep on an interval and report each expired grant", () => {
+      vi.useFakeTimers();
+      trust.grantAccess("timer-key", ["s1"], ["message"], undefined, { expiresAt: Date.now() + 30000 });
+      const onExpired = vi.fn();
+      const stop = trust.startGrantSweeper(onExpired);
+
+      vi.advanceTimersByTime(60000);
+      expect(onExpired).toHaveBeenCalledTimes(1);
+      expect(onExpired.mock.calls[0][0].peerKey).toBe("timer-key");
+      stop();
+    });
+  });
+
   describe("getGrantForPeer", () => {
     it("should find grant by current key", () => {
       trust.grantAccess("grant-peer-key", ["s1"], ["message"]);
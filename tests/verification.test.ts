@@ -0,0 +1,96 @@
+/**
+ * Unit tests for safety numbers and key verification
+ */
+
+import { mkdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { getRecentEvents, resetEvents } from "../src/events.js";
+import { getFriend, processFriendKeyRotation, restoreFriends } from "../src/friends.js";
+import { computeSafetyNumber, initIdentity, rotateIdentity } from "../src/identity.js";
+import { addPeer, findPeer, processPeerKeyRotation } from "../src/trust.js";
+import type { Friend, Identity } from "../src/types.js";
+import { getContactVerification, unverifyContact, verifyContact } from "../src/verification.js";
+
+const TEST_DATA_DIR = join(tmpdir(), `wopr-p2p-test-verification-${process.pid}`);
+
+const BOB = "b2".repeat(32);
+
+function friend(publicKey: string, name: string): Friend {
+  return {
+    name,
+    publicKey,
+    encryptPub: "enc",
+    sessionName: `friend:p2p:${name}`,
+    addedAt: 0,
+    caps: ["message"],
+    channel: "discord",
+  };
+}
+
+describe("Key Verification", () => {
+  let identity: Identity;
+
+  beforeEach(() => {
+    mkdirSync(TEST_DATA_DIR, { recursive: true });
+    process.env.WOPR_P2P_DATA_DIR = TEST_DATA_DIR;
+    resetEvents();
+    identity = initIdentity(true);
+    addPeer(BOB, ["*"], ["inject"], "enc");
+    restoreFriends([friend(BOB, "bob")], []);
+    unverifyContact(BOB);
+  });
+
+  afterEach(() => {
+    delete process.env.WOPR_P2P_DATA_DIR;
+    rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it("should give both sides the same safety number", () => {
+    const number = computeSafetyNumber(identity.publicKey, BOB);
+    expect(number).toMatch(/^\d{5}( \d{5}){11}$/);
+    expect(computeSafetyNumber(BOB, identity.publicKey)).toBe(number);
+    expect(computeSafetyNumber(identity.publicKey, "c3".repeat(32))).not.toBe(number);
+  });
+
+  it("should mark the peer and friend verified only when the numbers match", () => {
+    const status = getContactVerification("bob");
+    expect(status).toMatchObject({ name: "bob", verified: false, peer: true, friend: true });
+
+    const wrong = computeSafetyNumber(identity.publicKey, "c3".repeat(32));
+    expect(() => verifyContact("bob", wrong)).toThrow(/does not match/);
+    expect(findPeer(BOB)?.verified).toBeUndefined();
+
+    // Spacing does not matter
+    const verified = verifyContact("bob", status.safetyNumber.replace(/ /g, ""));
+    expect(verified.verified).toBe(true);
+    expect(findPeer(BOB)?.verified).toBe(true);
+    expect(getFriend("bob")?.verifiedAt).toBeTypeOf("number");
+
+    expect(unverifyContact("bob").verified).toBe(false);
+    expect(getFriend("bob")?.verified).toBeUndefined();
+  });
+
+  it("should refuse unknown contacts", () => {
+    expect(() => getContactVerification("nobody")).toThrow(/Unknown peer or friend/);
+  });
+
+  it("should clear the mark when a verified contact rotates keys", () => {
+    // The identity plays the contact that rotates
+    const contact = initIdentity(true);
+    addPeer(contact.publicKey, ["*"], ["inject"], contact.encryptPub);
+    restoreFriends([friend(contact.publicKey, "dana")], []);
+    verifyContact(contact.publicKey, computeSafetyNumber(contact.publicKey, contact.publicKey));
+
+    const { identity: rotated, rotation } = rotateIdentity();
+    expect(processPeerKeyRotation(rotation)).toBe(true);
+    expect(processFriendKeyRotation(rotation)).toBe(true);
+
+    expect(findPeer(rotated.publicKey)).toMatchObject({ verified: undefined, verifiedAt: undefined });
+    expect(getFriend("dana")?.verified).toBeUndefined();
+    const cleared = getRecentEvents().filter((e) => e.type === "verification-cleared");
+    expect(cleared.map((e) => e.type === "verification-cleared" && e.contact).sort()).toEqual(["friend", "peer"]);
+  });
+});